@@ -139,7 +139,7 @@ function AppContent() {
 
   // Effect to automatically close modals when entering a game room context
   useEffect(() => {
-      if (activeRoomId && (activeRoomStatus === 'confirming_wager' || activeRoomStatus === 'playing')) {
+      if (activeRoomId && (activeRoomStatus === 'confirming_wager' || activeRoomStatus === 'playing' || activeRoomStatus === 'opening' || activeRoomStatus === 'choosing_side')) {
           socialHub?.closeHub();
           setShowSettingsModal(false);
           setInviteData(null);
@@ -1,9 +1,11 @@
 
-import React, { useContext } from 'react';
+import React, { useContext, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { BoardState, WinningLine } from '../types';
 import Square from './Square';
 import { AppContext } from '../contexts/AppContext';
+import { getDropIndex, getActiveSubBoards, getMetaBoard, toGridPosition, toCubePosition, getHexRows, toHexGridPosition, SUB_BOARD_CELLS, ULTIMATE_BOARD_SIZE } from '../shared/rules';
+import { XIcon, OIcon } from './Icons';
 
 interface BoardProps {
   squares: BoardState;
@@ -14,27 +16,189 @@ interface BoardProps {
   hintedSquare: number | null;
   skin?: string;
   isSummary?: boolean;
+  // Gravity: any square picks its column, and the click goes to the cell the piece will land on
+  columnInput?: boolean;
+  // Ultimate: squares are nine 3x3 boards stored one after another (see shared/rules/ultimate)
+  nested?: boolean;
+  // Qubic: squares are boardSize layers of boardSize x boardSize, shown one at a time with a layer selector
+  layered?: boolean;
+  // The previous placement, which in Ultimate decides the sub-board(s) the next move is sent to
+  lastMove?: number;
+  // Decay: pieces that go with their owner's next placement
+  fadingSquares?: number[];
+  // Lines wrap across the edges, so a winning line may leave one side and come back on the other
+  toroidal?: boolean;
+  // Fog: squares the viewer can't see. Whatever is on them isn't drawn.
+  hiddenSquares?: number[];
+  // Sudden Death: empty squares the next collapse takes, once it is close, and the ones the latest collapse took
+  collapsingSquares?: number[];
+  collapsedSquares?: number[];
+  // Hex: squares are the cells of a hexagon with boardSize cells a side, row by row (see shared/rules/hex)
+  hex?: boolean;
 }
 
-const Board: React.FC<BoardProps> = ({ squares, boardSize, onSquareClick, winningLine, disabled, hintedSquare, skin, isSummary = false }) => {
+const Board: React.FC<BoardProps> = ({ squares, boardSize, onSquareClick, winningLine, disabled, hintedSquare, skin, isSummary = false, columnInput = false, nested = false, layered = false, lastMove, fadingSquares = [], toroidal = false, hiddenSquares = [], collapsingSquares = [], collapsedSquares = [], hex = false }) => {
   const context = useContext(AppContext);
+  const [hoveredColumn, setHoveredColumn] = useState<number | null>(null);
+  const [activeLayer, setActiveLayer] = useState(0);
   const gridStyle = { gridTemplateColumns: `repeat(${boardSize}, minmax(0, 1fr))` };
+  // A hex board is 2 * boardSize - 1 cells across at its widest row, and its squares are sized to match
+  const hexWidth = 2 * boardSize - 1;
+
+  // Follow play onto the layer of the latest move, and of the hint when one is shown
+  const focusCell = hintedSquare ?? lastMove;
+  useEffect(() => {
+      if (layered && focusCell !== undefined && focusCell !== null && focusCell >= 0) setActiveLayer(toCubePosition(focusCell, boardSize).layer);
+  }, [layered, focusCell, boardSize]);
+
+  const dropTarget = columnInput && !disabled && hoveredColumn !== null ? getDropIndex(squares, hoveredColumn, boardSize) : null;
+
+  const handleClick = (index: number) => {
+      if (disabled) return;
+      if (!columnInput) return onSquareClick(index);
+      const target = getDropIndex(squares, index % boardSize, boardSize);
+      if (target !== null) onSquareClick(target);
+  };
+
+  const renderSquare = (index: number) => (
+      <Square
+          value={hiddenSquares.includes(index) ? null : squares[index]}
+          onClick={() => handleClick(index)}
+          isWinner={winningLine?.includes(index) ?? false}
+          isHinted={index === hintedSquare}
+          isDropTarget={index === dropTarget}
+          isFading={fadingSquares.includes(index)}
+          isHidden={hiddenSquares.includes(index)}
+          isCollapsing={collapsingSquares.includes(index)}
+          justCollapsed={collapsedSquares.includes(index)}
+          hex={hex}
+          boardSize={hex ? Math.min(10, hexWidth) : boardSize}
+          skin={skin}
+          cursor={disabled ? 'not-allowed' : 'pointer'}
+          isSummary={isSummary}
+      />
+  );
+
+  if (nested) {
+      const meta = getMetaBoard(squares);
+      const sentTo = winningLine ? [] : getActiveSubBoards(squares, lastMove);
+      return (
+        <div className={`relative bg-white/60 dark:bg-black/20 backdrop-blur-md rounded-lg shadow-lg border border-white/40 dark:border-white/10 transition-colors duration-300 ${isSummary ? 'p-2' : 'p-3'}`}>
+            <div className="relative grid grid-cols-3 gap-2">
+                {meta.map((result, sub) => (
+                    <div
+                        key={sub}
+                        className={`relative grid grid-cols-3 rounded-lg transition-all duration-300 ${sentTo.includes(sub) && !isSummary ? 'ring-2 ring-emerald-400/70 bg-emerald-400/10' : 'bg-black/5 dark:bg-white/5'}`}
+                    >
+                        {Array.from({ length: SUB_BOARD_CELLS }, (_, cell) => sub * SUB_BOARD_CELLS + cell).map(index => (
+                            <div key={index} className="relative">
+                                {renderSquare(index)}
+                                {!isSummary && context?.preferences.showCoordinates && (
+                                    <span className="absolute top-1 left-2 text-[8px] font-mono text-gray-500 pointer-events-none opacity-60">
+                                        {String.fromCharCode(65 + toGridPosition(index).col)}{toGridPosition(index).row + 1}
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                        {(result === 'X' || result === 'O') && (
+                            <motion.div
+                                initial={isSummary ? false : { scale: 0, opacity: 0 }}
+                                animate={{ scale: 1, opacity: 1 }}
+                                className="absolute inset-0 z-10 p-3 pointer-events-none flex items-center justify-center bg-white/40 dark:bg-black/40 rounded-lg"
+                            >
+                                {result === 'X'
+                                    ? <XIcon className="w-full h-full text-[var(--color-brand-x)] opacity-80" />
+                                    : <OIcon className="w-full h-full text-[var(--color-brand-o)] opacity-80" />}
+                            </motion.div>
+                        )}
+                    </div>
+                ))}
+                {winningLine && <WinningLineIndicator line={winningLine} boardSize={ULTIMATE_BOARD_SIZE} toPosition={toGridPosition} />}
+            </div>
+        </div>
+      );
+  }
+
+  if (layered) {
+      const layerCells = boardSize * boardSize;
+      const cellsOf = (layer: number) => Array.from({ length: layerCells }, (_, cell) => layer * layerCells + cell);
+      // The summary has no selector, so it shows every layer at once
+      const shownLayers = isSummary ? Array.from({ length: boardSize }, (_, layer) => layer) : [activeLayer];
+      return (
+        <div className={`relative bg-white/60 dark:bg-black/20 backdrop-blur-md rounded-lg shadow-lg border border-white/40 dark:border-white/10 transition-colors duration-300 ${isSummary ? 'p-2' : 'p-3'}`}>
+            {!isSummary && (
+                <div className="flex gap-2 mb-3">
+                    {Array.from({ length: boardSize }, (_, layer) => (
+                        <button
+                            key={layer}
+                            onClick={() => setActiveLayer(layer)}
+                            aria-pressed={layer === activeLayer}
+                            className={`flex-1 flex items-center gap-2 px-2 py-1.5 rounded-lg border text-[10px] font-bold uppercase tracking-wider transition-all
+                                ${layer === activeLayer ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300' : 'bg-white/5 border-transparent text-gray-400 hover:bg-white/10'}`}
+                        >
+                            <LayerPreview squares={squares} cells={cellsOf(layer)} boardSize={boardSize} winningLine={winningLine} />
+                            L{layer + 1}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className={isSummary ? 'grid grid-cols-2 gap-2' : ''}>
+                {shownLayers.map(layer => (
+                    <div key={layer} className="relative grid rounded-lg bg-black/5 dark:bg-white/5" style={gridStyle}>
+                        {cellsOf(layer).map(index => (
+                            <div key={index} className="relative">
+                                {renderSquare(index)}
+                                {!isSummary && context?.preferences.showCoordinates && (
+                                    <span className="absolute top-2 left-3 text-[10px] font-mono text-gray-500 pointer-events-none opacity-60">
+                                        {String.fromCharCode(65 + (index % boardSize))}{Math.floor(index / boardSize) % boardSize + 1}·{layer + 1}
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+      );
+  }
+
+  if (hex) {
+      // Rows are centred, which offsets each by half a cell from the next, and overlap by a quarter of a
+      // cell so the hexagons interlock. The margin is a share of the board's width, one cell across.
+      return (
+        <div className={`relative bg-white/60 dark:bg-black/20 backdrop-blur-md rounded-lg shadow-lg border border-white/40 dark:border-white/10 transition-colors duration-300 ${isSummary ? 'p-2' : 'p-3'}`}>
+            <div className="relative">
+                {getHexRows(boardSize).map((row, r) => (
+                    <div key={r} className="flex justify-center" style={r > 0 ? { marginTop: `${-25 / hexWidth}%` } : undefined}>
+                        {row.map((index, position) => (
+                            <div key={index} className="relative">
+                                {renderSquare(index)}
+                                {!isSummary && context?.preferences.showCoordinates && (
+                                    <span className="absolute top-1/4 left-1/2 -translate-x-1/2 text-[10px] font-mono text-gray-500 pointer-events-none opacity-60">
+                                        {String.fromCharCode(65 + r)}{position + 1}
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+                {winningLine && <WinningLineIndicator line={winningLine} boardSize={hexWidth} toPosition={index => toHexGridPosition(index, boardSize)} rowPitch={0.75} />}
+            </div>
+        </div>
+      );
+  }
 
   return (
     <div className={`relative bg-white/60 dark:bg-black/20 backdrop-blur-md rounded-lg shadow-lg border border-white/40 dark:border-white/10 transition-colors duration-300 ${isSummary ? 'p-2' : 'p-3'}`}>
         <div className="relative grid" style={gridStyle}>
-            {squares.map((value, index) => (
-                <div key={index} className="relative">
-                    <Square
-                        value={value}
-                        onClick={() => !disabled && onSquareClick(index)}
-                        isWinner={winningLine?.includes(index) ?? false}
-                        isHinted={index === hintedSquare}
-                        boardSize={boardSize}
-                        skin={skin}
-                        cursor={disabled ? 'not-allowed' : 'pointer'}
-                        isSummary={isSummary}
-                    />
+            {squares.map((_, index) => (
+                <div
+                    key={index}
+                    className="relative"
+                    onMouseEnter={columnInput ? () => setHoveredColumn(index % boardSize) : undefined}
+                    onMouseLeave={columnInput ? () => setHoveredColumn(null) : undefined}
+                >
+                    {renderSquare(index)}
                     {!isSummary && context?.preferences.showCoordinates && (
                         <span className="absolute top-2 left-3 text-[10px] font-mono text-gray-500 pointer-events-none opacity-60">
                             {String.fromCharCode(65 + (index % boardSize))}{Math.floor(index / boardSize) + 1}
@@ -42,44 +206,90 @@ const Board: React.FC<BoardProps> = ({ squares, boardSize, onSquareClick, winnin
                     )}
                 </div>
             ))}
-            {winningLine && <WinningLineIndicator line={winningLine} boardSize={boardSize} />}
+            {winningLine && <WinningLineIndicator line={winningLine} boardSize={boardSize} toroidal={toroidal} />}
         </div>
     </div>
   );
 };
 
-const WinningLineIndicator: React.FC<{ line: number[]; boardSize: number }> = ({ line, boardSize }) => {
+// A tiny map of one Qubic layer for the layer selector
+const LayerPreview: React.FC<{ squares: BoardState; cells: number[]; boardSize: number; winningLine: WinningLine | null }> = ({ squares, cells, boardSize, winningLine }) => (
+    <div className="grid gap-px w-5 h-5 shrink-0" style={{ gridTemplateColumns: `repeat(${boardSize}, minmax(0, 1fr))` }}>
+        {cells.map(index => (
+            <span
+                key={index}
+                className={`rounded-[1px] ${winningLine?.includes(index)
+                    ? 'bg-yellow-300'
+                    : squares[index] === 'X' ? 'bg-[var(--color-brand-x)]' : squares[index] === 'O' ? 'bg-[var(--color-brand-o)]' : squares[index] === 'OBSTACLE' ? 'bg-gray-500' : 'bg-white/10'}`}
+            />
+        ))}
+    </div>
+);
+
+// On a toroidal board the line is followed from its first cell in the order it was found, so its far
+// end may lie off the board. It is then drawn once more from each neighbouring copy of the board and
+// clipped, which shows it leaving one edge and coming back in on the opposite one.
+// rowPitch is the distance between rows in cell heights, for boards whose rows overlap (Hex).
+const WinningLineIndicator: React.FC<{ line: number[]; boardSize: number; toPosition?: (index: number) => { row: number; col: number }; toroidal?: boolean; rowPitch?: number }> = ({ line, boardSize, toPosition, toroidal = false, rowPitch = 1 }) => {
     if (!line || line.length < 2) return null;
-    const sorted = [...line].sort((a, b) => a - b);
-    const start = sorted[0];
-    const end = sorted[sorted.length - 1];
-    const r1 = Math.floor(start / boardSize), c1 = start % boardSize;
-    const r2 = Math.floor(end / boardSize), c2 = end % boardSize;
+    const position = toPosition || ((index: number) => ({ row: Math.floor(index / boardSize), col: index % boardSize }));
+    let start: { row: number; col: number };
+    let end: { row: number; col: number };
+    if (toroidal) {
+        const second = position(line[1]);
+        start = position(line[0]);
+        // One step along the line: 0, 1, or boardSize - 1 (a step back) once wrapped
+        const stepOf = (delta: number) => {
+            const wrapped = (delta + boardSize) % boardSize;
+            return wrapped > 1 ? -1 : wrapped;
+        };
+        const dr = stepOf(second.row - start.row);
+        const dc = stepOf(second.col - start.col);
+        end = { row: start.row + dr * (line.length - 1), col: start.col + dc * (line.length - 1) };
+    } else {
+        const sorted = [...line].sort((a, b) => a - b);
+        start = position(sorted[0]);
+        end = position(sorted[sorted.length - 1]);
+    }
+    const wraps = end.row < 0 || end.row >= boardSize || end.col < 0 || end.col >= boardSize;
+    const shifts = wraps ? [-boardSize, 0, boardSize] : [0];
     const step = 100 / boardSize;
+    const rowStep = 100 / ((boardSize - 1) * rowPitch + 1);
+
+    const renderLine = (rowShift: number, colShift: number) => {
+        const points = {
+            x1: `${(start.col + colShift + 0.5) * step}%`, y1: `${((start.row + rowShift) * rowPitch + 0.5) * rowStep}%`,
+            x2: `${(end.col + colShift + 0.5) * step}%`, y2: `${((end.row + rowShift) * rowPitch + 0.5) * rowStep}%`
+        };
+        return (
+            <g key={`${rowShift}:${colShift}`}>
+                {/* Outer Glow Line */}
+                <motion.line
+                    {...points}
+                    initial={{ pathLength: 0, opacity: 0 }} 
+                    animate={{ pathLength: 1, opacity: 0.5 }}
+                    transition={{ duration: 0.5, ease: "easeInOut" }}
+                    stroke="#22d3ee" 
+                    strokeWidth="16" 
+                    strokeLinecap="round"
+                />
+                {/* Inner Core Line */}
+                <motion.line
+                    {...points}
+                    initial={{ pathLength: 0, opacity: 0 }} 
+                    animate={{ pathLength: 1, opacity: 1 }}
+                    transition={{ duration: 0.5, ease: "easeInOut" }}
+                    stroke="white" 
+                    strokeWidth="6" 
+                    strokeLinecap="round"
+                />
+            </g>
+        );
+    };
+
     return (
-        <svg className="absolute inset-0 w-full h-full pointer-events-none z-20 overflow-visible filter drop-shadow-[0_0_15px_rgba(34,211,238,0.8)]">
-            {/* Outer Glow Line */}
-            <motion.line
-                x1={`${(c1 + 0.5) * step}%`} y1={`${(r1 + 0.5) * step}%`}
-                x2={`${(c2 + 0.5) * step}%`} y2={`${(r2 + 0.5) * step}%`}
-                initial={{ pathLength: 0, opacity: 0 }} 
-                animate={{ pathLength: 1, opacity: 0.5 }}
-                transition={{ duration: 0.5, ease: "easeInOut" }}
-                stroke="#22d3ee" 
-                strokeWidth="16" 
-                strokeLinecap="round"
-            />
-            {/* Inner Core Line */}
-            <motion.line
-                x1={`${(c1 + 0.5) * step}%`} y1={`${(r1 + 0.5) * step}%`}
-                x2={`${(c2 + 0.5) * step}%`} y2={`${(r2 + 0.5) * step}%`}
-                initial={{ pathLength: 0, opacity: 0 }} 
-                animate={{ pathLength: 1, opacity: 1 }}
-                transition={{ duration: 0.5, ease: "easeInOut" }}
-                stroke="white" 
-                strokeWidth="6" 
-                strokeLinecap="round"
-            />
+        <svg className={`absolute inset-0 w-full h-full pointer-events-none z-20 ${wraps ? 'overflow-hidden' : 'overflow-visible'} filter drop-shadow-[0_0_15px_rgba(34,211,238,0.8)]`}>
+            {shifts.flatMap(rowShift => shifts.map(colShift => renderLine(rowShift, colShift)))}
         </svg>
     );
 }
@@ -4,7 +4,7 @@ import { motion } from 'framer-motion';
 import { onlineService } from '../services/online';
 import { AuthContext } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
-import { ShieldIcon, PlusIcon, SearchIcon, LogoutIcon } from './Icons';
+import { ShieldIcon, PlusIcon, SearchIcon, LogoutIcon, PlayersIcon } from './Icons';
 import { Clan } from '../types';
 import { UserAvatar } from './Avatars';
 
@@ -16,6 +16,7 @@ const ClanHub: React.FC = () => {
     const [searchTag, setSearchTag] = useState('');
     const [createData, setCreateData] = useState({ name: '', tag: '' });
     const [view, setView] = useState<'info' | 'create' | 'search'>('info');
+    const [teamRoomId, setTeamRoomId] = useState<string | null>(null);
 
     useEffect(() => {
         if (auth?.currentUser?.clanId) {
@@ -78,6 +79,18 @@ const ClanHub: React.FC = () => {
         }
     };
 
+    // Clanmates pair up in a 2v2 room: the first invite hosts it, later ones fill the other seats
+    const handleTeamInvite = async (memberId: string, memberName: string) => {
+        try {
+            const roomId = teamRoomId ?? await onlineService.createRoom({ teams: true, boardSize: 7, winLength: 4 }, 'bronze');
+            setTeamRoomId(roomId);
+            onlineService.sendInvite(memberId, roomId);
+            toast.success(`Invited ${memberName} to your 2v2 room`);
+        } catch (e: any) {
+            toast.error(e.message);
+        }
+    };
+
     if (isLoading) {
         return <div className="flex items-center justify-center h-48"><div className="animate-spin w-8 h-8 border-2 border-cyan-500 rounded-full border-t-transparent"></div></div>;
     }
@@ -112,6 +125,15 @@ const ClanHub: React.FC = () => {
                                 {member.id === clan.ownerId && (
                                     <span className="text-[9px] bg-yellow-100 dark:bg-yellow-500/20 text-yellow-600 dark:text-yellow-400 px-2 py-0.5 rounded border border-yellow-200 dark:border-yellow-500/30 font-bold uppercase tracking-wider">Leader</span>
                                 )}
+                                {member.id !== auth?.currentUser?.id && (
+                                    <button
+                                        onClick={() => handleTeamInvite(member.id, member.displayName)}
+                                        title="Invite to a 2v2 room"
+                                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider text-indigo-500 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/20 hover:bg-indigo-100 dark:hover:bg-indigo-500/20 transition-colors"
+                                    >
+                                        <PlayersIcon className="w-3 h-3" /> 2v2
+                                    </button>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -1,8 +1,8 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useContext, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { BoardState, GameMode, Player, Move, GameSettings, GameVariant, MatchRecord, PlayerRole, CampaignLevel, Difficulty } from '../types';
-import { checkWinner, findWinningMove } from '../utils/gameLogic';
+import { BoardState, GameMode, Player, Move, GameSettings, GameVariant, MatchRecord, PlayerRole, CampaignLevel, Difficulty, PowerUp, ClockSync, SideChoice } from '../types';
+import { replayMoves, getRatingPool, getVariantRules, getLastPlacement, getDecayingPiece, getFogHiddenCells, isMisereVariant, getSeats, formatPlace, isTeamGame, getSide, getTeamSeats, TEAM_SIZE, createObstacleSeed, createSeededRandom, applyMoveToBoard, getDueCollapse, getCollapsingCells, getMovesUntilCollapse, COLLAPSE_WARNING_MOVES } from '../shared/rules';
 import { findBestMove } from '../services/ai';
 import { saveMatch } from '../services/history';
 import Board from './Board';
@@ -14,7 +14,7 @@ import Tooltip from './Tooltip';
 import { useToast } from '../contexts/ToastContext';
 import GameSummary from './GameSummary';
 import { progressService, CAMPAIGN_LEVELS, generateTowerLevel } from '../services/progress';
-import { getRank } from '../utils/badgeData';
+import { getRank, getPoolElo } from '../utils/badgeData';
 import { useSounds } from '../hooks/useSounds';
 import { getAuraTaunt } from '../services/genai';
 import Modal from './Modal';
@@ -27,7 +27,10 @@ import RematchModal from './RematchModal';
 
 // Sub-components
 import Badge from './game/Badge';
+import ObstacleCommitBadge from './game/ObstacleCommitBadge';
 import PowerUpBar from './game/PowerUpBar';
+import SymbolPicker from './game/SymbolPicker';
+import OpeningPanel from './game/OpeningPanel';
 import PlayerInfoPanel from './game/PlayerInfoPanel';
 import MobilePlayerInfo from './game/MobilePlayerInfo';
 import WaitingRoom from './game/WaitingRoom';
@@ -45,6 +48,18 @@ interface GameProps {
   isGuest?: boolean;
 }
 
+// Sudden Death's board event stage, as the server runs it between turns: once enough moves go by
+// without a winner, the next ring collapses and the collapse goes into the move list
+const runBoardEvents = (board: BoardState, moves: Move[], settings: GameSettings): { board: BoardState, moves: Move[] } => {
+  if (settings.variant !== GameVariant.SUDDEN_DEATH) return { board, moves };
+  const mover = moves[moves.length - 1]?.player ?? Player.X;
+  if (getVariantRules(settings.variant).getResult(board, settings, mover).winner) return { board, moves };
+  const collapsed = getDueCollapse(board, moves, settings);
+  if (!collapsed) return { board, moves };
+  const event: Move = { player: mover, index: -1, moveNumber: moves.length + 1, collapsed };
+  return { board: applyMoveToBoard(board, event), moves: [...moves, event] };
+};
+
 export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: initialSettings, playerNames, campaignLevel, onNextLevel, isGuest = false }) => {
   const isOnline = gameMode === GameMode.ONLINE;
   // Retrieve room data from store if online
@@ -72,32 +87,39 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
   useEffect(() => {
       if (onlineRoom) {
           onlineRoom.players.forEach(p => {
-              if (p.role === Player.X || p.role === Player.O) {
+              if (p.role !== 'spectator') {
                   cachedPlayers.current[p.role] = p.user;
               }
           });
       }
   }, [onlineRoom]);
 
+  const rules = useMemo(() => getVariantRules(variant), [variant]);
+  // Free-for-all and 2v2 rooms seat Triangle and Square after X and O. In 2v2 they play for X and O.
+  const seats = useMemo(() => getSeats(gameSettings), [gameSettings]);
+  const isTeams = isTeamGame(gameSettings);
+  const isMultiSeat = seats.length > 2;
+  const isFfa = isMultiSeat && !isTeams;
+  // The seat row lists 2v2 players pair by pair
+  const rowSeats = isTeams ? [...getTeamSeats(Player.X), ...getTeamSeats(Player.O)] : seats;
+
+  // Local obstacles are seeded too, so a saved game records the seed its layout came from
+  const obstacleSeedRef = useRef<string | undefined>(undefined);
   const createInitialBoard = useCallback(() => {
-    const board = Array(boardSize * boardSize).fill(null);
-    if (obstacles) {
-      let obstacleCount = Math.max(1, Math.floor(boardSize * boardSize / 10));
-      while (obstacleCount > 0) {
-        const index = Math.floor(Math.random() * board.length);
-        if (board[index] === null) {
-          board[index] = 'OBSTACLE';
-          obstacleCount--;
-        }
-      }
-    }
-    return board;
-  }, [boardSize, obstacles]);
+    obstacleSeedRef.current = obstacles ? createObstacleSeed() : undefined;
+    const random = obstacleSeedRef.current ? createSeededRandom(obstacleSeedRef.current) : undefined;
+    return rules.createInitialBoard({ boardSize, winLength, obstacles, obstacleLayout: gameSettings.obstacleLayout }, random);
+  }, [rules, boardSize, winLength, obstacles, gameSettings.obstacleLayout]);
 
   const getInitialPowerUps = useCallback(() => {
       if (gameSettings.powerUps === false) return { [Player.X]: {}, [Player.O]: {} };
+      const withoutDisabled = (set: { [key in PowerUp]?: boolean }) => {
+          const allowed = { ...set };
+          rules.disabledPowerUps.forEach(p => { allowed[p] = false; });
+          return allowed;
+      };
       if (gameMode === GameMode.LOCAL) {
-          const fullSet = { undo: true, hint: true, destroy: true, wall: true, double: true, convert: true };
+          const fullSet = withoutDisabled({ undo: true, hint: true, destroy: true, wall: true, double: true, convert: true });
           return { [Player.X]: { ...fullSet }, [Player.O]: { ...fullSet } };
       }
       const inv = auth?.currentUser?.inventory || [];
@@ -107,11 +129,11 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
       const hasDouble = inv.includes('powerup-double') || isGuestUser;
       const hasConvert = inv.includes('powerup-convert') || isGuestUser;
 
-      const playerSet = { undo: true, hint: true, destroy: hasDestroy, wall: hasWall, double: hasDouble, convert: hasConvert };
+      const playerSet = withoutDisabled({ undo: true, hint: true, destroy: hasDestroy, wall: hasWall, double: hasDouble, convert: hasConvert });
       return { [Player.X]: playerSet, [Player.O]: playerSet };
-  }, [gameMode, auth?.currentUser, gameSettings.powerUps, isGuest]);
+  }, [gameMode, auth?.currentUser, gameSettings.powerUps, isGuest, rules]);
 
-  const [board, setBoard] = useState<BoardState>(isOnline && onlineRoom ? onlineRoom.board : createInitialBoard());
+  const [board, setBoard] = useState<BoardState>(() => isOnline && onlineRoom ? onlineRoom.board : createInitialBoard());
   
   const [currentPlayer, setCurrentPlayer] = useState<Player>(() => {
       if (isOnline && onlineRoom) return onlineRoom.currentPlayer;
@@ -127,15 +149,31 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
   const [moves, setMoves] = useState<Move[]>(isOnline && onlineRoom ? onlineRoom.moves : []);
   const [initialBoard, setInitialBoard] = useState<BoardState>(isOnline && onlineRoom ? onlineRoom.initialBoard : board);
   
+  // Ultimate sends each move to the sub-board matching the previous one
+  const lastMove = useMemo(() => getLastPlacement(moves), [moves]);
+  // Decay: each side's oldest piece once it is at the limit, which goes with its next placement
+  const fadingSquares = useMemo(() => {
+      const limit = rules.pieceLimit(gameSettings);
+      return [Player.X, Player.O].flatMap(p => getDecayingPiece(moves, p, limit) ?? []);
+  }, [moves, rules, gameSettings]);
+  // Sudden Death: moves until the next ring collapses, the empty cells it takes once it is close,
+  // and the cells a collapse took while it is still the latest entry
+  const collapseIn = useMemo(() => variant === GameVariant.SUDDEN_DEATH ? getMovesUntilCollapse(moves, gameSettings) : null, [variant, moves, gameSettings]);
+  const collapsingSquares = useMemo(() =>
+      collapseIn !== null && collapseIn <= COLLAPSE_WARNING_MOVES ? getCollapsingCells(board, moves, boardSize) : [],
+  [collapseIn, board, moves, boardSize]);
+  const collapsedSquares = moves[moves.length - 1]?.collapsed ?? [];
+
   const [powerUps, setPowerUps] = useState<any>(getInitialPowerUps());
   const [activePowerUp, setActivePowerUp] = useState<any | null>(null);
   const [hintedSquare, setHintedSquare] = useState<number | null>(null);
+  // Wild: the symbol picked for the next placement (null for the mover's own)
+  const [wildSymbol, setWildSymbol] = useState<Player | null>(null);
   
   const [turnTimer, setTurnTimer] = useState(TURN_DURATION);
-  const [blitzTimers, setBlitzTimers] = useState<{ [key in Player]: number }>({
-      [Player.X]: gameSettings.blitzDuration || 180,
-      [Player.O]: gameSettings.blitzDuration || 180
-  });
+  const [blitzTimers, setBlitzTimers] = useState<{ [key in Player]: number }>(() =>
+      Object.fromEntries(Object.values(Player).map(p => [p, gameSettings.blitzDuration || 180])) as { [key in Player]: number }
+  );
   const [doubleDownTimer, setDoubleDownTimer] = useState(30);
   
   const [aiTaunt, setAiTaunt] = useState<string>("");
@@ -151,25 +189,49 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
   const [authView, setAuthView] = useState<'login' | 'register'>('login');
   
   const prevStatusRef = useRef<string | null>(onlineRoom?.status || null);
+  const clockOffsetRef = useRef(0); // Server time minus local time, kept current by clockSync
 
   const mySeat = useMemo(() => onlineRoom?.players.find(p => p.user.id === userId), [onlineRoom, userId]);
   const isSpectator = !!(isOnline && (mySeat?.role === 'spectator' || auth?.currentUser?.isGuest || isGuest));
   const isMyTurnOnline = isOnline && onlineRoom && mySeat?.role === onlineRoom.currentPlayer && !onlineRoom.winner && onlineRoom.status === 'playing';
   const myRole = mySeat?.role;
+  // Gomoku Swap openings run before sides are settled; the clocks run as in normal play
+  const isRoomLive = isOnline && !!onlineRoom && ['playing', 'opening', 'choosing_side'].includes(onlineRoom.status);
+  const opening = isOnline ? onlineRoom?.opening : undefined;
+  const isMyOpeningPlacement = !!opening && onlineRoom?.status === 'opening' && mySeat?.role === opening.actor && !onlineRoom?.winner;
   
   const spectatorCount = useMemo(() => {
       if (!isOnline || !onlineRoom) return 0;
       return onlineRoom.players.filter(p => p.role === 'spectator').length;
   }, [isOnline, onlineRoom]);
 
+  // In a free-for-all, whichever other seat still in play has dropped
   const opponentSeat = useMemo(() => {
       if (!isOnline) return null;
-      return onlineRoom?.players.find(p => p.role !== 'spectator' && p.user.id !== userId);
+      const others = onlineRoom?.players.filter(p => p.role !== 'spectator' && p.user.id !== userId && onlineRoom.places?.[p.role] === undefined) || [];
+      return others.find(p => !p.connected) ?? others[0];
   }, [isOnline, onlineRoom, userId]);
 
   const opponentDisconnected = isOnline && opponentSeat && !opponentSeat.connected && !winner;
   const isPaused = isOnline && !!onlineRoom?.isPaused;
 
+  // Fog: the cells this seat can't see. The server has already blanked them; this marks them on the board.
+  const hiddenSquares = useMemo(() => {
+      if (variant !== GameVariant.FOG || !isRoomLive || winner || (myRole !== Player.X && myRole !== Player.O)) return [];
+      return getFogHiddenCells(board, moves, myRole, gameSettings);
+  }, [variant, isRoomLive, winner, myRole, board, moves, gameSettings]);
+
+  // Fog: a move that runs into a hidden piece leaves the board as it was, so say what happened
+  const seenMoveCountRef = useRef(moves.length);
+  useEffect(() => {
+      if (moves.length === seenMoveCountRef.current) return;
+      seenMoveCountRef.current = moves.length;
+      const last = moves[moves.length - 1];
+      if (!last?.blocked || isSpectator) return;
+      if (last.player === myRole) toast.error("A hidden piece was already there. Your turn is lost!");
+      else toast.info("Your opponent ran into one of your pieces.");
+  }, [moves, myRole, isSpectator, toast]);
+
   const getPlayerName = useCallback((player: Player) => {
       if (isOnline && onlineRoom) {
            const seat = onlineRoom.players.find(p => p.role === player);
@@ -246,7 +308,8 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
            const participant = onlineRoom.participants?.[targetRole];
            if (participant && participant.id === userId) return "YOU";
 
-           if (isSpectator) return targetRole === Player.X ? "PLAYER 1" : "PLAYER 2";
+           if (isSpectator) return `PLAYER ${seats.indexOf(targetRole) + 1}`;
+           if (isTeams && myRole && myRole !== 'spectator' && getSide(targetRole) === getSide(myRole)) return "TEAMMATE";
            return "OPPONENT";
       }
       if (gameMode === GameMode.CAMPAIGN || gameMode === GameMode.TOWER) {
@@ -256,16 +319,18 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
           return targetRole === Player.O ? "AURA AI" : "YOU";
       }
       return targetRole === Player.X ? "PLAYER 1" : "PLAYER 2";
-  }, [isOnline, onlineRoom, userId, isSpectator, gameMode]);
+  }, [isOnline, onlineRoom, userId, isSpectator, gameMode, seats, isTeams, myRole]);
 
   const getPlayerElo = useCallback((player: Player) => {
       if (isOnline && onlineRoom) {
+          // Online games show the rating from the pool this game counts towards
+          const pool = getRatingPool(onlineRoom.gameSettings);
           const seat = onlineRoom.players.find(p => p.role === player);
-          if (seat) return seat.user.elo;
+          if (seat) return getPoolElo(seat.user, pool);
           const participant = onlineRoom.participants?.[player];
-          if (participant) return participant.elo;
+          if (participant) return getPoolElo(participant, pool);
           const cached = cachedPlayers.current[player];
-          if (cached) return cached.elo;
+          if (cached) return getPoolElo(cached, pool);
           return undefined;
       }
       if (isSinglePlayer) {
@@ -318,6 +383,19 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
       }
       return undefined;
   }, [isOnline, onlineRoom, gameMode, difficulty, auth?.currentUser, isSinglePlayer]);
+
+  // Free-for-all: say when a seat is out of play before the game ends
+  const seenPlacesRef = useRef<{ [key in Player]?: number }>(onlineRoom?.places || {});
+  useEffect(() => {
+      const places = onlineRoom?.places || {};
+      const newlyOut = seats.filter(seat => places[seat] !== undefined && seenPlacesRef.current[seat] === undefined);
+      seenPlacesRef.current = places;
+      if (onlineRoom?.winner) return;
+      newlyOut.forEach(seat => {
+          const who = seat === myRole ? 'You' : getPlayerName(seat);
+          toast.info(`${who} finished ${formatPlace(places[seat]!)}.`);
+      });
+  }, [onlineRoom?.places, onlineRoom?.winner]);
   
   useEffect(() => {
     if (isOnline && onlineRoom) {
@@ -327,19 +405,40 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
       setWinningLine(onlineRoom.winningLine);
       setMoves(onlineRoom.moves);
       setInitialBoard(onlineRoom.initialBoard);
+      if (onlineRoom.powerUps) setPowerUps(onlineRoom.powerUps);
       if (onlineRoom.winReason) setWinReason(onlineRoom.winReason);
       if (onlineRoom.timeRemaining) setBlitzTimers(onlineRoom.timeRemaining);
-      if (!gameSettings.blitzMode && onlineRoom.lastMoveTime && onlineRoom.status === 'playing' && !onlineRoom.isPaused) {
-          const elapsed = Math.floor((Date.now() - onlineRoom.lastMoveTime) / 1000);
+      if (!gameSettings.blitzMode && onlineRoom.lastMoveTime && isRoomLive && !onlineRoom.isPaused) {
+          const elapsed = Math.floor((Date.now() + clockOffsetRef.current - onlineRoom.lastMoveTime) / 1000);
           setTurnTimer(Math.max(0, TURN_DURATION - elapsed));
       }
-      if (prevStatusRef.current === 'confirming_wager' && onlineRoom.status === 'playing') {
+      if (prevStatusRef.current === 'confirming_wager' && isRoomLive) {
           setShowCountdown(true);
       }
       prevStatusRef.current = onlineRoom.status;
     }
-  }, [onlineRoom, isOnline, gameSettings.blitzMode, TURN_DURATION]);
+  }, [onlineRoom, isOnline, isRoomLive, gameSettings.blitzMode, TURN_DURATION]);
   
+  // The server owns every deadline; its clock sync overrides whatever the local countdowns drifted to
+  useEffect(() => {
+      if (!isOnline) return;
+      const handleClockSync = (sync: ClockSync) => {
+          if (sync.roomId !== onlineRoom?.id) return;
+          clockOffsetRef.current = sync.serverTime - Date.now();
+          const remaining = sync.turnDeadline !== null ? Math.max(0, Math.ceil((sync.turnDeadline - sync.serverTime) / 1000)) : null;
+          if (gameSettings.blitzMode) {
+              if (sync.timeRemaining) {
+                  const banks = sync.timeRemaining;
+                  setBlitzTimers(remaining !== null ? { ...banks, [sync.currentPlayer]: remaining } : banks);
+              }
+          } else if (remaining !== null) {
+              setTurnTimer(remaining);
+          }
+      };
+      onlineService.onClockSync(handleClockSync);
+      return () => onlineService.offClockSync(handleClockSync);
+  }, [isOnline, onlineRoom?.id, gameSettings.blitzMode]);
+
   // Close login modal automatically if user signs in
   useEffect(() => {
       if (!isGuest && showLoginModal) {
@@ -352,32 +451,43 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
       if (isOnline && onlineRoom?.doubleDown) return; // Pause game timer during double down
       if (isPaused) return;
 
-      if (isOnline && gameSettings.blitzMode && !winner && onlineRoom?.status === 'playing') {
+      if (isOnline && gameSettings.blitzMode && !winner && isRoomLive) {
           const interval = setInterval(() => {
              setBlitzTimers(prev => {
                  const newTime = { ...prev };
                  if (newTime[currentPlayer] > 0) {
                      newTime[currentPlayer] = Math.max(0, newTime[currentPlayer] - 1);
                  }
-                 if (newTime[currentPlayer] === 0 && !isSpectator && onlineRoom?.id) {
-                     onlineService.claimTimeout(onlineRoom.id);
-                 }
                  return newTime;
              });
           }, 1000);
           return () => clearInterval(interval);
       }
-  }, [isOnline, gameSettings.blitzMode, winner, currentPlayer, onlineRoom?.status, onlineRoom?.isPaused, onlineRoom?.doubleDown, isSpectator, onlineRoom?.id, isPaused]);
+  }, [isOnline, gameSettings.blitzMode, winner, currentPlayer, isRoomLive, onlineRoom?.isPaused, onlineRoom?.doubleDown, isPaused]);
+
+  // Forfeit countdown for a seat that dropped mid-game, on the server's clock
+  const reconnectDeadline = onlineRoom?.players.find(p => p.role !== 'spectator' && !p.connected && p.reconnectDeadline)?.reconnectDeadline;
+  const [reconnectTimer, setReconnectTimer] = useState<number | null>(null);
+  useEffect(() => {
+      if (!reconnectDeadline || winner) {
+          setReconnectTimer(null);
+          return;
+      }
+      const tick = () => setReconnectTimer(Math.max(0, Math.ceil((reconnectDeadline - (Date.now() + clockOffsetRef.current)) / 1000)));
+      tick();
+      const interval = setInterval(tick, 1000);
+      return () => clearInterval(interval);
+  }, [reconnectDeadline, winner]);
 
   // Double Down Countdown Timer
   useEffect(() => {
       if (onlineRoom?.doubleDown && !winner) {
           const expiresAt = onlineRoom.doubleDown.expiresAt;
           const interval = setInterval(() => {
-              const remaining = Math.ceil((expiresAt - Date.now()) / 1000);
+              const remaining = Math.ceil((expiresAt - (Date.now() + clockOffsetRef.current)) / 1000);
               setDoubleDownTimer(Math.max(0, remaining));
               if (remaining <= 0) {
-                  // Timer expired, cleanup handled by backend claimTimeout or auto-close modal
+                  // Timer expired; the server declines the offer and broadcasts the room
                   clearInterval(interval);
               }
           }, 1000);
@@ -433,7 +543,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
     
     if ((gameMode === GameMode.CAMPAIGN || gameMode === GameMode.TOWER) && campaignLevel) {
         if (newWinner === Player.X) {
-            progressService.completeLevel(campaignLevel, moves.length + 1); 
+            progressService.completeLevel(campaignLevel, { moves, initialBoard, obstacleSeed: obstacleSeedRef.current });
             progressService.updateQuestProgress('win', 1, true);
             toast.success(gameMode === GameMode.TOWER ? "Floor Cleared!" : `Level Cleared!`);
         } else {
@@ -450,7 +560,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                  gameMode, 
                  winner: newWinner, 
                  moves, 
-                 gameSettings, 
+                 gameSettings: { ...gameSettings, obstacleSeed: obstacleSeedRef.current }, 
                  initialBoard, 
                  playerRole: Player.X, 
                  opponentName: getPlayerName(Player.O),
@@ -494,13 +604,22 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
       toast.success("Spectator link copied!");
   };
 
-  const handleUndo = useCallback(() => {
-      if (isOnline || moves.length === 0 || winner) return;
+  const handleUndo = useCallback(async () => {
+      if ((isOnline && !isMyTurnOnline) || moves.length === 0 || winner) return;
       if (!powerUps[currentPlayer]?.undo) {
           toast.error("No undo charges left!");
           return;
       }
 
+      if (isOnline && onlineRoom) {
+          try {
+              await onlineService.usePowerUp({ roomId: onlineRoom.id, powerUp: 'undo' });
+              playSound('powerup');
+              toast.info("Rewind! Last round undone.");
+          } catch (error: any) { toast.error(error.message || "Failed to use power-up."); }
+          return;
+      }
+
       playSound('powerup');
       trackPowerup('undo');
       
@@ -510,16 +629,9 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
               [currentPlayer]: { ...prev[currentPlayer], undo: false }
           }));
 
-          const newBoard = [...board];
-          for (let i = 0; i < count; i++) {
-               const moveToRemove = moves[moves.length - 1 - i];
-               if (moveToRemove) {
-                   newBoard[moveToRemove.index] = null;
-               }
-          }
-
-          setBoard(newBoard);
+          // Rebuild from the start so destroyed/converted pieces come back correctly
           const remainingMoves = moves.slice(0, -count);
+          setBoard(replayMoves(initialBoard, remainingMoves));
           setMoves(remainingMoves);
           
           const nextPlayer = count % 2 === 0 ? currentPlayer : (currentPlayer === Player.X ? Player.O : Player.X);
@@ -538,10 +650,25 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
           performUndo(1);
           toast.info("Undo used! Last move reverted.");
       }
-  }, [board, moves, winner, isOnline, currentPlayer, powerUps, toast, isSinglePlayer, TURN_DURATION, playSound]);
+  }, [initialBoard, moves, winner, isOnline, isMyTurnOnline, onlineRoom?.id, currentPlayer, powerUps, toast, isSinglePlayer, TURN_DURATION, playSound]);
+
+  const handleHint = useCallback(async () => {
+      if ((isOnline && !isMyTurnOnline) || winner || !powerUps[currentPlayer]?.hint || isAiThinking) return;
 
-  const handleHint = useCallback(() => {
-      if (isOnline || winner || !powerUps[currentPlayer]?.hint || isAiThinking) return;
+      if (isOnline && onlineRoom) {
+          try {
+              const { hintIndex } = await onlineService.usePowerUp({ roomId: onlineRoom.id, powerUp: 'hint' });
+              playSound('powerup');
+              if (typeof hintIndex === 'number') {
+                  setHintedSquare(hintIndex);
+                  toast.info("Hint revealed!");
+                  setTimeout(() => setHintedSquare(null), 3000);
+              } else {
+                  toast.error("No clear hints available.");
+              }
+          } catch (error: any) { toast.error(error.message || "Failed to use power-up."); }
+          return;
+      }
       
       playSound('powerup');
       trackPowerup('hint');
@@ -551,16 +678,16 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
           [currentPlayer]: { ...prev[currentPlayer], hint: false }
       }));
 
-      let hintIndex = findWinningMove(board, currentPlayer, { boardSize, winLength });
+      const legalMoves = rules.getLegalMoves(board, currentPlayer, gameSettings, lastMove);
+      const findWin = (player: Player) => rules.findWinningMove(board, player, gameSettings, legalMoves, moves);
+      let hintIndex = findWin(currentPlayer);
       if (hintIndex === null) {
-          const opponent = currentPlayer === Player.X ? Player.O : Player.X;
-          hintIndex = findWinningMove(board, opponent, { boardSize, winLength });
+          hintIndex = findWin(currentPlayer === Player.X ? Player.O : Player.X);
       }
       if (hintIndex === null) {
-           const emptyIndices = board.map((val, idx) => val === null ? idx : null).filter(val => val !== null) as number[];
-           if (emptyIndices.length > 0) {
-               const center = Math.floor((boardSize * boardSize) / 2);
-               hintIndex = board[center] === null ? center : emptyIndices[Math.floor(Math.random() * emptyIndices.length)];
+           if (legalMoves.length > 0) {
+               const center = Math.floor(board.length / 2);
+               hintIndex = legalMoves.includes(center) ? center : legalMoves[Math.floor(Math.random() * legalMoves.length)];
            }
       }
       
@@ -571,10 +698,10 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
       } else {
           toast.error("No clear hints available.");
       }
-  }, [board, currentPlayer, isOnline, winner, powerUps, isAiThinking, toast, boardSize, winLength, playSound]);
+  }, [board, currentPlayer, isOnline, isMyTurnOnline, onlineRoom?.id, winner, powerUps, isAiThinking, toast, boardSize, winLength, playSound, rules, gameSettings, lastMove, variant, moves]);
 
   const toggleDestroy = useCallback(() => {
-      if (isOnline || winner || isAiThinking) return;
+      if ((isOnline && !isMyTurnOnline) || winner || isAiThinking) return;
       if (!powerUps[currentPlayer]?.destroy) {
           toast.error("Unlock Destroyer in the Shop!");
           return;
@@ -585,10 +712,10 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
           setActivePowerUp('destroy');
           toast.info("Select an opponent's piece to DESTROY!");
       }
-  }, [isOnline, winner, powerUps, currentPlayer, isAiThinking, activePowerUp, toast]);
+  }, [isOnline, isMyTurnOnline, winner, powerUps, currentPlayer, isAiThinking, activePowerUp, toast]);
 
   const toggleWall = useCallback(() => {
-      if (isOnline || winner || isAiThinking) return;
+      if ((isOnline && !isMyTurnOnline) || winner || isAiThinking) return;
       if (!powerUps[currentPlayer]?.wall) {
           toast.error("Unlock Fortify in the Shop!");
           return;
@@ -599,10 +726,10 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
           setActivePowerUp('wall');
           toast.info("Select an empty square to place a WALL!");
       }
-  }, [isOnline, winner, powerUps, currentPlayer, isAiThinking, activePowerUp, toast]);
+  }, [isOnline, isMyTurnOnline, winner, powerUps, currentPlayer, isAiThinking, activePowerUp, toast]);
 
   const toggleDouble = useCallback(() => {
-      if (isOnline || winner || isAiThinking) return;
+      if ((isOnline && !isMyTurnOnline) || winner || isAiThinking) return;
       if (!powerUps[currentPlayer]?.double) {
           toast.error("Unlock Double Strike in the Shop!");
           return;
@@ -613,10 +740,10 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
           setActivePowerUp('double');
           toast.info("Double Strike! Next move won't end your turn.");
       }
-  }, [isOnline, winner, powerUps, currentPlayer, isAiThinking, activePowerUp, toast]);
+  }, [isOnline, isMyTurnOnline, winner, powerUps, currentPlayer, isAiThinking, activePowerUp, toast]);
 
   const toggleConvert = useCallback(() => {
-      if (isOnline || winner || isAiThinking) return;
+      if ((isOnline && !isMyTurnOnline) || winner || isAiThinking) return;
       if (!powerUps[currentPlayer]?.convert) {
           toast.error("Unlock Conversion in the Shop!");
           return;
@@ -627,15 +754,40 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
           setActivePowerUp('convert');
           toast.info("Select an opponent's piece to CONVERT!");
       }
-  }, [isOnline, winner, powerUps, currentPlayer, isAiThinking, activePowerUp, toast]);
-
-  const handleSquareClick = useCallback(async (index: number) => {
+  }, [isOnline, isMyTurnOnline, winner, powerUps, currentPlayer, isAiThinking, activePowerUp, toast]);
+
+  const handlePowerUpAction = useCallback((type: PowerUp) => {
+      if (type === 'undo') handleUndo();
+      else if (type === 'hint') handleHint();
+      else if (type === 'destroy') toggleDestroy();
+      else if (type === 'wall') toggleWall();
+      else if (type === 'double') toggleDouble();
+      else if (type === 'convert') toggleConvert();
+  }, [handleUndo, handleHint, toggleDestroy, toggleWall, toggleDouble, toggleConvert]);
+
+  const handleSquareClick = useCallback(async (index: number, symbol?: Player) => {
     if (context?.preferences.haptics && navigator.vibrate) navigator.vibrate(10);
     playSound('click');
 
+    // Only plain Wild placements can put down the other symbol
+    const placed = rules.freeSymbol && !activePowerUp ? (symbol ?? wildSymbol ?? currentPlayer) : currentPlayer;
+
     if (isOnline && onlineRoom) {
-      if (isMyTurnOnline && !opponentDisconnected && !isSpectator && !isPaused && !onlineRoom.doubleDown) {
-        try { await onlineService.makeMove({ roomId: onlineRoom.id, index }); } 
+      // Opening stones are sent like moves; the server knows which symbol is next
+      if ((isMyTurnOnline || isMyOpeningPlacement) && !opponentDisconnected && !isSpectator && !isPaused && !onlineRoom.doubleDown) {
+        if (activePowerUp) {
+            // The server validates the target and applies the effect; the board comes back via roomUpdate
+            try {
+                await onlineService.usePowerUp({ roomId: onlineRoom.id, powerUp: activePowerUp, index });
+                playSound('powerup');
+                setActivePowerUp(null);
+            } catch (error: any) { toast.error(error.message || "Failed to use power-up."); }
+            return;
+        }
+        try {
+            await onlineService.makeMove({ roomId: onlineRoom.id, index, ...(rules.freeSymbol ? { symbol: placed } : {}) });
+            setWildSymbol(null);
+        }
         catch (error: any) { toast.error(error.message || "Failed to send move."); }
       }
       return;
@@ -652,6 +804,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
             setBoard(newBoard);
             setPowerUps((prev: any) => ({...prev, [currentPlayer]: {...prev[currentPlayer], destroy: false}}));
             setActivePowerUp(null);
+            setMoves([...moves, { player: currentPlayer, index, moveNumber: moves.length + 1, powerUp: 'destroy' }]);
             setCurrentPlayer(currentPlayer === Player.X ? Player.O : Player.X);
             setTurnTimer(TURN_DURATION);
             toast.success("Piece destroyed!");
@@ -668,9 +821,11 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
             trackPowerup('convert');
             const newBoard = [...board];
             newBoard[index] = currentPlayer;
-            setBoard(newBoard);
+            const next = runBoardEvents(newBoard, [...moves, { player: currentPlayer, index, moveNumber: moves.length + 1, powerUp: 'convert' }], gameSettings);
+            setBoard(next.board);
             setPowerUps((prev: any) => ({...prev, [currentPlayer]: {...prev[currentPlayer], convert: false}}));
             setActivePowerUp(null);
+            setMoves(next.moves);
             setCurrentPlayer(currentPlayer === Player.X ? Player.O : Player.X);
             setTurnTimer(TURN_DURATION);
             toast.success("Converted!");
@@ -682,15 +837,16 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
     }
 
     if (activePowerUp === 'wall') {
-        if (board[index] === null) {
+        if (rules.isLegalMove(board, index, currentPlayer, gameSettings, lastMove)) {
             playSound('powerup');
             trackPowerup('wall');
             const newBoard = [...board];
             newBoard[index] = 'OBSTACLE';
-            setBoard(newBoard);
+            const next = runBoardEvents(newBoard, [...moves, { player: currentPlayer, index, moveNumber: moves.length + 1, powerUp: 'wall' }], gameSettings);
+            setBoard(next.board);
             setPowerUps((prev: any) => ({...prev, [currentPlayer]: {...prev[currentPlayer], wall: false}}));
             setActivePowerUp(null);
-            setMoves([...moves, { player: currentPlayer, index, moveNumber: moves.length + 1 }]); 
+            setMoves(next.moves);
             setCurrentPlayer(currentPlayer === Player.X ? Player.O : Player.X);
             setTurnTimer(TURN_DURATION);
             toast.success("Wall placed!");
@@ -701,15 +857,31 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
         return;
     }
 
-    if (board[index]) return;
+    if (!rules.isLegalMove(board, index, currentPlayer, gameSettings, lastMove)) {
+        // The only empty cells Gomoku refuses are X's renju-forbidden ones
+        if (variant === GameVariant.GOMOKU && board[index] === null) toast.error("Renju: X can't make a double three or double four.");
+        return;
+    }
 
     if (hintedSquare !== null) setHintedSquare(null);
     if (isSinglePlayer && currentPlayer === Player.X) setAiTaunt(""); 
 
-    const newBoard = [...board];
-    newBoard[index] = currentPlayer;
-    setBoard(newBoard);
-    setMoves([...moves, { player: currentPlayer, index, moveNumber: moves.length + 1 }]);
+    const removed = getDecayingPiece(moves, currentPlayer, rules.pieceLimit(gameSettings));
+    const newBoard = rules.applyMove(board, index, placed, gameSettings);
+    if (removed !== null) newBoard[removed] = null;
+    const newMoves: Move[] = [...moves, {
+        player: currentPlayer,
+        index,
+        moveNumber: moves.length + 1,
+        powerUp: activePowerUp === 'double' ? 'double' : undefined,
+        ...(placed !== currentPlayer ? { symbol: placed } : {}),
+        ...(removed !== null ? { removed } : {})
+    }];
+    // Double keeps the turn, so a collapse waits for its second placement
+    const next = activePowerUp === 'double' ? { board: newBoard, moves: newMoves } : runBoardEvents(newBoard, newMoves, gameSettings);
+    setBoard(next.board);
+    setMoves(next.moves);
+    setWildSymbol(null);
     
     if (currentPlayer === Player.X) playSound('placeX');
     else playSound('placeO');
@@ -722,17 +894,20 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
         setTurnTimer(TURN_DURATION);
         toast.success("Double Strike! Move again.");
         progressService.updateQuestProgress('double', 1, true);
-        
-        const winnerInfo = checkWinner(newBoard, boardSize, winLength);
-        if (winnerInfo.winner) {
-             // Let next effect handle win
-        }
+        // A win is picked up by the board effect below
     } else {
         setCurrentPlayer(currentPlayer === Player.X ? Player.O : Player.X);
         setTurnTimer(TURN_DURATION);
     }
 
-  }, [board, currentPlayer, winner, isAiThinking, moves, isOnline, isMyTurnOnline, onlineRoom?.id, opponentDisconnected, isSpectator, isSinglePlayer, context?.preferences.haptics, hintedSquare, activePowerUp, toast, isPaused, TURN_DURATION, playSound, onlineRoom?.doubleDown]);
+  }, [board, currentPlayer, winner, isAiThinking, moves, isOnline, isMyTurnOnline, onlineRoom?.id, opponentDisconnected, isSpectator, isSinglePlayer, context?.preferences.haptics, hintedSquare, activePowerUp, toast, isPaused, TURN_DURATION, playSound, onlineRoom?.doubleDown, rules, gameSettings, lastMove, wildSymbol, isMyOpeningPlacement, variant]);
+
+  const handleChooseSide = useCallback(async (choice: SideChoice) => {
+      if (!onlineRoom) return;
+      try {
+          await onlineService.chooseSide({ roomId: onlineRoom.id, choice });
+      } catch (error: any) { toast.error(error.message || "Failed to pick a side."); }
+  }, [onlineRoom?.id, toast]);
 
   const resetGame = useCallback(() => {
     if (isOnline) return;
@@ -758,6 +933,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
     setPowerUps(getInitialPowerUps());
     setActivePowerUp(null);
     setHintedSquare(null);
+    setWildSymbol(null);
     powerupsUsedRef.current = {};
   }, [createInitialBoard, isOnline, getInitialPowerUps, gameSettings.startingPlayer, TURN_DURATION]);
 
@@ -794,23 +970,19 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
 
   useEffect(() => {
     if (winner || isOnline) return;
-    const winnerInfo = checkWinner(board, boardSize, winLength);
-    if (winnerInfo.winner) {
-      let finalWinner = winnerInfo.winner;
-      if (variant === GameVariant.MISERE && winnerInfo.winner !== 'draw') {
-        finalWinner = winnerInfo.winner === Player.X ? Player.O : Player.X;
-      }
-      setWinningLine(winnerInfo.line);
-      handleGameOver(finalWinner, 'standard');
+    const result = rules.getResult(board, gameSettings, moves[moves.length - 1]?.player);
+    if (result.winner) {
+      setWinningLine(result.line);
+      handleGameOver(result.winner, 'standard');
     }
-  }, [board, winner, boardSize, winLength, variant, handleGameOver, isOnline]);
+  }, [board, winner, rules, gameSettings, handleGameOver, isOnline, moves]);
 
     useEffect(() => {
         if (!isSinglePlayer || currentPlayer !== Player.O || !!winner) return;
         const performAiMove = () => {
             setIsAiThinking(true);
             setTimeout(async () => {
-                 const bestMoveAnalysis = await findBestMove(board, gameSettings, usedTaunts);
+                 const bestMoveAnalysis = await findBestMove(board, gameSettings, usedTaunts, Player.O, lastMove, moves);
                  const now = Date.now();
                  
                  if (now - lastTauntTimeRef.current > 8000) {
@@ -828,26 +1000,25 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                  }
 
                  setIsAiThinking(false);
-                 if (bestMoveAnalysis.move !== -1) handleSquareClick(bestMoveAnalysis.move);
+                 if (bestMoveAnalysis.move !== -1) handleSquareClick(bestMoveAnalysis.move, bestMoveAnalysis.symbol);
             }, 700); 
         };
         performAiMove();
-    }, [isSinglePlayer, currentPlayer, winner, board, gameSettings, handleSquareClick, usedTaunts]);
+    }, [isSinglePlayer, currentPlayer, winner, board, gameSettings, handleSquareClick, usedTaunts, lastMove, moves]);
 
    useEffect(() => {
     if (isPaused) return;
     if (isOnline && onlineRoom?.doubleDown) return; // Pause timer if double down pending
 
-    if (winner || (isSinglePlayer && currentPlayer === Player.O) || (isOnline && gameSettings.blitzMode) || (isOnline && onlineRoom?.status !== 'playing')) return;
+    if (winner || (isSinglePlayer && currentPlayer === Player.O) || (isOnline && gameSettings.blitzMode) || (isOnline && !isRoomLive)) return;
     
     const interval = setInterval(() => {
       setTurnTimer(t => {
         if (t <= 0) {
+            // Online games are timed out by the server
             if (!isOnline) {
                 clearInterval(interval);
                 handleGameOver(currentPlayer === Player.X ? Player.O : Player.X, 'timeout');
-            } else if (onlineRoom && !isSpectator) {
-                onlineService.claimTimeout(onlineRoom.id);
             }
             return 0;
         }
@@ -856,7 +1027,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
       });
     }, 1000);
     return () => clearInterval(interval);
-  }, [currentPlayer, winner, isAiThinking, isSinglePlayer, isOnline, handleGameOver, gameSettings.blitzMode, onlineRoom?.status, isPaused, playSound, onlineRoom?.id, isSpectator, onlineRoom?.doubleDown]);
+  }, [currentPlayer, winner, isAiThinking, isSinglePlayer, isOnline, handleGameOver, gameSettings.blitzMode, isRoomLive, isPaused, playSound, onlineRoom?.doubleDown]);
 
     const nextLevel = useMemo(() => {
         if (gameMode === GameMode.TOWER && campaignLevel) {
@@ -879,7 +1050,8 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
         if (isOnline && onlineRoom && !isSpectator) {
             const offer = onlineRoom.rematchOffer;
             if (offer) {
-                if (offer.from === myRole) rematchStatus = 'requested';
+                // In a free-for-all everyone else who has asked is waiting too
+                if (offer.from === myRole || onlineRoom.rematchRequested[myRole as Player]) rematchStatus = 'requested';
                 else rematchStatus = 'opponent_requested';
             }
         }
@@ -920,14 +1092,25 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                 ante={onlineRoom?.anteAmount}
                 campaignLevel={campaignLevel}
                 gameSettings={gameSettings}
+                extraSeats={seats.slice(2).map(seat => ({
+                    role: seat,
+                    name: getPlayerName(seat),
+                    avatar: getPlayerAvatar(seat),
+                    frame: getPlayerFrame(seat),
+                    elo: getPlayerElo(seat),
+                    level: getPlayerLevel(seat)
+                }))}
+                places={onlineRoom?.places}
             />
             {isOnline && onlineRoom?.rematchOffer && !isSpectator && myRole && (
                 <AnimatePresence>
                     <RematchModal 
                         offer={onlineRoom.rematchOffer} 
                         myRole={myRole} 
+                        accepted={!!onlineRoom.rematchRequested[myRole as Player]}
                         onAccept={handleRematchRequest} 
                         onDecline={handleDeclineRematch}
+                        clockOffset={clockOffsetRef.current}
                     />
                 </AnimatePresence>
             )}
@@ -948,7 +1131,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                />;
     }
 
-  const canDoubleDown = isOnline && !isSpectator && isMyTurnOnline && !onlineRoom?.doubleDown && !onlineRoom?.doubleDownUsed && (context?.coins || 0) >= (onlineRoom?.anteAmount || 0);
+  const canDoubleDown = isOnline && !isMultiSeat && !isSpectator && isMyTurnOnline && !onlineRoom?.doubleDown && !onlineRoom?.doubleDownUsed && (context?.coins || 0) >= (onlineRoom?.anteAmount || 0);
 
   const handleCloseClick = () => {
       setShowForfeitConfirm(true);
@@ -990,7 +1173,11 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                            <PauseIcon className="w-8 h-8 text-yellow-500" />
                        </div>
                        <h2 className="text-2xl font-bold text-white mb-2">Game Paused</h2>
-                       <p className="text-gray-400 text-sm mb-6">Your opponent has disconnected. Waiting for them to return...</p>
+                       <p className="text-gray-400 text-sm mb-6">
+                           {reconnectTimer !== null
+                               ? <>{isMultiSeat ? 'A player' : 'Your opponent'} has disconnected. They have <span className="font-mono font-bold text-yellow-400">{reconnectTimer}s</span> to return before {isFfa ? 'they are knocked out' : 'the game is awarded by default'}.</>
+                               : `${isMultiSeat ? 'A player' : 'Your opponent'} has disconnected. Waiting for them to return...`}
+                       </p>
                        <div className="flex justify-center">
                            <div className="flex gap-2">
                                 <span className="w-2 h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '0s' }}></span>
@@ -1122,8 +1309,12 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                 <Badge text={`${boardSize}x${boardSize}`} icon={<GridIcon className="w-3 h-3 text-gray-500 dark:text-gray-400"/>} color="gray" />
                 <Badge text={`Match ${winLength}`} icon={<TrophyIcon className="w-3 h-3 text-yellow-500"/>} color="gray" />
                 {(gameMode === GameMode.AI || gameMode === GameMode.CAMPAIGN || gameMode === GameMode.TOWER) && <Badge text={difficulty} icon={<LightningIcon className="w-3 h-3"/>} color={difficulty === Difficulty.BOSS ? 'red' : 'purple'} />}
-                {obstacles && <Badge text="" icon={<ObstacleIcon className="w-3 h-3"/>} color="orange" tooltip="Obstacles" />}
-                {variant === GameVariant.MISERE && <Badge text="" icon={<SkullIcon className="w-3 h-3"/>} color="pink" tooltip="Misère Mode" />}
+                {isOnline && onlineRoom?.obstacleCommit
+                    ? <ObstacleCommitBadge room={onlineRoom} />
+                    : obstacles && <Badge text="" icon={<ObstacleIcon className="w-3 h-3"/>} color="orange" tooltip="Obstacles" />}
+                {isMisereVariant(variant) && <Badge text="" icon={<SkullIcon className="w-3 h-3"/>} color="pink" tooltip="Misère Mode" />}
+                {rules.freeSymbol && <Badge text="Wild" color="purple" tooltip="Place X or O" />}
+                {variant === GameVariant.GOMOKU && gameSettings.gomoku?.renju && <Badge text="Renju" color="gray" tooltip="X may not make a double-three or double-four" />}
                 {gameSettings.blitzMode && <Badge text="Blitz" icon={<ClockIcon className="w-3 h-3"/>} color="red" />}
             </div>
 
@@ -1146,8 +1337,34 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
             </div>
        </div>
       
+      {/* Free-for-all and 2v2: every seat in one row, on all screen sizes */}
+      {isMultiSeat && (
+          <div className="shrink-0 flex justify-around items-center gap-2 px-4 pt-6 pb-2 bg-white/10 dark:bg-white/5 rounded-xl mx-2 mb-2 border border-white/10 relative z-10">
+              {rowSeats.map((seat, i) => (
+                  <React.Fragment key={seat}>
+                  {isTeams && i === TEAM_SIZE && <span className="text-xs font-black text-gray-500">VS</span>}
+                  <MobilePlayerInfo 
+                    player={isTeams ? getSide(seat) : seat} 
+                    isActive={currentPlayer === seat && !winner} 
+                    seat={isOnline && onlineRoom ? onlineRoom.players.find(p => p.role === seat) : undefined}
+                    fallbackName={getPlayerName(seat)}
+                    avatarId={getPlayerAvatar(seat)}
+                    frameId={getPlayerFrame(seat)}
+                    blitzTime={gameSettings.blitzMode ? formatTime(blitzTimers[seat]) : undefined}
+                    label={getPlayerLabel(seat)}
+                    currentEmote={getPlayerEmote(isOnline && onlineRoom ? onlineRoom.players.find(p => p.role === seat)?.user.id : undefined)}
+                    place={onlineRoom?.places?.[seat]}
+                  />
+                  </React.Fragment>
+              ))}
+              {!gameSettings.blitzMode && (
+                  <div className="md:hidden text-[10px] font-mono text-cyan-400">{formatTime(turnTimer)}</div>
+              )}
+          </div>
+      )}
+
       {/* Mobile Player Info Row */}
-      <div className="md:hidden shrink-0 flex justify-between items-center px-4 py-2 bg-white/10 dark:bg-white/5 rounded-xl mx-2 mb-2 border border-white/10 relative z-10">
+      <div className={`${isMultiSeat ? 'hidden' : 'md:hidden'} shrink-0 flex justify-between items-center px-4 py-2 bg-white/10 dark:bg-white/5 rounded-xl mx-2 mb-2 border border-white/10 relative z-10`}>
           <MobilePlayerInfo 
             player={Player.X} 
             isActive={currentPlayer === Player.X} 
@@ -1199,7 +1416,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
 
       <div className="flex-1 min-w-0 flex flex-col md:flex-row items-center justify-center w-full gap-4 md:gap-12 relative overflow-visible">
         
-        <div className="hidden md:flex flex-col items-center relative shrink-0 p-2">
+        <div className={`hidden ${isMultiSeat ? '' : 'md:flex'} flex-col items-center relative shrink-0 p-2`}>
             <div className="relative">
                 <PlayerInfoPanel 
                     seat={isOnline && onlineRoom ? onlineRoom.players.find(p => p.role === Player.X) : undefined} 
@@ -1254,17 +1471,10 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                 )}
             </div>
 
-            {isSinglePlayer && (
+            {(isSinglePlayer || (isOnline && !isSpectator && myRole === Player.X)) && (
                 <PowerUpBar 
                     powerUps={powerUps[Player.X]} 
-                    onAction={(type) => {
-                        if(type === 'undo') handleUndo();
-                        else if(type === 'hint') handleHint();
-                        else if(type === 'destroy') toggleDestroy();
-                        else if(type === 'wall') toggleWall();
-                        else if(type === 'double') toggleDouble();
-                        else if(type === 'convert') toggleConvert();
-                    }}
+                    onAction={handlePowerUpAction}
                     activePowerUp={activePowerUp}
                 />
             )}
@@ -1312,6 +1522,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                             settings={gameSettings} 
                             campaignLevel={campaignLevel} 
                             pot={onlineRoom?.pot}
+                            collapseIn={winner ? null : collapseIn}
                             className="hidden md:block" 
                          />
                      </div>
@@ -1332,11 +1543,43 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                         boardSize={boardSize}
                         onSquareClick={handleSquareClick}
                         winningLine={winningLine}
-                        disabled={!!winner || (isOnline && !isMyTurnOnline)}
+                        disabled={!!winner || (isOnline && !isMyTurnOnline && !isMyOpeningPlacement)}
                         hintedSquare={hintedSquare}
+                        columnInput={rules.columnInput && activePowerUp !== 'convert'}
+                        nested={variant === GameVariant.ULTIMATE}
+                        layered={variant === GameVariant.QUBIC}
+                        hex={variant === GameVariant.HEX}
+                        lastMove={lastMove}
+                        fadingSquares={fadingSquares}
+                        toroidal={!!gameSettings.toroidal}
+                        hiddenSquares={hiddenSquares}
+                        collapsingSquares={winner ? [] : collapsingSquares}
+                        collapsedSquares={collapsedSquares}
                         skin={auth?.currentUser?.equippedSkin}
                      />
                  </div>
+
+                 {opening && !winner && (onlineRoom?.status === 'opening' || onlineRoom?.status === 'choosing_side') && (
+                     <div className="absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2 z-50">
+                         <OpeningPanel
+                            opening={opening}
+                            phase={onlineRoom.status}
+                            isActor={!isSpectator && myRole === opening.actor}
+                            actorName={getPlayerName(opening.actor)}
+                            onChoose={handleChooseSide}
+                         />
+                     </div>
+                 )}
+
+                 {rules.freeSymbol && !winner && (isOnline ? isMyTurnOnline && !isSpectator : !(isSinglePlayer && currentPlayer === Player.O)) && (
+                     <div className="absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2 z-50">
+                         <SymbolPicker
+                            selected={wildSymbol ?? currentPlayer}
+                            onSelect={setWildSymbol}
+                            disabled={!!activePowerUp}
+                         />
+                     </div>
+                 )}
                  
                  <AnimatePresence>
                      {showCountdown && (
@@ -1346,7 +1589,7 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
              </div>
         </div>
 
-        <div className="hidden md:flex flex-col items-center relative shrink-0 p-2">
+        <div className={`hidden ${isMultiSeat ? '' : 'md:flex'} flex-col items-center relative shrink-0 p-2`}>
             <div className="relative">
                 <PlayerInfoPanel 
                     seat={isOnline && onlineRoom ? onlineRoom.players.find(p => p.role === Player.O) : undefined} 
@@ -1415,6 +1658,14 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
                 )}
             </AnimatePresence>
 
+            {isOnline && !isSpectator && myRole === Player.O && (
+                <PowerUpBar 
+                    powerUps={powerUps[Player.O]} 
+                    onAction={handlePowerUpAction}
+                    activePowerUp={activePowerUp}
+                />
+            )}
+
              {gameSettings.blitzMode && (
                 <div className={`absolute -bottom-10 left-1/2 -translate-x-1/2 font-mono text-xl font-bold px-3 py-1 rounded-lg border ${currentPlayer === Player.O ? 'bg-white/10 border-white/20 text-white shadow-lg shadow-white/10' : 'text-gray-500 border-transparent'}`}>
                     {formatTime(blitzTimers[Player.O])}
@@ -1430,18 +1681,11 @@ export const Game: React.FC<GameProps> = ({ userId, gameMode, gameSettings: init
 
       </div>
 
-      {isSinglePlayer && (
+      {(isSinglePlayer || (isOnline && !isSpectator && myRole)) && (
         <div className="md:hidden w-full px-8 mb-4">
              <PowerUpBar 
-                powerUps={powerUps[Player.X]} 
-                onAction={(type) => {
-                    if(type === 'undo') handleUndo();
-                    else if(type === 'hint') handleHint();
-                    else if(type === 'destroy') toggleDestroy();
-                    else if(type === 'wall') toggleWall();
-                    else if(type === 'double') toggleDouble();
-                    else if(type === 'convert') toggleConvert();
-                }}
+                powerUps={powerUps[isOnline && myRole ? myRole : Player.X]} 
+                onAction={handlePowerUpAction}
                 activePowerUp={activePowerUp}
             />
         </div>
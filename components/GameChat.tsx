@@ -15,7 +15,7 @@ const QUICK_CHATS = [
 
 interface GameChatProps {
     messages: ChatMessage[];
-    onSendMessage: (text: string, replyTo?: any) => void;
+    onSendMessage: (text: string, replyTo?: any, channel?: 'game' | 'team') => void;
     onSendEmote: (emoji: string) => void;
     currentUserId: string;
     isOpen: boolean;
@@ -23,6 +23,7 @@ interface GameChatProps {
     className?: string;
     opponent?: User;
     roomId: string;
+    canTeamChat?: boolean; // Seated players in a 2v2 game also get a team-only tab
 }
 
 const ReactionPicker: React.FC<{ onSelect: (emoji: string) => void }> = ({ onSelect }) => (
@@ -43,8 +44,9 @@ const ReactionPicker: React.FC<{ onSelect: (emoji: string) => void }> = ({ onSel
 
 
 const GameChat: React.FC<GameChatProps> = ({ 
-    messages, onSendMessage, onSendEmote, currentUserId, isOpen, onToggle, className, opponent, roomId
+    messages, onSendMessage, onSendEmote, currentUserId, isOpen, onToggle, className, opponent, roomId, canTeamChat
 }) => {
+    const [channel, setChannel] = useState<'game' | 'team'>('game');
     const [input, setInput] = useState('');
     const [showEmojis, setShowEmojis] = useState(false);
     const [showQuickChat, setShowQuickChat] = useState(false);
@@ -53,6 +55,8 @@ const GameChat: React.FC<GameChatProps> = ({
     const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
     const [isAtBottom, setIsAtBottom] = useState(true);
     
+    const visibleMessages = messages.filter(msg => (msg.channel === 'team' ? 'team' : 'game') === (canTeamChat ? channel : 'game'));
+
     const scrollRef = useRef<HTMLDivElement>(null);
     const lastMessageCountRef = useRef(messages.length);
 
@@ -108,13 +112,13 @@ const GameChat: React.FC<GameChatProps> = ({
             onlineService.editMessage({ channel: 'game', targetId: roomId, messageId: editingMessage.id, newText: trimmed });
             setEditingMessage(null);
         } else {
-            onSendMessage(trimmed);
+            onSendMessage(trimmed, undefined, canTeamChat ? channel : undefined);
         }
         setInput('');
     };
 
     const handleQuickChat = (text: string) => {
-        onSendMessage(text, undefined);
+        onSendMessage(text, undefined, canTeamChat ? channel : undefined);
         setShowQuickChat(false);
     };
     
@@ -171,6 +175,15 @@ const GameChat: React.FC<GameChatProps> = ({
                             <MessageIcon className="w-5 h-5 text-cyan-400" />
                             Game Chat
                         </h3>
+                        {canTeamChat && (
+                            <div className="flex gap-1 p-0.5 bg-black/30 rounded-lg">
+                                {(['game', 'team'] as const).map(tab => (
+                                    <button key={tab} onClick={() => setChannel(tab)} className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-colors ${channel === tab ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`}>
+                                        {tab === 'game' ? 'All' : 'Team'}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                         <button onClick={onToggle} className="p-1 rounded-full text-gray-500 hover:text-white hover:bg-white/10 transition-colors">
                             <CloseIcon className="w-5 h-5"/>
                         </button>
@@ -178,7 +191,7 @@ const GameChat: React.FC<GameChatProps> = ({
 
                     {/* Messages */}
                     <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
-                         {messages.map((msg, index) => {
+                         {visibleMessages.map((msg, index) => {
                             const isMe = msg.senderId === currentUserId;
                             const isSystem = msg.type === 'system';
                             if (isSystem) {
@@ -236,7 +249,7 @@ const GameChat: React.FC<GameChatProps> = ({
                             )}
                          </AnimatePresence>
                          <form onSubmit={handleSend} className="flex gap-2 items-center mt-1">
-                             <input value={input} onChange={e => setInput(e.target.value)} placeholder="Say something..." className="flex-1 bg-black/30 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-cyan-500"/>
+                             <input value={input} onChange={e => setInput(e.target.value)} placeholder={canTeamChat && channel === 'team' ? 'Message your teammate...' : 'Say something...'} className="flex-1 bg-black/30 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-cyan-500"/>
                              <button type="submit" className="p-2.5 bg-cyan-600 rounded-lg text-white disabled:opacity-50" disabled={!input.trim()}><SendIcon className="w-4 h-4"/></button>
                          </form>
                     </div>
@@ -1,7 +1,15 @@
 
 import React from 'react';
-import { GameSettings, GameVariant, Difficulty, Player } from '../types';
-import { GridIcon, TrophyIcon, ObstacleIcon, SkullIcon, LightningIcon, ClockIcon, InfoIcon, PlayIcon, SwordIcon } from './Icons';
+import { GameSettings, GameVariant, Difficulty, Player, GomokuOptions, GomokuOpening, ObstacleLayout } from '../types';
+import { ULTIMATE_BOARD_SIZE, QUBIC_BOARD_SIZE, GOMOKU_MIN_BOARD_SIZE, GOMOKU_WIN_LENGTH, DEFAULT_GOMOKU_OPTIONS, HEX_MIN_SIZE, HEX_MAX_SIZE, getDecayLimit, getMaxDecayLimit, isMisereVariant, OBSTACLE_LAYOUTS, SUDDEN_DEATH_MIN_BOARD_SIZE, SUDDEN_DEATH_MIN_INTERVAL, getCollapseInterval } from '../shared/rules';
+import { GridIcon, TrophyIcon, ObstacleIcon, SkullIcon, LightningIcon, ClockIcon, InfoIcon, PlayIcon, SwordIcon, ArrowDownIcon, ConvertIcon, CubeIcon, StonesIcon, HourglassIcon, WrapIcon, HexIcon, CollapseIcon } from './Icons';
+
+const OBSTACLE_LAYOUT_HINTS: Record<ObstacleLayout, string> = {
+    random: 'Scattered anywhere',
+    mirror: 'Mirrored across the middle column',
+    rotational: 'The same after half a turn',
+    cross: 'Along the middle row and column, from the centre out'
+};
 
 interface GameSettingsEditorProps {
     settings: GameSettings;
@@ -36,6 +44,74 @@ const GameSettingsEditor: React.FC<GameSettingsEditorProps> = ({ settings, setSe
         setSettings(s => ({ ...s, turnDuration: parseInt(e.target.value, 10) }));
     }
 
+    // Ultimate fixes the board to nine 3x3 boards, so size, streak and obstacles are locked while it's on
+    const isUltimate = settings.variant === GameVariant.ULTIMATE;
+    const handleUltimateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setSettings(s => e.target.checked
+            ? { ...s, variant: GameVariant.ULTIMATE, boardSize: ULTIMATE_BOARD_SIZE, winLength: 3, obstacles: false, toroidal: false }
+            : { ...s, variant: GameVariant.CLASSIC, boardSize: 3, winLength: 3 });
+    };
+
+    // Qubic is always a 4x4x4 cube with lines running its full width
+    const isQubic = settings.variant === GameVariant.QUBIC;
+    const handleQubicChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setSettings(s => e.target.checked
+            ? { ...s, variant: GameVariant.QUBIC, boardSize: QUBIC_BOARD_SIZE, winLength: QUBIC_BOARD_SIZE, obstacles: false, toroidal: false }
+            : { ...s, variant: GameVariant.CLASSIC, boardSize: 3, winLength: 3 });
+    };
+    const isFixedBoard = isUltimate || isQubic;
+
+    // Hex sizes the board by its side, up to HEX_MAX_SIZE, and has no obstacles or wrapping edges
+    const isHex = settings.variant === GameVariant.HEX;
+    const handleHexChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setSettings(s => {
+            if (!e.target.checked) return { ...s, variant: GameVariant.CLASSIC, boardSize: 3, winLength: 3 };
+            const boardSize = Math.min(HEX_MAX_SIZE, Math.max(HEX_MIN_SIZE, s.boardSize));
+            return { ...s, variant: GameVariant.HEX, boardSize, winLength: Math.min(s.winLength, boardSize), obstacles: false, toroidal: false };
+        });
+    };
+
+    // Gomoku is always five in a row, needs room for it, and X (black) always moves first
+    const isGomoku = settings.variant === GameVariant.GOMOKU;
+    const gomoku = settings.gomoku ?? DEFAULT_GOMOKU_OPTIONS;
+    const handleGomokuChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setSettings(s => e.target.checked
+            ? { ...s, variant: GameVariant.GOMOKU, boardSize: Math.max(GOMOKU_MIN_BOARD_SIZE, s.boardSize), winLength: GOMOKU_WIN_LENGTH, toroidal: false, startingPlayer: 'X', gomoku: s.gomoku ?? DEFAULT_GOMOKU_OPTIONS }
+            : { ...s, variant: GameVariant.CLASSIC, boardSize: 3, winLength: 3 });
+    };
+    const setGomokuOption = (option: Partial<GomokuOptions>) => {
+        setSettings(s => ({ ...s, gomoku: { ...(s.gomoku ?? DEFAULT_GOMOKU_OPTIONS), ...option } }));
+    };
+    const GOMOKU_OPENINGS: { id: GomokuOpening, label: string }[] = [
+        { id: 'none', label: 'None' },
+        { id: 'swap', label: 'Swap' },
+        { id: 'swap2', label: 'Swap2' }
+    ];
+
+    // Decay caps how many pieces each player keeps; the limit can't drop below the win streak
+    const isDecay = settings.variant === GameVariant.DECAY;
+    const handleDecayChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setSettings(s => e.target.checked
+            ? { ...s, variant: GameVariant.DECAY, decayLimit: getDecayLimit(s) }
+            : { ...s, variant: GameVariant.CLASSIC });
+    };
+
+    // Sudden Death needs room for rings to collapse, and real edges for them to collapse in from.
+    // The interval follows the board size until it is set.
+    const isSuddenDeath = settings.variant === GameVariant.SUDDEN_DEATH;
+    const handleSuddenDeathChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setSettings(s => e.target.checked
+            ? { ...s, variant: GameVariant.SUDDEN_DEATH, boardSize: Math.max(SUDDEN_DEATH_MIN_BOARD_SIZE, s.boardSize), toroidal: false, collapseInterval: undefined }
+            : { ...s, variant: GameVariant.CLASSIC });
+    };
+
+    // Misère and Wild stack, so each toggle keeps the other's state
+    const isMisere = isMisereVariant(settings.variant);
+    const isWild = settings.variant === GameVariant.WILD || settings.variant === GameVariant.WILD_MISERE;
+    const toVariant = (misere: boolean, wild: boolean) => wild
+        ? (misere ? GameVariant.WILD_MISERE : GameVariant.WILD)
+        : (misere ? GameVariant.MISERE : GameVariant.CLASSIC);
+
     const getDifficultyDescription = (diff: Difficulty) => {
         switch(diff) {
             case Difficulty.EASY: return "Makes occasional mistakes. Good for warming up.";
@@ -87,15 +163,16 @@ const GameSettingsEditor: React.FC<GameSettingsEditorProps> = ({ settings, setSe
                             <span>Board Size</span>
                         </div>
                         <span className="font-bold text-cyan-500 bg-cyan-500/10 px-3 py-1 rounded-md border border-cyan-500/20 text-sm">
-                            {settings.boardSize} x {settings.boardSize}
+                            {isHex ? `Side ${settings.boardSize}` : <>{settings.boardSize} x {settings.boardSize}{isQubic && ` x ${settings.boardSize}`}</>}
                         </span>
                     </div>
                     <input 
                         type="range" 
-                        min="3" 
-                        max="10" 
+                        min={isGomoku ? GOMOKU_MIN_BOARD_SIZE : isSuddenDeath ? SUDDEN_DEATH_MIN_BOARD_SIZE : 3} 
+                        max={isHex ? HEX_MAX_SIZE : 10} 
                         value={settings.boardSize} 
                         onChange={handleSizeChange} 
+                        disabled={isFixedBoard}
                         className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500" 
                     />
                     <div className="bg-cyan-500/5 p-3 rounded-lg border border-cyan-500/10">
@@ -123,6 +200,7 @@ const GameSettingsEditor: React.FC<GameSettingsEditorProps> = ({ settings, setSe
                         max={settings.boardSize} 
                         value={settings.winLength} 
                         onChange={handleWinLengthChange} 
+                        disabled={isFixedBoard || isGomoku}
                         className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-500" 
                     />
                     <div className="bg-yellow-500/5 p-3 rounded-lg border border-yellow-500/10">
@@ -145,7 +223,8 @@ const GameSettingsEditor: React.FC<GameSettingsEditorProps> = ({ settings, setSe
                             <button
                                 key={opt}
                                 onClick={() => setSettings(s => ({ ...s, startingPlayer: opt }))}
-                                className={`flex-1 py-2 rounded-md text-xs font-bold uppercase transition-all ${
+                                disabled={isGomoku && opt !== 'X'}
+                                className={`flex-1 py-2 rounded-md text-xs font-bold uppercase transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
                                     settings.startingPlayer === opt 
                                         ? 'bg-white/10 text-white shadow-sm' 
                                         : 'text-gray-500 hover:text-gray-300'
@@ -197,12 +276,55 @@ const GameSettingsEditor: React.FC<GameSettingsEditorProps> = ({ settings, setSe
                                 type="checkbox" 
                                 checked={settings.obstacles} 
                                 onChange={e => setSettings(s => ({...s, obstacles: e.target.checked}))} 
+                                disabled={isFixedBoard || isHex}
                                 className="w-5 h-5 accent-orange-500" 
                             />
                          </div>
                         <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
                             Randomly places unplayable blocks on the board to disrupt standard strategies.
                         </p>
+                        {settings.obstacles && (
+                            <div className="flex gap-1 mt-3 p-1 bg-black/10 dark:bg-black/20 rounded-lg">
+                                {OBSTACLE_LAYOUTS.map(layout => (
+                                    <button
+                                        key={layout}
+                                        type="button"
+                                        onClick={e => { e.preventDefault(); setSettings(s => ({ ...s, obstacleLayout: layout })); }}
+                                        title={OBSTACLE_LAYOUT_HINTS[layout]}
+                                        className={`flex-1 py-1 text-[10px] font-bold uppercase tracking-wider rounded-md transition-colors ${(settings.obstacleLayout || 'random') === layout ? 'bg-orange-500 text-white' : 'text-gray-500 dark:text-gray-400 hover:text-orange-500'}`}
+                                    >
+                                        {layout}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </label>
+
+                {/* Wrap-Around Toggle */}
+                <label className={`relative flex items-start gap-4 p-4 rounded-xl border transition-all cursor-pointer
+                    ${settings.toroidal 
+                        ? 'bg-teal-500/10 border-teal-500/30' 
+                        : 'bg-white/5 border-transparent hover:bg-white/10'
+                    }`}
+                >
+                    <div className={`p-2 rounded-full mt-1 ${settings.toroidal ? 'bg-teal-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                        <WrapIcon className="w-5 h-5" />
+                    </div>
+                    <div className="flex-1">
+                         <div className="flex justify-between">
+                             <div className="font-bold text-sm">Wrap-Around</div>
+                            <input 
+                                type="checkbox" 
+                                checked={!!settings.toroidal} 
+                                onChange={e => setSettings(s => ({...s, toroidal: e.target.checked}))} 
+                                disabled={isFixedBoard || isGomoku || isHex || isSuddenDeath}
+                                className="w-5 h-5 accent-teal-500" 
+                            />
+                         </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                            Lines continue across the edges: a row can run off the right side and carry on from the left, and likewise top to bottom and along diagonals.
+                        </p>
                     </div>
                 </label>
 
@@ -234,12 +356,12 @@ const GameSettingsEditor: React.FC<GameSettingsEditorProps> = ({ settings, setSe
 
                 {/* Misere Toggle */}
                 <label className={`relative flex items-start gap-4 p-4 rounded-xl border transition-all cursor-pointer
-                    ${settings.variant === GameVariant.MISERE 
+                    ${isMisere 
                         ? 'bg-purple-500/10 border-purple-500/30' 
                         : 'bg-white/5 border-transparent hover:bg-white/10'
                     }`}
                 >
-                    <div className={`p-2 rounded-full mt-1 ${settings.variant === GameVariant.MISERE ? 'bg-purple-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                    <div className={`p-2 rounded-full mt-1 ${isMisere ? 'bg-purple-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
                         <SkullIcon className="w-5 h-5" />
                     </div>
                     <div className="flex-1">
@@ -247,8 +369,8 @@ const GameSettingsEditor: React.FC<GameSettingsEditorProps> = ({ settings, setSe
                             <div className="font-bold text-sm">Misère Mode</div>
                              <input 
                                 type="checkbox" 
-                                checked={settings.variant === GameVariant.MISERE} 
-                                onChange={e => setSettings(s => ({...s, variant: e.target.checked ? GameVariant.MISERE : GameVariant.CLASSIC}))} 
+                                checked={isMisere} 
+                                onChange={e => setSettings(s => ({...s, variant: toVariant(e.target.checked, isWild), ...(isFixedBoard ? { boardSize: 3, winLength: 3 } : {})}))} 
                                 className="w-5 h-5 accent-purple-500" 
                             />
                         </div>
@@ -257,8 +379,283 @@ const GameSettingsEditor: React.FC<GameSettingsEditorProps> = ({ settings, setSe
                         </p>
                     </div>
                 </label>
+
+                {/* Gravity Toggle */}
+                <label className={`relative flex items-start gap-4 p-4 rounded-xl border transition-all cursor-pointer
+                    ${settings.variant === GameVariant.GRAVITY 
+                        ? 'bg-cyan-500/10 border-cyan-500/30' 
+                        : 'bg-white/5 border-transparent hover:bg-white/10'
+                    }`}
+                >
+                    <div className={`p-2 rounded-full mt-1 ${settings.variant === GameVariant.GRAVITY ? 'bg-cyan-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                        <ArrowDownIcon className="w-5 h-5" />
+                    </div>
+                    <div className="flex-1">
+                        <div className="flex justify-between">
+                            <div className="font-bold text-sm">Gravity Mode</div>
+                             <input 
+                                type="checkbox" 
+                                checked={settings.variant === GameVariant.GRAVITY} 
+                                onChange={e => setSettings(s => ({...s, variant: e.target.checked ? GameVariant.GRAVITY : GameVariant.CLASSIC, ...(isFixedBoard ? { boardSize: 3, winLength: 3 } : {})}))} 
+                                className="w-5 h-5 accent-cyan-500" 
+                            />
+                        </div>
+                         <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                            Pick a column and your piece <span className="font-bold text-cyan-400">DROPS</span> to the lowest free cell. Obstacles hold pieces up. Destroy is disabled.
+                        </p>
+                    </div>
+                </label>
+
+                {/* Wild Toggle */}
+                <label className={`relative flex items-start gap-4 p-4 rounded-xl border transition-all cursor-pointer
+                    ${isWild 
+                        ? 'bg-fuchsia-500/10 border-fuchsia-500/30' 
+                        : 'bg-white/5 border-transparent hover:bg-white/10'
+                    }`}
+                >
+                    <div className={`p-2 rounded-full mt-1 ${isWild ? 'bg-fuchsia-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                        <ConvertIcon className="w-5 h-5" />
+                    </div>
+                    <div className="flex-1">
+                        <div className="flex justify-between">
+                            <div className="font-bold text-sm">Wild Mode</div>
+                             <input 
+                                type="checkbox" 
+                                checked={isWild} 
+                                onChange={e => setSettings(s => ({...s, variant: toVariant(isMisere, e.target.checked), ...(isFixedBoard ? { boardSize: 3, winLength: 3 } : {})}))} 
+                                className="w-5 h-5 accent-fuchsia-500" 
+                            />
+                        </div>
+                         <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                            Each turn, place <span className="font-bold text-fuchsia-400">X OR O</span>. Whoever completes a line of either symbol wins (loses, with Misère). Destroy and Convert are disabled.
+                        </p>
+                    </div>
+                </label>
+
+                {/* Ultimate Toggle */}
+                <label className={`relative flex items-start gap-4 p-4 rounded-xl border transition-all cursor-pointer
+                    ${isUltimate 
+                        ? 'bg-emerald-500/10 border-emerald-500/30' 
+                        : 'bg-white/5 border-transparent hover:bg-white/10'
+                    }`}
+                >
+                    <div className={`p-2 rounded-full mt-1 ${isUltimate ? 'bg-emerald-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                        <GridIcon className="w-5 h-5" />
+                    </div>
+                    <div className="flex-1">
+                        <div className="flex justify-between">
+                            <div className="font-bold text-sm">Ultimate Mode</div>
+                             <input 
+                                type="checkbox" 
+                                checked={isUltimate} 
+                                onChange={handleUltimateChange} 
+                                className="w-5 h-5 accent-emerald-500" 
+                            />
+                        </div>
+                         <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                            Nine boards in one. The square you pick <span className="font-bold text-emerald-400">SENDS</span> your opponent to the matching board. Win three boards in a row. Destroy, Wall and Convert are disabled.
+                        </p>
+                    </div>
+                </label>
+                
+                 {/* Qubic Toggle */}
+                <label className={`relative flex items-start gap-4 p-4 rounded-xl border transition-all cursor-pointer
+                    ${isQubic 
+                        ? 'bg-indigo-500/10 border-indigo-500/30' 
+                        : 'bg-white/5 border-transparent hover:bg-white/10'
+                    }`}
+                >
+                    <div className={`p-2 rounded-full mt-1 ${isQubic ? 'bg-indigo-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                        <CubeIcon className="w-5 h-5" />
+                    </div>
+                    <div className="flex-1">
+                        <div className="flex justify-between">
+                            <div className="font-bold text-sm">Qubic (3D)</div>
+                             <input 
+                                type="checkbox" 
+                                checked={isQubic} 
+                                onChange={handleQubicChange} 
+                                className="w-5 h-5 accent-indigo-500" 
+                            />
+                        </div>
+                         <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                            A 4x4x4 cube played as four stacked layers. Get 4 in a row in <span className="font-bold text-indigo-400">ANY DIRECTION</span>, including straight down through the layers and corner to corner.
+                        </p>
+                    </div>
+                </label>
                 
-                 {/* Blitz Mode Toggle */}
+                {/* Hex Toggle */}
+                <label className={`relative flex items-start gap-4 p-4 rounded-xl border transition-all cursor-pointer
+                    ${isHex 
+                        ? 'bg-lime-500/10 border-lime-500/30' 
+                        : 'bg-white/5 border-transparent hover:bg-white/10'
+                    }`}
+                >
+                    <div className={`p-2 rounded-full mt-1 ${isHex ? 'bg-lime-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                        <HexIcon className="w-5 h-5" />
+                    </div>
+                    <div className="flex-1">
+                        <div className="flex justify-between">
+                            <div className="font-bold text-sm">Hex Board</div>
+                             <input 
+                                type="checkbox" 
+                                checked={isHex} 
+                                onChange={handleHexChange} 
+                                className="w-5 h-5 accent-lime-500" 
+                            />
+                        </div>
+                         <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                            A hexagon of hexagonal cells, {HEX_MIN_SIZE} to {HEX_MAX_SIZE} cells a side. Every cell has six neighbours and lines run along <span className="font-bold text-lime-400">THREE AXES</span>.
+                        </p>
+                    </div>
+                </label>
+
+                {/* Gomoku Toggle */}
+                <div className={`rounded-xl border transition-all overflow-hidden ${isGomoku ? 'bg-amber-500/5 border-amber-500/30' : 'bg-white/5 border-transparent'}`}>
+                    <label className="flex items-start gap-4 p-4 cursor-pointer hover:bg-white/5 transition-colors">
+                        <div className={`p-2 rounded-full mt-1 ${isGomoku ? 'bg-amber-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                            <StonesIcon className="w-5 h-5" />
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex justify-between">
+                                <div className="font-bold text-sm">Gomoku</div>
+                                <input 
+                                    type="checkbox" 
+                                    checked={isGomoku} 
+                                    onChange={handleGomokuChange} 
+                                    className="w-5 h-5 accent-amber-500" 
+                                />
+                            </div>
+                             <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                                <span className="font-bold text-amber-400">FIVE</span> in a row on a {GOMOKU_MIN_BOARD_SIZE}x{GOMOKU_MIN_BOARD_SIZE} or larger board. X moves first. Destroy, Double Strike and Convert are disabled.
+                            </p>
+                        </div>
+                    </label>
+
+                    {isGomoku && (
+                        <div className="px-4 pb-4 pt-0 space-y-3 animate-fade-in">
+                            <label className="flex items-start justify-between gap-4 pt-3 border-t border-amber-500/10 cursor-pointer">
+                                <div>
+                                    <div className="font-medium text-xs text-gray-300">Exact Five</div>
+                                    <p className="text-[11px] text-gray-500 leading-relaxed">Six or more in a row doesn't win.</p>
+                                </div>
+                                <input type="checkbox" checked={gomoku.exactFive} onChange={e => setGomokuOption({ exactFive: e.target.checked })} className="w-4 h-4 accent-amber-500 mt-0.5" />
+                            </label>
+                            <label className="flex items-start justify-between gap-4 cursor-pointer">
+                                <div>
+                                    <div className="font-medium text-xs text-gray-300">Renju Restriction</div>
+                                    <p className="text-[11px] text-gray-500 leading-relaxed">X may not make a double three or double four with one stone.</p>
+                                </div>
+                                <input type="checkbox" checked={gomoku.renju} onChange={e => setGomokuOption({ renju: e.target.checked })} className="w-4 h-4 accent-amber-500 mt-0.5" />
+                            </label>
+                            <div className="space-y-2">
+                                <div className="flex justify-between items-center text-xs">
+                                    <span className="font-medium text-gray-300">Opening (Online Only)</span>
+                                </div>
+                                <div className="flex bg-black/20 p-1 rounded-lg border border-white/10">
+                                    {GOMOKU_OPENINGS.map(opt => (
+                                        <button
+                                            key={opt.id}
+                                            onClick={() => setGomokuOption({ opening: opt.id })}
+                                            className={`flex-1 py-2 rounded-md text-xs font-bold uppercase transition-all ${
+                                                gomoku.opening === opt.id 
+                                                    ? 'bg-white/10 text-white shadow-sm' 
+                                                    : 'text-gray-500 hover:text-gray-300'
+                                            }`}
+                                        >
+                                            {opt.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-[11px] text-gray-500 leading-relaxed">
+                                    Swap: X's player places two X and one O, then the opponent picks a side. Swap2: the opponent may instead add one O and one X and hand the pick back.
+                                </p>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Decay Toggle */}
+                <div className={`rounded-xl border transition-all overflow-hidden ${isDecay ? 'bg-rose-500/5 border-rose-500/30' : 'bg-white/5 border-transparent'}`}>
+                    <label className="flex items-start gap-4 p-4 cursor-pointer hover:bg-white/5 transition-colors">
+                        <div className={`p-2 rounded-full mt-1 ${isDecay ? 'bg-rose-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                            <HourglassIcon className="w-5 h-5" />
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex justify-between">
+                                <div className="font-bold text-sm">Decay</div>
+                                <input 
+                                    type="checkbox" 
+                                    checked={isDecay} 
+                                    onChange={handleDecayChange} 
+                                    className="w-5 h-5 accent-rose-500" 
+                                />
+                            </div>
+                             <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                                Each player keeps only a few pieces. Placing one more makes your <span className="font-bold text-rose-400">OLDEST</span> piece vanish, so there are no draws. Destroy, Wall and Convert are disabled.
+                            </p>
+                        </div>
+                    </label>
+
+                    {isDecay && (
+                        <div className="px-4 pb-4 pt-0 animate-fade-in">
+                            <div className="flex justify-between items-center text-xs mb-2 pt-3 border-t border-rose-500/10">
+                                <span className="font-medium text-gray-500">Pieces Per Player</span>
+                                <span className="font-mono text-rose-400 font-bold text-sm">{getDecayLimit(settings)}</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min={settings.winLength} 
+                                max={getMaxDecayLimit(settings.boardSize, settings.obstacles, settings.obstacleLayout)} 
+                                value={getDecayLimit(settings)} 
+                                onChange={e => setSettings(s => ({ ...s, decayLimit: parseInt(e.target.value, 10) }))}
+                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-rose-500" 
+                            />
+                        </div>
+                    )}
+                </div>
+
+                {/* Sudden Death Toggle */}
+                <div className={`rounded-xl border transition-all overflow-hidden ${isSuddenDeath ? 'bg-orange-500/5 border-orange-500/30' : 'bg-white/5 border-transparent'}`}>
+                    <label className="flex items-start gap-4 p-4 cursor-pointer hover:bg-white/5 transition-colors">
+                        <div className={`p-2 rounded-full mt-1 ${isSuddenDeath ? 'bg-orange-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
+                            <CollapseIcon className="w-5 h-5" />
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex justify-between">
+                                <div className="font-bold text-sm">Sudden Death</div>
+                                <input 
+                                    type="checkbox" 
+                                    checked={isSuddenDeath} 
+                                    onChange={handleSuddenDeathChange} 
+                                    className="w-5 h-5 accent-orange-500" 
+                                />
+                            </div>
+                             <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed mt-1">
+                                Every few moves without a winner, the board's <span className="font-bold text-orange-400">OUTER RING</span> of empty squares collapses into obstacles, until someone wins. Needs at least a {SUDDEN_DEATH_MIN_BOARD_SIZE}x{SUDDEN_DEATH_MIN_BOARD_SIZE} board. Undo and Destroy are disabled.
+                            </p>
+                        </div>
+                    </label>
+
+                    {isSuddenDeath && (
+                        <div className="px-4 pb-4 pt-0 animate-fade-in">
+                            <div className="flex justify-between items-center text-xs mb-2 pt-3 border-t border-orange-500/10">
+                                <span className="font-medium text-gray-500">Moves Between Collapses</span>
+                                <span className="font-mono text-orange-400 font-bold text-sm">{getCollapseInterval(settings)}</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min={SUDDEN_DEATH_MIN_INTERVAL} 
+                                max={settings.boardSize * 4} 
+                                value={getCollapseInterval(settings)} 
+                                onChange={e => setSettings(s => ({ ...s, collapseInterval: parseInt(e.target.value, 10) }))}
+                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500" 
+                            />
+                        </div>
+                    )}
+                </div>
+
+                {/* Blitz Mode Toggle */}
                  <div className={`rounded-xl border transition-all overflow-hidden ${settings.blitzMode ? 'bg-red-500/5 border-red-500/30' : 'bg-white/5 border-transparent'}`}>
                     <label className="flex items-start gap-4 p-4 cursor-pointer hover:bg-white/5 transition-colors">
                         <div className={`p-2 rounded-full mt-1 ${settings.blitzMode ? 'bg-red-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'}`}>
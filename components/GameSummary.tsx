@@ -4,12 +4,14 @@
 import React, { useContext, useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence, animate } from 'framer-motion';
 import { createPortal } from 'react-dom';
-import { BoardState, Player, WinningLine, CampaignLevel, Difficulty, PlayerRole, MatchRecord, Friendship, XpReport, GameSettings } from '../types';
+import { BoardState, Player, WinningLine, CampaignLevel, Difficulty, PlayerRole, MatchRecord, Friendship, XpReport, GameSettings, GameVariant } from '../types';
 import Board from './Board';
-import { HomeIcon, RestartIcon, NextIcon, CrownIcon, XIcon, OIcon, MessageIcon, StarIcon, TrophyIcon, CoinIcon, GridIcon, LightningIcon, SkullIcon, ShieldIcon, CheckIcon, ClockIcon, ObstacleIcon, LinkIcon, ImageIcon, GiftIcon } from './Icons';
+import { HomeIcon, RestartIcon, NextIcon, CrownIcon, MessageIcon, StarIcon, TrophyIcon, CoinIcon, GridIcon, LightningIcon, SkullIcon, ShieldIcon, CheckIcon, ClockIcon, ObstacleIcon, LinkIcon, ImageIcon, GiftIcon, ArrowDownIcon, ConvertIcon, CubeIcon, StonesIcon, HourglassIcon, WrapIcon, FogIcon, HexIcon, CollapseIcon } from './Icons';
+import { getDecayLimit, getCollapseInterval, formatPlace, getSide, getTeammate } from '../shared/rules';
+import { SEAT_COLORS, SEAT_ICONS } from './game/utils';
 import { UserAvatar } from './Avatars';
 import { AppContext } from '../contexts/AppContext';
-import { getBadge, getRank } from '../utils/badgeData';
+import { getBadge, getRank, RATING_POOL_LABELS } from '../utils/badgeData';
 import Tooltip from './Tooltip';
 import { friendsService } from '../services/friends';
 import Modal from './Modal';
@@ -53,6 +55,17 @@ interface GameSummaryProps {
   ante?: number;
   campaignLevel?: CampaignLevel;
   gameSettings?: GameSettings;
+  extraSeats?: SummarySeat[]; // Free-for-all and 2v2: the Triangle and Square seats
+  places?: { [key in Player]?: number };
+}
+
+interface SummarySeat {
+  role: Player;
+  name: string;
+  avatar: string;
+  frame?: string;
+  elo?: number;
+  level?: number;
 }
 
 // --- Share Replay Modal ---
@@ -99,7 +112,8 @@ const ShareReplayModal: React.FC<{
 };
 
 // Prominent Pot Display Component
-const PotResult: React.FC<{ pot: number, myRole?: Player, winner?: Player | 'draw', ante?: number }> = ({ pot, myRole, winner, ante }) => {
+// In a free-for-all the pot is shared by place, so payout is the seat's own share
+const PotResult: React.FC<{ pot: number, myRole?: Player, winner?: Player | 'draw', ante?: number, payout?: number }> = ({ pot, myRole, winner, ante, payout }) => {
     if (!pot || pot <= 0) return null;
 
     let displayAmount = pot;
@@ -108,7 +122,18 @@ const PotResult: React.FC<{ pot: number, myRole?: Player, winner?: Player | 'dra
     let prefix = "";
     let subText = "";
 
-    if (myRole && ante) {
+    if (myRole && ante && payout !== undefined) {
+        if (payout > 0) {
+            displayAmount = payout;
+            label = payout > ante ? "Your Share" : "Money Back";
+            colorClass = payout > ante ? "text-yellow-400" : "text-gray-300";
+            prefix = "+";
+        } else {
+            label = "Pot Lost";
+            colorClass = "text-red-500 opacity-80";
+            subText = `(-${ante} Coins)`;
+        }
+    } else if (myRole && ante) {
         if (winner === 'draw') {
             displayAmount = Math.floor(pot / 2);
             label = "Money Back";
@@ -232,21 +257,33 @@ const OnlinePostGameStats: React.FC<{
     playerXAvatar: string,
     playerOAvatar: string,
     userRole: PlayerRole | null | undefined,
-    winner: Player | 'draw'
-}> = ({ xpReport, playerXName, playerOName, playerXAvatar, playerOAvatar, userRole, winner }) => {
-    
+    winner: Player | 'draw',
+    extraSeats?: SummarySeat[],
+    teams?: boolean
+}> = ({ xpReport, playerXName, playerOName, playerXAvatar, playerOAvatar, userRole, winner, extraSeats = [], teams }) => {
+    // A free-for-all lists the seats in finishing order, and 2v2 lists each pair together
+    const sideOf = (role: Player) => teams ? getSide(role) : role;
+    const seats = [
+        { role: Player.X, name: playerXName, avatar: playerXAvatar },
+        { role: Player.O, name: playerOName, avatar: playerOAvatar },
+        ...extraSeats
+    ].sort((a, b) => teams
+        ? Number(sideOf(a.role) === Player.O) - Number(sideOf(b.role) === Player.O)
+        : (xpReport[a.role]?.place ?? 0) - (xpReport[b.role]?.place ?? 0));
+
     const renderRow = (role: Player, name: string, avatar: string, report?: XpReport) => {
         if (!report) return null;
         
         const isMe = userRole === role;
-        const isWinner = winner === role;
+        const isWinner = winner === sideOf(role);
         const isDraw = winner === 'draw';
         const eloChange = report.elo || 0;
         const coinChange = report.coinChange || 0;
         const xpTotal = report.total || 0;
+        const placeLabel = report.place !== undefined && !isWinner ? formatPlace(report.place).toUpperCase() : null;
 
         return (
-            <div className={`flex items-center justify-between p-2 rounded-lg border mb-1.5 ${isMe ? 'bg-white/10 border-white/20' : 'bg-black/20 border-white/5'}`}>
+            <div key={role} className={`flex items-center justify-between p-2 rounded-lg border mb-1.5 ${isMe ? 'bg-white/10 border-white/20' : 'bg-black/20 border-white/5'}`}>
                 <div className="flex items-center gap-2">
                     <div className="relative">
                         <div className="w-6 h-6 rounded-full overflow-hidden border border-white/20">
@@ -259,12 +296,12 @@ const OnlinePostGameStats: React.FC<{
                             <span className={`text-xs font-bold truncate max-w-[80px] ${isMe ? 'text-white' : 'text-gray-400'}`}>{name}</span>
                         </div>
                         <div className="flex items-center gap-2 text-[9px]">
-                            <span className={isWinner ? 'text-green-400' : (isDraw ? 'text-gray-400' : 'text-red-400')}>
-                                {isWinner ? 'VICTORY' : (isDraw ? 'DRAW' : 'DEFEAT')}
+                            <span className={isWinner ? 'text-green-400' : (isDraw && (report.place ?? 1) === 1 ? 'text-gray-400' : 'text-red-400')}>
+                                {isWinner ? 'VICTORY' : (placeLabel ?? (isDraw ? 'DRAW' : 'DEFEAT'))}
                             </span>
                             {eloChange !== 0 && (
-                                <span className="text-gray-500 font-mono">
-                                    ({eloChange > 0 ? '+' : ''}{eloChange})
+                                <span className="text-gray-500 font-mono" title={report.ratingPool ? `${RATING_POOL_LABELS[report.ratingPool]} rating${report.provisional ? ' (provisional)' : ''}` : undefined}>
+                                    ({eloChange > 0 ? '+' : ''}{eloChange}{report.provisional && '?'})
                                 </span>
                             )}
                         </div>
@@ -299,8 +336,7 @@ const OnlinePostGameStats: React.FC<{
                 <span className="text-[10px] font-bold text-gray-300 uppercase tracking-widest">Match Report</span>
             </div>
             
-            {renderRow(Player.X, playerXName, playerXAvatar, xpReport[Player.X])}
-            {renderRow(Player.O, playerOName, playerOAvatar, xpReport[Player.O])}
+            {seats.map(seat => renderRow(seat.role, seat.name, seat.avatar, xpReport[seat.role]))}
         </motion.div>
     );
 };
@@ -310,8 +346,18 @@ const MatchDetailsCard: React.FC<{ settings?: GameSettings, gameModeLabel: strin
 
     const modifiers = [];
     if (settings.obstacles) modifiers.push({ label: 'Obstacles', icon: <ObstacleIcon className="w-3 h-3"/> });
+    if (settings.toroidal) modifiers.push({ label: 'Wrap-Around', icon: <WrapIcon className="w-3 h-3"/> });
     if (settings.powerUps) modifiers.push({ label: 'Power-Ups', icon: <LightningIcon className="w-3 h-3"/> });
-    if (settings.variant === 'Misere') modifiers.push({ label: 'Misère', icon: <SkullIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Misere' || settings.variant === 'WildMisere') modifiers.push({ label: 'Misère', icon: <SkullIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Gravity') modifiers.push({ label: 'Gravity', icon: <ArrowDownIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Ultimate') modifiers.push({ label: 'Ultimate', icon: <GridIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Qubic') modifiers.push({ label: 'Qubic 3D', icon: <CubeIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Gomoku') modifiers.push({ label: settings.gomoku?.renju ? 'Gomoku (Renju)' : 'Gomoku', icon: <StonesIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Hex') modifiers.push({ label: 'Hex', icon: <HexIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Fog') modifiers.push({ label: 'Fog of War', icon: <FogIcon className="w-3 h-3"/> });
+    if (settings.variant === 'SuddenDeath') modifiers.push({ label: `Sudden Death (${getCollapseInterval(settings)})`, icon: <CollapseIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Decay') modifiers.push({ label: `Decay (${getDecayLimit(settings)})`, icon: <HourglassIcon className="w-3 h-3"/> });
+    if (settings.variant === 'Wild' || settings.variant === 'WildMisere') modifiers.push({ label: 'Wild', icon: <ConvertIcon className="w-3 h-3"/> });
     if (settings.blitzMode) modifiers.push({ label: 'Blitz', icon: <ClockIcon className="w-3 h-3"/> });
 
     return (
@@ -513,9 +559,11 @@ const PlayerResultCard: React.FC<{
 }> = ({ 
     name, avatar, frame, isWinner, isDraw, role, elo, badges, xpTotal, compact, level
 }) => {
-    const colorClass = role === Player.X ? 'text-cyan-400 border-cyan-500' : 'text-pink-400 border-pink-500';
-    const bgClass = role === Player.X ? 'bg-cyan-500/10' : 'bg-pink-500/10';
-    const glowClass = isWinner ? (role === Player.X ? 'shadow-[0_0_30px_rgba(34,211,238,0.2)]' : 'shadow-[0_0_30px_rgba(236,72,153,0.2)]') : '';
+    const color = SEAT_COLORS[role];
+    const colorClass = `text-${color}-400 border-${color}-500`;
+    const bgClass = `bg-${color}-500/10`;
+    const glowClass = isWinner ? (role === Player.X ? 'shadow-[0_0_30px_rgba(34,211,238,0.2)]' : role === Player.O ? 'shadow-[0_0_30px_rgba(236,72,153,0.2)]' : `shadow-xl shadow-${color}-500/20`) : '';
+    const RoleIcon = SEAT_ICONS[role];
     
     const rank = elo !== undefined ? getRank(elo) : null;
 
@@ -554,7 +602,7 @@ const PlayerResultCard: React.FC<{
                 )}
 
                 <div className={`absolute top-0 right-0 rounded-full bg-gray-900 border-2 border-white/10 flex items-center justify-center shadow-lg z-20 ${compact ? 'w-5 h-5' : 'w-6 h-6'}`}>
-                    {role === Player.X ? <XIcon className="w-full h-full p-1 text-cyan-400" /> : <OIcon className="w-full h-full p-1 text-pink-400" />}
+                    <RoleIcon className={`w-full h-full p-1 text-${color}-400`} />
                 </div>
             </div>
 
@@ -630,8 +678,22 @@ const GameSummary: React.FC<GameSummaryProps> = ({
   pot,
   ante,
   campaignLevel,
-  gameSettings
+  gameSettings,
+  extraSeats = [],
+  places
 }) => {
+  // Free-for-all and 2v2 both seat four, but in 2v2 the Triangle and Square seats play for X and O
+  const teams = !!gameSettings?.teams;
+  const isMultiSeat = extraSeats.length > 0;
+  const isFreeForAll = isMultiSeat && !teams;
+  const sideOf = (role: Player) => teams ? getSide(role) : role;
+  const mySide = userRole && userRole !== 'spectator' ? sideOf(userRole) : userRole;
+  const seatNames: { [key in Player]?: string } = {
+      [Player.X]: playerXName,
+      [Player.O]: playerOName,
+      ...Object.fromEntries(extraSeats.map(seat => [seat.role, seat.name]))
+  };
+  const myPlace = userRole && userRole !== 'spectator' ? places?.[userRole] : undefined;
   const [showShareModal, setShowShareModal] = useState(false);
   const toast = useToast();
   const app = useContext(AppContext);
@@ -648,7 +710,7 @@ const GameSummary: React.FC<GameSummaryProps> = ({
       : (savedMatch?.xpReport);
 
   const coinGain = myXpReport?.coinChange || 0;
-  const isCoinWin = coinGain > 0 || (pot !== undefined && pot > 0 && winner === userRole);
+  const isCoinWin = coinGain > 0 || (pot !== undefined && pot > 0 && winner === mySide);
 
   useEffect(() => {
       if (isCoinWin) {
@@ -664,7 +726,7 @@ const GameSummary: React.FC<GameSummaryProps> = ({
   if (userRole === 'spectator') {
     isWin = false; 
   } else if (userRole) {
-    isWin = winner === userRole;
+    isWin = winner === mySide;
   } else {
     isWin = winner === Player.X;
   }
@@ -679,7 +741,7 @@ const GameSummary: React.FC<GameSummaryProps> = ({
         title = "DRAW";
         subTitle = "Game ended in a stalemate";
     } else {
-        const winnerName = winner === 'X' ? playerXName : playerOName;
+        const winnerName = teams ? `${seatNames[winner]} & ${seatNames[getTeammate(winner)]}` : seatNames[winner];
         title = "MATCH OVER";
         subTitle = `Winner: ${winnerName}`;
     }
@@ -691,7 +753,7 @@ const GameSummary: React.FC<GameSummaryProps> = ({
         title = "VICTORY";
         bgClass = "bg-gradient-to-br from-cyan-900 to-blue-900";
     } else {
-        title = "DEFEAT";
+        title = isFreeForAll && myPlace !== undefined ? `${formatPlace(myPlace)} Place` : "DEFEAT";
         bgClass = "bg-gradient-to-br from-red-900 to-slate-900";
     }
   }
@@ -761,10 +823,10 @@ const GameSummary: React.FC<GameSummaryProps> = ({
             </motion.div>
 
             {/* Middle Content - Row on desktop to prevent scrolling */}
-            <div className="flex flex-col md:flex-row items-center md:items-start justify-center gap-4 md:gap-8 w-full max-w-6xl">
+            <div className={`flex flex-col ${isMultiSeat ? '' : 'md:flex-row md:items-start'} items-center justify-center gap-4 md:gap-8 w-full max-w-6xl`}>
                 
                 {/* Player X (Desktop) */}
-                <div className="hidden md:block mt-8">
+                <div className={`hidden ${isMultiSeat ? '' : 'md:block'} mt-8`}>
                     <PlayerResultCard name={playerXName} avatar={playerXAvatar} frame={playerXFrame} isWinner={winner === 'X'} isDraw={isDraw} role={Player.X} elo={playerXElo} badges={playerXBadges} level={playerXLevel} xpTotal={xpReport?.[Player.X]?.total} compact={false} />
                 </div>
 
@@ -773,12 +835,12 @@ const GameSummary: React.FC<GameSummaryProps> = ({
                      
                      {/* Pot Result */}
                      {!isSpectator && pot !== undefined && pot > 0 && (
-                        <PotResult pot={pot} myRole={userRole as Player} winner={winner} ante={ante} />
+                        <PotResult pot={pot} myRole={mySide as Player} winner={winner} ante={ante} payout={isMultiSeat ? myXpReport?.coinChange : undefined} />
                      )}
                      
                      {/* Board Container - Scaled Down */}
                      <div className="transform scale-[0.6] md:scale-[0.8] transition-transform origin-center drop-shadow-2xl -my-4 md:-my-8">
-                        <Board boardSize={boardSize} squares={board} onSquareClick={() => {}} winningLine={winningLine} disabled={true} hintedSquare={null} isSummary={true} />
+                        <Board boardSize={boardSize} squares={board} onSquareClick={() => {}} winningLine={winningLine} disabled={true} hintedSquare={null} isSummary={true} nested={gameSettings?.variant === GameVariant.ULTIMATE} layered={gameSettings?.variant === GameVariant.QUBIC} hex={gameSettings?.variant === GameVariant.HEX} toroidal={!!gameSettings?.toroidal} />
                      </div>
 
                      {/* Stats & Progress - Horizontal on Desktop */}
@@ -812,6 +874,8 @@ const GameSummary: React.FC<GameSummaryProps> = ({
                                         playerOAvatar={playerOAvatar}
                                         userRole={userRole}
                                         winner={winner}
+                                        extraSeats={extraSeats}
+                                        teams={teams}
                                     />
                                 ) : (
                                     <div className="w-full h-full bg-black/30 rounded-2xl border border-white/5 flex flex-col items-center justify-center gap-3 animate-pulse min-h-[100px]">
@@ -825,14 +889,17 @@ const GameSummary: React.FC<GameSummaryProps> = ({
                 </div>
 
                 {/* Player O (Desktop) */}
-                <div className="hidden md:block mt-8">
+                <div className={`hidden ${isMultiSeat ? '' : 'md:block'} mt-8`}>
                     <PlayerResultCard name={playerOName} avatar={playerOAvatar} frame={playerOFrame} isWinner={winner === 'O'} isDraw={isDraw} role={Player.O} elo={playerOElo} badges={playerOBadges} level={playerOLevel} xpTotal={xpReport?.[Player.O]?.total} compact={false} />
                 </div>
 
-                {/* Mobile: Players Row (Below Board) */}
-                <div className="md:hidden flex justify-center gap-3 w-full px-2 overflow-x-auto no-scrollbar">
+                {/* Mobile: Players Row (Below Board). Four seats are too many for the side cards, so they use this row everywhere. */}
+                <div className={`${isMultiSeat ? '' : 'md:hidden'} flex justify-center gap-3 w-full px-2 overflow-x-auto no-scrollbar`}>
                     <PlayerResultCard name={playerXName} avatar={playerXAvatar} frame={playerXFrame} isWinner={winner === 'X'} isDraw={isDraw} role={Player.X} elo={playerXElo} badges={playerXBadges} level={playerXLevel} xpTotal={xpReport?.[Player.X]?.total} compact={true} />
                     <PlayerResultCard name={playerOName} avatar={playerOAvatar} frame={playerOFrame} isWinner={winner === 'O'} isDraw={isDraw} role={Player.O} elo={playerOElo} badges={playerOBadges} level={playerOLevel} xpTotal={xpReport?.[Player.O]?.total} compact={true} />
+                    {extraSeats.map(seat => (
+                        <PlayerResultCard key={seat.role} name={seat.name} avatar={seat.avatar} frame={seat.frame} isWinner={winner === sideOf(seat.role)} isDraw={isDraw} role={sideOf(seat.role)} elo={seat.elo} level={seat.level} xpTotal={xpReport?.[seat.role]?.total} compact={true} />
+                    ))}
                 </div>
             </div>
       </div>
@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { MatchRecord, GameMode, GameVariant, Player, Difficulty } from '../types';
 import { getHistory } from '../services/history';
+import { isMisereVariant } from '../shared/rules';
 import { HomeIcon, PlayIcon, ClockIcon, TrophyIcon } from './Icons';
 
 interface HistoryProps {
@@ -55,7 +56,7 @@ const History: React.FC<HistoryProps> = ({ onWatchReplay, onBack }) => {
                 reason = isWin ? "Opponent Forfeited" : "Forfeited";
             } else if (r === 'disconnect') {
                 reason = "Connection Lost";
-            } else if (match.gameSettings.variant === GameVariant.MISERE) {
+            } else if (isMisereVariant(match.gameSettings.variant)) {
                 reason = isWin ? "Opponent Forced" : "Forced to Win";
             }
         }
@@ -143,6 +144,7 @@ const History: React.FC<HistoryProps> = ({ onWatchReplay, onBack }) => {
                                     
                                     <div className="flex items-center gap-3 text-sm text-gray-300">
                                         <span className="font-bold text-white">{getOpponentLabel(match)}</span>
+                                        {match.teammateName && <span className="text-xs text-cyan-300">with {match.teammateName}</span>}
                                         <span className="w-1 h-1 rounded-full bg-gray-600" />
                                         <span className="text-xs opacity-70">{new Date(match.date).toLocaleDateString()}</span>
                                     </div>
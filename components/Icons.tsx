@@ -14,6 +14,19 @@ export const OIcon: React.FC<{className?: string, style?: React.CSSProperties}>
   </svg>
 );
 
+// Free-for-all pieces for the third and fourth seats
+export const TriangleIcon: React.FC<{className?: string, style?: React.CSSProperties}> = ({className, style}) => (
+  <svg viewBox="0 0 100 100" className={className} style={{ display: 'block', ...style }} width="100%" height="100%">
+    <polygon points="50,20 80,75 20,75" stroke="currentColor" strokeWidth="13" strokeLinejoin="round" fill="none" />
+  </svg>
+);
+
+export const SquareIcon: React.FC<{className?: string, style?: React.CSSProperties}> = ({className, style}) => (
+  <svg viewBox="0 0 100 100" className={className} style={{ display: 'block', ...style }} width="100%" height="100%">
+    <rect x="24" y="24" width="52" height="52" rx="4" stroke="currentColor" strokeWidth="13" fill="none" />
+  </svg>
+);
+
 // --- Power Ups ---
 
 export const UndoIcon: React.FC<{className?: string}> = ({className}) => (
@@ -531,6 +544,13 @@ export const ArrowUpIcon: React.FC<{className?: string}> = ({className}) => (
     </svg>
 );
 
+export const ArrowDownIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M12 5v14" />
+        <polyline points="19 12 12 19 5 12" />
+    </svg>
+);
+
 export const MoonIcon: React.FC<{className?: string}> = ({className}) => (
     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
         <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z" />
@@ -651,4 +671,67 @@ export const TowerIcon: React.FC<{className?: string}> = ({className}) => (
         <path d="M12 6V3" />
         <path d="M5 3h14" />
     </svg>
-);
\ No newline at end of file
+);
+export const CubeIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M12 2 3 7v10l9 5 9-5V7z" />
+        <polyline points="3 7 12 12 21 7" />
+        <path d="M12 12v10" />
+    </svg>
+);
+
+export const StonesIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <circle cx="5" cy="12" r="2.5" fill="currentColor" />
+        <circle cx="12" cy="12" r="2.5" />
+        <circle cx="19" cy="12" r="2.5" fill="currentColor" />
+        <path d="M2 5h20M2 19h20" />
+    </svg>
+);
+
+export const HourglassIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M6 2h12M6 22h12" />
+        <path d="M7 2v4a5 5 0 0 0 10 0V2" />
+        <path d="M7 22v-4a5 5 0 0 1 10 0v4" />
+    </svg>
+);
+
+export const WrapIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <rect x="5" y="5" width="14" height="14" rx="2" strokeDasharray="3 3" />
+        <path d="M12 12h10M19 9l3 3-3 3" />
+        <path d="M2 12h5" />
+    </svg>
+);
+
+export const FogIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M7 13a4 4 0 0 1 .5-7.97A5 5 0 0 1 17 6a3.5 3.5 0 0 1 0 7H7z" />
+        <path d="M3 17h14M7 21h14" />
+    </svg>
+);
+
+export const HexIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M12 2l8.66 5v10L12 22l-8.66-5V7z" />
+        <path d="M12 8.5l3 1.75v3.5L12 15.5l-3-1.75v-3.5z" />
+    </svg>
+);
+
+// Nested squares with the outer one breaking up, for Sudden Death's shrinking board
+export const CollapseIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M3 8V3h5M16 3h5v5M21 16v5h-5M8 21H3v-5" />
+        <rect x="8" y="8" width="8" height="8" rx="1" />
+    </svg>
+);
+
+export const PlayersIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <circle cx="9" cy="7" r="3" />
+        <path d="M3 20v-1a5 5 0 0 1 5-5h2a5 5 0 0 1 5 5v1" />
+        <path d="M16 4.13a3 3 0 0 1 0 5.74" />
+        <path d="M21 20v-1a5 5 0 0 0-4-4.9" />
+    </svg>
+);
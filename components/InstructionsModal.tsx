@@ -5,7 +5,7 @@ import {
     TrophyIcon, LightningIcon, SkullIcon, ClockIcon, GridIcon, 
     MapIcon, CoinIcon, InfoIcon, QuestIcon, 
     SwordIcon, ShieldIcon, BombIcon, UndoIcon, HintIcon,
-    BadgeIcon, LeaderboardIcon, StarIcon, ObstacleIcon
+    BadgeIcon, LeaderboardIcon, StarIcon, ObstacleIcon, WrapIcon
 } from './Icons';
 import { RANKS } from '../utils/badgeData';
 
@@ -81,6 +81,72 @@ const InstructionsModal: React.FC<InstructionsModalProps> = ({ onClose }) => {
                                             Inverted rules! If you complete a line, you <strong className="text-red-400">LOSE</strong>. The goal is to force your opponent to make a line.
                                         </p>
                                     </div>
+                                    <div>
+                                        <h4 className="font-bold text-sky-400 mb-2">Gravity Mode</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Connect-Four style. Pick a column and your piece <strong>drops</strong> to the lowest free cell, resting on pieces or obstacles below it. Destroy can't be used.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-emerald-400 mb-2">Ultimate Mode</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Nine small boards make one big one. The square you pick <strong>sends</strong> your opponent to the matching small board (anywhere, if that board is already decided). Take three small boards in a row to win.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-fuchsia-400 mb-2">Wild Mode</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            On every turn you choose to place <strong>X or O</strong>. Whoever completes a line of either symbol wins, or loses when combined with Misère. Destroy and Convert can't be used.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-indigo-400 mb-2">Qubic (3D)</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Four in a row on a 4x4x4 cube. Use the layer selector to move between the four stacked boards; lines count across a layer, straight <strong>through</strong> the layers, and diagonally through the whole cube (76 lines in all).
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-lime-400 mb-2">Hex</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            The board is a hexagon of hexagonal cells, 3 to 6 cells to a side. Every cell touches <strong>six</strong> others, so lines run along three axes: across a row and down either slant. There are no obstacles and the edges don't wrap.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-amber-400 mb-2">Free-for-All</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Hosted online rooms for <strong>three or four</strong> players on one classic board of at least 5x5, with <strong>Triangle</strong> and <strong>Square</strong> joining X and O and turns passing in seat order. With <strong>First Line</strong> the first line takes the whole pot; with <strong>Elimination</strong> each line finishes that player in the best place left and the rest play on, and the pot is shared out by place. Running out of time or leaving puts you last of those still playing. Power-ups and Double Down are off.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-amber-400 mb-2">2v2 Teams</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Hosted online rooms where <strong>two pairs</strong> share X and O on a classic board, and turns go round the table so teammates take alternate turns for their side. A line by either teammate wins for both, and the winners split the pot. Pick your side with <strong>Switch Team</strong> before the room fills, and use the <strong>Team</strong> chat tab to plan where the other side can't read it. Power-ups and Double Down are off.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-amber-400 mb-2">Gomoku</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Five in a row on a 7x7 to 10x10 board, and X always moves first. <strong>Exact Five</strong> stops six or more from winning, and <strong>Renju</strong> bars X from making two threes or two fours with one stone. Online games can open with <strong>Swap</strong> (X's player places two X and one O, then the opponent picks a side) or <strong>Swap2</strong> (the opponent may instead add one O and one X and hand the pick back). Destroy, Double Strike and Convert can't be used.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-rose-400 mb-2">Decay</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Each player may only have a few pieces on the board (by default as many as the win streak). Placing one more makes your <strong>oldest</strong> piece vanish; it is highlighted while it's next in line. The board never fills up, so there are no draws. Destroy, Wall and Convert can't be used.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-orange-400 mb-2">Sudden Death</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Played on 5x5 and up. Every few moves without a winner (by default twice the board size), the outermost ring of <strong>empty</strong> squares collapses into obstacles, so the board keeps shrinking until someone wins. Pieces already on a collapsing ring stay and still count. The squares about to go are highlighted a couple of moves ahead. The centre never collapses, and the game is drawn only if the board fills. Undo and Destroy can't be used.
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-slate-300 mb-2">Fog of War</h4>
+                                        <p className="text-sm text-gray-300 leading-relaxed">
+                                            Online only. You see your own pieces and the squares around them; the rest of the board is under <strong>fog</strong>. Playing onto a hidden square that's already taken loses your turn but reveals it. Spectators see everything, and replays can show either player's view. Only Undo can be used.
+                                        </p>
+                                    </div>
                                 </div>
                             </section>
 
@@ -135,7 +201,7 @@ const InstructionsModal: React.FC<InstructionsModalProps> = ({ onClose }) => {
                                 <ul className="space-y-3">
                                     <li className="flex gap-3 text-sm text-gray-300">
                                         <TrophyIcon className="w-5 h-5 text-yellow-500 shrink-0" />
-                                        <span><strong>ELO System:</strong> Everyone starts at 1000. Win to climb the leaderboard.</span>
+                                        <span><strong>Ratings:</strong> Everyone starts at 1000. Classic 3x3, large-board, blitz, Misère, Gravity, Ultimate, Wild, Qubic, Gomoku, Decay, Fog, Hex, Sudden Death, free-for-all and 2v2 games each have their own rating and leaderboard. Your first 10 games in each are provisional and move your rating faster.</span>
                                     </li>
                                     <li className="flex gap-3 text-sm text-gray-300">
                                         <ClockIcon className="w-5 h-5 text-blue-400 shrink-0" />
@@ -172,7 +238,14 @@ const InstructionsModal: React.FC<InstructionsModalProps> = ({ onClose }) => {
                                         <SkullIcon className="w-8 h-8 text-gray-500" />
                                         <div>
                                             <strong className="block text-white">Obstacles & Misère</strong>
-                                            <p className="text-xs text-gray-400 mt-1">Enable random unplayable blocks or invert the rules with Misère mode for a fresh challenge.</p>
+                                            <p className="text-xs text-gray-400 mt-1">Enable unplayable blocks or invert the rules with Misère mode for a fresh challenge. Obstacles can be scattered at random or laid out symmetrically (mirror, rotational or centre cross). Online, the server seals its obstacle seed before anyone stakes a coin and reveals it when play begins, mixed with a seed from each player, so you can check the layout wasn't rigged.</p>
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-3">
+                                        <WrapIcon className="w-8 h-8 text-gray-500" />
+                                        <div>
+                                            <strong className="block text-white">Wrap-Around</strong>
+                                            <p className="text-xs text-gray-400 mt-1">Lines continue across the board's edges, so a row can start on the right and finish on the left. Not available in Ultimate, Qubic, Gomoku or Hex.</p>
                                         </div>
                                     </div>
                                 </div>
@@ -40,7 +40,14 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onGoToOnlineLobby, onG
   const [playerXName, setPlayerXName] = useState(auth?.currentUser?.displayName || 'Player X');
   const [playerOName, setPlayerOName] = useState('Player O');
 
-  const isAiDisabled = settings.boardSize > 4 || settings.obstacles || settings.variant !== GameVariant.CLASSIC;
+  // Ultimate's 81 cells are searched as nine small boards, so the size limit doesn't apply to it.
+  // Gomoku's large boards are what its search is tuned for, so only obstacles rule the AI out there.
+  // Hex boards never have obstacles and are searched like Qubic's cube, so every size is allowed.
+  // Sudden Death starts at 5x5 and its search only gets easier as the board shrinks, so it goes with Gomoku.
+  const isAiDisabled = settings.variant === GameVariant.GOMOKU || settings.variant === GameVariant.SUDDEN_DEATH
+      ? settings.obstacles
+      : settings.variant !== GameVariant.ULTIMATE && settings.variant !== GameVariant.QUBIC && settings.variant !== GameVariant.HEX
+          && (settings.boardSize > 4 || settings.obstacles || (settings.variant !== GameVariant.CLASSIC && settings.variant !== GameVariant.GRAVITY && settings.variant !== GameVariant.WILD && settings.variant !== GameVariant.DECAY));
 
   const cardVariants: Variants = {
     hover: { y: -3, transition: { type: 'spring', stiffness: 300 } },
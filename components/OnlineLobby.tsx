@@ -4,11 +4,12 @@ import { motion } from 'framer-motion';
 import { onlineService } from '../services/online';
 import { AppContext } from '../contexts/AppContext';
 import { AuthContext } from '../contexts/AuthContext';
-import { HomeIcon, LeaderboardIcon, EyeIcon, PlayIcon, PasteIcon, UsersIcon, CoinIcon, SwordIcon } from './Icons';
+import { HomeIcon, LeaderboardIcon, EyeIcon, PlayIcon, PasteIcon, UsersIcon, CoinIcon, SwordIcon, SearchIcon, ClockIcon, CloseIcon, SkullIcon, GridIcon, ArrowDownIcon, ShapesIcon, ConvertIcon, CubeIcon, StonesIcon, HourglassIcon, WrapIcon, FogIcon, HexIcon, PlayersIcon, CollapseIcon } from './Icons';
 import { useToast } from '../contexts/ToastContext';
-import { Room, User, Friendship, WagerTier } from '../types';
+import { Room, User, Friendship, WagerTier, QueueStatus, GameSettings, GameVariant, RatingPool, FfaRule } from '../types';
+import { DEFAULT_GOMOKU_OPTIONS } from '../shared/rules';
 import { UserAvatar } from './Avatars';
-import { getBadge, getRank } from '../utils/badgeData';
+import { getBadge, getRank, getPoolElo, RATING_POOL_LABELS } from '../utils/badgeData';
 import Tooltip from './Tooltip';
 import { friendsService } from '../services/friends';
 
@@ -18,6 +19,20 @@ const LOBBIES: { tier: WagerTier, name: string, ante: number, color: string }[]
     { tier: 'gold', name: 'Gold', ante: 1000, color: 'from-yellow-600 to-amber-700' },
 ];
 
+const VARIANT_OPTIONS: { variant: GameVariant, label: string, description: string, icon: React.ReactNode, activeClass: string }[] = [
+    { variant: GameVariant.CLASSIC, label: 'Classic', description: 'Standard rules', icon: <GridIcon className="w-3 h-3" />, activeClass: 'bg-white/10 text-white' },
+    { variant: GameVariant.MISERE, label: 'Misère', description: 'Whoever completes a line loses', icon: <SkullIcon className="w-3 h-3" />, activeClass: 'bg-pink-500/20 text-pink-300' },
+    { variant: GameVariant.GRAVITY, label: 'Gravity', description: 'Pieces drop to the bottom of the chosen column', icon: <ArrowDownIcon className="w-3 h-3" />, activeClass: 'bg-cyan-500/20 text-cyan-300' },
+    { variant: GameVariant.ULTIMATE, label: 'Ultimate', description: 'Nine boards in one; your square sends the opponent to the matching board', icon: <ShapesIcon className="w-3 h-3" />, activeClass: 'bg-emerald-500/20 text-emerald-300' },
+    { variant: GameVariant.WILD, label: 'Wild', description: 'Place X or O each turn; whoever completes a line wins', icon: <ConvertIcon className="w-3 h-3" />, activeClass: 'bg-fuchsia-500/20 text-fuchsia-300' },
+    { variant: GameVariant.QUBIC, label: 'Qubic', description: '4x4x4 cube; lines run through the layers too', icon: <CubeIcon className="w-3 h-3" />, activeClass: 'bg-indigo-500/20 text-indigo-300' },
+    { variant: GameVariant.GOMOKU, label: 'Gomoku', description: 'Exactly five in a row on 10x10, with a Swap2 opening', icon: <StonesIcon className="w-3 h-3" />, activeClass: 'bg-amber-500/20 text-amber-300' },
+    { variant: GameVariant.DECAY, label: 'Decay', description: 'Three pieces each; placing a fourth makes your oldest vanish', icon: <HourglassIcon className="w-3 h-3" />, activeClass: 'bg-rose-500/20 text-rose-300' },
+    { variant: GameVariant.HEX, label: 'Hex', description: 'Hexagonal cells four to a side; get four in a row along any of three axes', icon: <HexIcon className="w-3 h-3" />, activeClass: 'bg-lime-500/20 text-lime-300' },
+    { variant: GameVariant.SUDDEN_DEATH, label: 'Sudden Death', description: '7x7, four in a row; every 14 moves the outer ring collapses into obstacles', icon: <CollapseIcon className="w-3 h-3" />, activeClass: 'bg-orange-500/20 text-orange-300' },
+    { variant: GameVariant.FOG, label: 'Fog', description: 'You only see the squares next to your own pieces', icon: <FogIcon className="w-3 h-3" />, activeClass: 'bg-slate-500/30 text-slate-200' },
+];
+
 const OnlineLobby: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'play' | 'spectate' | 'leaderboard'>('play');
   const [gameIdInput, setGameIdInput] = useState('');
@@ -26,12 +41,40 @@ const OnlineLobby: React.FC = () => {
   const [leaderboard, setLeaderboard] = useState<User[]>([]);
   const [friendsLeaderboard, setFriendsLeaderboard] = useState<User[]>([]);
   const [showFriendsOnly, setShowFriendsOnly] = useState(false);
+  const [ratingPool, setRatingPool] = useState<RatingPool>('classic');
+  const [playMode, setPlayMode] = useState<'quick' | 'host'>('quick');
+  const [queuedTier, setQueuedTier] = useState<WagerTier | null>(null);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const [variant, setVariant] = useState<GameVariant>(GameVariant.CLASSIC);
+  const [toroidal, setToroidal] = useState(false);
+  const [seatCount, setSeatCount] = useState(2);
+  const [ffaRule, setFfaRule] = useState<FfaRule>('first_line');
+  const [teams, setTeams] = useState(false);
   
   const app = useContext(AppContext);
   const auth = useContext(AuthContext);
   const toast = useToast();
   
   const userCoins = app?.coins ?? 0;
+  // Lobby Gomoku is the largest board with exact five and a Swap2 opening; lobby Hex is four a side, four in a row;
+  // lobby Sudden Death is four in a row on 7x7 and a hosted free-for-all is four in a row on a board three wider than the seat count. 2v2 uses the four-player board.
+  const isTeams = playMode === 'host' && teams;
+  const isFfa = playMode === 'host' && seatCount > 2 && !teams;
+  const isMultiSeat = isFfa || isTeams;
+  const variantSettings: Partial<GameSettings> = isTeams
+      ? { teams: true, boardSize: 7, winLength: 4 }
+      : isFfa
+      ? { players: seatCount, ffaRule, boardSize: seatCount + 3, winLength: 4 }
+      : variant === GameVariant.GOMOKU
+      ? { variant, boardSize: 10, gomoku: { ...DEFAULT_GOMOKU_OPTIONS, opening: 'swap2' } }
+      : variant === GameVariant.HEX
+          ? { variant, boardSize: 4, winLength: 4 }
+          : variant === GameVariant.SUDDEN_DEATH
+              ? { variant, boardSize: 7, winLength: 4 }
+              : variant !== GameVariant.CLASSIC ? { variant } : {};
+  // Ultimate, Qubic, Gomoku and Hex have boards of their own that don't wrap, and Sudden Death needs edges to collapse from
+  const canWrap = isMultiSeat || variant !== GameVariant.ULTIMATE && variant !== GameVariant.QUBIC && variant !== GameVariant.GOMOKU && variant !== GameVariant.HEX && variant !== GameVariant.SUDDEN_DEATH;
+  const roomSettings: Partial<GameSettings> = toroidal && canWrap ? { ...variantSettings, toroidal: true } : variantSettings;
 
   useEffect(() => {
       if (activeTab === 'spectate') {
@@ -39,7 +82,7 @@ const OnlineLobby: React.FC = () => {
           onlineService.onRoomsList(setActiveRooms);
           return () => onlineService.offRoomsList();
       } else if (activeTab === 'leaderboard') {
-          onlineService.getLeaderboard().then(setLeaderboard).catch(console.error);
+          onlineService.getLeaderboard(ratingPool).then(setLeaderboard).catch(console.error);
           
           friendsService.getFriends().then(data => {
               const friends = data.friends.map((f: Friendship) => 
@@ -48,11 +91,38 @@ const OnlineLobby: React.FC = () => {
               
               if (auth?.currentUser) friends.push(auth.currentUser);
               
-              friends.sort((a, b) => b.elo - a.elo);
+              friends.sort((a, b) => getPoolElo(b, ratingPool) - getPoolElo(a, ratingPool));
               setFriendsLeaderboard(friends);
           });
       }
-  }, [activeTab, auth?.currentUser]);
+  }, [activeTab, auth?.currentUser, ratingPool]);
+
+  useEffect(() => {
+      const handleMatchFound = (data: { roomId: string, opponentName: string }) => {
+          setQueuedTier(null);
+          setQueueStatus(null);
+          toast.success(`Match found vs ${data.opponentName}!`);
+      };
+      const handleQueueLeft = (data: { reason: string }) => {
+          setQueuedTier(null);
+          setQueueStatus(null);
+          toast.error(data.reason);
+      };
+      onlineService.onQueueUpdate(setQueueStatus);
+      onlineService.onQueueLeft(handleQueueLeft);
+      onlineService.onMatchFound(handleMatchFound);
+      return () => {
+          onlineService.offQueueUpdate(setQueueStatus);
+          onlineService.offQueueLeft(handleQueueLeft);
+          onlineService.offMatchFound(handleMatchFound);
+      };
+  }, [toast]);
+
+  // Leaving the hub cancels any search in progress
+  useEffect(() => {
+      if (!queuedTier) return;
+      return () => onlineService.leaveQueue();
+  }, [queuedTier]);
 
   const handleJoinGame = async (id: string, asSpectator: boolean = false) => {
       // Joining a game is now free, ante is handled in confirmation
@@ -74,7 +144,7 @@ const OnlineLobby: React.FC = () => {
       }
       setIsCreating(tier);
       try {
-        await onlineService.createRoom({}, tier);
+        await onlineService.createRoom(roomSettings, tier);
       } catch (e: any) {
         toast.error(e.message);
       } finally {
@@ -82,6 +152,28 @@ const OnlineLobby: React.FC = () => {
       }
   }
 
+  const handleJoinQueue = async (tier: WagerTier, ante: number) => {
+      if (userCoins < ante) {
+          return toast.error(`You need at least ${ante} coins for this lobby.`);
+      }
+      setIsCreating(tier);
+      try {
+          const status = await onlineService.joinQueue(roomSettings, tier);
+          setQueueStatus(status || null);
+          setQueuedTier(tier);
+      } catch (e: any) {
+          toast.error(e.message);
+      } finally {
+          setIsCreating(null);
+      }
+  }
+
+  const handleLeaveQueue = () => {
+      onlineService.leaveQueue();
+      setQueuedTier(null);
+      setQueueStatus(null);
+  }
+
   const handlePaste = async () => {
       try {
           const text = await navigator.clipboard.readText();
@@ -152,14 +244,103 @@ const OnlineLobby: React.FC = () => {
                     {/* Left Side: Create Lobby */}
                     <div className="flex-1 space-y-6">
                         <h2 className="text-center md:text-left font-bold uppercase text-gray-500 tracking-wider">Choose a Lobby</h2>
+                        <div className="flex bg-white/5 p-1 rounded-lg">
+                            {(['quick', 'host'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setPlayMode(mode)}
+                                    disabled={queuedTier !== null}
+                                    className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-colors disabled:opacity-50 ${playMode === mode ? 'bg-cyan-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {mode === 'quick' ? 'Quick Match' : 'Host Room'}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex flex-wrap bg-white/5 p-1 rounded-lg">
+                            {VARIANT_OPTIONS.map(option => (
+                                <button
+                                    key={option.variant}
+                                    onClick={() => setVariant(option.variant)}
+                                    disabled={queuedTier !== null || (isMultiSeat && option.variant !== GameVariant.CLASSIC)}
+                                    title={option.description}
+                                    className={`flex-1 py-1.5 text-xs font-bold rounded-md flex items-center justify-center gap-1.5 transition-colors disabled:opacity-50 ${(isMultiSeat ? option.variant === GameVariant.CLASSIC : variant === option.variant) ? option.activeClass : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {option.icon} {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        {playMode === 'host' && (
+                            <div className="flex bg-white/5 p-1 rounded-lg gap-1">
+                                {[2, 3, 4].map(count => (
+                                    <button
+                                        key={count}
+                                        onClick={() => { setSeatCount(count); setTeams(false); }}
+                                        title={count > 2 ? 'Free-for-all on one classic board' : 'One on one'}
+                                        className={`flex-1 py-1.5 text-xs font-bold rounded-md flex items-center justify-center gap-1.5 transition-colors ${seatCount === count && !teams ? 'bg-amber-500/20 text-amber-300' : 'text-gray-400 hover:text-white'}`}
+                                    >
+                                        <PlayersIcon className="w-3 h-3" /> {count} Players
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => setTeams(true)}
+                                    title="Two teams of two, each pair sharing a symbol"
+                                    className={`flex-1 py-1.5 text-xs font-bold rounded-md flex items-center justify-center gap-1.5 transition-colors ${teams ? 'bg-amber-500/20 text-amber-300' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    <PlayersIcon className="w-3 h-3" /> 2v2
+                                </button>
+                                {isFfa && (['first_line', 'elimination'] as const).map(rule => (
+                                    <button
+                                        key={rule}
+                                        onClick={() => setFfaRule(rule)}
+                                        title={rule === 'first_line' ? 'The first line wins the whole pot' : 'Play on after each line; the pot is shared out by finishing place'}
+                                        className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-colors ${ffaRule === rule ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'}`}
+                                    >
+                                        {rule === 'first_line' ? 'First Line' : 'Elimination'}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <button
+                            onClick={() => setToroidal(t => !t)}
+                            disabled={queuedTier !== null || !canWrap}
+                            aria-pressed={toroidal && canWrap}
+                            title="Lines continue across the board's edges"
+                            className={`w-full py-1.5 text-xs font-bold rounded-lg flex items-center justify-center gap-1.5 transition-colors disabled:opacity-50 ${toroidal && canWrap ? 'bg-teal-500/20 text-teal-300' : 'bg-white/5 text-gray-400 hover:text-white'}`}
+                        >
+                            <WrapIcon className="w-3 h-3" /> Wrap-Around Edges
+                        </button>
+                        {queuedTier && (
+                            <motion.div
+                                initial={{ opacity: 0, y: -5 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                className="p-4 rounded-xl bg-cyan-500/10 border border-cyan-500/30 flex items-center justify-between gap-3"
+                            >
+                                <div className="flex items-center gap-3 min-w-0">
+                                    <SearchIcon className="w-6 h-6 text-cyan-400 animate-pulse shrink-0" />
+                                    <div className="min-w-0">
+                                        <div className="font-bold text-white capitalize">Searching {queuedTier} League...</div>
+                                        {queueStatus && (
+                                            <div className="text-xs text-gray-400 flex flex-wrap gap-x-3">
+                                                <span>#{queueStatus.position} of {queueStatus.playersInQueue} in queue</span>
+                                                <span className="flex items-center gap-1"><ClockIcon className="w-3 h-3" /> ~{queueStatus.estimatedWait}s</span>
+                                                <span>ELO ±{queueStatus.eloRange}</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                                <button onClick={handleLeaveQueue} className="p-2 rounded-lg bg-white/10 hover:bg-red-500/30 text-gray-300 hover:text-white transition-colors" title="Cancel Search">
+                                    <CloseIcon className="w-4 h-4" />
+                                </button>
+                            </motion.div>
+                        )}
                         <div className="space-y-4">
                             {LOBBIES.map(lobby => {
                                 const canAfford = userCoins >= lobby.ante;
                                 return (
                                     <button
                                         key={lobby.tier}
-                                        onClick={() => handleCreateGame(lobby.tier, lobby.ante)}
-                                        disabled={isCreating !== null || !canAfford}
+                                        onClick={() => playMode === 'quick' ? handleJoinQueue(lobby.tier, lobby.ante) : handleCreateGame(lobby.tier, lobby.ante)}
+                                        disabled={isCreating !== null || queuedTier !== null || !canAfford}
                                         className={`w-full p-5 bg-gradient-to-br ${lobby.color} rounded-xl shadow-lg hover:shadow-cyan-500/30 transition-all flex items-center justify-between disabled:opacity-50 disabled:grayscale disabled:cursor-not-allowed group relative overflow-hidden`}
                                     >
                                         <div className="absolute inset-0 bg-black/20 group-hover:bg-black/10 transition-colors"></div>
@@ -167,7 +348,7 @@ const OnlineLobby: React.FC = () => {
                                             <div className="font-black text-white text-2xl tracking-tight">{lobby.name} League</div>
                                             <div className="flex flex-col gap-1 mt-1">
                                                 <div className="text-xs font-bold text-yellow-300 flex items-center gap-1">
-                                                    <CoinIcon className="w-3 h-3"/> PRIZE POT: {lobby.ante * 2}+
+                                                    <CoinIcon className="w-3 h-3"/> PRIZE POT: {lobby.ante * (isTeams ? 4 : isFfa ? seatCount : 2)}+
                                                 </div>
                                                 <div className={`text-xs font-bold ${canAfford ? 'text-gray-300' : 'text-red-300'}`}>
                                                     Entry: {lobby.ante} Coins
@@ -176,7 +357,7 @@ const OnlineLobby: React.FC = () => {
                                         </div>
                                         <div className="relative z-10 flex flex-col items-center justify-center p-3 rounded-full bg-black/30 border border-white/10 shadow-inner min-w-[70px]">
                                             <SwordIcon className="w-6 h-6 text-white"/>
-                                            <span className="text-[10px] font-bold mt-1">{isCreating === lobby.tier ? '...' : 'BET'}</span>
+                                            <span className="text-[10px] font-bold mt-1">{isCreating === lobby.tier || queuedTier === lobby.tier ? '...' : playMode === 'quick' ? 'FIND' : 'BET'}</span>
                                         </div>
                                     </button>
                                 );
@@ -259,12 +440,26 @@ const OnlineLobby: React.FC = () => {
                         </button>
                     </div>
 
+                    <div className="flex gap-1 mb-4 bg-white/5 p-1 rounded-lg">
+                        {(Object.keys(RATING_POOL_LABELS) as RatingPool[]).map(pool => (
+                            <button
+                                key={pool}
+                                onClick={() => setRatingPool(pool)}
+                                className={`flex-1 py-1 text-[10px] font-bold uppercase tracking-wide rounded-md transition-colors ${ratingPool === pool ? 'bg-white/20 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                            >
+                                {RATING_POOL_LABELS[pool]}
+                            </button>
+                        ))}
+                    </div>
+
                     <div className="space-y-2">
                         {currentList.length === 0 ? (
                             <p className="text-center text-gray-500 py-4">No data available.</p>
                         ) : (
                             currentList.map((user, idx) => {
-                                const rank = getRank(user.elo);
+                                const elo = getPoolElo(user, ratingPool);
+                                const rank = getRank(elo);
+                                const isProvisional = user.ratings?.[ratingPool]?.provisional ?? true;
                                 const isMe = user.id === auth?.currentUser?.id;
                                 
                                 // Status styling for high ranks
@@ -319,7 +514,7 @@ const OnlineLobby: React.FC = () => {
                                             </div>
                                         </div>
                                         <div className="text-right shrink-0">
-                                            <p className="font-mono font-bold text-cyan-400">{user.elo}</p>
+                                            <p className="font-mono font-bold text-cyan-400" title={isProvisional ? 'Provisional rating' : undefined}>{elo}{isProvisional && '?'}</p>
                                             {rank && <p className={`text-[9px] font-bold uppercase ${rank.color}`}>{rank.name}</p>}
                                         </div>
                                     </div>
@@ -1,8 +1,15 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { GameMode, GameSettings, GameVariant, Player, Difficulty } from '../types';
-import { GridIcon, TrophyIcon, ClockIcon, SkullIcon, LightningIcon, ObstacleIcon, PlayIcon, CloseIcon, InfoIcon } from './Icons';
+import { GameMode, GameSettings, GameVariant, Player, Difficulty, ObstacleLayout } from '../types';
+import { GridIcon, TrophyIcon, ClockIcon, SkullIcon, LightningIcon, ObstacleIcon, PlayIcon, CloseIcon, InfoIcon, ArrowDownIcon, ConvertIcon, CubeIcon, StonesIcon, HourglassIcon, WrapIcon, FogIcon, HexIcon, PlayersIcon, CollapseIcon } from './Icons';
+import { getDecayLimit, getCollapseInterval, getSeats, isFreeForAll, isTeamGame } from '../shared/rules';
+
+const OBSTACLE_LAYOUT_TEXT: Record<Exclude<ObstacleLayout, 'random'>, string> = {
+    mirror: 'as mirror images across the middle column',
+    rotational: 'in pairs half a turn apart',
+    cross: 'along the middle row and column'
+};
 
 interface PreGameSummaryProps {
     mode: GameMode;
@@ -18,7 +25,13 @@ const PreGameSummary: React.FC<PreGameSummaryProps> = ({ mode, settings, playerN
         const rules = [];
         
         // Win Condition
-        if (settings.variant === GameVariant.MISERE) {
+        if (settings.variant === GameVariant.ULTIMATE) {
+            rules.push({
+                icon: <GridIcon className="w-5 h-5 text-emerald-400" />,
+                text: "Ultimate: win a small board with 3 in a row, and take 3 small boards in a row to WIN. The square you play sends your opponent to the matching board.",
+                highlight: true
+            });
+        } else if (settings.variant === GameVariant.MISERE || settings.variant === GameVariant.WILD_MISERE) {
             rules.push({
                 icon: <SkullIcon className="w-5 h-5 text-pink-500" />,
                 text: `Avoid getting ${settings.winLength} in a row. If you complete a line, you LOSE.`,
@@ -54,7 +67,116 @@ const PreGameSummary: React.FC<PreGameSummaryProps> = ({ mode, settings, playerN
         if (settings.obstacles) {
             rules.push({
                 icon: <ObstacleIcon className="w-5 h-5 text-orange-500" />,
-                text: "Obstacles are active! Some squares are blocked and cannot be used.",
+                text: settings.obstacleLayout && settings.obstacleLayout !== 'random'
+                    ? `Obstacles are active! Some squares are blocked and cannot be used, laid out ${OBSTACLE_LAYOUT_TEXT[settings.obstacleLayout]} so neither side is favoured.`
+                    : "Obstacles are active! Some squares are blocked and cannot be used.",
+            });
+        }
+
+        // Wrap-around
+        if (settings.toroidal) {
+            rules.push({
+                icon: <WrapIcon className="w-5 h-5 text-teal-400" />,
+                text: "Wrap-Around: lines continue across the edges, so a row can run off the right side and finish on the left.",
+            });
+        }
+
+        // Gravity
+        if (settings.variant === GameVariant.GRAVITY) {
+            rules.push({
+                icon: <ArrowDownIcon className="w-5 h-5 text-cyan-400" />,
+                text: "Gravity: pick a column and your piece drops to the lowest free square. Obstacles hold pieces up.",
+                highlight: true
+            });
+        }
+
+        // Qubic
+        if (settings.variant === GameVariant.QUBIC) {
+            rules.push({
+                icon: <CubeIcon className="w-5 h-5 text-indigo-400" />,
+                text: "Qubic: the board is a 4x4x4 cube shown as four layers. Lines can run across a layer, straight down through the layers, or corner to corner through the cube.",
+                highlight: true
+            });
+        }
+
+        // Free-for-all
+        if (isFreeForAll(settings)) {
+            rules.push({
+                icon: <PlayersIcon className="w-5 h-5 text-amber-400" />,
+                text: settings.ffaRule === 'elimination'
+                    ? `Free-for-All (Elimination): ${getSeats(settings).length} players take turns in seat order. Each line finishes its player in the best place left and the rest play on; the pot is shared out by place.`
+                    : `Free-for-All: ${getSeats(settings).length} players take turns in seat order, and the first to make a line takes the whole pot.`,
+                highlight: true
+            });
+        }
+
+        // 2v2
+        if (isTeamGame(settings)) {
+            rules.push({
+                icon: <PlayersIcon className="w-5 h-5 text-amber-400" />,
+                text: "2v2 Teams: two pairs share X and O, and turns go round the table so each side's players alternate. A line by either teammate wins for both, and the pot is split between the winning pair.",
+                highlight: true
+            });
+        }
+
+        // Hex
+        if (settings.variant === GameVariant.HEX) {
+            rules.push({
+                icon: <HexIcon className="w-5 h-5 text-lime-400" />,
+                text: `Hex: the board is a hexagon of hexagonal cells, ${settings.boardSize} to a side. Every cell touches six others, and lines run along three axes: across a row, or down either slant.`,
+                highlight: true
+            });
+        }
+
+        // Gomoku
+        if (settings.variant === GameVariant.GOMOKU) {
+            const gomoku = settings.gomoku;
+            const extras = [
+                gomoku?.exactFive && "only exactly five counts (six or more doesn't win)",
+                gomoku?.renju && "X may not make a double three or double four",
+                mode === GameMode.ONLINE && gomoku?.opening === 'swap' && "the game opens with Swap: X's player places three stones and the opponent picks a side",
+                mode === GameMode.ONLINE && gomoku?.opening === 'swap2' && "the game opens with Swap2: after three stones the opponent picks a side or adds two more and hands the pick back"
+            ].filter(Boolean);
+            rules.push({
+                icon: <StonesIcon className="w-5 h-5 text-amber-400" />,
+                text: `Gomoku: five in a row wins and X moves first.${extras.length > 0 ? ` In this game ${extras.join('; ')}.` : ''}`,
+                highlight: true
+            });
+        }
+
+        // Fog
+        if (settings.variant === GameVariant.FOG) {
+            rules.push({
+                icon: <FogIcon className="w-5 h-5 text-slate-300" />,
+                text: "Fog of War: you only see the squares around your own pieces. Play onto a hidden piece and you lose your turn, but the square is revealed.",
+                highlight: true
+            });
+        }
+
+        // Decay
+        if (settings.variant === GameVariant.DECAY) {
+            rules.push({
+                icon: <HourglassIcon className="w-5 h-5 text-rose-400" />,
+                text: `Decay: each player keeps at most ${getDecayLimit(settings)} pieces. Placing another makes your oldest one vanish (it's highlighted first), so the game can't end in a draw.`,
+                highlight: true
+            });
+        }
+
+        // Sudden Death
+        if (settings.variant === GameVariant.SUDDEN_DEATH) {
+            rules.push({
+                icon: <CollapseIcon className="w-5 h-5 text-orange-400" />,
+                text: `Sudden Death: every ${getCollapseInterval(settings)} moves without a winner, the outermost ring's empty squares collapse into obstacles (they're highlighted just before). Pieces already there stay and still count.`,
+                highlight: true
+            });
+        }
+
+        // Wild
+        if (settings.variant === GameVariant.WILD || settings.variant === GameVariant.WILD_MISERE) {
+            rules.push({
+                icon: <ConvertIcon className="w-5 h-5 text-purple-400" />,
+                text: "Wild: on every turn you choose whether to place X or O. A line of either symbol counts for whoever completes it.",
+                highlight: true
             });
         }
 
@@ -8,28 +8,28 @@ import { ClockIcon, RestartIcon, CloseIcon, CheckIcon } from './Icons';
 interface RematchModalProps {
     offer: { from: PlayerRole, expiresAt: number };
     myRole: PlayerRole;
+    accepted?: boolean; // Free-for-all: this seat has already said yes and is waiting on the rest
     onAccept: () => void;
     onDecline: () => void;
+    clockOffset?: number; // Server time minus local time, from the room's clock sync
 }
 
-const RematchModal: React.FC<RematchModalProps> = ({ offer, myRole, onAccept, onDecline }) => {
+const RematchModal: React.FC<RematchModalProps> = ({ offer, myRole, accepted, onAccept, onDecline, clockOffset = 0 }) => {
     const [timeLeft, setTimeLeft] = useState(30);
-    const isMyRequest = offer.from === myRole;
+    const isMyRequest = offer.from === myRole || !!accepted;
 
     useEffect(() => {
         const interval = setInterval(() => {
-            const remaining = Math.ceil((offer.expiresAt - Date.now()) / 1000);
+            const remaining = Math.ceil((offer.expiresAt - (Date.now() + clockOffset)) / 1000);
             setTimeLeft(Math.max(0, remaining));
             
             if (remaining <= 0) {
-                // Timer expired - handled by server usually, but can trigger decline locally
-                // Ideally we just wait for server to clear it, but we can force it
-                if (!isMyRequest) onDecline();
+                // The server expires the offer and tells both players
                 clearInterval(interval);
             }
         }, 1000);
         return () => clearInterval(interval);
-    }, [offer.expiresAt, onDecline, isMyRequest]);
+    }, [offer.expiresAt, clockOffset]);
 
     return (
         <Modal onClose={() => {}} className="max-w-sm bg-slate-900/90 backdrop-blur-xl border border-white/10 shadow-2xl" noPadding>
@@ -1,9 +1,10 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { MatchRecord, BoardState, Player, GameMode } from '../types';
+import { MatchRecord, BoardState, Player, GameMode, GameVariant } from '../types';
 import Board from './Board';
-import { HomeIcon, PlayIcon, PauseIcon, NextIcon, PrevIcon, RestartIcon, ArrowLeftIcon } from './Icons';
+import { replayMoves, getLastPlacement, getDecayingPiece, getVariantRules, getFogHiddenCells, getHexCellCount, createSeededRandom, getMovesUntilCollapse, getCollapsingCells, COLLAPSE_WARNING_MOVES } from '../shared/rules';
+import { HomeIcon, PlayIcon, PauseIcon, NextIcon, PrevIcon, RestartIcon, ArrowLeftIcon, EyeIcon, FogIcon } from './Icons';
 
 interface ReplayProps {
     match: MatchRecord;
@@ -12,26 +13,30 @@ interface ReplayProps {
 }
 
 const Replay: React.FC<ReplayProps> = ({ match, onBack, onHome }) => {
-    const { gameSettings, initialBoard } = match;
+    const { gameSettings } = match;
+    // A record without its starting board still has the seed its obstacles were laid out from
+    const initialBoard = useMemo(() => match.initialBoard ?? (gameSettings?.obstacles && gameSettings.obstacleSeed
+        ? getVariantRules(gameSettings.variant).createInitialBoard(gameSettings, createSeededRandom(gameSettings.obstacleSeed))
+        : undefined), [match.initialBoard, gameSettings]);
     const boardSize = gameSettings?.boardSize || 3;
+    const isUltimate = gameSettings?.variant === GameVariant.ULTIMATE;
+    const isQubic = gameSettings?.variant === GameVariant.QUBIC;
+    const isFog = gameSettings?.variant === GameVariant.FOG;
+    const isHex = gameSettings?.variant === GameVariant.HEX;
+    const cellCount = isQubic ? boardSize ** 3 : isHex ? getHexCellCount(boardSize) : boardSize * boardSize;
     
     // Auto-start playback
     const [currentMoveIndex, setCurrentMoveIndex] = useState(-1);
-    const [board, setBoard] = useState<BoardState>(initialBoard || Array(boardSize * boardSize).fill(null));
+    const [board, setBoard] = useState<BoardState>(initialBoard || Array(cellCount).fill(null));
     const [isPlaying, setIsPlaying] = useState(true);
+    // Fog: whose view to show, or null for the whole board
+    const [fogView, setFogView] = useState<Player | null>(null);
 
     useEffect(() => {
-        const baseBoard = initialBoard ? [...initialBoard] : Array(boardSize * boardSize).fill(null);
-        if (currentMoveIndex >= 0) {
-            for (let i = 0; i <= currentMoveIndex; i++) {
-                const move = match.moves[i];
-                if (move) {
-                    baseBoard[move.index] = move.player;
-                }
-            }
-        }
-        setBoard(baseBoard);
-    }, [currentMoveIndex, match, initialBoard, boardSize]);
+        const baseBoard = initialBoard ? [...initialBoard] : Array(cellCount).fill(null);
+        // Power-up entries (destroy, wall, undo...) are applied the same way the server applied them
+        setBoard(replayMoves(baseBoard, match.moves.slice(0, currentMoveIndex + 1)));
+    }, [currentMoveIndex, match, initialBoard, cellCount]);
     
     useEffect(() => {
         let timer: number;
@@ -45,6 +50,34 @@ const Replay: React.FC<ReplayProps> = ({ match, onBack, onHome }) => {
         return () => clearTimeout(timer);
     }, [isPlaying, currentMoveIndex, match.moves.length]);
 
+    // Ultimate highlights the sub-board the next move was sent to, and Qubic shows the layer it was played on
+    const lastMove = useMemo(() => getLastPlacement(match.moves.slice(0, currentMoveIndex + 1)), [match.moves, currentMoveIndex]);
+
+    // Decay: the pieces next in line to vanish, and who just lost one
+    const fadingSquares = useMemo(() => {
+        if (!gameSettings) return [];
+        const shown = match.moves.slice(0, currentMoveIndex + 1);
+        const limit = getVariantRules(gameSettings.variant).pieceLimit(gameSettings);
+        return [Player.X, Player.O].flatMap(p => getDecayingPiece(shown, p, limit) ?? []);
+    }, [gameSettings, match.moves, currentMoveIndex]);
+    const vanishedFrom = match.moves[currentMoveIndex]?.removed != null ? match.moves[currentMoveIndex].player : null;
+
+    // Fog: the cells hidden from the chosen player at this point, and who just ran into a hidden piece
+    const hiddenSquares = useMemo(() => {
+        if (!isFog || !fogView || !gameSettings) return [];
+        return getFogHiddenCells(board, match.moves.slice(0, currentMoveIndex + 1), fogView, gameSettings);
+    }, [isFog, fogView, gameSettings, board, match.moves, currentMoveIndex]);
+    const blockedBy = match.moves[currentMoveIndex]?.blocked ? match.moves[currentMoveIndex].player : null;
+
+    // Sudden Death: the cells that just collapsed, and the ones the next collapse takes once it is close
+    const collapsed = match.moves[currentMoveIndex]?.collapsed ?? null;
+    const collapsingSquares = useMemo(() => {
+        if (gameSettings?.variant !== GameVariant.SUDDEN_DEATH || currentMoveIndex >= match.moves.length - 1) return [];
+        const shown = match.moves.slice(0, currentMoveIndex + 1);
+        const collapseIn = getMovesUntilCollapse(shown, gameSettings);
+        return collapseIn !== null && collapseIn <= COLLAPSE_WARNING_MOVES ? getCollapsingCells(board, shown, boardSize) : [];
+    }, [gameSettings, board, boardSize, match.moves, currentMoveIndex]);
+
     const handlePlayPause = () => {
         if (currentMoveIndex >= match.moves.length - 1) {
             // Restart if at the end
@@ -115,9 +148,28 @@ const Replay: React.FC<ReplayProps> = ({ match, onBack, onHome }) => {
 
             <div className="w-full p-4 mb-4 text-center bg-white/10 dark:bg-black/20 backdrop-blur-md rounded-lg shadow-lg border border-white/10">
                 <h2 className="text-2xl font-bold">{statusText}</h2>
+                {vanishedFrom && <p className="text-xs font-bold text-rose-400">Player {vanishedFrom}'s oldest piece vanished</p>}
+                {blockedBy && <p className="text-xs font-bold text-slate-300">Player {blockedBy} ran into a hidden piece and lost the turn</p>}
+                {collapsed && <p className="text-xs font-bold text-orange-400">The board shrank: {collapsed.length} empty cell{collapsed.length === 1 ? '' : 's'} collapsed</p>}
                 <p className="text-sm text-gray-400">{new Date(match.date).toLocaleString()}</p>
             </div>
             
+            {isFog && (
+                <div className="flex bg-white/5 p-1 rounded-lg mb-4 gap-1">
+                    {[null, Player.X, Player.O].map(view => (
+                        <button
+                            key={view ?? 'all'}
+                            onClick={() => setFogView(view)}
+                            aria-pressed={fogView === view}
+                            className={`px-3 py-1.5 text-xs font-bold rounded-md flex items-center gap-1.5 transition-colors ${fogView === view ? 'bg-slate-500/30 text-white' : 'text-gray-400 hover:text-white'}`}
+                        >
+                            {view === null ? <EyeIcon className="w-3 h-3" /> : <FogIcon className="w-3 h-3" />}
+                            {view === null ? 'Whole Board' : `${view}'s View`}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             <Board 
                 boardSize={boardSize} 
                 squares={board} 
@@ -125,6 +177,14 @@ const Replay: React.FC<ReplayProps> = ({ match, onBack, onHome }) => {
                 winningLine={null} 
                 disabled={true} 
                 hintedSquare={null}
+                nested={isUltimate}
+                layered={isQubic}
+                hex={isHex}
+                lastMove={lastMove}
+                fadingSquares={fadingSquares}
+                hiddenSquares={hiddenSquares}
+                collapsingSquares={collapsingSquares}
+                collapsedSquares={collapsed ?? []}
             />
 
             <div className="w-full mt-6 p-4 bg-white/10 dark:bg-black/20 rounded-lg">
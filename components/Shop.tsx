@@ -4,19 +4,20 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { SHOP_ITEMS, progressService } from '../services/progress';
 import { AppContext } from '../contexts/AppContext';
 import { AuthContext } from '../contexts/AuthContext';
-import { CoinIcon, CheckCircleIcon, LockIcon, CloseIcon, UserIcon, PaletteIcon, ShapesIcon, XIcon, OIcon, LightningIcon, BombIcon, ShieldIcon, DoubleIcon, ConvertIcon, ClockIcon, BadgeIcon, CheckIcon } from './Icons';
+import { CoinIcon, CheckCircleIcon, LockIcon, CloseIcon, UserIcon, PaletteIcon, ShapesIcon, XIcon, OIcon, LightningIcon, BombIcon, ShieldIcon, DoubleIcon, ConvertIcon, ClockIcon, BadgeIcon, CheckIcon, HistoryIcon } from './Icons';
 import { UserAvatar } from './Avatars';
 import { useToast } from '../contexts/ToastContext';
 import Modal from './Modal';
 import AvatarFrame from './AvatarFrame';
 import CoinTransferAnimation from './CoinTransferAnimation';
+import WalletHistory from './WalletHistory';
 import { ShopItem } from '../types';
 
 interface ShopProps {
     onClose: () => void;
 }
 
-type Tab = 'daily' | 'owned' | 'avatar' | 'theme' | 'skin' | 'powerup' | 'frame';
+type Tab = 'daily' | 'owned' | 'history' | 'avatar' | 'theme' | 'skin' | 'powerup' | 'frame';
 
 const SkinPreview = ({ skinId }: { skinId: string }) => {
     const renderShape = (type: 'X' | 'O') => {
@@ -291,7 +292,7 @@ const Shop: React.FC<ShopProps> = ({ onClose }) => {
     let displayedItems: ShopItem[] = [];
     if (activeTab === 'daily') {
         displayedItems = SHOP_ITEMS.filter(i => dailyShopIds.includes(i.id));
-    } else if (activeTab !== 'owned') {
+    } else if (activeTab !== 'owned' && activeTab !== 'history') {
         displayedItems = SHOP_ITEMS.filter(i => i.type === activeTab);
     }
 
@@ -366,6 +367,20 @@ const Shop: React.FC<ShopProps> = ({ onClose }) => {
                     <CheckCircleIcon className="w-5 h-5" /> 
                     <span>Owned</span>
                 </button>
+
+                {/* Wallet History */}
+                <button
+                    onClick={() => setActiveTab('history')}
+                    className={`px-5 py-2.5 rounded-2xl font-bold text-sm transition-all duration-200 whitespace-nowrap flex items-center justify-center gap-2 shadow-sm
+                        ${activeTab === 'history' 
+                            ? 'bg-yellow-500 text-black shadow-lg shadow-yellow-500/30 ring-2 ring-yellow-500 ring-offset-2 ring-offset-gray-50 dark:ring-offset-[#0f172a] transform scale-105' 
+                            : 'bg-white dark:bg-black/20 text-gray-500 dark:text-gray-400 hover:text-yellow-600 dark:hover:text-yellow-400 border border-gray-200 dark:border-white/5 hover:border-yellow-500/30'
+                        }
+                    `}
+                >
+                    <HistoryIcon className="w-5 h-5" /> 
+                    <span>History</span>
+                </button>
             </div>
 
             {/* Daily Deal Timer */}
@@ -378,7 +393,10 @@ const Shop: React.FC<ShopProps> = ({ onClose }) => {
             {/* Main Content Area */}
             <div className="overflow-y-auto custom-scrollbar p-1 flex-1 relative z-10 pb-24 md:pb-4">
                 <AnimatePresence mode='popLayout'>
-                    {activeTab === 'owned' ? (
+                    {activeTab === 'history' ? (
+                        /* Wallet History View */
+                        <WalletHistory key="history" />
+                    ) : activeTab === 'owned' ? (
                         /* Owned Items View */
                         <div className="space-y-8">
                             {Object.keys(groupedOwnedItems).length === 0 ? (
@@ -1,21 +1,30 @@
 
 import React from 'react';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
-import { SquareValue } from '../types';
-import { OIcon, XIcon, ObstacleIcon, CrownIcon, StarIcon } from './Icons';
+import { Player, SquareValue } from '../types';
+import { OIcon, XIcon, TriangleIcon, SquareIcon, ObstacleIcon, CrownIcon, StarIcon, FogIcon } from './Icons';
+
+// Pointy-topped hexagon in the cell's box, pulled in a little to leave a seam between neighbours
+const HEX_CLIP_PATH = 'polygon(50% 2%, 97% 26%, 97% 74%, 50% 98%, 3% 74%, 3% 26%)';
 
 interface SquareProps {
   value: SquareValue;
   onClick: () => void;
   isWinner: boolean;
   isHinted: boolean;
+  isDropTarget?: boolean; // Gravity: where a piece dropped in the hovered column would land
+  isFading?: boolean; // Decay: the piece goes when its owner places their next one
+  isHidden?: boolean; // Fog: the viewer can't see this cell. It is shown empty but can still be played.
+  isCollapsing?: boolean; // Sudden Death: the cell turns into an obstacle with the next collapse
+  justCollapsed?: boolean; // Sudden Death: the obstacle came down with the latest collapse
+  hex?: boolean; // Hex: drawn as a pointy-topped hexagon
   boardSize: number;
   cursor?: string;
   skin?: string; // "skin-classic", "skin-emoji", "skin-geo", "skin-neon"
   isSummary?: boolean;
 }
 
-const Square: React.FC<SquareProps> = ({ value, onClick, isWinner, isHinted, boardSize, cursor, skin = 'skin-classic', isSummary = false }) => {
+const Square: React.FC<SquareProps> = ({ value, onClick, isWinner, isHinted, isDropTarget = false, isFading = false, isHidden = false, isCollapsing = false, justCollapsed = false, hex = false, boardSize, cursor, skin = 'skin-classic', isSummary = false }) => {
   const sizeClasses: { [key: number]: string } = {
     3: 'w-16 h-16 sm:w-24 sm:h-24 md:w-32 md:h-32',
     4: 'w-14 h-14 sm:w-20 sm:h-20 md:w-24 md:h-24',
@@ -37,8 +46,8 @@ const Square: React.FC<SquareProps> = ({ value, onClick, isWinner, isHinted, boa
     ? 'p-2' 
     : (boardSize > 6 ? 'p-1 sm:p-2' : 'p-2 sm:p-4 md:p-6');
 
-  // Base background style (Shared)
-  const baseStyle = `${size} m-1 relative flex items-center justify-center rounded-xl border backdrop-blur-sm transition-all duration-300 overflow-hidden shadow-sm`;
+  // Base background style (Shared). Hex cells are packed edge to edge, so they lose the margin and rounding.
+  const baseStyle = `${size} ${hex ? '' : 'm-1 rounded-xl'} relative flex items-center justify-center border backdrop-blur-sm transition-all duration-300 overflow-hidden shadow-sm`;
   
   // Winner Highlight
   const winnerStyle = isWinner 
@@ -48,16 +57,33 @@ const Square: React.FC<SquareProps> = ({ value, onClick, isWinner, isHinted, boa
   // Hint Highlight
   const hintStyle = isHinted ? 'ring-2 ring-yellow-400/80 bg-yellow-100/50 dark:bg-yellow-400/10 shadow-[0_0_15px_rgba(250,204,21,0.3)]' : '';
 
+  // Landing cell of the hovered column
+  const dropStyle = isDropTarget ? 'ring-2 ring-cyan-400/70 bg-cyan-100/40 dark:bg-cyan-400/10' : '';
+
+  // Piece about to vanish
+  const fadeStyle = isFading && !isWinner ? 'ring-2 ring-rose-400/60 bg-rose-100/30 dark:bg-rose-500/10' : '';
+
+  // Cell about to collapse
+  const collapseStyle = isCollapsing ? 'ring-2 ring-orange-400/60 bg-orange-100/30 dark:bg-orange-500/10 animate-pulse' : '';
+
+  // Cell under the fog
+  const fogStyle = isHidden ? 'bg-slate-400/30 dark:bg-slate-900/60 border-slate-400/30 dark:border-slate-700/40' : '';
+
   // Dynamic Background based on content
   let bgStyle = 'bg-white/40 dark:bg-white/5 hover:bg-white/60 dark:hover:bg-white/10 border-white/40 dark:border-white/5 hover:border-white/60 dark:hover:border-white/20';
   if (value === 'OBSTACLE') {
       bgStyle = 'bg-gray-300 dark:bg-gray-800/50 border-gray-400 dark:border-white/10 inner-shadow shadow-inner';
   } else if (isWinner) {
       bgStyle = ''; // Handled by winnerStyle
+  } else if (isHidden) {
+      bgStyle = ''; // Handled by fogStyle
   }
 
   // Piece Renderer based on Skin
-  const renderPiece = (type: 'X' | 'O') => {
+  const renderPiece = (type: Player) => {
+      // Free-for-all pieces have no skins, so every seat looks the same to everyone
+      if (type === Player.TRIANGLE) return <TriangleIcon className="w-full h-full text-amber-400 drop-shadow-sm" />;
+      if (type === Player.SQUARE) return <SquareIcon className="w-full h-full text-lime-400 drop-shadow-sm" />;
       if (skin === 'skin-golden') {
           return (
               <div className="relative w-full h-full p-1 flex items-center justify-center">
@@ -152,6 +178,22 @@ const Square: React.FC<SquareProps> = ({ value, onClick, isWinner, isHinted, boa
         rotate: 180,
         transition: { duration: 0.3 }
     },
+    // Decay: the oldest piece flickers while it waits to go, then dissolves instead of spinning out
+    fading: {
+        scale: 0.9,
+        opacity: [0.9, 0.4, 0.9],
+        rotate: 0,
+        transition: {
+            opacity: { duration: 1.6, repeat: Infinity, ease: "easeInOut" },
+            scale: { duration: 0.3 }
+        }
+    },
+    vanish: {
+        scale: 1.3,
+        opacity: 0,
+        filter: "blur(6px)",
+        transition: { duration: 0.6, ease: "easeOut" }
+    },
     win: {
         scale: [1, 1.15, 1],
         rotate: [0, 5, -5, 0],
@@ -172,14 +214,22 @@ const Square: React.FC<SquareProps> = ({ value, onClick, isWinner, isHinted, boa
           scale: 1,
           transition: { type: "spring", stiffness: 400, damping: 15, mass: 1.2 }
       },
-      exit: { scale: 0, opacity: 0 }
+      exit: { scale: 0, opacity: 0 },
+      // Sudden Death: the floor gives way, so a collapsed cell sinks in and shudders instead of dropping from above
+      sinking: { scale: 1.4, opacity: 0, rotate: 0 },
+      collapse: {
+          scale: [1.4, 0.8, 1],
+          opacity: [0, 1, 1],
+          rotate: [0, -8, 6, -3, 0],
+          transition: { duration: 0.7, ease: "easeOut" }
+      }
   };
 
   return (
     <motion.button
       onClick={onClick}
-      style={{ cursor: cursor }}
-      className={`${baseStyle} ${bgStyle} ${winnerStyle} ${hintStyle} focus:outline-none group`}
+      style={{ cursor: cursor, ...(hex ? { clipPath: HEX_CLIP_PATH } : {}) }}
+      className={`${baseStyle} ${bgStyle} ${winnerStyle} ${hintStyle} ${dropStyle} ${fadeStyle} ${collapseStyle} ${fogStyle} focus:outline-none group`}
       whileHover={(!value && cursor !== 'not-allowed') ? { scale: 1.05, backgroundColor: "rgba(255,255,255,0.1)" } : {}}
       whileTap={(!value && cursor !== 'not-allowed') ? { scale: 0.95 } : {}}
       layout={!isSummary} // Disable layout animation in summary to prevent scaling conflicts
@@ -187,15 +237,21 @@ const Square: React.FC<SquareProps> = ({ value, onClick, isWinner, isHinted, boa
       {/* Glass Reflection Effect (only on non-obstacles) */}
       {value !== 'OBSTACLE' && <div className="absolute inset-0 bg-gradient-to-br from-white/10 to-transparent pointer-events-none" />}
       
+      {isHidden && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <FogIcon className="w-1/2 h-1/2 text-slate-500/40 dark:text-slate-400/20" />
+          </div>
+      )}
+
       <div className={`w-full h-full ${padding} relative z-10 flex items-center justify-center`}>
         <AnimatePresence mode="popLayout">
-            {(value === 'X' || value === 'O') && (
+            {value && value !== 'OBSTACLE' && (
                 <motion.div 
                     key={value} // Ensures animation when value changes (e.g. Conversion)
                     variants={pieceVariants}
                     initial={isSummary ? "visible" : "hidden"}
-                    animate={isWinner ? "win" : "visible"}
-                    exit="exit"
+                    animate={isWinner ? "win" : isFading ? "fading" : "visible"}
+                    exit={isFading ? "vanish" : "exit"}
                     className="w-full h-full grid place-items-center"
                 >
                     {renderPiece(value)}
@@ -206,8 +262,8 @@ const Square: React.FC<SquareProps> = ({ value, onClick, isWinner, isHinted, boa
                 <motion.div 
                     key="OBSTACLE"
                     variants={obstacleVariants}
-                    initial={isSummary ? "visible" : "hidden"}
-                    animate="visible"
+                    initial={isSummary ? "visible" : justCollapsed ? "sinking" : "hidden"}
+                    animate={justCollapsed ? "collapse" : "visible"}
                     exit="exit"
                     className="w-full h-full flex items-center justify-center p-2"
                 >
@@ -3,9 +3,12 @@ import React, { useEffect, useState, useContext } from 'react';
 import { motion } from 'framer-motion';
 import { Player, Room } from '../types';
 import { UserAvatar } from './Avatars';
+import { getSeats, isTeamGame, getSide, getTeamSeats } from '../shared/rules';
+import { SEAT_COLORS } from './game/utils';
 import { CoinIcon, CheckIcon, CopyIcon, LinkIcon, PotOfGoldIcon } from './Icons';
 import { useToast } from '../contexts/ToastContext';
 import CoinTransferAnimation from './CoinTransferAnimation';
+import ObstacleCommitBadge from './game/ObstacleCommitBadge';
 import { progressService } from '../services/progress';
 import { AppContext } from '../contexts/AppContext';
 
@@ -19,12 +22,13 @@ interface WagerConfirmationProps {
 const PlayerCard: React.FC<{
     playerSeat?: Room['players'][0],
     role: Player,
+    colorRole?: Player, // 2v2 seats wear their side's colour
     isConfirmed?: boolean,
     isCurrentUser: boolean,
     onConfirm?: () => void
-}> = ({ playerSeat, role, isConfirmed, isCurrentUser, onConfirm }) => {
+}> = ({ playerSeat, role, colorRole = role, isConfirmed, isCurrentUser, onConfirm }) => {
     const isReady = !!playerSeat;
-    const color = role === Player.X ? 'cyan' : 'pink';
+    const color = SEAT_COLORS[colorRole];
 
     return (
         <div className={`relative flex-1 bg-gradient-to-b from-${color}-900/40 to-transparent p-6 rounded-3xl border-2 border-${color}-500/50 shadow-2xl shadow-${color}-500/10`}>
@@ -69,8 +73,11 @@ const PlayerCard: React.FC<{
 };
 
 const WagerConfirmation: React.FC<WagerConfirmationProps> = ({ room, currentUserId, onConfirm, onCancel }) => {
-    const playerX = room.players.find(p => p.role === Player.X);
-    const playerO = room.players.find(p => p.role === Player.O);
+    const seats = getSeats(room.gameSettings);
+    const isMultiSeat = seats.length > 2;
+    // 2v2 cards are laid out pair by pair
+    const teams = isTeamGame(room.gameSettings);
+    const listedSeats = teams ? [...getTeamSeats(Player.X), ...getTeamSeats(Player.O)] : seats;
     const mySeat = room.players.find(p => p.user.id === currentUserId);
     const myRole = mySeat?.role;
     const toast = useToast();
@@ -80,7 +87,7 @@ const WagerConfirmation: React.FC<WagerConfirmationProps> = ({ room, currentUser
     const [hasAnimated, setHasAnimated] = useState(false);
 
     const isConfirmed = myRole && room.wagerConfirmed?.[myRole];
-    const bothConfirmed = room.wagerConfirmed?.[Player.X] && room.wagerConfirmed?.[Player.O];
+    const allConfirmed = seats.every(seat => room.wagerConfirmed?.[seat]);
 
     useEffect(() => {
         if (isConfirmed && !hasAnimated) {
@@ -109,9 +116,20 @@ const WagerConfirmation: React.FC<WagerConfirmationProps> = ({ room, currentUser
     
     // Pot Display: Trust the server room.pot which now updates incrementally
     // Fallback logic kept just in case of race condition or lag
-    const currentPot = room.pot > 0 ? room.pot : (
-        (room.wagerConfirmed?.['X'] ? room.anteAmount || 0 : 0) +
-        (room.wagerConfirmed?.['O'] ? room.anteAmount || 0 : 0)
+    const currentPot = room.pot > 0 ? room.pot : seats.reduce(
+        (sum, seat) => sum + (room.wagerConfirmed?.[seat] ? room.anteAmount || 0 : 0), 0
+    );
+
+    const renderCard = (role: Player) => (
+        <PlayerCard 
+            key={role}
+            playerSeat={room.players.find(p => p.role === role)}
+            role={role}
+            colorRole={teams ? getSide(role) : role}
+            isConfirmed={room.wagerConfirmed?.[role]}
+            isCurrentUser={mySeat?.role === role}
+            onConfirm={onConfirm}
+        />
     );
     
     return (
@@ -142,17 +160,16 @@ const WagerConfirmation: React.FC<WagerConfirmationProps> = ({ room, currentUser
                 <h1 className="text-4xl font-black italic tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-red-500 to-yellow-500">
                     WAGER MATCH
                 </h1>
-                <p className="text-gray-400 font-medium">Both players must lock in to begin.</p>
+                <p className="text-gray-400 font-medium">{isMultiSeat ? `All ${seats.length} players` : 'Both players'} must lock in to begin.</p>
+                {room.obstacleCommit && (
+                    <div className="flex justify-center mt-3">
+                        <ObstacleCommitBadge room={room} />
+                    </div>
+                )}
             </div>
 
-            <div className="flex flex-col md:flex-row justify-between items-center gap-6 mt-8">
-                <PlayerCard 
-                    playerSeat={playerX}
-                    role={Player.X}
-                    isConfirmed={room.wagerConfirmed?.['X']}
-                    isCurrentUser={mySeat?.role === Player.X}
-                    onConfirm={onConfirm}
-                />
+            <div className={`flex flex-col ${isMultiSeat ? '' : 'md:flex-row'} justify-between items-center gap-6 mt-8`}>
+                {!isMultiSeat && renderCard(Player.X)}
                 
                 <div id="wager-pot-display" className="flex flex-col items-center justify-center text-center shrink-0">
                     <motion.div 
@@ -175,17 +192,15 @@ const WagerConfirmation: React.FC<WagerConfirmationProps> = ({ room, currentUser
                     <div className="text-xs font-bold text-yellow-500 uppercase tracking-widest mt-1">Total Pot</div>
                 </div>
 
-                <PlayerCard 
-                    playerSeat={playerO}
-                    role={Player.O}
-                    isConfirmed={room.wagerConfirmed?.['O']}
-                    isCurrentUser={mySeat?.role === Player.O}
-                    onConfirm={onConfirm}
-                />
+                {isMultiSeat ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 w-full">
+                        {listedSeats.map(renderCard)}
+                    </div>
+                ) : renderCard(Player.O)}
             </div>
 
             <div className="mt-8 text-center min-h-[50px]">
-                {bothConfirmed ? (
+                {allConfirmed ? (
                     <motion.div 
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
@@ -0,0 +1,99 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { progressService } from '../services/progress';
+import { WalletTransaction } from '../types';
+import { CoinIcon, HistoryIcon } from './Icons';
+import { useToast } from '../contexts/ToastContext';
+
+const TYPE_LABELS: Record<string, string> = {
+    WAGER_ANTE: 'Wager',
+    WAGER_DOUBLE: 'Double Down',
+    WAGER_WIN: 'Winnings',
+    WAGER_REFUND: 'Refund',
+    SHOP_PURCHASE: 'Purchase',
+    DAILY_REWARD: 'Daily Reward',
+    GIFT_SENT: 'Gift Sent',
+    GIFT_RECEIVED: 'Gift Received',
+    CLAN_CREATE: 'Clan',
+    QUEST_REWARD: 'Quest',
+    CAMPAIGN_REWARD: 'Campaign',
+    TOWER_REWARD: 'Tower',
+    MATCH_BONUS: 'Bonus',
+    WELCOME_BONUS: 'Welcome Bonus',
+    SECURITY_REWARD: 'Security Reward',
+    OPENING_BALANCE: 'Opening Balance'
+};
+
+const WalletHistory: React.FC = () => {
+    const toast = useToast();
+    const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const loadPage = useCallback(async (cursor?: string | null) => {
+        setIsLoading(true);
+        try {
+            const page = await progressService.getWalletTransactions(cursor);
+            setTransactions(prev => cursor ? [...prev, ...page.transactions] : page.transactions);
+            setNextCursor(page.nextCursor);
+        } catch (e: any) {
+            toast.error(e.message || "Failed to load wallet history.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [toast]);
+
+    useEffect(() => {
+        loadPage();
+    }, [loadPage]);
+
+    if (!isLoading && transactions.length === 0) {
+        return (
+            <motion.div initial={{opacity:0}} animate={{opacity:1}} className="flex flex-col items-center justify-center h-48 text-gray-500">
+                <HistoryIcon className="w-12 h-12 mb-2 opacity-30" />
+                <p>No transactions yet.</p>
+            </motion.div>
+        );
+    }
+
+    return (
+        <div className="space-y-2">
+            {transactions.map(t => (
+                <motion.div
+                    key={t.id}
+                    initial={{ opacity: 0, y: 5 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="flex items-center justify-between gap-3 p-3 rounded-2xl bg-white dark:bg-white/5 border border-gray-200 dark:border-white/5"
+                >
+                    <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                            <span className="text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-gray-500">{TYPE_LABELS[t.type] || t.type}</span>
+                            <span className="text-[10px] text-gray-400">{new Date(t.timestamp).toLocaleString()}</span>
+                        </div>
+                        <div className="text-sm font-bold text-gray-900 dark:text-white truncate">{t.description}</div>
+                    </div>
+                    <div className="text-right shrink-0">
+                        <div className={`font-black font-mono flex items-center justify-end gap-1 ${t.amount >= 0 ? 'text-green-500' : 'text-red-400'}`}>
+                            {t.amount >= 0 ? '+' : ''}{t.amount} <CoinIcon className="w-4 h-4" />
+                        </div>
+                        {t.balanceAfter !== null && (
+                            <div className="text-[10px] text-gray-400 font-mono">Balance {t.balanceAfter}</div>
+                        )}
+                    </div>
+                </motion.div>
+            ))}
+
+            {(nextCursor || isLoading) && (
+                <button
+                    onClick={() => loadPage(nextCursor)}
+                    disabled={isLoading}
+                    className="w-full py-2.5 rounded-xl font-bold text-xs uppercase tracking-wide bg-white/10 hover:bg-cyan-600 text-gray-500 dark:text-gray-400 hover:text-white border border-gray-200 dark:border-white/10 transition-all disabled:opacity-50"
+                >
+                    {isLoading ? 'Loading...' : 'Load More'}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default WalletHistory;
@@ -2,17 +2,20 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { GameMode, CampaignLevel, GameSettings, GameVariant } from '../../types';
-import { MapIcon, TrophyIcon, SkullIcon, ClockIcon, LightningIcon, ObstacleIcon, PotOfGoldIcon, CoinIcon } from '../Icons';
+import { getDecayLimit, isMisereVariant } from '../../shared/rules';
+import { MapIcon, TrophyIcon, SkullIcon, ClockIcon, LightningIcon, ObstacleIcon, PotOfGoldIcon, CoinIcon, CollapseIcon } from '../Icons';
 
 interface GameInfoDisplayProps {
     gameMode: GameMode;
     settings: GameSettings;
     campaignLevel?: CampaignLevel;
     pot?: number;
+    // Sudden Death: moves until the next ring collapses, or null once none is left
+    collapseIn?: number | null;
     className?: string;
 }
 
-const GameInfoDisplay: React.FC<GameInfoDisplayProps> = ({ gameMode, settings, campaignLevel, pot, className }) => {
+const GameInfoDisplay: React.FC<GameInfoDisplayProps> = ({ gameMode, settings, campaignLevel, pot, collapseIn, className }) => {
     
     // Default layout classes if none provided
     const containerClasses = className !== undefined 
@@ -46,7 +49,7 @@ const GameInfoDisplay: React.FC<GameInfoDisplayProps> = ({ gameMode, settings, c
     }
 
     // Standard / Online / Local Display
-    const isMisere = settings.variant === GameVariant.MISERE;
+    const isMisere = isMisereVariant(settings.variant);
     const isBlitz = settings.blitzMode;
     const winLen = settings.winLength;
     
@@ -66,7 +69,19 @@ const GameInfoDisplay: React.FC<GameInfoDisplayProps> = ({ gameMode, settings, c
 
     const objectiveText = isMisere 
         ? <span>Avoid <span className="text-pink-400 font-bold">{winLen}</span> in a row!</span>
-        : <span>Connect <span className="text-yellow-400 font-bold">{winLen}</span> to Win!</span>;
+        : settings.variant === GameVariant.ULTIMATE
+            ? <span>Take <span className="text-emerald-400 font-bold">3</span> boards in a row!</span>
+            : settings.variant === GameVariant.QUBIC
+                ? <span>Connect <span className="text-indigo-400 font-bold">{winLen}</span> in 3D!</span>
+                : settings.variant === GameVariant.GOMOKU && settings.gomoku?.exactFive
+                    ? <span>Connect <span className="text-amber-400 font-bold">exactly {winLen}</span> to Win!</span>
+                    : settings.variant === GameVariant.DECAY
+                        ? <span>Connect <span className="text-rose-400 font-bold">{winLen}</span> with your last {getDecayLimit(settings)}!</span>
+                        : settings.variant === GameVariant.HEX
+                            ? <span>Connect <span className="text-lime-400 font-bold">{winLen}</span> on the hex grid!</span>
+                            : settings.variant === GameVariant.SUDDEN_DEATH
+                                ? <span>Connect <span className="text-orange-400 font-bold">{winLen}</span> before the board shrinks!</span>
+                                : <span>Connect <span className="text-yellow-400 font-bold">{winLen}</span> to Win!</span>;
 
     const objectiveIcon = isMisere 
         ? <SkullIcon className="w-3.5 h-3.5 text-pink-400" />
@@ -116,6 +131,12 @@ const GameInfoDisplay: React.FC<GameInfoDisplayProps> = ({ gameMode, settings, c
                                 <ClockIcon className="w-2.5 h-2.5" />
                             </div>
                         )}
+                        {collapseIn != null && (
+                            <div className="flex items-center gap-1 bg-orange-500/10 border border-orange-500/20 px-1.5 py-0.5 rounded text-[8px] font-bold text-orange-300 tabular-nums" title={`Next collapse in ${collapseIn} move${collapseIn === 1 ? '' : 's'}`}>
+                                <CollapseIcon className="w-2.5 h-2.5" />
+                                {collapseIn}
+                            </div>
+                        )}
                         {isMisere && (
                             <div className="flex items-center gap-1 bg-pink-500/10 border border-pink-500/20 px-1.5 py-0.5 rounded text-[8px] font-bold text-pink-300" title="Misère">
                                 <SkullIcon className="w-2.5 h-2.5" />
@@ -3,6 +3,8 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Player, PlayerSeat } from '../../types';
 import { UserAvatar } from '../Avatars';
+import { SEAT_COLORS } from './utils';
+import { formatPlace } from '../../shared/rules';
 
 interface MobilePlayerInfoProps {
     player: Player;
@@ -14,11 +16,13 @@ interface MobilePlayerInfoProps {
     blitzTime?: string;
     label: string;
     currentEmote?: string;
+    place?: number; // Free-for-all: where the seat finished, once it is out of play
 }
 
 const MobilePlayerInfo: React.FC<MobilePlayerInfoProps> = ({ 
-    player, isActive, seat, fallbackName, avatarId, frameId, blitzTime, label, currentEmote 
+    player, isActive, seat, fallbackName, avatarId, frameId, blitzTime, label, currentEmote, place 
 }) => {
+    const color = SEAT_COLORS[player];
     let statusText = "PLAYING";
     if (label === "YOU") statusText = "YOUR TURN";
     else if (label === "AURA AI" || label === "BOSS") statusText = "THINKING...";
@@ -27,13 +31,20 @@ const MobilePlayerInfo: React.FC<MobilePlayerInfoProps> = ({
         <div className={`flex items-center gap-2 relative transition-opacity duration-300 ${isActive ? 'opacity-100' : 'opacity-60 grayscale'}`}>
             {isActive && (
                  <div className="absolute -top-5 left-0 w-full flex justify-center z-20">
-                     <div className={`text-[8px] font-black px-2 py-0.5 rounded-sm uppercase tracking-wider shadow-sm animate-pulse whitespace-nowrap ${player === Player.X ? 'bg-cyan-500 text-black' : 'bg-pink-500 text-white'}`}>
+                     <div className={`text-[8px] font-black px-2 py-0.5 rounded-sm uppercase tracking-wider shadow-sm animate-pulse whitespace-nowrap bg-${color}-500 ${player === Player.O ? 'text-white' : 'text-black'}`}>
                         {statusText}
                      </div>
                  </div>
             )}
+            {place !== undefined && !isActive && (
+                 <div className="absolute -top-5 left-0 w-full flex justify-center z-20">
+                     <div className="text-[8px] font-black px-2 py-0.5 rounded-sm uppercase tracking-wider bg-white/20 text-white whitespace-nowrap">
+                        {formatPlace(place)}
+                     </div>
+                 </div>
+            )}
             <div className="relative">
-                <div className={`relative w-8 h-8 rounded-full border ${player === Player.X ? 'border-cyan-500' : 'border-pink-500'} overflow-hidden bg-black/20`}>
+                <div className={`relative w-8 h-8 rounded-full border border-${color}-500 overflow-hidden bg-black/20`}>
                     <UserAvatar avatarId={avatarId} frameId={frameId} className="w-full h-full" />
                 </div>
                 <AnimatePresence>
@@ -51,7 +62,7 @@ const MobilePlayerInfo: React.FC<MobilePlayerInfoProps> = ({
                 </AnimatePresence>
             </div>
             <div className="flex flex-col">
-                <span className={`text-xs font-bold max-w-[80px] truncate ${player === Player.X ? 'text-cyan-400' : 'text-pink-400'}`}>
+                <span className={`text-xs font-bold max-w-[80px] truncate text-${color}-400`}>
                     {seat?.user.displayName || fallbackName}
                 </span>
                 {blitzTime && <span className="text-[10px] font-mono text-white">{blitzTime}</span>}
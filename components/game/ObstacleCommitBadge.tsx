@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react';
+import { Room } from '../../types';
+import { ObstacleIcon } from '../Icons';
+import { verifyObstacleCommit } from '../../utils/obstacleCommit';
+import Badge from './Badge';
+
+// The obstacle commitment of an online game: its hash until the seed is revealed, then whether the layout checks out
+const ObstacleCommitBadge: React.FC<{ room: Room }> = ({ room }) => {
+    const commit = room.obstacleCommit;
+    const [verified, setVerified] = useState<boolean | null>(null);
+    const boardKey = room.initialBoard.join(',');
+
+    useEffect(() => {
+        setVerified(null);
+        if (!commit?.serverSeed) return;
+        let cancelled = false;
+        verifyObstacleCommit(commit, room.gameSettings, room.initialBoard)
+            .then(ok => { if (!cancelled) setVerified(ok); })
+            .catch(() => { if (!cancelled) setVerified(false); });
+        return () => { cancelled = true; };
+    }, [commit?.hash, commit?.serverSeed, room.gameSettings.obstacleSeed, boardKey]);
+
+    if (!commit) return null;
+    if (!commit.serverSeed) {
+        return <Badge text={`Sealed ${commit.hash.slice(0, 8)}`} icon={<ObstacleIcon className="w-3 h-3"/>} color="orange" tooltip={`Obstacle layout committed to SHA-256 ${commit.hash}; the seed is revealed when play begins`} />;
+    }
+    if (verified === false) {
+        return <Badge text="Layout mismatch" icon={<ObstacleIcon className="w-3 h-3"/>} color="red" tooltip="The revealed seed doesn't match the commitment or the board" />;
+    }
+    return <Badge text={verified ? 'Layout verified' : 'Verifying...'} icon={<ObstacleIcon className="w-3 h-3"/>} color="orange" tooltip={`Seed ${room.gameSettings.obstacleSeed}`} />;
+};
+
+export default ObstacleCommitBadge;
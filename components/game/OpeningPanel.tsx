@@ -0,0 +1,71 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { OpeningState, Player, SideChoice } from '../../types';
+import { XIcon, OIcon, StonesIcon } from '../Icons';
+
+interface OpeningPanelProps {
+    opening: OpeningState;
+    phase: 'opening' | 'choosing_side';
+    isActor: boolean;
+    actorName: string;
+    onChoose: (choice: SideChoice) => void;
+}
+
+// Gomoku Swap/Swap2: who is laying the opening stones, then the side pick once they're down
+const OpeningPanel: React.FC<OpeningPanelProps> = ({ opening, phase, isActor, actorName, onChoose }) => {
+    const protocol = opening.protocol === 'swap2' ? 'Swap2' : 'Swap';
+
+    if (phase === 'opening') {
+        const [next] = opening.pending;
+        const NextIcon = next === Player.X ? XIcon : OIcon;
+        return (
+            <div className="flex items-center gap-2 bg-black/20 px-3 py-2 rounded-2xl border border-white/5 backdrop-blur-sm">
+                <StonesIcon className="w-4 h-4 text-amber-400" />
+                <span className="text-[10px] uppercase font-bold tracking-wider text-gray-400">{protocol}</span>
+                {isActor ? (
+                    <span className="flex items-center gap-1.5 text-xs font-bold text-white">
+                        Place <NextIcon className={`w-4 h-4 ${next === Player.X ? 'text-cyan-400' : 'text-pink-400'}`} />
+                        <span className="text-gray-400 font-medium">({opening.pending.length} left)</span>
+                    </span>
+                ) : (
+                    <span className="text-xs text-gray-300">{actorName} is placing the opening stones…</span>
+                )}
+            </div>
+        );
+    }
+
+    if (!isActor) {
+        return (
+            <div className="flex items-center gap-2 bg-black/20 px-3 py-2 rounded-2xl border border-white/5 backdrop-blur-sm">
+                <StonesIcon className="w-4 h-4 text-amber-400" />
+                <span className="text-xs text-gray-300">{actorName} is picking a side…</span>
+            </div>
+        );
+    }
+
+    const items: { id: SideChoice, label: string, icon: React.ReactNode }[] = [
+        { id: Player.X, label: 'Play X', icon: <XIcon className="w-4 h-4 text-cyan-400" /> },
+        { id: Player.O, label: 'Play O', icon: <OIcon className="w-4 h-4 text-pink-400" /> },
+        ...(opening.canExtend ? [{ id: 'extend' as const, label: 'Place 2 more', icon: <StonesIcon className="w-4 h-4 text-amber-400" /> }] : [])
+    ];
+
+    return (
+        <div className="flex items-center gap-2 bg-black/20 p-1.5 rounded-2xl border border-white/5 backdrop-blur-sm">
+            <span className="text-[9px] uppercase font-bold tracking-wider text-gray-400 px-1">Pick a side</span>
+            {items.map(item => (
+                <motion.button
+                    key={item.id}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => onChoose(item.id)}
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-xl border bg-white/5 border-white/5 hover:bg-white/10 hover:border-white/20 text-xs font-bold text-white transition-all duration-300"
+                >
+                    {item.icon}
+                    {item.label}
+                </motion.button>
+            ))}
+        </div>
+    );
+};
+
+export default OpeningPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Player } from '../../types';
+import { XIcon, OIcon } from '../Icons';
+import Tooltip from '../Tooltip';
+
+interface SymbolPickerProps {
+    selected: Player;
+    onSelect: (symbol: Player) => void;
+    disabled?: boolean;
+}
+
+// Wild: which symbol the next placement puts down
+const SymbolPicker: React.FC<SymbolPickerProps> = ({ selected, onSelect, disabled }) => {
+    const items: { id: Player, icon: any, color: string }[] = [
+        { id: Player.X, icon: XIcon, color: 'text-cyan-400' },
+        { id: Player.O, icon: OIcon, color: 'text-pink-400' },
+    ];
+
+    return (
+        <div className="flex items-center gap-2 bg-black/20 p-1.5 rounded-2xl border border-white/5 backdrop-blur-sm">
+            <span className="text-[9px] uppercase font-bold tracking-wider text-gray-400 px-1">Place</span>
+            {items.map(item => {
+                const isActive = selected === item.id;
+                return (
+                    <Tooltip key={item.id} text={`Place ${item.id}`}>
+                        <motion.button
+                            whileHover={!disabled ? { scale: 1.05 } : {}}
+                            whileTap={!disabled ? { scale: 0.95 } : {}}
+                            onClick={() => onSelect(item.id)}
+                            disabled={disabled}
+                            aria-pressed={isActive}
+                            className={`
+                                p-2 rounded-xl flex items-center justify-center border transition-all duration-300
+                                ${isActive
+                                    ? 'bg-white/10 border-white/30 shadow-[0_0_10px_rgba(255,255,255,0.2)]'
+                                    : 'bg-white/5 border-white/5 hover:bg-white/10 hover:border-white/20'
+                                }
+                                ${disabled ? 'opacity-30 cursor-not-allowed' : ''}
+                            `}
+                        >
+                            <item.icon className={`w-5 h-5 ${isActive ? item.color : 'text-gray-500'}`} />
+                        </motion.button>
+                    </Tooltip>
+                );
+            })}
+        </div>
+    );
+};
+
+export default SymbolPicker;
@@ -1,9 +1,12 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { GameSettings, PlayerSeat, Player } from '../../types';
-import { CopyIcon, LinkIcon, EyeIcon, ClockIcon, XIcon, OIcon, CheckIcon } from '../Icons';
+import { GameSettings, Player, PlayerSeat } from '../../types';
+import { CopyIcon, LinkIcon, EyeIcon, ClockIcon, CheckIcon, PlayersIcon, RefreshIcon } from '../Icons';
+import { getSeats, isFreeForAll, isTeamGame, getSide, getTeamSeats } from '../../shared/rules';
+import { SEAT_COLORS, SEAT_ICONS } from './utils';
 import { useToast } from '../../contexts/ToastContext';
+import { onlineService } from '../../services/online';
 
 interface WaitingRoomProps {
     roomId: string;
@@ -20,7 +23,14 @@ const WaitingRoom: React.FC<WaitingRoomProps> = ({ roomId, settings, players, ho
     const isHost = hostId === currentUserId;
     const activePlayers = players.filter(p => p.role !== 'spectator');
     const spectatorCount = players.filter(p => p.role === 'spectator').length;
-    const readyToStart = activePlayers.length === 2;
+    const seats = getSeats(settings);
+    const readyToStart = activePlayers.length === seats.length;
+    const teams = isTeamGame(settings);
+    // 2v2 seats are listed side by side, X's pair first
+    const listedSeats = teams ? [...getTeamSeats(Player.X), ...getTeamSeats(Player.O)] : seats;
+    const mySeat = activePlayers.find(p => p.user.id === currentUserId);
+    const otherSide = mySeat && getSide(mySeat.role as Player) === Player.X ? Player.O : Player.X;
+    const canSwitchTeam = teams && !!mySeat && getTeamSeats(otherSide).some(role => !activePlayers.some(p => p.role === role));
     const toast = useToast();
 
     const copyToClipboard = (text: string, message: string) => {
@@ -85,6 +95,8 @@ const WaitingRoom: React.FC<WaitingRoomProps> = ({ roomId, settings, players, ho
                 <div className="flex gap-2 justify-center flex-wrap">
                     <span className="px-3 py-1 rounded-full bg-white/5 text-xs font-medium text-gray-400 border border-white/5">{settings.boardSize}x{settings.boardSize}</span>
                     <span className="px-3 py-1 rounded-full bg-white/5 text-xs font-medium text-gray-400 border border-white/5">Match {settings.winLength}</span>
+                    {teams && <span className="px-3 py-1 rounded-full bg-amber-500/10 text-amber-400 border border-amber-500/20 text-xs font-bold flex items-center gap-1"><PlayersIcon className="w-3 h-3"/> 2v2 Teams</span>}
+                    {isFreeForAll(settings) && <span className="px-3 py-1 rounded-full bg-amber-500/10 text-amber-400 border border-amber-500/20 text-xs font-bold flex items-center gap-1"><PlayersIcon className="w-3 h-3"/> {seats.length}-Player {settings.ffaRule === 'elimination' ? 'Elimination' : 'First Line'}</span>}
                     {settings.blitzMode && <span className="px-3 py-1 rounded-full bg-red-500/10 text-red-400 border border-red-500/20 text-xs font-bold flex items-center gap-1"><ClockIcon className="w-3 h-3"/> Blitz</span>}
                 </div>
                 
@@ -100,33 +112,36 @@ const WaitingRoom: React.FC<WaitingRoomProps> = ({ roomId, settings, players, ho
             </div>
 
             <div className="w-full space-y-3 mb-8">
-                <div className="flex items-center justify-between p-4 bg-white/5 rounded-2xl border border-white/5">
-                    <div className="flex items-center gap-4">
-                        <div className="w-12 h-12 rounded-full bg-cyan-500/20 flex items-center justify-center border border-cyan-500/30">
-                            <XIcon className="w-6 h-6 text-cyan-400" />
+                {listedSeats.map((seat, i) => {
+                    const occupant = activePlayers.find(p => p.role === seat);
+                    const color = SEAT_COLORS[teams ? getSide(seat) : seat];
+                    const SeatIcon = SEAT_ICONS[teams ? getSide(seat) : seat];
+                    return (
+                        <div key={seat} className="flex items-center justify-between p-4 bg-white/5 rounded-2xl border border-white/5">
+                            <div className="flex items-center gap-4">
+                                <div className={`w-12 h-12 rounded-full bg-${color}-500/20 flex items-center justify-center border border-${color}-500/30`}>
+                                    <SeatIcon className={`w-6 h-6 text-${color}-400`} />
+                                </div>
+                                <div className="text-left">
+                                    <div className={`text-xs font-bold text-${color}-500 uppercase tracking-wider mb-0.5`}>{teams ? `Team ${getSide(seat)}` : `Player ${i + 1}`}</div>
+                                    <div className="font-bold text-white text-lg">{occupant?.user.displayName || 'Waiting...'}</div>
+                                </div>
+                            </div>
+                            {occupant ? <CheckIcon className="w-6 h-6 text-green-500" /> : i > 0 && <div className="animate-pulse text-xs text-gray-500 font-medium">Scanning...</div>}
                         </div>
-                        <div className="text-left">
-                            <div className="text-xs font-bold text-cyan-500 uppercase tracking-wider mb-0.5">Player 1</div>
-                            <div className="font-bold text-white text-lg">{activePlayers.find(p => p.role === Player.X)?.user.displayName || 'Waiting...'}</div>
-                        </div>
-                    </div>
-                    {activePlayers.find(p => p.role === Player.X) && <CheckIcon className="w-6 h-6 text-green-500" />}
-                </div>
-
-                <div className="flex items-center justify-between p-4 bg-white/5 rounded-2xl border border-white/5">
-                    <div className="flex items-center gap-4">
-                        <div className="w-12 h-12 rounded-full bg-pink-500/20 flex items-center justify-center border border-pink-500/30">
-                            <OIcon className="w-6 h-6 text-pink-400" />
-                        </div>
-                        <div className="text-left">
-                            <div className="text-xs font-bold text-pink-500 uppercase tracking-wider mb-0.5">Player 2</div>
-                            <div className="font-bold text-white text-lg">{activePlayers.find(p => p.role === Player.O)?.user.displayName || 'Waiting...'}</div>
-                        </div>
-                    </div>
-                    {activePlayers.find(p => p.role === Player.O) ? <CheckIcon className="w-6 h-6 text-green-500" /> : <div className="animate-pulse text-xs text-gray-500 font-medium">Scanning...</div>}
-                </div>
+                    );
+                })}
             </div>
 
+            {canSwitchTeam && (
+                <button
+                    onClick={() => onlineService.switchTeam(roomId)}
+                    className="mb-6 flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-sm font-bold text-gray-300 hover:text-white transition-colors"
+                >
+                    <RefreshIcon className="w-4 h-4" /> Switch to Team {otherSide}
+                </button>
+            )}
+
             {isSpectator && (
                 <div className="mb-6 px-4 py-2 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-400 text-sm font-medium">
                     You are spectating this match.
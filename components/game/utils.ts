@@ -1,6 +1,25 @@
+import React from 'react';
+import { Player } from '../../types';
+import { OIcon, SquareIcon, TriangleIcon, XIcon } from '../Icons';
+
 
 export const formatTime = (seconds: number) => {
     const m = Math.floor(seconds / 60);
     const s = Math.floor(seconds % 60);
     return `${m}:${s.toString().padStart(2, '0')}`;
 };
+
+// Tailwind colour of each seat's pieces and highlights
+export const SEAT_COLORS: { [key in Player]: string } = {
+    [Player.X]: 'cyan',
+    [Player.O]: 'pink',
+    [Player.TRIANGLE]: 'amber',
+    [Player.SQUARE]: 'lime'
+};
+
+export const SEAT_ICONS: { [key in Player]: React.FC<{ className?: string }> } = {
+    [Player.X]: XIcon,
+    [Player.O]: OIcon,
+    [Player.TRIANGLE]: TriangleIcon,
+    [Player.SQUARE]: SquareIcon
+};
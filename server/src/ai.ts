@@ -1,6 +1,8 @@
 
-import { Player, BoardState, GameSettings, MoveAnalysis, Difficulty } from './types';
-import { checkWinner, findWinningMove } from './gameLogic';
+import { Player, BoardState, GameSettings, MoveAnalysis, Difficulty, Move, GameVariant, GomokuOptions } from './types';
+import { completesLine, applyMoveToBoard, getSafeMoves, getVariantRules, isMisereVariant, VariantRules, getHexDistance, getPieceOrder, getMovesUntilCollapse, getCollapsingCells, isBoardEvent } from '../../shared/rules';
+import { SearchBoard, WindowWeights } from './searchBoard';
+import { UltimateSearchBoard, UltimateWeights } from './ultimateBoard';
 
 /**
  * Transposition Table Entry
@@ -13,7 +15,8 @@ interface TTEntry {
     move?: number;
 }
 
-const tt = new Map<string, TTEntry>();
+// Keyed by the SearchBoard's Zobrist hash
+const tt = new Map<number, TTEntry>();
 
 // Gen Z Slang Dictionary
 const SLANG = {
@@ -63,27 +66,30 @@ const getSlangCategory = (difficulty: Difficulty, score: number) => {
 /**
  * Sorts moves to improve Alpha-Beta pruning efficiency.
  * 1. TT Best Move (PV)
- * 2. Center
+ * 2. Center (central columns in Gravity)
  * 3. Others
  */
-const getOrderedMoves = (board: BoardState, boardSize: number, ttMove?: number): number[] => {
-    const moves: number[] = [];
+const getOrderedMoves = (board: BoardState, settings: GameSettings, player: Player, ttMove?: number, lastMove?: number): number[] => {
+    const { boardSize } = settings;
+    const moves = getVariantRules(settings.variant).getLegalMoves(board, player, settings, lastMove);
     const center = (boardSize - 1) / 2;
-
-    for (let i = 0; i < board.length; i++) {
-        if (board[i] === null) moves.push(i);
-    }
+    const isGravity = settings.variant === GameVariant.GRAVITY;
+    const isHex = settings.variant === GameVariant.HEX;
 
     moves.sort((a, b) => {
         // Prioritize move from Transposition Table (Principal Variation)
         if (a === ttMove) return -1;
         if (b === ttMove) return 1;
 
-        // Heuristic: Center proximity
+        // Heuristic: Center proximity (on a Hex board, steps from the centre cell)
+        if (isHex) return getHexDistance(a, boardSize) - getHexDistance(b, boardSize);
         const rA = Math.floor(a / boardSize);
         const cA = a % boardSize;
         const rB = Math.floor(b / boardSize);
         const cB = b % boardSize;
+
+        // Gravity moves are one per column, and the central columns take part in the most lines
+        if (isGravity) return Math.abs(cA - center) - Math.abs(cB - center);
         
         const distA = Math.abs(rA - center) + Math.abs(cA - center);
         const distB = Math.abs(rB - center) + Math.abs(cB - center);
@@ -94,15 +100,41 @@ const getOrderedMoves = (board: BoardState, boardSize: number, ttMove?: number):
     return moves;
 };
 
+type LineSettings = { boardSize: number; winLength: number; obstacles?: boolean; toroidal?: boolean; variant?: GameVariant; gomoku?: GomokuOptions; decayLimit?: number; collapseInterval?: number };
+
+// The cells an opponent's line could still be finished on after the AI moves: in Sudden Death, a move
+// that brings the next collapse down also takes away every threat on the collapsing ring
+const getThreatCells = (board: BoardState, settings: LineSettings, candidates: number[], history: Move[]) => {
+    if (settings.variant !== GameVariant.SUDDEN_DEATH || getMovesUntilCollapse(history, settings) !== 1) return candidates;
+    const collapsing = new Set(getCollapsingCells(board, history, settings.boardSize));
+    return candidates.filter(i => !collapsing.has(i));
+};
+
+// Wild searches (cell, symbol) pairs, packed into one number so the TT and the root can store them
+const packWildMove = (index: number, symbol: Player) => index * 2 + (symbol === Player.O ? 1 : 0);
+const unpackWildMove = (move: number) => ({ index: move >> 1, symbol: move & 1 ? Player.O : Player.X });
+
+// Every legal cell with both symbols, the own symbol first
+const getWildMoves = (moves: number[], player: Player): number[] => {
+    const other = player === Player.X ? Player.O : Player.X;
+    return moves.flatMap(i => [packWildMove(i, player), packWildMove(i, other)]);
+};
+
 /**
  * Main AI entry point.
  * Uses Iterative Deepening with Alpha-Beta Pruning.
+ * lastMove is the previous placement; Ultimate needs it to know which sub-board the AI was sent to.
+ * history is the game's moves so far; Decay needs it to know how old each piece is, and Sudden Death
+ * to know when the next ring collapses.
  */
-export const findBestMove = (board: BoardState, settings: GameSettings, usedTaunts: string[] = [], player: Player = Player.O): MoveAnalysis => {
+export const findBestMove = (board: BoardState, settings: GameSettings, usedTaunts: string[] = [], player: Player = Player.O, lastMove?: number, history: Move[] = []): MoveAnalysis => {
     // Clear TT for new search to ensure freshness
     tt.clear();
 
     const opponent = player === Player.X ? Player.O : Player.X;
+    // Wins and blocks are only looked for among moves the variant allows (in Gravity, the column tops)
+    const rules = getVariantRules(settings.variant);
+    const legalMoves = rules.getLegalMoves(board, player, settings, lastMove);
 
     // Difficulty Configuration
     let maxDepth = 4;
@@ -127,15 +159,48 @@ export const findBestMove = (board: BoardState, settings: GameSettings, usedTaun
             break;
     }
 
-    // Adjust maxDepth for larger boards to maintain performance while keeping relative difficulty
+    // Ultimate: lines only exist inside sub-boards and on the meta-board, so it has its own search
+    if (settings.variant === GameVariant.ULTIMATE) {
+        if (Math.random() < randomness && legalMoves.length > 0) {
+            const randomMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
+            return { move: randomMove, reason: getRandomSlang(SLANG.EASY, usedTaunts) };
+        }
+        return searchUltimate(board, settings, maxDepth, player, lastMove, usedTaunts);
+    }
+
+    // Wild: either symbol finishes a line for whoever places it, so there is nothing to block
+    if (rules.freeSymbol) {
+        return findWildMove(board, settings, maxDepth, randomness, player, legalMoves, usedTaunts);
+    }
+
+    // Adjust maxDepth for larger boards to maintain performance while keeping relative difficulty.
+    // Boss goes as deep as its time limit allows; the search stops itself when the clock runs out.
     if (settings.boardSize > 3) {
-        if (settings.difficulty === Difficulty.BOSS) maxDepth = 6;
+        if (settings.difficulty === Difficulty.BOSS) maxDepth = 10;
         else if (settings.difficulty === Difficulty.HARD) maxDepth = 4;
         else maxDepth = 2;
     }
 
+    // Misère: completing a line loses, so there is nothing to "take" or "block".
+    // Every level steers clear of finishing its own line while it still has a choice.
+    if (isMisereVariant(settings.variant)) {
+        const safeMoves = getSafeMoves(board, player, settings, legalMoves);
+        if (safeMoves.length === 0) {
+            const moves = getOrderedMoves(board, settings, player);
+            return { move: moves[0], reason: getRandomSlang(SLANG.BLOCKING, usedTaunts) };
+        }
+        if (safeMoves.length === 1) {
+            return { move: safeMoves[0], reason: getRandomSlang(getSlangCategory(settings.difficulty, 0), usedTaunts) };
+        }
+        if (Math.random() < randomness) {
+            const randomMove = safeMoves[Math.floor(Math.random() * safeMoves.length)];
+            return { move: randomMove, reason: getRandomSlang(SLANG.EASY, usedTaunts) };
+        }
+        return searchBestMove(board, settings, maxDepth, player, usedTaunts);
+    }
+
     // 1. Immediate Win Check (Instant - All levels take the win)
-    const winMove = findWinningMove(board, player, settings);
+    const winMove = rules.findWinningMove(board, player, settings, legalMoves, history);
     if (winMove !== null) {
         const cat = settings.difficulty === Difficulty.BOSS ? SLANG.BOSS : SLANG.WINNING;
         return { move: winMove, reason: getRandomSlang(cat, usedTaunts) };
@@ -143,7 +208,7 @@ export const findBestMove = (board: BoardState, settings: GameSettings, usedTaun
 
     // 2. Randomness Injection (Simulate mistakes for Easy/Medium)
     if (Math.random() < randomness) {
-        const moves = getOrderedMoves(board, settings.boardSize);
+        const moves = getOrderedMoves(board, settings, player);
         if (moves.length > 0) {
             // Pick a random move
             const randomMove = moves[Math.floor(Math.random() * moves.length)];
@@ -155,7 +220,8 @@ export const findBestMove = (board: BoardState, settings: GameSettings, usedTaun
     // Only Hard and Boss guarantee an immediate block without searching.
     // Easy and Medium rely on the limited search depth (which might miss it) or randomness above.
     if (settings.difficulty === Difficulty.HARD || settings.difficulty === Difficulty.BOSS) {
-        const blockMove = findWinningMove(board, opponent, settings);
+        // Only cells the AI may play itself can block (renju forbids some of them to X)
+        const blockMove = rules.findWinningMove(board, opponent, settings, getThreatCells(board, settings, legalMoves, history), history);
         if (blockMove !== null) {
             const cat = settings.difficulty === Difficulty.BOSS ? SLANG.BOSS : SLANG.BLOCKING;
             return { move: blockMove, reason: getRandomSlang(cat, usedTaunts) };
@@ -163,56 +229,209 @@ export const findBestMove = (board: BoardState, settings: GameSettings, usedTaun
     }
 
     // 4. Iterative Deepening Search
-    const startTime = performance.now();
+    return searchBestMove(board, settings, maxDepth, player, usedTaunts, history);
+};
+
+/**
+ * Wild: takes any line it can finish (with either symbol), or in Wild Misère avoids finishing one
+ * while it has a choice, then searches (cell, symbol) pairs like any other position.
+ */
+const findWildMove = (board: BoardState, settings: GameSettings, maxDepth: number, randomness: number, player: Player, legalMoves: number[], usedTaunts: string[]): MoveAnalysis => {
+    let candidates = getWildMoves(legalMoves, player);
+
+    if (isMisereVariant(settings.variant)) {
+        const safe = candidates.filter(m => {
+            const { index, symbol } = unpackWildMove(m);
+            return !completesLine(board, index, symbol, settings);
+        });
+        if (safe.length === 0) {
+            return { move: legalMoves[0], symbol: player, reason: getRandomSlang(SLANG.BLOCKING, usedTaunts) };
+        }
+        candidates = safe;
+    } else {
+        const win = candidates.find(m => {
+            const { index, symbol } = unpackWildMove(m);
+            return completesLine(board, index, symbol, settings);
+        });
+        if (win !== undefined) {
+            const cat = settings.difficulty === Difficulty.BOSS ? SLANG.BOSS : SLANG.WINNING;
+            return { ...toWildAnalysis(win), reason: getRandomSlang(cat, usedTaunts) };
+        }
+    }
+
+    if (candidates.length === 1) {
+        return { ...toWildAnalysis(candidates[0]), reason: getRandomSlang(getSlangCategory(settings.difficulty, 0), usedTaunts) };
+    }
+    if (Math.random() < randomness) {
+        const randomMove = candidates[Math.floor(Math.random() * candidates.length)];
+        return { ...toWildAnalysis(randomMove), reason: getRandomSlang(SLANG.EASY, usedTaunts) };
+    }
+    return searchBestMove(board, settings, maxDepth, player, usedTaunts);
+};
+
+const toWildAnalysis = (move: number) => {
+    const { index, symbol } = unpackWildMove(move);
+    return { move: index, symbol };
+};
+
+const searchBestMove = (board: BoardState, settings: GameSettings, maxDepth: number, player: Player, usedTaunts: string[], history: Move[] = []): MoveAnalysis => {
     const timeLimit = settings.difficulty === Difficulty.BOSS ? 800 : 200;
+    const isBoss = settings.difficulty === Difficulty.BOSS;
+    const rules = getVariantRules(settings.variant);
+    const pieceLimit = rules.pieceLimit(settings);
+    // Sudden Death: the search plays on past the next collapse with the ring's empty cells blocked
+    const collapseIn = settings.variant === GameVariant.SUDDEN_DEATH ? getMovesUntilCollapse(history, settings) : null;
+    const ctx: SearchContext = {
+        board: new SearchBoard(board, settings.boardSize, settings.winLength, {
+            gravity: settings.variant === GameVariant.GRAVITY,
+            cube: settings.variant === GameVariant.QUBIC,
+            hex: settings.variant === GameVariant.HEX,
+            exactLength: settings.variant === GameVariant.GOMOKU && !!settings.gomoku?.exactFive,
+            toroidal: !!settings.toroidal,
+            ...(pieceLimit !== null ? { pieceLimit, pieceOrder: getPieceOrder(history) } : {}),
+            ...(collapseIn !== null ? { collapseIn, collapseRing: getCollapsingCells(board, history, settings.boardSize) } : {})
+        }),
+        rules,
+        weights: {
+            open4: 10000,
+            open3: isBoss ? 500 : 100,
+            closed3: isBoss ? 150 : 50,
+            open2: isBoss ? 50 : 20
+        },
+        invertEval: isMisereVariant(settings.variant),
+        wild: rules.freeSymbol,
+        rootMoves: settings.variant === GameVariant.GOMOKU && settings.gomoku?.renju
+            ? new Set(rules.getLegalMoves(board, player, settings))
+            : null,
+        deadline: performance.now() + timeLimit,
+        nodes: 0,
+        aborted: false
+    };
     
     let bestMove = -1;
     let bestScore = -Infinity;
     
     // Start with depth 1 and go deeper up to maxDepth
     for (let d = 1; d <= maxDepth; d++) {
-        const result = rootAlphaBeta(board, settings, d, player);
+        const result = rootAlphaBeta(ctx, d, player);
+
+        // An iteration cut short by the clock is only trusted if nothing finished before it
+        if (ctx.aborted) {
+            if (bestMove === -1) bestMove = result.move;
+            break;
+        }
         
         bestMove = result.move;
         bestScore = result.score;
 
         // If we found a forced win, stop early
         if (bestScore > 9000) break;
-
-        // Time Management check (skip for Boss to ensure quality, but keep a safety net)
-        if (performance.now() - startTime > timeLimit) {
-            break; 
-        }
     }
 
     // Fallback if search failed to return a move (shouldn't happen)
     if (bestMove === -1) {
-        const moves = getOrderedMoves(board, settings.boardSize);
-        bestMove = moves[0];
+        const moves = getOrderedMoves(board, settings, player);
+        bestMove = ctx.wild ? packWildMove(moves[0], player) : moves[0];
     }
 
     return {
-        move: bestMove,
+        ...(ctx.wild ? toWildAnalysis(bestMove) : { move: bestMove }),
         reason: getRandomSlang(getSlangCategory(settings.difficulty, bestScore), usedTaunts),
     };
 };
 
-const rootAlphaBeta = (board: BoardState, settings: GameSettings, depth: number, player: Player) => {
+/**
+ * Checks that every move the AI side made in a client-reported game is one findBestMove could have produced.
+ * All difficulties take an immediate win, Hard and Boss always block an immediate loss, and the AI never uses power-ups.
+ * In Misère the AI instead never completes its own line while a safe square is left.
+ * In Wild it takes a line of either symbol when it can (Wild Misère: never finishes one while it can avoid it), and never blocks.
+ * In Ultimate only the no-power-ups rule applies; legality is checked by verifyMatchReplay.
+ * In Decay wins and blocks are judged with the side's vanishing piece already gone.
+ * In Sudden Death a threat on the ring the AI's move brings down doesn't need blocking.
+ */
+export const verifyAiMoves = (
+    initialBoard: BoardState,
+    moves: Move[],
+    settings: { boardSize: number; winLength: number; toroidal?: boolean; difficulty: Difficulty; variant?: GameVariant; gomoku?: GomokuOptions; decayLimit?: number; collapseInterval?: number },
+    aiPlayer: Player = Player.O
+): boolean => {
+    const human = aiPlayer === Player.X ? Player.O : Player.X;
+    const rules = getVariantRules(settings.variant);
+    let board = [...initialBoard];
+    for (let i = 0; i < moves.length; i++) {
+        const move = moves[i];
+        const history = moves.slice(0, i);
+        // A Sudden Death collapse is a board event, not a move of the side it is recorded under
+        if (move.player === aiPlayer && !isBoardEvent(move)) {
+            if (move.powerUp) return false;
+            // Ultimate's search has no forced first moves to hold it to
+            if (settings.variant === GameVariant.ULTIMATE) {
+                board = applyMoveToBoard(board, move);
+                continue;
+            }
+            const aiMoves = rules.getLegalMoves(board, aiPlayer, settings);
+            if (rules.freeSymbol) {
+                const finishes = completesLine(board, move.index, move.symbol ?? aiPlayer, settings);
+                const canFinish = rules.findWinningMove(board, Player.X, settings, aiMoves) !== null || rules.findWinningMove(board, Player.O, settings, aiMoves) !== null;
+                const canAvoid = aiMoves.some(i => !completesLine(board, i, Player.X, settings) || !completesLine(board, i, Player.O, settings));
+                if (isMisereVariant(settings.variant) ? finishes && canAvoid : canFinish && !finishes) return false;
+            } else if (settings.variant === GameVariant.MISERE) {
+                if (completesLine(board, move.index, aiPlayer, settings) && getSafeMoves(board, aiPlayer, settings, aiMoves).length > 0) return false;
+            } else if (rules.findWinningMove(board, aiPlayer, settings, aiMoves, history) !== null) {
+                if (!rules.completesLine(board, move.index, aiPlayer, settings, history)) return false;
+            } else if (settings.difficulty === Difficulty.HARD || settings.difficulty === Difficulty.BOSS) {
+                if (rules.findWinningMove(board, human, settings, getThreatCells(board, settings, aiMoves, history), history) !== null && !rules.completesLine(board, move.index, human, settings, history)) return false;
+            }
+        }
+        board = applyMoveToBoard(board, move);
+    }
+    return true;
+};
+
+interface SearchContext {
+    board: SearchBoard;
+    rules: VariantRules;
+    weights: WindowWeights;
+    invertEval: boolean;
+    // Moves are packed (cell, symbol) pairs, see packWildMove
+    wild: boolean;
+    // Gomoku with renju: the moves X may actually play. Only checked at the root, so deeper
+    // lines may still assume a forbidden move.
+    rootMoves: Set<number> | null;
+    deadline: number;
+    nodes: number;
+    aborted: boolean;
+}
+
+// How many nodes to visit between clock checks
+const TIME_CHECK_INTERVAL = 1024;
+
+// The board's move order, expanded to packed (cell, symbol) pairs in Wild
+const getSearchMoves = (ctx: SearchContext, player: Player, ttMove?: number): number[] => {
+    if (!ctx.wild) return ctx.board.orderedMoves(ttMove);
+    const moves = getWildMoves(ctx.board.orderedMoves(ttMove === undefined ? undefined : ttMove >> 1), player);
+    if (ttMove === undefined || !moves.includes(ttMove)) return moves;
+    return [ttMove, ...moves.filter(m => m !== ttMove)];
+};
+
+const rootAlphaBeta = (ctx: SearchContext, depth: number, player: Player) => {
     let bestMove = -1;
     let bestScore = -Infinity;
     let alpha = -Infinity;
     let beta = Infinity;
 
-    const boardKey = board.join('') + player;
+    const { board } = ctx;
+    const boardKey = board.key(player);
     const ttEntry = tt.get(boardKey);
-    const moves = getOrderedMoves(board, settings.boardSize, ttEntry?.move);
+    const moves = getSearchMoves(ctx, player, ttEntry?.move).filter(m => !ctx.rootMoves || ctx.rootMoves.has(m));
 
     for (const move of moves) {
-        const newBoard = [...board] as BoardState;
-        newBoard[move] = player;
-        
+        const index = ctx.wild ? move >> 1 : move;
+        board.play(index, ctx.wild ? unpackWildMove(move).symbol : player);
         // Negamax call
-        const score = -alphaBeta(newBoard, settings, depth - 1, -beta, -alpha, player === Player.X ? Player.O : Player.X);
+        const score = -alphaBeta(ctx, depth - 1, -beta, -alpha, player === Player.X ? Player.O : Player.X, index, player);
+        board.undo(index);
+        if (ctx.aborted) break;
         
         if (score > bestScore) {
             bestScore = score;
@@ -222,15 +441,32 @@ const rootAlphaBeta = (board: BoardState, settings: GameSettings, depth: number,
         alpha = Math.max(alpha, score);
     }
 
-    tt.set(boardKey, { score: bestScore, depth, flag: 'EXACT', move: bestMove });
+    if (!ctx.aborted) tt.set(boardKey, { score: bestScore, depth, flag: 'EXACT', move: bestMove });
     return { move: bestMove, score: bestScore };
 };
 
-const alphaBeta = (board: BoardState, settings: GameSettings, depth: number, alpha: number, beta: number, player: Player): number => {
-    const alphaOrig = alpha;
-    const boardKey = board.join('') + player;
+const alphaBeta = (ctx: SearchContext, depth: number, alpha: number, beta: number, player: Player, lastMove: number, lastMover: Player): number => {
+    const { board } = ctx;
+
+    if (++ctx.nodes % TIME_CHECK_INTERVAL === 0 && performance.now() > ctx.deadline) ctx.aborted = true;
+    if (ctx.aborted) return 0;
+
+    // 1. Terminal State Check: only the move just made can have finished the game
+    if (board.completesLine(lastMove)) {
+        const winner = ctx.rules.resolveLine(lastMover);
+        return winner === player ? 10000 + depth : -10000 - depth;
+    }
+    if (board.isFull()) return 0;
+
+    if (depth === 0) {
+        const score = ctx.wild ? board.evaluateWild(ctx.weights) : board.evaluate(player, ctx.weights);
+        // Misère: every open line of your own is a liability you may be forced to complete
+        return ctx.invertEval ? -score : score;
+    }
 
-    // 1. Transposition Table Lookup
+    // 2. Transposition Table Lookup
+    const alphaOrig = alpha;
+    const boardKey = board.key(player);
     const ttEntry = tt.get(boardKey);
     if (ttEntry && ttEntry.depth >= depth) {
         if (ttEntry.flag === 'EXACT') return ttEntry.score;
@@ -239,31 +475,18 @@ const alphaBeta = (board: BoardState, settings: GameSettings, depth: number, alp
         if (alpha >= beta) return ttEntry.score;
     }
 
-    // 2. Terminal State Check
-    const { winner } = checkWinner(board, settings.boardSize, settings.winLength);
-    if (winner) {
-        if (winner === 'draw') return 0;
-        // Winner is the one who JUST moved (previous player). 
-        // If 'player' is the current turn, they lost.
-        return winner === player ? 10000 + depth : -10000 - depth; 
-    }
-
-    if (depth === 0) {
-        return evaluateBoard(board, settings, player);
-    }
-
     // 3. Generate Moves
-    const moves = getOrderedMoves(board, settings.boardSize, ttEntry?.move);
-    if (moves.length === 0) return 0;
+    const moves = getSearchMoves(ctx, player, ttEntry?.move);
 
     let bestScore = -Infinity;
     let bestMove = -1;
 
     for (const move of moves) {
-        const newBoard = [...board] as BoardState;
-        newBoard[move] = player;
-
-        const score = -alphaBeta(newBoard, settings, depth - 1, -beta, -alpha, player === Player.X ? Player.O : Player.X);
+        const index = ctx.wild ? move >> 1 : move;
+        board.play(index, ctx.wild ? unpackWildMove(move).symbol : player);
+        const score = -alphaBeta(ctx, depth - 1, -beta, -alpha, player === Player.X ? Player.O : Player.X, index, player);
+        board.undo(index);
+        if (ctx.aborted) return 0;
 
         if (score > bestScore) {
             bestScore = score;
@@ -283,86 +506,85 @@ const alphaBeta = (board: BoardState, settings: GameSettings, depth: number, alp
     return bestScore;
 };
 
-/**
- * Heuristic Evaluation Function.
- * Returns score from the perspective of 'player'.
- */
-const evaluateBoard = (board: BoardState, settings: GameSettings, player: Player): number => {
-    let score = 0;
-    const { boardSize, winLength } = settings;
-    const opponent = player === Player.X ? Player.O : Player.X;
+interface UltimateContext {
+    board: UltimateSearchBoard;
+    weights: UltimateWeights;
+    deadline: number;
+    nodes: number;
+    aborted: boolean;
+}
 
-    // Weights configuration
+const searchUltimate = (board: BoardState, settings: GameSettings, maxDepth: number, player: Player, lastMove: number | undefined, usedTaunts: string[]): MoveAnalysis => {
     const isBoss = settings.difficulty === Difficulty.BOSS;
-    const weights = {
-        open4: 10000,
-        open3: isBoss ? 500 : 100,
-        closed3: isBoss ? 150 : 50,
-        open2: isBoss ? 50 : 20,
-        closed2: 10
+    const ctx: UltimateContext = {
+        board: new UltimateSearchBoard(board),
+        weights: {
+            subBoard: 100,
+            metaTwo: isBoss ? 400 : 250,
+            localTwo: isBoss ? 12 : 8
+        },
+        deadline: performance.now() + (isBoss ? 800 : 200),
+        nodes: 0,
+        aborted: false
     };
+    const opponent = player === Player.X ? Player.O : Player.X;
+    const moves = ctx.board.orderedMoves(lastMove ?? -1);
 
-    const evaluateWindow = (window: BoardState) => {
-        let pCount = 0;
-        let oCount = 0;
-        let obstacles = 0;
-        let empty = 0;
-
-        for (const cell of window) {
-            if (cell === player) pCount++;
-            else if (cell === opponent) oCount++;
-            else if (cell === 'OBSTACLE') obstacles++;
-            else empty++;
+    let bestMove = moves[0] ?? -1;
+    let bestScore = -Infinity;
+
+    for (let d = 1; d <= maxDepth; d++) {
+        let iterationMove = -1;
+        let iterationScore = -Infinity;
+        let alpha = -Infinity;
+        // Search the previous iteration's best move first
+        const ordered = [bestMove, ...moves.filter(m => m !== bestMove)];
+        for (const move of ordered) {
+            ctx.board.play(move, player);
+            const score = -ultimateAlphaBeta(ctx, d - 1, -Infinity, -alpha, opponent, move);
+            ctx.board.undo(move);
+            if (ctx.aborted) break;
+            if (score > iterationScore) {
+                iterationScore = score;
+                iterationMove = move;
+            }
+            alpha = Math.max(alpha, score);
         }
+        if (ctx.aborted) break;
 
-        if (obstacles > 0) return 0;
-        if (pCount > 0 && oCount > 0) return 0;
+        bestMove = iterationMove;
+        bestScore = iterationScore;
+        if (bestScore > 9000) break;
+    }
 
-        if (pCount > 0) {
-            if (pCount >= winLength) return weights.open4;
-            if (pCount === winLength - 1) return empty === 1 ? weights.open3 : weights.closed3;
-            if (pCount === winLength - 2) return weights.open2;
-        }
-        else if (oCount > 0) {
-            if (oCount >= winLength) return -weights.open4;
-            if (oCount === winLength - 1) return empty === 1 ? -weights.open3 * 1.5 : -weights.closed3 * 1.5; 
-            if (oCount === winLength - 2) return -weights.open2 * 1.2;
-        }
-        return 0;
+    return {
+        move: bestMove,
+        reason: getRandomSlang(getSlangCategory(settings.difficulty, bestScore), usedTaunts),
     };
+};
 
-    // Scan all lines
-    // Horizontal
-    for (let r = 0; r < boardSize; r++) {
-        for (let c = 0; c <= boardSize - winLength; c++) {
-            const window: BoardState = [];
-            for (let i = 0; i < winLength; i++) window.push(board[r * boardSize + c + i]);
-            score += evaluateWindow(window);
-        }
-    }
+// Negamax over the Ultimate board. lastMove is the move just made, by the other side.
+const ultimateAlphaBeta = (ctx: UltimateContext, depth: number, alpha: number, beta: number, player: Player, lastMove: number): number => {
+    const { board } = ctx;
 
-    // Vertical
-    for (let c = 0; c < boardSize; c++) {
-        for (let r = 0; r <= boardSize - winLength; r++) {
-            const window: BoardState = [];
-            for (let i = 0; i < winLength; i++) window.push(board[(r + i) * boardSize + c]);
-            score += evaluateWindow(window);
-        }
-    }
+    if (++ctx.nodes % TIME_CHECK_INTERVAL === 0 && performance.now() > ctx.deadline) ctx.aborted = true;
+    if (ctx.aborted) return 0;
 
-    // Diagonals
-    for (let r = 0; r <= boardSize - winLength; r++) {
-        for (let c = 0; c <= boardSize - winLength; c++) {
-            const w1: BoardState = [];
-            const w2: BoardState = [];
-            for (let i = 0; i < winLength; i++) {
-                w1.push(board[(r + i) * boardSize + c + i]);
-                w2.push(board[(r + i) * boardSize + c + winLength - 1 - i]);
-            }
-            score += evaluateWindow(w1);
-            score += evaluateWindow(w2);
-        }
-    }
+    if (board.winsGame(lastMove)) return -10000 - depth;
+    if (board.isOver()) return 0;
+    if (depth === 0) return board.evaluate(player, ctx.weights);
 
-    return score;
+    const opponent = player === Player.X ? Player.O : Player.X;
+    let bestScore = -Infinity;
+    for (const move of board.orderedMoves(lastMove)) {
+        board.play(move, player);
+        const score = -ultimateAlphaBeta(ctx, depth - 1, -beta, -alpha, opponent, move);
+        board.undo(move);
+        if (ctx.aborted) return 0;
+
+        bestScore = Math.max(bestScore, score);
+        alpha = Math.max(alpha, score);
+        if (alpha >= beta) break;
+    }
+    return bestScore;
 };
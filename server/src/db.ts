@@ -1,16 +1,19 @@
 
-// @ts-ignore: Suppress error if Prisma Client is not generated yet
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 // Use a global variable to prevent multiple instances in development (hot-reloading)
-const globalForPrisma = globalThis as unknown as { prisma: any };
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
 
-export const prisma = globalForPrisma.prisma || new PrismaClient({
+export const prisma = globalForPrisma.prisma ?? new PrismaClient({
   log: ['query', 'info', 'warn', 'error'],
 });
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
 
+// Rooms, settings and boards are plain data, but their interfaces don't carry the index
+// signature Prisma's Json input type asks for
+export const toJson = (value: unknown): Prisma.InputJsonValue => value as Prisma.InputJsonValue;
+
 // Runtime safety check
 // This explicitly checks if the 'user' model is attached to the client.
 // If not, it means the client was generated before the schema had the User model,
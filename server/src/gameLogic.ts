@@ -3,93 +3,8 @@
 
 
 
-import { BoardState, Player, WinningLine, GameSettings, Badge, User, Move, MatchRecord, ShopItem, Quest, GameMode, Difficulty } from './types';
-
-// ... (Existing checkWinner, findWinningMove, countThreats, getXPForLevel, calculateLevelProgress, analyzeMatch, calculateElo, calculateDrawElo functions remain unchanged)
-export const checkWinner = (
-  board: BoardState,
-  boardSize: number,
-  winLength: number
-): { winner: Player | 'draw' | null; line: WinningLine | null } => {
-  const directions = [
-    { r: 0, c: 1 }, // Horizontal
-    { r: 1, c: 0 }, // Vertical
-    { r: 1, c: 1 }, // Diagonal down-right
-    { r: 1, c: -1 }, // Diagonal down-left
-  ];
-
-  for (let r = 0; r < boardSize; r++) {
-    for (let c = 0; c < boardSize; c++) {
-      const index = r * boardSize + c;
-      const player = board[index];
-      
-      if (!player || player === 'OBSTACLE') continue;
-
-      for (const dir of directions) {
-        const line: number[] = [];
-        let win = true;
-        for (let i = 0; i < winLength; i++) {
-          const newR = r + i * dir.r;
-          const newC = c + i * dir.c;
-          const newIndex = newR * boardSize + newC;
-
-          if (
-            newR < 0 || newR >= boardSize ||
-            newC < 0 || newC >= boardSize ||
-            board[newIndex] !== player
-          ) {
-            win = false;
-            break;
-          }
-          line.push(newIndex);
-        }
-        if (win) {
-          return { winner: player as Player, line };
-        }
-      }
-    }
-  }
-
-  if (board.every(square => square !== null)) {
-    return { winner: 'draw', line: null };
-  }
-
-  return { winner: null, line: null };
-};
-
-export const findWinningMove = (
-  board: BoardState,
-  player: Player,
-  settings: { boardSize: number; winLength: number }
-): number | null => {
-  for (let i = 0; i < board.length; i++) {
-    if (board[i] === null) {
-      const tempBoard = [...board];
-      tempBoard[i] = player;
-      const winnerInfo = checkWinner(tempBoard, settings.boardSize, settings.winLength);
-      if (winnerInfo.winner === player) {
-        return i;
-      }
-    }
-  }
-  return null;
-};
-
-// Counts how many immediate winning moves (threats) a player has on the board.
-// A "fork" or "trap" is created when this count is 2 or more.
-export const countThreats = (board: BoardState, player: Player, settings: { boardSize: number; winLength: number }): number => {
-  let threats = 0;
-  for (let i = 0; i < board.length; i++) {
-    if (board[i] === null) {
-      const tempBoard = [...board];
-      tempBoard[i] = player;
-      if (findWinningMove(tempBoard, player, settings) !== null) {
-        threats++;
-      }
-    }
-  }
-  return threats;
-};
+import { BoardState, Player, GameSettings, Badge, User, Move, MatchRecord, ShopItem, Quest, GameMode, Difficulty, PowerUp, GameVariant, GomokuOptions, ObstacleLayout } from './types';
+import { applyMoveToBoard, getVariantRules, ULTIMATE_BOARD_SIZE, QUBIC_BOARD_SIZE, GOMOKU_MIN_BOARD_SIZE, GOMOKU_WIN_LENGTH, getDecayingPiece, getHexCellCount, HEX_MAX_SIZE, createSeededRandom, isBoardEvent, getDueCollapse, SUDDEN_DEATH_MIN_BOARD_SIZE } from '../../shared/rules';
 
 export const getXPForLevel = (level: number): number => 100 + (level - 1) * 50;
 
@@ -113,26 +28,38 @@ export function analyzeMatch(
     winner: Player, 
     settings: GameSettings
 ): { isFlawless: boolean, isComeback: boolean } {
+    // Threats are straight lines across the whole board, which Ultimate doesn't have.
+    // In Wild a line of either symbol is anyone's to finish, so nobody owns a threat.
+    if (settings.variant === GameVariant.ULTIMATE || getVariantRules(settings.variant).freeSymbol) return { isFlawless: false, isComeback: false };
+
     const loser = winner === Player.X ? Player.O : Player.X;
+    const rules = getVariantRules(settings.variant);
+    const hasThreat = (board: BoardState) => rules.findWinningMove(board, loser, settings) !== null;
     let isFlawless = true;
     let isComeback = false;
 
     let currentBoard = [...initialBoard];
 
     for (const move of moves) {
+        // Sudden Death: a collapse is nobody's move
+        if (isBoardEvent(move)) {
+            currentBoard = applyMoveToBoard(currentBoard, move);
+            continue;
+        }
         // Check for comeback: did the loser have a winning move right before the winner played?
         if (move.player === winner) {
-            if (findWinningMove(currentBoard, loser, settings) !== null) {
+            if (hasThreat(currentBoard)) {
                 isComeback = true;
             }
         }
 
-        currentBoard[move.index] = move.player;
+        if (!move.blocked) currentBoard[move.index] = move.player; // Fog: a blocked move changes nothing
+        if (move.removed != null) currentBoard[move.removed] = null; // Decay
 
         // Check for flawless: did the loser ever create a threat?
         // This checks the board state AFTER the loser's move.
         if (move.player === loser) {
-            if (findWinningMove(currentBoard, loser, settings) !== null) {
+            if (hasThreat(currentBoard)) {
                 isFlawless = false;
             }
         }
@@ -148,28 +75,102 @@ export function analyzeMatch(
 }
 
 
-// --- ELO Logic ---
-const K_FACTOR = 32;
-
-export const calculateElo = (winnerElo: number, loserElo: number): { winnerNew: number, loserNew: number } => {
-    const expectedWinner = 1 / (1 + Math.pow(10, (loserElo - winnerElo) / 400));
-    const expectedLoser = 1 / (1 + Math.pow(10, (winnerElo - loserElo) / 400));
+// --- Rating Logic (Glicko-2) ---
+// Ratings stay on the familiar ELO scale (everyone starts at 1000), converted to the
+// Glicko-2 scale only for the update. One game is treated as one rating period.
+export const DEFAULT_RATING = 1000;
+export const DEFAULT_RD = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+export const MIN_RD = 30;
+export const PROVISIONAL_GAMES = 10;
+
+const GLICKO_SCALE = 173.7178;
+const GLICKO_TAU = 0.5;       // Constrains how fast volatility can change
+const GLICKO_EPSILON = 0.000001;
+const RATING_PERIOD_MS = 24 * 60 * 60 * 1000; // Idle days grow the deviation again
+
+export interface GlickoRating {
+    rating: number;
+    rd: number;
+    volatility: number;
+}
 
-    const winnerNew = Math.round(winnerElo + K_FACTOR * (1 - expectedWinner));
-    const loserNew = Math.round(loserElo + K_FACTOR * (0 - expectedLoser));
+export const isProvisional = (r: { games: number, rd: number }) => r.games < PROVISIONAL_GAMES || r.rd > 110;
 
-    return { winnerNew, loserNew };
+export interface GlickoResult {
+    opponent: GlickoRating;
+    score: number;
 }
 
-export const calculateDrawElo = (p1Elo: number, p2Elo: number): { p1New: number, p2New: number } => {
-    const expectedP1 = 1 / (1 + Math.pow(10, (p2Elo - p1Elo) / 400));
-    const expectedP2 = 1 / (1 + Math.pow(10, (p1Elo - p2Elo) / 400));
+/**
+ * Applies one game's result (score 1 = win, 0.5 = draw, 0 = loss) to a rating,
+ * following Glickman's Glicko-2 procedure. idleMs since the player's last rated game
+ * in this pool widens the deviation first, so returning players move faster.
+ */
+export const updateGlicko = (player: GlickoRating, opponent: GlickoRating, score: number, idleMs = 0): GlickoRating =>
+    updateGlickoResults(player, [{ opponent, score }], idleMs);
+
+/**
+ * The same update over several opponents at once. A free-for-all is one rating period
+ * with a result against each of the other seats.
+ */
+export const updateGlickoResults = (player: GlickoRating, results: GlickoResult[], idleMs = 0): GlickoRating => {
+    const mu = (player.rating - DEFAULT_RATING) / GLICKO_SCALE;
+    const idlePeriods = Math.floor(idleMs / RATING_PERIOD_MS);
+    const phi = Math.min(DEFAULT_RD / GLICKO_SCALE, Math.sqrt((player.rd / GLICKO_SCALE) ** 2 + idlePeriods * player.volatility ** 2));
+
+    const terms = results.map(({ opponent, score }) => {
+        const muJ = (opponent.rating - DEFAULT_RATING) / GLICKO_SCALE;
+        const phiJ = opponent.rd / GLICKO_SCALE;
+        const g = 1 / Math.sqrt(1 + 3 * phiJ ** 2 / Math.PI ** 2);
+        const expected = 1 / (1 + Math.exp(-g * (mu - muJ)));
+        return { g, expected, score };
+    });
+    const v = 1 / terms.reduce((sum, t) => sum + t.g ** 2 * t.expected * (1 - t.expected), 0);
+    const improvement = terms.reduce((sum, t) => sum + t.g * (t.score - t.expected), 0);
+    const delta = v * improvement;
+
+    // New volatility via the Illinois algorithm
+    const a = Math.log(player.volatility ** 2);
+    const f = (x: number) => {
+        const ex = Math.exp(x);
+        return ex * (delta ** 2 - phi ** 2 - v - ex) / (2 * (phi ** 2 + v + ex) ** 2) - (x - a) / GLICKO_TAU ** 2;
+    };
+    let A = a;
+    let B: number;
+    if (delta ** 2 > phi ** 2 + v) {
+        B = Math.log(delta ** 2 - phi ** 2 - v);
+    } else {
+        let k = 1;
+        while (f(a - k * GLICKO_TAU) < 0) k++;
+        B = a - k * GLICKO_TAU;
+    }
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > GLICKO_EPSILON) {
+        const C = A + (A - B) * fA / (fB - fA);
+        const fC = f(C);
+        if (fC * fB <= 0) {
+            A = B;
+            fA = fB;
+        } else {
+            fA = fA / 2;
+        }
+        B = C;
+        fB = fC;
+    }
+    const volatility = Math.exp(A / 2);
 
-    const p1New = Math.round(p1Elo + K_FACTOR * (0.5 - expectedP1));
-    const p2New = Math.round(p2Elo + K_FACTOR * (0.5 - expectedP2));
+    const phiStar = Math.sqrt(phi ** 2 + volatility ** 2);
+    const newPhi = 1 / Math.sqrt(1 / phiStar ** 2 + 1 / v);
+    const newMu = mu + newPhi ** 2 * improvement;
 
-    return { p1New, p2New };
-}
+    return {
+        rating: newMu * GLICKO_SCALE + DEFAULT_RATING,
+        rd: Math.max(MIN_RD, newPhi * GLICKO_SCALE),
+        volatility
+    };
+};
 
 // --- Badge Logic ---
 export const AVAILABLE_BADGES: Badge[] = [
@@ -280,6 +281,29 @@ export const SHOP_CATALOG: ShopItem[] = [
     { id: 'skin-neon', name: 'Neon Tubes', type: 'skin', cost: 400, assetId: 'skin-neon', owned: false },
 ];
 
+// --- Server-Side Power-Up Authority ---
+// Undo and Hint are free for everyone; the rest must be owned (bought from SHOP_CATALOG).
+export const POWERUP_ITEM_IDS: { [key in PowerUp]?: string } = {
+    destroy: 'powerup-destroy',
+    wall: 'powerup-wall',
+    double: 'powerup-double',
+    convert: 'powerup-convert',
+};
+
+export const ownsPowerUp = (inventory: string[], powerUp: PowerUp): boolean => {
+    const itemId = POWERUP_ITEM_IDS[powerUp];
+    return !itemId || (inventory || []).includes(itemId);
+};
+
+export const getAvailablePowerUps = (inventory: string[]): { [key in PowerUp]?: boolean } => ({
+    undo: true,
+    hint: true,
+    destroy: ownsPowerUp(inventory, 'destroy'),
+    wall: ownsPowerUp(inventory, 'wall'),
+    double: ownsPowerUp(inventory, 'double'),
+    convert: ownsPowerUp(inventory, 'convert'),
+});
+
 export const getDailyShopSelection = (): string[] => {
     const today = new Date();
     const seed = today.getFullYear() * 10000 + (today.getMonth() + 1) * 100 + today.getDate();
@@ -303,19 +327,25 @@ export const getDailyShopSelection = (): string[] => {
 };
 
 // --- Server-Side Campaign Authority ---
-export const CAMPAIGN_LEVELS_DATA = [
-    { id: 1, rewardCoins: 50 },
-    { id: 2, rewardCoins: 100 },
-    { id: 3, rewardCoins: 150 },
-    { id: 4, rewardCoins: 250 },
-    { id: 5, rewardCoins: 500, unlocksItem: 'avatar-3' },
-    { id: 6, rewardCoins: 300 },
-    { id: 7, rewardCoins: 350 },
-    { id: 8, rewardCoins: 400 },
-    { id: 9, rewardCoins: 450 },
-    { id: 10, rewardCoins: 1000, unlocksItem: 'frame-gold' },
+// Settings mirror CAMPAIGN_LEVELS on the client; results are replayed against these, not what the client sends.
+export type CampaignLevelSettings = { boardSize: number; winLength: number; obstacles: boolean; variant: GameVariant; difficulty: Difficulty };
+
+export const CAMPAIGN_LEVELS_DATA: { id: number; rewardCoins: number; unlocksItem?: string; settings: CampaignLevelSettings }[] = [
+    { id: 1, rewardCoins: 50, settings: { boardSize: 3, winLength: 3, obstacles: false, variant: GameVariant.CLASSIC, difficulty: Difficulty.EASY } },
+    { id: 2, rewardCoins: 100, settings: { boardSize: 4, winLength: 3, obstacles: true, variant: GameVariant.CLASSIC, difficulty: Difficulty.MEDIUM } },
+    { id: 3, rewardCoins: 150, settings: { boardSize: 3, winLength: 3, obstacles: false, variant: GameVariant.MISERE, difficulty: Difficulty.MEDIUM } },
+    { id: 4, rewardCoins: 250, settings: { boardSize: 5, winLength: 4, obstacles: false, variant: GameVariant.CLASSIC, difficulty: Difficulty.HARD } },
+    { id: 5, rewardCoins: 500, unlocksItem: 'avatar-3', settings: { boardSize: 3, winLength: 3, obstacles: false, variant: GameVariant.CLASSIC, difficulty: Difficulty.BOSS } },
+    { id: 6, rewardCoins: 300, settings: { boardSize: 4, winLength: 4, obstacles: false, variant: GameVariant.CLASSIC, difficulty: Difficulty.HARD } },
+    { id: 7, rewardCoins: 350, settings: { boardSize: 5, winLength: 4, obstacles: true, variant: GameVariant.CLASSIC, difficulty: Difficulty.HARD } },
+    { id: 8, rewardCoins: 400, settings: { boardSize: 4, winLength: 3, obstacles: true, variant: GameVariant.MISERE, difficulty: Difficulty.HARD } },
+    { id: 9, rewardCoins: 450, settings: { boardSize: 6, winLength: 5, obstacles: false, variant: GameVariant.CLASSIC, difficulty: Difficulty.BOSS } },
+    { id: 10, rewardCoins: 1000, unlocksItem: 'frame-gold', settings: { boardSize: 4, winLength: 4, obstacles: false, variant: GameVariant.CLASSIC, difficulty: Difficulty.BOSS } },
 ];
 
+// Stars awarded for a campaign clear, by total moves played
+export const getCampaignStars = (moveCount: number) => moveCount < 10 ? 3 : (moveCount < 15 ? 2 : 1);
+
 // --- Daily Rewards ---
 export const getDailyReward = (streak: number) => {
     const rewards = [50, 100, 150, 200, 250, 300, 1000];
@@ -539,4 +569,141 @@ export const processMatchQuests = (quests: Quest[], matchData: {
 };
 
 // --- Tower Validation Logic ---
-export const getTowerReward = (floor: number) => floor * 20;
\ No newline at end of file
+export const getTowerReward = (floor: number) => floor * 20;
+
+// Same deterministic generator as generateTowerLevel on the client, settings only.
+export const getTowerSettings = (floor: number): CampaignLevelSettings => {
+    const seed = floor * 12345;
+    const random = (offset = 0) => {
+        const x = Math.sin(seed + offset) * 10000;
+        return x - Math.floor(x);
+    };
+    const boardSize = Math.min(8, 3 + Math.floor((floor - 1) / 5));
+    const isBossFloor = floor % 5 === 0;
+    return {
+        boardSize,
+        winLength: Math.min(5, boardSize),
+        obstacles: floor > 3 && random(1) > 0.4,
+        variant: !isBossFloor && random(2) > 0.8 ? GameVariant.MISERE : GameVariant.CLASSIC,
+        difficulty: isBossFloor ? Difficulty.BOSS : (floor % 2 === 0 ? Difficulty.HARD : Difficulty.MEDIUM)
+    };
+};
+
+// --- Result Verification ---
+// Offline games (AI, local, campaign, tower) are reported by the client, so before paying out
+// the server replays the move list from the initial board and checks it ends the way the client says.
+const OFFLINE_POWERUPS: PowerUp[] = ['destroy', 'wall', 'double', 'convert'];
+
+export type ReplayVerdict =
+    | { valid: true; winner: Player | 'draw'; finalBoard: BoardState }
+    | { valid: false; error: string };
+
+export const verifyMatchReplay = (
+    initialBoard: BoardState,
+    moves: Move[],
+    settings: { boardSize: number; winLength: number; toroidal?: boolean; variant?: GameVariant; startingPlayer?: string; gomoku?: GomokuOptions; decayLimit?: number; collapseInterval?: number; obstacles?: boolean; obstacleLayout?: ObstacleLayout; obstacleSeed?: string },
+    claimed: { winner: Player | 'draw'; winReason?: string }
+): ReplayVerdict => {
+    const { boardSize, winLength } = settings;
+    if (!Number.isInteger(boardSize) || boardSize < 3 || boardSize > 10) return { valid: false, error: "Invalid board size" };
+    if (!Number.isInteger(winLength) || winLength < 3 || winLength > boardSize) return { valid: false, error: "Invalid win length" };
+    if (settings.variant === GameVariant.ULTIMATE && boardSize !== ULTIMATE_BOARD_SIZE) return { valid: false, error: "Invalid board size" };
+    const isQubic = settings.variant === GameVariant.QUBIC;
+    if (isQubic && (boardSize !== QUBIC_BOARD_SIZE || winLength !== QUBIC_BOARD_SIZE)) return { valid: false, error: "Invalid board size" };
+    // Fog needs the server to keep each side's view hidden, so it is never played offline
+    if (settings.variant === GameVariant.FOG) return { valid: false, error: "Fog is only played online" };
+    if (settings.variant === GameVariant.GOMOKU && (boardSize < GOMOKU_MIN_BOARD_SIZE || winLength !== GOMOKU_WIN_LENGTH)) return { valid: false, error: "Invalid board size" };
+    const isSuddenDeath = settings.variant === GameVariant.SUDDEN_DEATH;
+    if (isSuddenDeath && boardSize < SUDDEN_DEATH_MIN_BOARD_SIZE) return { valid: false, error: "Invalid board size" };
+    // Rings collapse in from the edges, so a Sudden Death board can't wrap around them
+    if (isSuddenDeath && settings.toroidal) return { valid: false, error: "Sudden Death boards don't wrap" };
+    const isHex = settings.variant === GameVariant.HEX;
+    if (isHex && boardSize > HEX_MAX_SIZE) return { valid: false, error: "Invalid board size" };
+    const cellCount = isQubic ? boardSize ** 3 : isHex ? getHexCellCount(boardSize) : boardSize * boardSize;
+    if (!Array.isArray(initialBoard) || initialBoard.length !== cellCount) return { valid: false, error: "Invalid initial board" };
+    if (initialBoard.some(c => c !== null && c !== 'OBSTACLE')) return { valid: false, error: "Initial board may only contain obstacles" };
+    const rules = getVariantRules(settings.variant);
+    // Seeded obstacles must be the layout their seed gives; without a seed any layout could be claimed
+    if (settings.obstacles) {
+        if (typeof settings.obstacleSeed !== 'string') return { valid: false, error: "Missing obstacle seed" };
+        const seeded = rules.createInitialBoard(settings, createSeededRandom(settings.obstacleSeed));
+        if (seeded.some((cell, i) => cell !== initialBoard[i])) return { valid: false, error: "Obstacles don't match their seed" };
+    }
+    const pieceLimit = rules.pieceLimit(settings);
+    // Decay needs a free cell even with both players at their limit
+    if (pieceLimit !== null && (!Number.isInteger(pieceLimit) || pieceLimit * 2 >= initialBoard.filter(c => c === null).length)) {
+        return { valid: false, error: "Invalid piece limit" };
+    }
+    if (!Array.isArray(moves)) return { valid: false, error: "Invalid move list" };
+
+    let board = [...initialBoard];
+    let toMove: Player | null = settings.startingPlayer === Player.X || settings.startingPlayer === Player.O ? settings.startingPlayer : null;
+    const usedPowerUps = new Set<string>();
+    let lastMove: number | undefined;
+
+    for (let i = 0; i < moves.length; i++) {
+        const move = moves[i];
+        if (!move || (move.player !== Player.X && move.player !== Player.O)) return { valid: false, error: `Move ${i + 1}: invalid player` };
+        // Sudden Death: a collapse must come exactly when it is due, over exactly the cells its ring has left
+        const dueCollapse = isSuddenDeath && moves[i - 1]?.powerUp !== 'double' ? getDueCollapse(board, moves.slice(0, i), settings) : null;
+        if (isBoardEvent(move)) {
+            if (!dueCollapse || !Array.isArray(move.collapsed) || move.collapsed.length !== dueCollapse.length || dueCollapse.some((cell, j) => move.collapsed![j] !== cell)) {
+                return { valid: false, error: `Move ${i + 1}: unexpected collapse` };
+            }
+            board = applyMoveToBoard(board, move);
+            if (i < moves.length - 1 && rules.getResult(board, settings, move.player).winner) {
+                return { valid: false, error: `Move ${i + 2}: played after the game ended` };
+            }
+            continue;
+        }
+        if (dueCollapse) return { valid: false, error: `Move ${i + 1}: the ring due to collapse is still standing` };
+        if (!Number.isInteger(move.index) || move.index < 0 || move.index >= board.length) return { valid: false, error: `Move ${i + 1}: out of bounds` };
+        if (toMove && move.player !== toMove) return { valid: false, error: `Move ${i + 1}: played out of turn` };
+
+        const opponent: Player = move.player === Player.X ? Player.O : Player.X;
+        const target = board[move.index];
+        if (move.powerUp) {
+            if (!OFFLINE_POWERUPS.includes(move.powerUp)) return { valid: false, error: `Move ${i + 1}: unknown power-up` };
+            if (rules.disabledPowerUps.includes(move.powerUp)) return { valid: false, error: `Move ${i + 1}: power-up not allowed in ${rules.variant}` };
+            const key = `${move.player}:${move.powerUp}`;
+            if (usedPowerUps.has(key)) return { valid: false, error: `Move ${i + 1}: power-up used twice` };
+            usedPowerUps.add(key);
+        }
+        // Walls go wherever a piece could, so in Gravity they land on top of a column too
+        const isPlacement = !move.powerUp || move.powerUp === 'double';
+        const legal = isPlacement || move.powerUp === 'wall'
+            ? rules.isLegalMove(board, move.index, move.player, settings, lastMove)
+            : target === opponent;
+        if (!legal) return { valid: false, error: `Move ${i + 1}: illegal target` };
+        // Only plain Wild moves may name a symbol, and it must be X or O
+        if (move.symbol != null && (move.powerUp || !rules.freeSymbol || (move.symbol !== Player.X && move.symbol !== Player.O))) {
+            return { valid: false, error: `Move ${i + 1}: invalid symbol` };
+        }
+
+        // Decay: a placement at the limit must take off exactly the mover's oldest piece
+        const removed = isPlacement ? getDecayingPiece(moves.slice(0, i), move.player, pieceLimit) : null;
+        if ((move.removed ?? null) !== removed) return { valid: false, error: `Move ${i + 1}: wrong piece removed` };
+
+        board = isPlacement ? rules.applyMove(board, move.index, move.symbol ?? move.player, settings) : applyMoveToBoard(board, move);
+        if (removed !== null) board[removed] = null;
+        lastMove = move.index;
+        toMove = move.powerUp === 'double' ? move.player : opponent;
+
+        if (i < moves.length - 1 && rules.getResult(board, settings, move.player).winner) {
+            return { valid: false, error: `Move ${i + 2}: played after the game ended` };
+        }
+    }
+
+    const { winner } = rules.getResult(board, settings, moves[moves.length - 1]?.player);
+    if (winner) {
+        if (claimed.winner !== winner) return { valid: false, error: "Reported winner does not match the board" };
+        if (claimed.winReason && claimed.winReason !== 'standard') return { valid: false, error: "Game ended on the board" };
+        return { valid: true, winner, finalBoard: board };
+    }
+
+    // No line on the board: only a timeout or forfeit by the side to move can end it
+    if (claimed.winReason !== 'timeout' && claimed.winReason !== 'forfeit') return { valid: false, error: "Game has not ended" };
+    if (claimed.winner !== Player.X && claimed.winner !== Player.O) return { valid: false, error: "Invalid winner" };
+    if (toMove && claimed.winner === toMove) return { valid: false, error: "Only the side to move can time out or forfeit" };
+    return { valid: true, winner: claimed.winner, finalBoard: board };
+};
\ No newline at end of file
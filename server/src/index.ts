@@ -10,6 +10,8 @@ import { Server } from 'socket.io';
 import { initializeSocketServer } from './sockets';
 import { ClientToServerEvents, ServerToClientEvents } from './types';
 import { startCleanupJob } from './cron';
+import { ratingService } from './services/rating';
+import { backfillOpeningBalances } from './ledger';
 import { logger } from './logger';
 import { requestLogger } from './middleware';
 
@@ -81,6 +83,12 @@ try {
 
 // Start Background Jobs
 startCleanupJob();
+ratingService.backfillClassicRatings()
+    .then(count => { if (count > 0) logger.info(`Seeded ${count} classic ratings from User.elo.`); })
+    .catch(e => logger.error("Classic rating backfill failed:", e));
+backfillOpeningBalances()
+    .then(count => { if (count > 0) logger.info(`Opened ledger balances for ${count} wallets.`); })
+    .catch(e => logger.error("Opening balance backfill failed:", e));
 
 // Basic error handler
 const errorHandler: ErrorRequestHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
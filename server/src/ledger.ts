@@ -1,56 +1,140 @@
+import { Prisma } from '@prisma/client';
+import crypto from 'crypto';
+import { prisma } from './db';
 
-// import { Prisma } from '@prisma/client';
-
-export type LedgerTransactionType = 
-    | 'WAGER_ANTE' 
-    | 'WAGER_REFUND' 
-    | 'WAGER_WIN' 
+export type LedgerTransactionType =
+    | 'WAGER_ANTE'
+    | 'WAGER_REFUND'
+    | 'WAGER_WIN'
     | 'WAGER_DOUBLE'
-    | 'SHOP_PURCHASE' 
+    | 'SHOP_PURCHASE'
     | 'DAILY_REWARD'
     | 'GIFT_SENT'
     | 'GIFT_RECEIVED'
-    | 'CLAN_CREATE';
+    | 'CLAN_CREATE'
+    | 'QUEST_REWARD'
+    | 'CAMPAIGN_REWARD'
+    | 'TOWER_REWARD'
+    | 'MATCH_BONUS'
+    | 'WELCOME_BONUS'
+    | 'SECURITY_REWARD'
+    | 'OPENING_BALANCE';
+
+// The non-wallet side of every transfer. Balances across all accounts always sum to zero.
+export const LEDGER_ACCOUNTS = {
+    REWARDS: 'system:rewards',   // Coins minted for rewards and bonuses
+    SHOP: 'system:shop',         // Coins spent on items
+    CLANS: 'system:clans',       // Clan creation fees
+    GIFT_ESCROW: 'escrow:gifts', // Gifts sent but not yet accepted
+    OPENING: 'system:opening'    // Balances wallets already held when the ledger came in
+};
+
+// Wager antes are held in a per-room pot until the game settles or is refunded
+export const potAccount = (roomId: string) => `pot:${roomId}`;
+
+const walletAccount = (userId: string) => `user:${userId}`;
+
+export class InsufficientFundsError extends Error {
+    constructor() {
+        super("Insufficient funds");
+        this.name = 'InsufficientFundsError';
+    }
+}
 
 /**
- * Executes a balance change and logs an audit record.
- * Must be called within a Prisma transaction or passed the prisma client.
+ * Moves coins between a user's wallet and another ledger account, writing both legs.
+ * A positive amount credits the wallet (and debits counterAccount); a negative amount debits it.
+ * Debits never take a wallet below zero: InsufficientFundsError is thrown instead.
+ * Must be called with a transaction client so the balance and the entries commit together.
  */
 export const recordLedger = async (
-    tx: any, // Prisma.TransactionClient,
+    tx: Prisma.TransactionClient,
     userId: string,
     amount: number,
     type: LedgerTransactionType,
     description: string,
+    counterAccount: string,
     metadata?: Record<string, any>
-) => {
+): Promise<{ id: string, coins: number, displayName: string }> => {
+    if (!Number.isInteger(amount)) throw new Error(`Ledger amount must be a whole number of coins, got ${amount}`);
+
+    const select = { id: true, coins: true, displayName: true };
+    if (amount === 0) {
+        return tx.user.findUniqueOrThrow({ where: { id: userId }, select });
+    }
+
     // 1. Perform the Balance Update
-    // using increment/decrement ensures atomic updates at the DB level
-    const updatedUser = await tx.user.update({
-        where: { id: userId },
-        data: { 
-            coins: { increment: amount } 
-        },
-        select: { id: true, coins: true, displayName: true }
-    });
+    // The guarded updateMany makes check-and-debit a single atomic statement
+    if (amount < 0) {
+        const { count } = await tx.user.updateMany({
+            where: { id: userId, coins: { gte: -amount } },
+            data: { coins: { increment: amount } }
+        });
+        if (count === 0) throw new InsufficientFundsError();
+    } else {
+        await tx.user.update({
+            where: { id: userId },
+            data: { coins: { increment: amount } }
+        });
+    }
+    const updatedUser = await tx.user.findUniqueOrThrow({ where: { id: userId }, select });
 
-    // 2. Generate Audit Log
-    // In a full SQL implementation, this would insert into a Transaction table.
-    // For this environment, we output structured logs that production monitoring services (Datadog/CloudWatch) would ingest.
-    const auditRecord = {
-        event: 'LEDGER_TRANSACTION',
-        timestamp: new Date().toISOString(),
-        transactionId: `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        userId,
-        userDisplayName: updatedUser.displayName,
-        amount,
-        type,
-        description,
-        balanceAfter: updatedUser.coins,
-        metadata
-    };
-
-    console.log(JSON.stringify(auditRecord));
+    // 2. Write both legs
+    const transactionId = crypto.randomUUID();
+    await tx.ledgerEntry.createMany({
+        data: [
+            {
+                transactionId,
+                account: walletAccount(userId),
+                userId,
+                amount,
+                balanceAfter: updatedUser.coins,
+                type,
+                description,
+                metadata: metadata || undefined
+            },
+            {
+                transactionId,
+                account: counterAccount,
+                amount: -amount,
+                type,
+                description,
+                metadata: metadata || undefined
+            }
+        ]
+    });
 
     return updatedUser;
 };
+
+/**
+ * Writes an opening entry for every wallet that holds coins but has no ledger history yet, so
+ * each wallet's entries add up to its balance. Runs at startup and skips any wallet that has an
+ * entry, so it is safe to repeat.
+ */
+export const backfillOpeningBalances = async (): Promise<number> => {
+    const users = await prisma.user.findMany({
+        where: { coins: { gt: 0 }, ledgerEntries: { none: {} } },
+        select: { id: true }
+    });
+    let count = 0;
+    for (const { id: userId } of users) {
+        const opened = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            // Re-read inside the transaction in case the wallet was used since the scan
+            if (await tx.ledgerEntry.count({ where: { userId } }) > 0) return false;
+            const { coins } = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { coins: true } });
+            if (coins <= 0) return false;
+            const transactionId = crypto.randomUUID();
+            const description = 'Opening balance';
+            await tx.ledgerEntry.createMany({
+                data: [
+                    { transactionId, account: walletAccount(userId), userId, amount: coins, balanceAfter: coins, type: 'OPENING_BALANCE', description },
+                    { transactionId, account: LEDGER_ACCOUNTS.OPENING, amount: -coins, type: 'OPENING_BALANCE', description }
+                ]
+            });
+            return true;
+        });
+        if (opened) count++;
+    }
+    return count;
+};
@@ -10,6 +10,7 @@ import { generateSecret, verifyTOTP, generateBackupCodes } from '../totp';
 import { encrypt, decrypt } from '../encryption';
 import { logger } from '../logger';
 import { exclude, getQuestData } from '../utils/routeHelpers';
+import { ratingService, toRatingMap } from '../services/rating';
 
 const router = Router();
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -81,7 +82,9 @@ router.post('/register', rateLimiter(60000, 5) as any, async (req: any, res: any
                     welcomeBonus: 'available', // Grant new users the welcome bonus state
                     quests: []
                 },
-                inventory: ['avatar-1', 'theme-default', 'skin-classic', 'frame-none']
+                inventory: ['avatar-1', 'theme-default', 'skin-classic', 'frame-none'],
+                // The leaderboard reads Rating rows, so every account is listed from the start
+                ratings: { create: ratingService.newRating('classic', 1000) }
             }
         });
 
@@ -280,10 +283,10 @@ router.get('/me', authMiddleware, async (req: any, res: any) => {
     try {
         const user = await prisma.user.findUnique({ 
             where: { id: req.user?.userId },
-            include: { clan: true } 
+            include: { clan: true, ratings: true } 
         });
         if (!user) return res.status(404).json({ message: "User not found" });
-        res.json(exclude(user, ['passwordHash', 'mfaSecret', 'verificationToken']));
+        res.json(exclude({ ...user, ratings: toRatingMap(user.ratings) }, ['passwordHash', 'mfaSecret', 'verificationToken']));
     } catch (e) {
         res.status(500).json({ message: "Error fetching profile" });
     }
@@ -6,6 +6,7 @@
 
 
 
+import { Prisma } from '@prisma/client';
 import { Router } from 'express';
 import crypto from 'crypto';
 import { prisma } from '../db';
@@ -22,25 +23,47 @@ import {
     processMatchQuests,
     isQuestDoable,
     getTowerReward,
-    CAMPAIGN_LEVELS_DATA
+    getTowerSettings,
+    getCampaignStars,
+    verifyMatchReplay,
+    CAMPAIGN_LEVELS_DATA,
+    CampaignLevelSettings
 } from '../gameLogic';
-import { Player, Quest, User, MatchRecord } from '../types';
-import { socketService } from '../socketService';
+import { Player, Quest, User, MatchRecord, GameMode, Difficulty, Move, RatingPool } from '../types';
+import { socketService, toClientChatMessage, LOBBY_PAIR_KEY } from '../socketService';
 import { notificationService } from '../services/notification';
-import { findBestMove } from '../ai';
+import { RATING_POOLS, toPoolRating, toRatingMap } from '../services/rating';
+import { findBestMove, verifyAiMoves } from '../ai';
 import { logger } from '../logger';
 import { exclude, getQuestData, getPublicQuestData } from '../utils/routeHelpers';
+import { recordLedger, LEDGER_ACCOUNTS, InsufficientFundsError } from '../ledger';
 
 const router = Router();
 
+// Replays a reported AI game (player X vs the AI as O) against server-side settings.
+// Returns an error message, or null when the win is genuine.
+const verifyAiWin = (body: any, settings: CampaignLevelSettings): string | null => {
+    const initialBoard = body.initialBoard;
+    const moves: Move[] = Array.isArray(body.moves) ? body.moves : [];
+    if (Array.isArray(initialBoard) && !settings.obstacles && initialBoard.some((c: any) => c === 'OBSTACLE')) {
+        return "Unexpected obstacles";
+    }
+    // The layout is drawn from the client's seed, which the replay checks against initialBoard
+    const seeded = { ...settings, obstacleSeed: typeof body.obstacleSeed === 'string' ? body.obstacleSeed : undefined };
+    const verdict = verifyMatchReplay(initialBoard, moves, seeded, { winner: Player.X, winReason: 'standard' });
+    if (!verdict.valid) return verdict.error;
+    if (!verifyAiMoves(initialBoard, moves, seeded)) return "Opponent moves don't match the AI";
+    return null;
+};
+
 // ============================================================================
 // AI & GAMEPLAY
 // ============================================================================
 
 router.post('/ai/move', async (req: any, res: any) => {
-    const { board, settings, usedTaunts, player } = req.body;
+    const { board, settings, usedTaunts, player, lastMove, moves } = req.body;
     try {
-        const result = findBestMove(board, settings, usedTaunts, player || Player.O);
+        const result = findBestMove(board, settings, usedTaunts, player || Player.O, typeof lastMove === 'number' ? lastMove : undefined, Array.isArray(moves) ? moves : []);
         res.json(result);
     } catch (e) {
         logger.error("AI Move Error", e);
@@ -135,12 +158,9 @@ router.post('/me/daily-reward', authMiddleware, rateLimiter(60000, 10) as any, a
             dailyStreak: newStreak
         };
 
-        await prisma.user.update({
-            where: { id: userId },
-            data: {
-                coins: { increment: reward },
-                questData: updatedQuestData
-            }
+        await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await tx.user.update({ where: { id: userId }, data: { questData: updatedQuestData } });
+            await recordLedger(tx, userId, reward, 'DAILY_REWARD', `Daily reward (day ${newStreak})`, LEDGER_ACCOUNTS.REWARDS);
         });
 
         res.json({ success: true, reward, streak: newStreak, lastDailyReward: claimTime });
@@ -150,6 +170,43 @@ router.post('/me/daily-reward', authMiddleware, rateLimiter(60000, 10) as any, a
     }
 });
 
+router.get('/me/wallet/transactions', authMiddleware, async (req: any, res: any) => {
+    try {
+        const userId = req.user?.userId;
+        const { cursor } = req.query;
+        const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 20, 1), 100);
+
+        const entries = await prisma.ledgerEntry.findMany({
+            where: { userId },
+            take: limit + 1, // +1 to check for next page
+            skip: cursor ? 1 : 0,
+            cursor: cursor ? { id: cursor as string } : undefined,
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+        });
+
+        let nextCursor: string | null = null;
+        if (entries.length > limit) {
+            entries.pop();
+            nextCursor = entries[entries.length - 1].id;
+        }
+
+        const transactions = entries.map((e: any) => ({
+            id: e.id,
+            type: e.type,
+            amount: e.amount,
+            balanceAfter: e.balanceAfter,
+            description: e.description,
+            metadata: e.metadata || undefined,
+            timestamp: e.createdAt.getTime()
+        }));
+
+        res.json({ transactions, nextCursor });
+    } catch (e) {
+        logger.error("Fetch wallet transactions error", e);
+        res.status(500).json({ message: "Fetch failed" });
+    }
+});
+
 router.post('/me/security-reward', authMiddleware, async (req: any, res: any) => {
     const { type } = req.body;
     const userId = req.user?.userId;
@@ -194,12 +251,9 @@ router.post('/me/security-reward', authMiddleware, async (req: any, res: any) =>
         rewards[type] = true;
         qData.securityRewards = rewards;
 
-        const updatedUser = await prisma.user.update({
-            where: { id: userId },
-            data: {
-                coins: { increment: amount },
-                questData: qData
-            }
+        const updatedUser = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await tx.user.update({ where: { id: userId }, data: { questData: qData } });
+            return recordLedger(tx, userId, amount, 'SECURITY_REWARD', `Security reward: ${type}`, LEDGER_ACCOUNTS.REWARDS, { type });
         });
 
         res.json({ success: true, newBalance: updatedUser.coins, reward: amount });
@@ -230,15 +284,13 @@ router.post('/shop/buy', authMiddleware, async (req: any, res: any) => {
 
         if (user.coins < cost) return res.status(400).json({ message: "Insufficient funds" });
 
-        await prisma.user.update({
-            where: { id: user.id },
-            data: {
-                coins: { decrement: cost },
-                inventory: { push: itemId }
-            }
+        const updatedUser = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await tx.user.update({ where: { id: user.id }, data: { inventory: { push: itemId } } });
+            return recordLedger(tx, user.id, -cost, 'SHOP_PURCHASE', `Bought ${item!.name}`, LEDGER_ACCOUNTS.SHOP, { itemId });
         });
-        res.json({ success: true, remainingCoins: user.coins - cost });
+        res.json({ success: true, remainingCoins: updatedUser.coins });
     } catch (e) {
+        if (e instanceof InsufficientFundsError) return res.status(400).json({ message: "Insufficient funds" });
         res.status(500).json({ message: "Purchase failed" });
     }
 });
@@ -274,20 +326,18 @@ router.post('/me/welcome-bonus', authMiddleware, async (req: any, res: any) => {
         const userId = req.user?.userId;
         if (!userId) return res.status(401).json({ message: "Unauthorized" });
 
-        const result = await prisma.$transaction(async (tx: any) => {
+        const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
             const user = await tx.user.findUnique({ where: { id: userId } });
             if (!user) throw new Error("User not found");
 
             const qData = getQuestData(user);
             if (qData.welcomeBonus !== 'available') throw new Error("Bonus unavailable");
 
-            const updatedUser = await tx.user.update({
+            await tx.user.update({
                 where: { id: user.id },
-                data: {
-                    coins: { increment: 1000 },
-                    questData: { ...qData, welcomeBonus: 'claimed' }
-                }
+                data: { questData: { ...qData, welcomeBonus: 'claimed' } }
             });
+            const updatedUser = await recordLedger(tx, user.id, 1000, 'WELCOME_BONUS', "Welcome bonus", LEDGER_ACCOUNTS.REWARDS);
             return updatedUser.coins;
         });
 
@@ -335,6 +385,7 @@ router.post('/quests/claim', authMiddleware, async (req: any, res: any) => {
     const { questId } = req.body;
     try {
         const user = await prisma.user.findUnique({ where: { id: req.user?.userId } });
+        if (!user) return res.status(404).json({ message: "User not found" });
         const qData = getQuestData(user);
         
         // Find index to remove
@@ -363,12 +414,9 @@ router.post('/quests/claim', authMiddleware, async (req: any, res: any) => {
         const newQuestData = JSON.parse(JSON.stringify(qData));
         newQuestData.quests = newQuestList;
 
-        await prisma.user.update({
-            where: { id: user?.id },
-            data: {
-                coins: { increment: totalReward },
-                questData: newQuestData
-            }
+        await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await tx.user.update({ where: { id: user.id }, data: { questData: newQuestData } });
+            await recordLedger(tx, user.id, totalReward, 'QUEST_REWARD', `Quest reward: ${quest.description || quest.type}`, LEDGER_ACCOUNTS.REWARDS, { questId });
         });
         
         res.json({ success: true, quests: newQuestList, reward: totalReward });
@@ -415,27 +463,42 @@ router.post('/quests/reroll', authMiddleware, async (req: any, res: any) => {
 });
 
 router.post('/campaign/complete', authMiddleware, async (req: any, res: any) => {
-    const { levelId, reward, moves, isHardMode } = req.body;
+    const { levelId, isHardMode } = req.body;
     try {
         const user = await prisma.user.findUnique({ where: { id: req.user?.userId } });
         if (!user) return res.status(404).json({ message: "User not found" });
 
+        const levelData = CAMPAIGN_LEVELS_DATA.find(l => l.id === levelId);
+        if (!levelData) return res.status(400).json({ message: "Unknown level" });
+
+        // Hard mode replays an already-cleared level against the Boss AI
+        const settings = isHardMode ? { ...levelData.settings, difficulty: Difficulty.BOSS } : levelData.settings;
+        const rejection = verifyAiWin(req.body, settings);
+        if (rejection) {
+            logger.warn("Rejected campaign result", { userId: user.id, levelId, error: rejection });
+            return res.status(400).json({ message: `Result rejected: ${rejection}` });
+        }
+
+        const moveCount = req.body.moves.length;
+
         // If hard mode, just give money, don't increment level (unless we track hard mode progression separately)
         if (isHardMode) {
-             await prisma.user.update({
-                where: { id: user.id },
-                data: { coins: { increment: reward } }
+            if (levelId >= user.campaignLevel) return res.status(400).json({ message: "Clear the level before attempting hard mode" });
+            const reward = levelData.rewardCoins * 2;
+            await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+                await recordLedger(tx, user.id, reward, 'CAMPAIGN_REWARD', `Campaign level ${levelId} (hard mode)`, LEDGER_ACCOUNTS.REWARDS, { levelId, isHardMode: true });
             });
             return res.json({ success: true, coinsAdded: reward });
         }
 
         // We only allow progression if the completed level matches the current campaignLevel
         if (levelId === user.campaignLevel) {
-            const levelData = CAMPAIGN_LEVELS_DATA.find(l => l.id === levelId);
+            const reward = levelData.rewardCoins;
+            const stars = getCampaignStars(moveCount);
             let unlockedItem = null;
 
             // Check for loot drop
-            if (levelData?.unlocksItem) {
+            if (levelData.unlocksItem) {
                 // Add item to inventory if not already owned
                 if (!user.inventory.includes(levelData.unlocksItem)) {
                     unlockedItem = levelData.unlocksItem;
@@ -443,11 +506,10 @@ router.post('/campaign/complete', authMiddleware, async (req: any, res: any) =>
             }
 
             const updateData: any = {
-                coins: { increment: reward },
                 campaignLevel: levelId + 1,
                 campaignProgress: {
                     ...(user.campaignProgress as object),
-                    [levelId]: { stars: moves < 10 ? 3 : (moves < 15 ? 2 : 1) }
+                    [levelId]: { stars }
                 }
             };
 
@@ -455,12 +517,12 @@ router.post('/campaign/complete', authMiddleware, async (req: any, res: any) =>
                 updateData.inventory = { push: unlockedItem };
             }
 
-            await prisma.user.update({
-                where: { id: user.id },
-                data: updateData
+            await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+                await tx.user.update({ where: { id: user.id }, data: updateData });
+                await recordLedger(tx, user.id, reward, 'CAMPAIGN_REWARD', `Campaign level ${levelId} cleared`, LEDGER_ACCOUNTS.REWARDS, { levelId });
             });
             
-            res.json({ success: true, newLevel: levelId + 1, stars: moves < 10 ? 3 : 1, unlockedItem });
+            res.json({ success: true, newLevel: levelId + 1, stars, unlockedItem, coinsAdded: reward });
         } else {
             // Already completed or invalid order, just return success without reward
             res.json({ success: true }); 
@@ -471,7 +533,7 @@ router.post('/campaign/complete', authMiddleware, async (req: any, res: any) =>
 });
 
 router.post('/tower/complete', authMiddleware, async (req: any, res: any) => {
-    const { floor, reward } = req.body;
+    const { floor } = req.body;
     try {
         const user = await prisma.user.findUnique({ where: { id: req.user?.userId } });
         if (!user) return res.status(404).json({ message: "User not found" });
@@ -484,16 +546,20 @@ router.post('/tower/complete', authMiddleware, async (req: any, res: any) => {
             return res.status(400).json({ message: "Invalid floor progression" });
         }
 
-        // Validate Reward (Basic check)
+        const rejection = verifyAiWin(req.body, getTowerSettings(floor));
+        if (rejection) {
+            logger.warn("Rejected tower result", { userId: user.id, floor, error: rejection });
+            return res.status(400).json({ message: `Result rejected: ${rejection}` });
+        }
+
         const expectedReward = getTowerReward(floor);
-        // Allow small margin or just use expected
         
-        await prisma.user.update({
-            where: { id: user.id },
-            data: {
-                coins: { increment: expectedReward },
-                questData: { ...qData, towerFloor: currentFloor + 1 }
-            }
+        await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await tx.user.update({
+                where: { id: user.id },
+                data: { questData: { ...qData, towerFloor: currentFloor + 1 } }
+            });
+            await recordLedger(tx, user.id, expectedReward, 'TOWER_REWARD', `Tower floor ${floor} cleared`, LEDGER_ACCOUNTS.REWARDS, { floor });
         });
 
         res.json({ success: true, newFloor: currentFloor + 1, reward: expectedReward });
@@ -528,13 +594,15 @@ router.post('/me/prestige', authMiddleware, async (req: any, res: any) => {
 
 router.get('/leaderboard', async (req: any, res: any) => {
     try {
-        const users = await prisma.user.findMany({
-            orderBy: { elo: 'desc' },
+        const pool: RatingPool = RATING_POOLS.includes(req.query.pool) ? req.query.pool : 'classic';
+        const rows = await prisma.rating.findMany({
+            where: { pool },
+            orderBy: { rating: 'desc' },
             take: 50,
-            select: { id: true, displayName: true, avatar: true, elo: true, coins: true, badges: true, clan: true, questData: true, customStatus: true }
+            include: { user: { select: { id: true, displayName: true, avatar: true, elo: true, coins: true, badges: true, clan: true, questData: true, customStatus: true } } }
         });
         // Sanitize questData to public fields
-        const sanitized = users.map((u: any) => ({ ...u, questData: getPublicQuestData(u) }));
+        const sanitized = rows.map((r: any) => ({ ...r.user, questData: getPublicQuestData(r.user), ratings: { [pool]: toPoolRating(r) } }));
         res.json(sanitized);
     } catch (e) {
         res.status(500).json({ message: "Fetch leaderboard failed" });
@@ -552,10 +620,14 @@ router.get('/friends', authMiddleware, async (req: any, res: any) => {
                 ]
             },
             include: {
-                sender: { select: { id: true, displayName: true, avatar: true, elo: true, questData: true, customStatus: true } },
-                receiver: { select: { id: true, displayName: true, avatar: true, elo: true, questData: true, customStatus: true } }
+                sender: { select: { id: true, displayName: true, avatar: true, elo: true, questData: true, customStatus: true, ratings: true } },
+                receiver: { select: { id: true, displayName: true, avatar: true, elo: true, questData: true, customStatus: true, ratings: true } }
             }
         });
+        friends.forEach((f: any) => {
+            f.sender.ratings = toRatingMap(f.sender.ratings);
+            f.receiver.ratings = toRatingMap(f.receiver.ratings);
+        });
 
         const pending = await prisma.friendship.findMany({
             where: {
@@ -660,17 +732,31 @@ router.post('/friends/gift-by-user', authMiddleware, async (req: any, res: any)
     const { toUserId, amount } = req.body;
     try {
         const fromUserId = req.user?.userId;
-        if (amount <= 0) return res.status(400).json({ message: "Invalid amount" });
+        if (!Number.isInteger(amount) || amount <= 0) return res.status(400).json({ message: "Invalid amount" });
 
         const fromUser = await prisma.user.findUnique({ where: { id: fromUserId } });
         if (!fromUser || fromUser.coins < amount) return res.status(400).json({ message: "Insufficient funds" });
 
+        const receiver = await prisma.user.findUnique({ where: { id: toUserId } });
+        if (!receiver) return res.status(404).json({ message: "User not found" });
+
         // Generate a pseudo gift ID for tracking
         const giftId = crypto.randomBytes(8).toString('hex');
 
-        await prisma.user.update({
-            where: { id: fromUserId },
-            data: { coins: { decrement: amount } }
+        // We also need to store this pending gift somewhere so it can be "accepted" securely.
+        // For simplicity in this demo, we'll append to the receiver's questData.pendingGifts
+        // The coins sit in gift escrow until then.
+        const updatedSender = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            const sender = await recordLedger(tx, fromUserId, -amount, 'GIFT_SENT', `Gift to ${receiver.displayName}`, LEDGER_ACCOUNTS.GIFT_ESCROW, { giftId, toUserId });
+            const freshReceiver = await tx.user.findUnique({ where: { id: toUserId } });
+            const qData = getQuestData(freshReceiver);
+            const pendingGifts = qData.pendingGifts || [];
+            pendingGifts.push({ id: giftId, amount, senderId: fromUserId });
+            await tx.user.update({
+                where: { id: toUserId },
+                data: { questData: { ...qData, pendingGifts } }
+            });
+            return sender;
         });
 
         // We create a notification for the receiver that acts as the "Gift" object
@@ -687,20 +773,9 @@ router.post('/friends/gift-by-user', authMiddleware, async (req: any, res: any)
             }
         );
 
-        // We also need to store this pending gift somewhere so it can be "accepted" securely.
-        // For simplicity in this demo, we'll append to the receiver's questData.pendingGifts
-        const receiver = await prisma.user.findUnique({ where: { id: toUserId } });
-        const qData = getQuestData(receiver);
-        const pendingGifts = qData.pendingGifts || [];
-        pendingGifts.push({ id: giftId, amount, senderId: fromUserId });
-        
-        await prisma.user.update({
-            where: { id: toUserId },
-            data: { questData: { ...qData, pendingGifts } }
-        });
-
-        res.json({ success: true, newBalance: fromUser.coins - amount });
+        res.json({ success: true, newBalance: updatedSender.coins });
     } catch (e) {
+        if (e instanceof InsufficientFundsError) return res.status(400).json({ message: "Insufficient funds" });
         console.error(e);
         res.status(500).json({ message: "Gift failed" });
     }
@@ -723,12 +798,12 @@ router.post('/friends/gift/accept', authMiddleware, async (req: any, res: any) =
         // Remove gift from pending
         const newPending = pendingGifts.filter((_: any, i: number) => i !== giftIndex);
         
-        await prisma.user.update({
-            where: { id: userId },
-            data: { 
-                coins: { increment: gift.amount },
-                questData: { ...qData, pendingGifts: newPending }
-            }
+        await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await tx.user.update({
+                where: { id: userId },
+                data: { questData: { ...qData, pendingGifts: newPending } }
+            });
+            await recordLedger(tx, userId, gift.amount, 'GIFT_RECEIVED', "Gift accepted", LEDGER_ACCOUNTS.GIFT_ESCROW, { giftId, senderId: gift.senderId });
         });
 
         res.json({ success: true, coins: gift.amount });
@@ -748,22 +823,21 @@ router.post('/clans/create', authMiddleware, async (req: any, res: any) => {
         if (user?.clanId) return res.status(400).json({ message: "Already in a clan" });
         if (user!.coins < 1000) return res.status(400).json({ message: "Insufficient funds (1000 required)" });
 
-        const clan = await prisma.clan.create({
-            data: {
-                name,
-                tag: tag.toUpperCase(),
-                ownerId: userId,
-                members: { connect: { id: userId } }
-            }
-        });
-
-        await prisma.user.update({
-            where: { id: userId },
-            data: { coins: { decrement: 1000 } }
+        const clan = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await recordLedger(tx, userId, -1000, 'CLAN_CREATE', `Founded clan [${tag.toUpperCase()}]`, LEDGER_ACCOUNTS.CLANS);
+            return tx.clan.create({
+                data: {
+                    name,
+                    tag: tag.toUpperCase(),
+                    ownerId: userId,
+                    members: { connect: { id: userId } }
+                }
+            });
         });
 
         res.json(clan);
     } catch (e) {
+        if (e instanceof InsufficientFundsError) return res.status(400).json({ message: "Insufficient funds (1000 required)" });
         res.status(500).json({ message: "Clan creation failed" });
     }
 });
@@ -866,6 +940,37 @@ router.get('/chats', authMiddleware, async (req: any, res: any) => {
     }
 });
 
+router.get('/lobby/messages', authMiddleware, async (req: any, res: any) => {
+    try {
+        const cursor = req.query.cursor;
+        const conversation = await prisma.conversation.findUnique({ where: { pairKey: LOBBY_PAIR_KEY } });
+        if (!conversation) {
+            return res.json({ messages: [], nextCursor: null });
+        }
+
+        const limit = 50;
+        const messages = await prisma.chatMessage.findMany({
+            where: { conversationId: conversation.id },
+            take: limit + 1,
+            skip: cursor ? 1 : 0,
+            cursor: cursor ? { id: cursor as string } : undefined,
+            orderBy: { timestamp: 'desc' },
+            include: { sender: { select: { displayName: true, avatar: true, emailVerified: true, questData: true } } }
+        });
+
+        let nextCursor: string | null = null;
+        if (messages.length > limit) {
+            const nextItem = messages.pop();
+            nextCursor = nextItem!.id;
+        }
+
+        res.json({ messages: messages.map((m: any) => toClientChatMessage(m, 'lobby')).reverse(), nextCursor });
+    } catch (e) {
+        logger.error("Fetch lobby messages error", e);
+        res.status(500).json({ message: "Fetch failed" });
+    }
+});
+
 router.get('/chats/:partnerId/messages', authMiddleware, async (req: any, res: any) => {
     try {
         const userId = req.user?.userId;
@@ -1015,6 +1120,40 @@ router.post('/matches', authMiddleware, async (req: any, res: any) => {
         const user = await prisma.user.findUnique({ where: { id: userId } });
         if(!user) return res.status(404).json({message: "User not found"});
 
+        // Only offline games come through here; online results are settled by the socket server
+        const isVsAi = [GameMode.AI, GameMode.CAMPAIGN, GameMode.TOWER].includes(matchData.gameMode);
+        if (!isVsAi && matchData.gameMode !== GameMode.LOCAL) {
+            return res.status(400).json({ message: "Unsupported game mode" });
+        }
+        if (matchData.playerRole !== Player.X && (isVsAi || matchData.playerRole !== Player.O)) {
+            return res.status(400).json({ message: "Invalid player role" });
+        }
+
+        const moves: Move[] = Array.isArray(matchData.moves) ? matchData.moves : [];
+        const settings = matchData.gameSettings || {};
+        const verdict = verifyMatchReplay(matchData.initialBoard, moves, settings, { winner: matchData.winner, winReason: matchData.winReason });
+        let rejection = verdict.valid ? null : verdict.error;
+
+        if (!rejection && isVsAi) {
+            if (!Object.values(Difficulty).includes(settings.difficulty)) rejection = "Unknown difficulty";
+            else if (matchData.winReason === 'forfeit' && matchData.winner === matchData.playerRole) rejection = "Can't win by forfeiting against the AI";
+            else if (!verifyAiMoves(matchData.initialBoard, moves, settings)) rejection = "Opponent moves don't match the AI";
+        }
+
+        if (rejection) {
+            logger.warn("Rejected match result", { userId, gameMode: matchData.gameMode, error: rejection });
+            return res.status(400).json({ message: `Match rejected: ${rejection}` });
+        }
+
+        // Board power-ups are counted from the verified moves; Undo/Hint leave no trace so are capped at one each
+        const powerupsUsed: { [key: string]: number } = {};
+        moves.filter(m => m.powerUp && m.player === matchData.playerRole).forEach(m => {
+            powerupsUsed[m.powerUp!] = (powerupsUsed[m.powerUp!] || 0) + 1;
+        });
+        ['undo', 'hint'].forEach(type => {
+            if (matchData.powerupsUsed?.[type] > 0) powerupsUsed[type] = 1;
+        });
+
         const isWin = matchData.winner === matchData.playerRole;
         // Deep clone current questData to prevent reference issues
         let qData = JSON.parse(JSON.stringify(getQuestData(user)));
@@ -1040,8 +1179,8 @@ router.post('/matches', authMiddleware, async (req: any, res: any) => {
                 playerRole: matchData.playerRole,
                 gameMode: matchData.gameMode,
                 difficulty: difficulty, 
-                moveCount: matchData.moves?.length || 0,
-                powerupsUsed: matchData.powerupsUsed || {} 
+                moveCount: moves.length,
+                powerupsUsed
             };
             
             logger.info("Processing Quests for user " + userId, { quests: qData.quests, matchData: questCalcData });
@@ -1052,18 +1191,21 @@ router.post('/matches', authMiddleware, async (req: any, res: any) => {
             logger.info("Updated Quests result", { updatedQuests });
         }
 
-        const movesToCreate = (matchData.moves || []).map((m: any, i: number) => ({
+        const movesToCreate = moves.map((m: any, i: number) => ({
             player: m.player,
             index: m.index,
-            moveNumber: typeof m.moveNumber === 'number' ? m.moveNumber : i + 1
+            moveNumber: typeof m.moveNumber === 'number' ? m.moveNumber : i + 1,
+            powerUp: typeof m.powerUp === 'string' ? m.powerUp : undefined,
+            symbol: m.symbol === Player.X || m.symbol === Player.O ? m.symbol : undefined,
+            removed: Number.isInteger(m.removed) ? m.removed : undefined,
+            collapsed: Array.isArray(m.collapsed) && m.collapsed.every(Number.isInteger) ? m.collapsed : undefined
         }));
 
         // Use Prisma Transaction to ensure atomicity
-        const [updatedUser, savedMatch] = await prisma.$transaction([
-            prisma.user.update({
+        const savedMatch = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await tx.user.update({
                 where: { id: userId },
                 data: {
-                    coins: { increment: coinGain },
                     xp: newXp,
                     level: newLevel,
                     wins: { increment: isWin ? 1 : 0 },
@@ -1071,8 +1213,11 @@ router.post('/matches', authMiddleware, async (req: any, res: any) => {
                     draws: { increment: matchData.winner === 'draw' ? 1 : 0 },
                     questData: qData 
                 }
-            }),
-            prisma.match.create({
+            });
+            if (coinGain > 0) {
+                await recordLedger(tx, userId, coinGain, 'MATCH_BONUS', "First win of the day", LEDGER_ACCOUNTS.REWARDS);
+            }
+            return tx.match.create({
                 data: {
                     userId,
                     gameMode: matchData.gameMode,
@@ -1085,8 +1230,8 @@ router.post('/matches', authMiddleware, async (req: any, res: any) => {
                     moves: { create: movesToCreate }
                 },
                 include: { moves: true }
-            })
-        ]);
+            });
+        });
 
         res.json({ 
             ...savedMatch, 
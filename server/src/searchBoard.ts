@@ -0,0 +1,393 @@
+import { BoardState, Player } from './types';
+import { getCubeLines, getHexCellCount, getHexDistance, getHexLines } from '../../shared/rules';
+
+// Cell codes in the typed board
+const EMPTY = 0;
+const X = 1;
+const O = 2;
+const BLOCKED = 3;
+
+const toCell = (player: Player) => player === Player.X ? X : O;
+
+const rotate = (value: number, bits: number) => ((value << bits) | (value >>> (32 - bits))) >>> 0;
+
+interface Geometry {
+    // Cells nearest the centre first, the static move ordering
+    centerOrder: Int16Array;
+    // Columns nearest the centre first, the same ordering for drop moves
+    columnOrder: Int16Array;
+    // Every winLength-long window on the board, flattened (window w is [w * winLength, (w + 1) * winLength))
+    windows: Int16Array;
+    windowCount: number;
+    // Qubic and Hex: the windows through each cell, since lines there don't follow the four 2D directions
+    windowsThrough: Int16Array[] | null;
+    // Zobrist keys: one per (cell, piece), split in two halves so the combined key stays a safe integer
+    zobristHi: Uint32Array;
+    zobristLo: Uint32Array;
+    sideHi: number;
+    sideLo: number;
+}
+
+// Geometry only depends on the board shape, so it is built once and reused by every search
+const geometries = new Map<string, Geometry>();
+
+const randomUint32 = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+const getGeometry = (boardSize: number, winLength: number, cube: boolean, hex: boolean, toroidal: boolean): Geometry => {
+    const cacheKey = `${boardSize}:${winLength}${cube ? ':cube' : ''}${hex ? ':hex' : ''}${toroidal ? ':torus' : ''}`;
+    const cached = geometries.get(cacheKey);
+    if (cached) return cached;
+
+    const cellCount = cube ? boardSize ** 3 : hex ? getHexCellCount(boardSize) : boardSize * boardSize;
+    const center = (boardSize - 1) / 2;
+    const distance = hex
+        ? (i: number) => getHexDistance(i, boardSize)
+        : (i: number) => Math.abs(Math.floor(i / boardSize) % boardSize - center) + Math.abs((i % boardSize) - center)
+            + (cube ? Math.abs(Math.floor(i / (boardSize * boardSize)) - center) : 0);
+    const columnOrder = Int16Array.from(Array.from({ length: boardSize }, (_, c) => c).sort((a, b) => Math.abs(a - center) - Math.abs(b - center)));
+
+    const windows: number[] = [];
+    let windowsThrough: Int16Array[] | null = null;
+    let centerOrder: Int16Array;
+    if (cube || hex) {
+        // A Qubic line always spans the cube, so windows are exactly its lines; Hex lists its windows itself
+        const through: number[][] = Array.from({ length: cellCount }, () => []);
+        (cube ? getCubeLines(boardSize) : getHexLines(boardSize, winLength)).forEach((line, w) => {
+            windows.push(...line);
+            for (const i of line) through[i].push(w);
+        });
+        windowsThrough = through.map(ws => Int16Array.from(ws));
+        // Cells on the most lines (in Qubic the corners and the inner cube) first, then nearest the centre
+        centerOrder = Int16Array.from(Array.from({ length: cellCount }, (_, i) => i)
+            .sort((a, b) => through[b].length - through[a].length || distance(a) - distance(b)));
+    } else {
+        const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+        const wrap = (v: number) => (v + boardSize) % boardSize;
+        // On a torus a window as long as the board is the whole ring, whichever cell it starts from
+        const seen = new Set<string>();
+        for (let r = 0; r < boardSize; r++) {
+            for (let c = 0; c < boardSize; c++) {
+                for (const [dr, dc] of directions) {
+                    if (toroidal) {
+                        const cells = Array.from({ length: winLength }, (_, i) => wrap(r + dr * i) * boardSize + wrap(c + dc * i));
+                        const key = `${dr}:${dc}:${[...cells].sort((a, b) => a - b).join()}`;
+                        if (seen.has(key)) continue;
+                        seen.add(key);
+                        windows.push(...cells);
+                        continue;
+                    }
+                    const endR = r + dr * (winLength - 1);
+                    const endC = c + dc * (winLength - 1);
+                    if (endR < 0 || endR >= boardSize || endC < 0 || endC >= boardSize) continue;
+                    for (let i = 0; i < winLength; i++) windows.push((r + dr * i) * boardSize + c + dc * i);
+                }
+            }
+        }
+        centerOrder = Int16Array.from(Array.from({ length: cellCount }, (_, i) => i).sort((a, b) => distance(a) - distance(b)));
+    }
+
+    const zobristHi = new Uint32Array(cellCount * 4);
+    const zobristLo = new Uint32Array(cellCount * 4);
+    for (let i = 0; i < zobristHi.length; i++) {
+        zobristHi[i] = randomUint32();
+        zobristLo[i] = randomUint32();
+    }
+
+    const geometry: Geometry = {
+        centerOrder,
+        columnOrder,
+        windows: Int16Array.from(windows),
+        windowCount: windows.length / winLength,
+        windowsThrough,
+        zobristHi,
+        zobristLo,
+        sideHi: randomUint32(),
+        sideLo: randomUint32()
+    };
+    geometries.set(cacheKey, geometry);
+    return geometry;
+};
+
+export interface SearchBoardOptions {
+    // Gravity: the only moves are the landing cell of each column that still has room
+    gravity?: boolean;
+    // Qubic: the board is a boardSize³ cube and lines run through all three dimensions
+    cube?: boolean;
+    // Hex: the board is a hexagon of hexagonal cells and lines run along its three axes
+    hex?: boolean;
+    // Gomoku's exact five: a run longer than winLength doesn't win
+    exactLength?: boolean;
+    // Lines wrap across the board's edges
+    toroidal?: boolean;
+    // Decay: each side keeps at most this many pieces; one more takes its oldest off
+    pieceLimit?: number;
+    // Decay: each side's pieces already on the board, oldest first (see getPieceOrder)
+    pieceOrder?: { [key in Player]: number[] };
+    // Sudden Death: plies until the next ring collapses, and that ring's cells (see getCollapsingCells)
+    collapseIn?: number;
+    collapseRing?: number[];
+}
+
+export interface WindowWeights {
+    open4: number;
+    open3: number;
+    closed3: number;
+    open2: number;
+}
+
+/**
+ * Mutable board for the AI search. Moves are made and unmade in place, the Zobrist hash is
+ * kept up to date incrementally, and a win is detected from the last move alone.
+ * Only plain placements are supported; power-ups never happen inside a search.
+ * play takes the symbol placed, which in Wild need not be the mover's own.
+ * Under Decay, play also takes the placing side's oldest piece off once it is over the limit,
+ * and undo puts it back. Under Sudden Death, the play that reaches the next collapse also blocks
+ * the ring's empty cells, and undoing it clears them again.
+ */
+export class SearchBoard {
+    readonly cells: Int8Array;
+    private readonly geometry: Geometry;
+    private hashHi = 0;
+    private hashLo = 0;
+    private empties = 0;
+
+    readonly gravity: boolean;
+    readonly exactLength: boolean;
+    readonly toroidal: boolean;
+    // Decay: each side's pieces oldest first, indexed by cell code - 1, and what each play took off (-1 for nothing)
+    private readonly pieces: number[][] | null;
+    private readonly pieceLimit: number;
+    private readonly removed: number[] = [];
+    // Sudden Death: the ply the next collapse comes after (0 for none), its ring, and the cells it blocked
+    private readonly collapseAt: number;
+    private readonly collapseRing: number[];
+    private collapsed: number[] = [];
+    private plies = 0;
+
+    constructor(board: BoardState, readonly boardSize: number, readonly winLength: number, options: SearchBoardOptions = {}) {
+        this.gravity = !!options.gravity;
+        this.exactLength = !!options.exactLength;
+        this.toroidal = !!options.toroidal;
+        this.pieceLimit = options.pieceLimit ?? Infinity;
+        this.pieces = options.pieceOrder ? [[...options.pieceOrder[Player.X]], [...options.pieceOrder[Player.O]]] : null;
+        this.collapseAt = options.collapseIn ?? 0;
+        this.collapseRing = options.collapseRing ?? [];
+        this.geometry = getGeometry(boardSize, winLength, !!options.cube, !!options.hex, this.toroidal);
+        this.cells = new Int8Array(board.length);
+        board.forEach((value, i) => {
+            const cell = value === null ? EMPTY : value === 'OBSTACLE' ? BLOCKED : toCell(value);
+            this.cells[i] = cell;
+            if (cell === EMPTY) this.empties++;
+            else this.toggle(i, cell);
+        });
+    }
+
+    private toggle(index: number, cell: number) {
+        this.hashHi = (this.hashHi ^ this.geometry.zobristHi[index * 4 + cell]) >>> 0;
+        this.hashLo = (this.hashLo ^ this.geometry.zobristLo[index * 4 + cell]) >>> 0;
+    }
+
+    play(index: number, symbol: Player) {
+        const cell = toCell(symbol);
+        this.cells[index] = cell;
+        this.toggle(index, cell);
+        this.empties--;
+        if (++this.plies === this.collapseAt) this.collapse();
+        if (!this.pieces) return;
+
+        const own = this.pieces[cell - 1];
+        own.push(index);
+        if (own.length > this.pieceLimit) {
+            const oldest = own.shift()!;
+            this.toggle(oldest, cell);
+            this.cells[oldest] = EMPTY;
+            this.empties++;
+            this.removed.push(oldest);
+        } else {
+            this.removed.push(-1);
+        }
+    }
+
+    undo(index: number) {
+        if (this.plies-- === this.collapseAt) this.restore();
+        const cell = this.cells[index];
+        this.toggle(index, cell);
+        this.cells[index] = EMPTY;
+        this.empties++;
+        if (!this.pieces) return;
+
+        const own = this.pieces[cell - 1];
+        own.pop();
+        const oldest = this.removed.pop()!;
+        if (oldest >= 0) {
+            own.unshift(oldest);
+            this.cells[oldest] = cell;
+            this.toggle(oldest, cell);
+            this.empties--;
+        }
+    }
+
+    private collapse() {
+        this.collapsed = this.collapseRing.filter(i => this.cells[i] === EMPTY);
+        for (const i of this.collapsed) {
+            this.cells[i] = BLOCKED;
+            this.toggle(i, BLOCKED);
+            this.empties--;
+        }
+    }
+
+    private restore() {
+        for (const i of this.collapsed) {
+            this.toggle(i, BLOCKED);
+            this.cells[i] = EMPTY;
+            this.empties++;
+        }
+        this.collapsed = [];
+    }
+
+    isFull() {
+        if (!this.gravity) return this.empties === 0;
+        // A column is playable exactly while its top cell is empty
+        for (let c = 0; c < this.boardSize; c++) {
+            if (this.cells[c] === EMPTY) return false;
+        }
+        return true;
+    }
+
+    // Transposition table key for this position with the given side to move (53 bits, so a safe integer)
+    key(toMove: Player): number {
+        let hi = toMove === Player.X ? this.hashHi : (this.hashHi ^ this.geometry.sideHi) >>> 0;
+        let lo = toMove === Player.X ? this.hashLo : (this.hashLo ^ this.geometry.sideLo) >>> 0;
+        // Decay: the same cells with a different oldest piece play out differently, so each piece's
+        // key is folded in again, rotated by its age
+        if (this.pieces) {
+            this.pieces.forEach((own, p) => own.forEach((index, age) => {
+                const z = index * 4 + p + 1;
+                hi = (hi ^ rotate(this.geometry.zobristHi[z], age % 31 + 1)) >>> 0;
+                lo = (lo ^ rotate(this.geometry.zobristLo[z], age % 31 + 1)) >>> 0;
+            }));
+        }
+        return (hi & 0x1fffff) * 0x100000000 + lo;
+    }
+
+    // Whether the piece on index completes a line, walking only the lines through it
+    completesLine(index: number): boolean {
+        const { boardSize, winLength, cells } = this;
+        const cell = cells[index];
+        const { windowsThrough, windows } = this.geometry;
+        if (windowsThrough) {
+            for (const w of windowsThrough[index]) {
+                let i = w * winLength;
+                while (i < (w + 1) * winLength && cells[windows[i]] === cell) i++;
+                if (i === (w + 1) * winLength) return true;
+            }
+            return false;
+        }
+        const row = Math.floor(index / boardSize);
+        const col = index % boardSize;
+        // On a torus the walk carries on from the opposite edge, and stops once it has the whole ring
+        const wrap = this.toroidal ? (v: number) => (v + boardSize) % boardSize : (v: number) => v;
+        for (const [dr, dc] of [[0, 1], [1, 0], [1, 1], [1, -1]]) {
+            let count = 1;
+            let r = wrap(row + dr), c = wrap(col + dc);
+            while (count < boardSize && r >= 0 && r < boardSize && c >= 0 && c < boardSize && cells[r * boardSize + c] === cell) {
+                count++; r = wrap(r + dr); c = wrap(c + dc);
+            }
+            r = wrap(row - dr); c = wrap(col - dc);
+            while (count < boardSize && r >= 0 && r < boardSize && c >= 0 && c < boardSize && cells[r * boardSize + c] === cell) {
+                count++; r = wrap(r - dr); c = wrap(c - dc);
+            }
+            if (this.exactLength ? count === winLength : count >= winLength) return true;
+        }
+        return false;
+    }
+
+    // Empty cells, the preferred move first and then nearest the centre
+    orderedMoves(preferred?: number): number[] {
+        if (this.gravity) return this.orderedDrops(preferred);
+        const moves: number[] = [];
+        if (preferred !== undefined && preferred >= 0 && this.cells[preferred] === EMPTY) moves.push(preferred);
+        for (const i of this.geometry.centerOrder) {
+            if (this.cells[i] === EMPTY && i !== preferred) moves.push(i);
+        }
+        return moves;
+    }
+
+    // Landing cell of every open column, the preferred move first and then the central columns
+    private orderedDrops(preferred?: number): number[] {
+        const { boardSize, cells } = this;
+        const moves: number[] = [];
+        let preferredIsLegal = false;
+        for (const c of this.geometry.columnOrder) {
+            if (cells[c] !== EMPTY) continue;
+            let index = c;
+            while (index + boardSize < cells.length && cells[index + boardSize] === EMPTY) index += boardSize;
+            if (index === preferred) preferredIsLegal = true;
+            else moves.push(index);
+        }
+        if (preferredIsLegal) moves.unshift(preferred!);
+        return moves;
+    }
+
+    /**
+     * Scores every window that only one side occupies, from player's point of view.
+     * Opponent windows weigh a little more so the AI prefers blocking over building.
+     */
+    evaluate(player: Player, weights: WindowWeights): number {
+        const { windows, windowCount } = this.geometry;
+        const { winLength, cells } = this;
+        const own = toCell(player);
+        let score = 0;
+
+        for (let w = 0; w < windowCount; w++) {
+            let mine = 0, theirs = 0, empty = 0, blocked = false;
+            for (let i = w * winLength; i < (w + 1) * winLength; i++) {
+                const cell = cells[windows[i]];
+                if (cell === EMPTY) empty++;
+                else if (cell === BLOCKED) { blocked = true; break; }
+                else if (cell === own) mine++;
+                else theirs++;
+            }
+            if (blocked || (mine > 0 && theirs > 0)) continue;
+
+            if (mine > 0) {
+                if (mine >= winLength) score += weights.open4;
+                else if (mine === winLength - 1) score += empty === 1 ? weights.open3 : weights.closed3;
+                else if (mine === winLength - 2) score += weights.open2;
+            } else if (theirs > 0) {
+                if (theirs >= winLength) score -= weights.open4;
+                else if (theirs === winLength - 1) score -= (empty === 1 ? weights.open3 : weights.closed3) * 1.5;
+                else if (theirs === winLength - 2) score -= weights.open2 * 1.2;
+            }
+        }
+        return score;
+    }
+
+    /**
+     * Wild scoring for the side to move, who may finish a line of either symbol. Every window one
+     * piece short is an immediate win for them; every window two short is a cell they can't touch
+     * without handing the opponent one, so those narrow their choices.
+     */
+    evaluateWild(weights: WindowWeights): number {
+        const { windows, windowCount } = this.geometry;
+        const { winLength, cells } = this;
+        let score = 0;
+
+        for (let w = 0; w < windowCount; w++) {
+            let xs = 0, os = 0, empty = 0, blocked = false;
+            for (let i = w * winLength; i < (w + 1) * winLength; i++) {
+                const cell = cells[windows[i]];
+                if (cell === EMPTY) empty++;
+                else if (cell === BLOCKED) { blocked = true; break; }
+                else if (cell === X) xs++;
+                else os++;
+            }
+            if (blocked || (xs > 0 && os > 0)) continue;
+
+            const pieces = xs + os;
+            if (pieces === winLength - 1 && empty === 1) score += weights.open3;
+            else if (pieces === winLength - 2 && pieces > 0) score -= weights.open2;
+        }
+        return score;
+    }
+}
@@ -0,0 +1,90 @@
+import { prisma, toJson } from '../db';
+import { Player, Room } from '../types';
+
+// Rooms with a write in flight, and rooms that changed again while it was running.
+// Writes are coalesced per room so a burst of updates never lands out of order.
+const inFlight = new Set<string>();
+const dirty = new Map<string, Room>();
+const removed = new Set<string>();
+
+const toRecord = (room: Room) => {
+    const seatX = room.players.find(p => p.role === Player.X);
+    const seatO = room.players.find(p => p.role === Player.O);
+    return {
+        hostId: room.hostId,
+        playerXId: seatX?.user.id || room.hostId,
+        playerOId: seatO?.user.id || null,
+        status: room.status,
+        currentPlayer: room.currentPlayer,
+        board: toJson(room.board),
+        moves: toJson(room.moves),
+        chat: toJson(room.chat),
+        gameSettings: toJson(room.gameSettings),
+        anteAmount: room.anteAmount || 0,
+        pot: room.pot || 0,
+        playerXConfirmed: !!room.wagerConfirmed[Player.X],
+        playerOConfirmed: !!room.wagerConfirmed[Player.O],
+        doubleDownOffering: room.doubleDown?.offering || null,
+        lastMoveTime: new Date(room.lastMoveTime || Date.now()),
+        timeRemainingX: room.timeRemaining ? Math.round(room.timeRemaining[Player.X] * 1000) : null,
+        timeRemainingO: room.timeRemaining ? Math.round(room.timeRemaining[Player.O] * 1000) : null,
+        playerXRematch: !!room.rematchRequested[Player.X],
+        playerORematch: !!room.rematchRequested[Player.O],
+        isPaused: !!room.isPaused,
+        // Full room (seats, participants, timers, power-ups...) so it can be rebuilt exactly
+        snapshot: JSON.parse(JSON.stringify(room))
+    };
+};
+
+const flush = async (roomId: string) => {
+    inFlight.add(roomId);
+    try {
+        while (dirty.has(roomId) || removed.has(roomId)) {
+            if (removed.has(roomId)) {
+                dirty.delete(roomId);
+                removed.delete(roomId);
+                await prisma.activeMatch.deleteMany({ where: { id: roomId } });
+                continue;
+            }
+            const room = dirty.get(roomId)!;
+            dirty.delete(roomId);
+            const data = toRecord(room);
+            await prisma.activeMatch.upsert({
+                where: { id: roomId },
+                create: { id: roomId, ...data },
+                update: data
+            });
+        }
+    } catch (e) {
+        console.error(`Failed to persist room ${roomId}:`, e);
+    } finally {
+        inFlight.delete(roomId);
+    }
+};
+
+export const activeMatchService = {
+    // Write-through: called on every room change. Only the latest state is written.
+    save(room: Room) {
+        removed.delete(room.id);
+        dirty.set(room.id, room);
+        if (!inFlight.has(room.id)) flush(room.id);
+    },
+
+    remove(roomId: string) {
+        dirty.delete(roomId);
+        removed.add(roomId);
+        if (!inFlight.has(roomId)) flush(roomId);
+    },
+
+    async loadAll(): Promise<Room[]> {
+        try {
+            const records = await prisma.activeMatch.findMany();
+            return records
+                .filter((r: any) => r.snapshot)
+                .map((r: any) => r.snapshot as Room);
+        } catch (e) {
+            console.error("Failed to load active matches:", e);
+            return [];
+        }
+    }
+};
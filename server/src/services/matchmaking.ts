@@ -0,0 +1,135 @@
+import { GameSettings, GameVariant, QueueStatus, WagerTier } from '../types';
+import { getDecayLimit, getCollapseInterval } from '../../../shared/rules';
+
+export interface QueueEntry {
+    userId: string;
+    socketId: string;
+    elo: number;
+    wagerTier: WagerTier;
+    settings: GameSettings;
+    joinedAt: number;
+}
+
+// Rating window: starts tight and widens the longer a player waits
+const BASE_ELO_RANGE = 100;
+const ELO_RANGE_STEP = 50;           // Added every ELO_RANGE_INTERVAL_MS
+const ELO_RANGE_INTERVAL_MS = 10 * 1000;
+const MAX_ELO_RANGE = 800;
+
+// Wait estimates come from the most recent matches made in each pool
+const DEFAULT_WAIT_SECONDS = 30;
+const WAIT_SAMPLE_SIZE = 20;
+
+const entries = new Map<string, QueueEntry>(); // userId -> entry
+const recentWaits = new Map<string, number[]>(); // pool key -> wait seconds
+
+// Gomoku's own rules (exact five, renju, opening) split its pool further
+const gomokuKey = (s: GameSettings) => s.variant === GameVariant.GOMOKU && s.gomoku
+    ? `${s.gomoku.exactFive ? 'exact' : 'free'}-${s.gomoku.renju ? 'renju' : 'open'}-${s.gomoku.opening}`
+    : '';
+
+const decayKey = (s: GameSettings) => s.variant === GameVariant.DECAY ? `limit${getDecayLimit(s)}` : '';
+
+const collapseKey = (s: GameSettings) => s.variant === GameVariant.SUDDEN_DEATH ? `collapse${getCollapseInterval(s)}` : '';
+
+// Players only ever meet others with the same stake and the same board rules
+const poolKey = (tier: WagerTier, s: GameSettings) =>
+    [tier, s.boardSize, s.winLength, s.variant, s.blitzMode ? `blitz${s.blitzDuration || 180}` : `turn${s.turnDuration}`, s.obstacles ? `obs-${s.obstacleLayout || 'random'}` : '', s.toroidal ? 'torus' : '', s.powerUps === false ? 'nopw' : '', gomokuKey(s), decayKey(s), collapseKey(s)].join(':');
+
+const getEloRange = (entry: QueueEntry, now: number) => {
+    const steps = Math.floor((now - entry.joinedAt) / ELO_RANGE_INTERVAL_MS);
+    return Math.min(MAX_ELO_RANGE, BASE_ELO_RANGE + steps * ELO_RANGE_STEP);
+};
+
+const getPool = (key: string) =>
+    Array.from(entries.values())
+        .filter(e => poolKey(e.wagerTier, e.settings) === key)
+        .sort((a, b) => a.joinedAt - b.joinedAt);
+
+const recordWait = (key: string, seconds: number) => {
+    const samples = recentWaits.get(key) || [];
+    samples.push(seconds);
+    if (samples.length > WAIT_SAMPLE_SIZE) samples.shift();
+    recentWaits.set(key, samples);
+};
+
+export const matchmakingService = {
+    join(entry: QueueEntry) {
+        entries.set(entry.userId, entry);
+    },
+
+    leave(userId: string, socketId?: string): boolean {
+        const entry = entries.get(userId);
+        if (!entry || (socketId && entry.socketId !== socketId)) return false;
+        entries.delete(userId);
+        return true;
+    },
+
+    get(userId: string) {
+        return entries.get(userId);
+    },
+
+    list() {
+        return Array.from(entries.values());
+    },
+
+    /**
+     * Pairs everyone who can be paired right now and removes them from the queue.
+     * The longest-waiting player picks first, taking the closest rating both windows accept.
+     */
+    findMatches(now = Date.now()): [QueueEntry, QueueEntry][] {
+        const matches: [QueueEntry, QueueEntry][] = [];
+        const keys = new Set(Array.from(entries.values()).map(e => poolKey(e.wagerTier, e.settings)));
+
+        keys.forEach(key => {
+            const pool = getPool(key);
+            const taken = new Set<string>();
+
+            for (const entry of pool) {
+                if (taken.has(entry.userId)) continue;
+                const range = getEloRange(entry, now);
+
+                let best: QueueEntry | null = null;
+                for (const other of pool) {
+                    if (other.userId === entry.userId || taken.has(other.userId)) continue;
+                    const gap = Math.abs(entry.elo - other.elo);
+                    if (gap > range || gap > getEloRange(other, now)) continue;
+                    if (!best || gap < Math.abs(entry.elo - best.elo)) best = other;
+                }
+
+                if (best) {
+                    taken.add(entry.userId);
+                    taken.add(best.userId);
+                    entries.delete(entry.userId);
+                    entries.delete(best.userId);
+                    recordWait(key, (now - entry.joinedAt) / 1000);
+                    recordWait(key, (now - best.joinedAt) / 1000);
+                    matches.push([entry, best]);
+                }
+            }
+        });
+
+        return matches;
+    },
+
+    getStatus(userId: string, now = Date.now()): QueueStatus | null {
+        const entry = entries.get(userId);
+        if (!entry) return null;
+
+        const key = poolKey(entry.wagerTier, entry.settings);
+        const pool = getPool(key);
+        const samples = recentWaits.get(key);
+        const average = samples && samples.length > 0
+            ? samples.reduce((sum, s) => sum + s, 0) / samples.length
+            : DEFAULT_WAIT_SECONDS;
+        const waited = (now - entry.joinedAt) / 1000;
+
+        return {
+            position: pool.findIndex(e => e.userId === userId) + 1,
+            playersInQueue: pool.length,
+            waitTime: Math.floor(waited),
+            estimatedWait: Math.max(0, Math.round(average - waited)),
+            eloRange: getEloRange(entry, now)
+        };
+    }
+};
@@ -0,0 +1,166 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { Player, PoolRating, RatingPool } from '../types';
+import { DEFAULT_RD, DEFAULT_VOLATILITY, GlickoRating, isProvisional, updateGlicko, updateGlickoResults } from '../gameLogic';
+
+export const RATING_POOLS: RatingPool[] = ['classic', 'large', 'blitz', 'misere', 'gravity', 'ultimate', 'wild', 'qubic', 'gomoku', 'decay', 'fog', 'hex', 'suddenDeath', 'ffa', 'teams'];
+
+interface RatingRow {
+    pool: string;
+    rating: number;
+    rd: number;
+    volatility: number;
+    games: number;
+    updatedAt: Date;
+}
+
+export const toPoolRating = (row: RatingRow): PoolRating => ({
+    rating: Math.round(row.rating),
+    rd: Math.round(row.rd),
+    volatility: row.volatility,
+    games: row.games,
+    provisional: isProvisional(row)
+});
+
+export const toRatingMap = (rows: RatingRow[]): { [key in RatingPool]?: PoolRating } =>
+    rows.reduce((acc, row) => ({ ...acc, [row.pool]: toPoolRating(row) }), {});
+
+// A player's first game in a pool starts from their headline rating with full uncertainty,
+// so established players are not dropped back to the floor when a new pool opens up.
+const initialRow = (pool: RatingPool, elo: number): RatingRow => ({
+    pool, rating: elo, rd: DEFAULT_RD, volatility: DEFAULT_VOLATILITY, games: 0, updatedAt: new Date()
+});
+
+const idleSince = (row: RatingRow, now: number) => row.games > 0 ? now - new Date(row.updatedAt).getTime() : 0;
+
+// Writes a player's rating after one more game in the pool
+const saveRating = async (tx: Prisma.TransactionClient, pool: RatingPool, userId: string, prev: RatingRow, next: GlickoRating): Promise<PoolRating> => {
+    const data = { rating: next.rating, rd: next.rd, volatility: next.volatility, games: prev.games + 1 };
+    const row: RatingRow = await tx.rating.upsert({
+        where: { userId_pool: { userId, pool } },
+        create: { userId, pool, ...data },
+        update: data
+    });
+    if (pool === 'classic') {
+        await tx.user.update({ where: { id: userId }, data: { elo: Math.round(row.rating) } });
+    }
+    return toPoolRating(row);
+};
+
+export const ratingService = {
+    async getRatings(userId: string): Promise<{ [key in RatingPool]?: PoolRating }> {
+        return toRatingMap(await prisma.rating.findMany({ where: { userId } }));
+    },
+
+    /** Returns the user with their per-pool ratings attached, as sent to clients in room seats. */
+    async withRatings<T extends { id: string }>(user: T): Promise<T & { ratings: { [key in RatingPool]?: PoolRating } }> {
+        return { ...user, ratings: await ratingService.getRatings(user.id) };
+    },
+
+    /** A fresh row for a player with no games in the pool yet, as written at registration. */
+    newRating(pool: RatingPool, elo: number) {
+        const { updatedAt, ...row } = initialRow(pool, elo);
+        return row;
+    },
+
+    /**
+     * Seeds a classic row from User.elo for accounts made before rating pools, so the leaderboard
+     * (which reads Rating rows) still lists them. New accounts get theirs at registration.
+     * Runs at startup and only touches players without a row, so it is safe to repeat.
+     */
+    async backfillClassicRatings(): Promise<number> {
+        const users = await prisma.user.findMany({
+            where: { ratings: { none: { pool: 'classic' } } },
+            select: { id: true, elo: true }
+        });
+        if (users.length === 0) return 0;
+        const { count } = await prisma.rating.createMany({
+            data: users.map(u => ({ userId: u.id, ...ratingService.newRating('classic', u.elo) })),
+            skipDuplicates: true
+        });
+        return count;
+    },
+
+    getPoolElo(user: { elo: number, ratings?: { [key in RatingPool]?: PoolRating } }, pool: RatingPool): number {
+        return user.ratings?.[pool]?.rating ?? user.elo;
+    },
+
+    /**
+     * Rates one finished game for both players in the given pool (scoreX: 1 win, 0.5 draw, 0 loss).
+     * Must be called with a transaction client so the ratings commit with the rest of the result.
+     * The classic pool also keeps User.elo in step, since that is the rating shown everywhere else.
+     */
+    async recordGame(
+        tx: Prisma.TransactionClient,
+        pool: RatingPool,
+        playerX: { id: string, elo: number },
+        playerO: { id: string, elo: number },
+        scoreX: number
+    ): Promise<{ x: PoolRating, o: PoolRating }> {
+        const rows: (RatingRow & { userId: string })[] = await tx.rating.findMany({
+            where: { pool, userId: { in: [playerX.id, playerO.id] } }
+        });
+        const before = (p: { id: string, elo: number }) => rows.find(r => r.userId === p.id) || initialRow(pool, p.elo);
+        const x = before(playerX);
+        const o = before(playerO);
+        const now = Date.now();
+
+        return {
+            x: await saveRating(tx, pool, playerX.id, x, updateGlicko(x, o, scoreX, idleSince(x, now))),
+            o: await saveRating(tx, pool, playerO.id, o, updateGlicko(o, x, 1 - scoreX, idleSince(o, now)))
+        };
+    },
+
+    /**
+     * Rates a free-for-all for every seat at once, in the order given. Each player is scored
+     * against each of the others by finishing place: ahead 1, level 0.5, behind 0.
+     * Same transaction rules as recordGame.
+     */
+    async recordFreeForAll(
+        tx: Prisma.TransactionClient,
+        pool: RatingPool,
+        players: { id: string, elo: number, place: number }[]
+    ): Promise<PoolRating[]> {
+        const rows: (RatingRow & { userId: string })[] = await tx.rating.findMany({
+            where: { pool, userId: { in: players.map(p => p.id) } }
+        });
+        const before = players.map(p => rows.find(r => r.userId === p.id) || initialRow(pool, p.elo));
+        const now = Date.now();
+
+        const ratings: PoolRating[] = [];
+        for (const [i, player] of players.entries()) {
+            const results = players.flatMap((other, j) => j === i ? [] : [{
+                opponent: before[j],
+                score: player.place < other.place ? 1 : player.place === other.place ? 0.5 : 0
+            }]);
+            ratings.push(await saveRating(tx, pool, player.id, before[i], updateGlickoResults(before[i], results, idleSince(before[i], now))));
+        }
+        return ratings;
+    },
+
+    /**
+     * Rates a 2v2 game for all four players, in the order given. Each player is scored against
+     * both opponents with their side's result; teammates don't rate each other.
+     * Same transaction rules as recordGame.
+     */
+    async recordTeamGame(
+        tx: Prisma.TransactionClient,
+        pool: RatingPool,
+        players: { id: string, elo: number, side: Player }[],
+        winner: Player | 'draw'
+    ): Promise<PoolRating[]> {
+        const rows: (RatingRow & { userId: string })[] = await tx.rating.findMany({
+            where: { pool, userId: { in: players.map(p => p.id) } }
+        });
+        const before = players.map(p => rows.find(r => r.userId === p.id) || initialRow(pool, p.elo));
+        const now = Date.now();
+
+        const ratings: PoolRating[] = [];
+        for (const [i, player] of players.entries()) {
+            const score = winner === 'draw' ? 0.5 : winner === player.side ? 1 : 0;
+            const results = players.flatMap((other, j) => other.side === player.side ? [] : [{ opponent: before[j], score }]);
+            ratings.push(await saveRating(tx, pool, player.id, before[i], updateGlickoResults(before[i], results, idleSince(before[i], now))));
+        }
+        return ratings;
+    }
+};
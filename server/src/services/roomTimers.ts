@@ -0,0 +1,45 @@
+export type RoomDeadline = 'turn' | 'rematch' | 'doubleDown' | 'reconnect';
+
+interface PendingTimer {
+    at: number;
+    handle: NodeJS.Timeout;
+}
+
+// At most one timer per room and deadline kind. Scheduling the same deadline again is a no-op,
+// so callers can re-sync after every room change without churning timers.
+const timers = new Map<string, PendingTimer>();
+
+const timerKey = (roomId: string, kind: RoomDeadline) => `${roomId}:${kind}`;
+
+export const roomTimers = {
+    schedule(roomId: string, kind: RoomDeadline, at: number, onExpire: () => void) {
+        const key = timerKey(roomId, kind);
+        const existing = timers.get(key);
+        if (existing && existing.at === at) return;
+        if (existing) clearTimeout(existing.handle);
+
+        const handle = setTimeout(() => {
+            timers.delete(key);
+            onExpire();
+        }, Math.max(0, at - Date.now()));
+        timers.set(key, { at, handle });
+    },
+
+    clear(roomId: string, kind: RoomDeadline) {
+        const key = timerKey(roomId, kind);
+        const existing = timers.get(key);
+        if (existing) {
+            clearTimeout(existing.handle);
+            timers.delete(key);
+        }
+    },
+
+    clearRoom(roomId: string) {
+        timers.forEach((timer, key) => {
+            if (key.startsWith(`${roomId}:`)) {
+                clearTimeout(timer.handle);
+                timers.delete(key);
+            }
+        });
+    }
+};
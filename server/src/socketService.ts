@@ -12,6 +12,39 @@ function makePairKey(a: string, b: string) {
   return [a, b].sort().join('|');
 }
 
+// The global lobby is stored as one shared Conversation with no participants
+export const LOBBY_PAIR_KEY = 'lobby:global';
+
+const senderSelect = { displayName: true, avatar: true, emailVerified: true, questData: true };
+
+/**
+ * Maps a stored ChatMessage row (with its sender included) to the client shape.
+ */
+export function toClientChatMessage(m: any, channel: 'dm' | 'lobby', recipientId?: string): ChatMessage {
+  const qData = (m.sender?.questData as any) || {};
+  return {
+    id: m.id,
+    senderId: m.senderId,
+    recipientId,
+    text: m.text,
+    timestamp: m.timestamp.getTime(),
+    type: m.type as 'user' | 'system',
+    channel,
+    senderName: m.sender?.displayName,
+    senderAvatar: m.sender?.avatar,
+    senderFrame: qData.equippedFrame,
+    senderVerified: m.sender?.emailVerified,
+    readBy: m.readBy as any,
+    deleted: m.deleted,
+    editedAt: m.editedAt ? m.editedAt.getTime() : undefined,
+    reactions: m.reactions as any,
+    replyTo: m.replyTo as any,
+    giftData: m.giftData as any,
+    replayData: m.replayData as any,
+    stickerId: m.stickerId as any,
+  };
+}
+
 class SocketService {
   private io: Server<ClientToServerEvents, ServerToClientEvents> | null = null;
   private userSockets = new Map<string, string[]>(); // userId -> socketId[]
@@ -167,6 +200,64 @@ class SocketService {
     }
   }
 
+  /**
+   * Persist a message to the global lobby channel.
+   */
+  async persistLobbyMessage(data: {
+    senderId: string;
+    text: string;
+    replyTo?: any;
+    stickerId?: string;
+  }): Promise<ChatMessage | null> {
+    try {
+      const conversation = await prisma.conversation.upsert({
+        where: { pairKey: LOBBY_PAIR_KEY },
+        create: { pairKey: LOBBY_PAIR_KEY },
+        update: {},
+      });
+
+      const message = await prisma.chatMessage.create({
+        data: {
+          conversationId: conversation.id,
+          senderId: data.senderId,
+          text: data.text,
+          type: 'user',
+          channel: 'lobby',
+          replyTo: data.replyTo,
+          stickerId: data.stickerId,
+        },
+        include: { sender: { select: senderSelect } },
+      });
+
+      return toClientChatMessage(message, 'lobby');
+    } catch (e) {
+      logger.error('Failed to persist lobby message', e);
+      return null;
+    }
+  }
+
+  /**
+   * Loads a DM for a change by one of its two participants, or null if
+   * the message doesn't exist or doesn't belong to the conversation with partnerId.
+   */
+  async findDirectMessage(messageId: string, userId: string, partnerId: string) {
+    const message = await prisma.chatMessage.findUnique({
+      where: { id: messageId },
+      include: { conversation: { select: { pairKey: true } } },
+    });
+    if (!message || message.conversation.pairKey !== makePairKey(userId, partnerId)) return null;
+    return message;
+  }
+
+  async updateDirectMessage(messageId: string, data: Record<string, any>, recipientId: string): Promise<ChatMessage> {
+    const message = await prisma.chatMessage.update({
+      where: { id: messageId },
+      data,
+      include: { sender: { select: senderSelect } },
+    });
+    return toClientChatMessage(message, 'dm', recipientId);
+  }
+
   /**
    * Mark all messages from partnerId → readerId as read.
    */
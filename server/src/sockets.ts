@@ -1,5 +1,7 @@
+import { Prisma } from '@prisma/client';
 import { Server, Socket } from 'socket.io';
-import { prisma } from './db';
+import crypto from 'crypto';
+import { prisma, toJson } from './db';
 import { verifyToken } from './auth';
 import { 
     ClientToServerEvents, 
@@ -12,12 +14,24 @@ import {
     WagerTier,
     SquareValue,
     User,
-    MatchRecord
+    MatchRecord,
+    PowerUp,
+    GameVariant,
+    PoolRating,
+    PowerUps,
+    Move
 } from './types';
-import { checkWinner, calculateElo, calculateDrawElo, checkBadges, countThreats, MASTERY_CHALLENGES, calculateLevelProgress, processMatchQuests } from './gameLogic';
+import { checkBadges, MASTERY_CHALLENGES, calculateLevelProgress, processMatchQuests, getAvailablePowerUps, ownsPowerUp } from './gameLogic';
+import { getRatingPool, replayMoves, getSafeMoves, getVariantRules, getLastPlacement, getPlacements, isMisereVariant, ULTIMATE_BOARD_SIZE, QUBIC_BOARD_SIZE, GOMOKU_MIN_BOARD_SIZE, GOMOKU_WIN_LENGTH, DEFAULT_GOMOKU_OPTIONS, getDecayLimit, getDecayingPiece, getFogView, isFogBlocked, HEX_MIN_SIZE, HEX_MAX_SIZE, isFreeForAll, getSeats, getActiveSeats, getNextSeat, getOpenPlaces, findPlayerLine, getFfaPayouts, formatPlace, FFA_SEATS, FFA_MIN_PLAYERS, FFA_MIN_BOARD_SIZE, isTeamGame, getSide, getTeamSeats, getTeammate, TEAM_SIZE, OBSTACLE_LAYOUTS, createSeededRandom, getObstacleSeed, applyMoveToBoard, SUDDEN_DEATH_MIN_BOARD_SIZE, getCollapseInterval, getDueCollapse } from '../../shared/rules';
 import { socketService } from './socketService';
 import { notificationService } from './services/notification';
+import { activeMatchService } from './services/activeMatch';
+import { matchmakingService, QueueEntry } from './services/matchmaking';
+import { roomTimers } from './services/roomTimers';
+import { ratingService } from './services/rating';
+import { recordLedger, potAccount } from './ledger';
 import { exclude, getQuestData } from './utils/routeHelpers';
+import { encrypt, decrypt } from './encryption';
 
 const rooms = new Map<string, Room>();
 
@@ -35,13 +49,75 @@ const sanitizeChatText = (text: string): string => {
     return text ? text.trim().substring(0, 500) : "";
 };
 
+const LOBBY_ROOM = 'lobby';
+
+// Adds or removes userId under emoji; emojis nobody is using anymore are dropped.
+const toggleReaction = (reactions: Record<string, string[]> | undefined, emoji: string, userId: string) => {
+    const next: Record<string, string[]> = { ...(reactions || {}) };
+    const users = next[emoji] || [];
+    next[emoji] = users.includes(userId) ? users.filter(id => id !== userId) : [...users, userId];
+    if (next[emoji].length === 0) delete next[emoji];
+    return next;
+};
+
+// Fog: while the game is on, each seated player gets their own view of the board (see getFogView).
+// Spectators, and everyone once it is over, see all of it.
+// In a 2v2 game team chat is also left out for everyone but that team.
+const projectRoom = (room: Room, userId: string): Room => {
+    const fog = room.gameSettings.variant === GameVariant.FOG && isLive(room);
+    if (!fog && !isTeamGame(room.gameSettings)) return room;
+    const role = room.players.find(p => p.user.id === userId)?.role;
+    let view = room;
+    if (isTeamGame(room.gameSettings)) view = { ...view, chat: room.chat.filter(m => canReadMessage(room, m, userId)) };
+    if (fog && (role === Player.X || role === Player.O)) view = { ...view, ...getFogView(room.board, room.moves, role, room.gameSettings) };
+    return view;
+};
+
+// Sends the room to every socket in it, each through projectRoom
+const emitRoom = (io: Server, room: Room, event: 'roomUpdate' | 'gameReset' = 'roomUpdate') => {
+    if (room.gameSettings.variant !== GameVariant.FOG && !isTeamGame(room.gameSettings)) {
+        io.to(room.id).emit(event, room);
+        return;
+    }
+    for (const socketId of io.sockets.adapter.rooms.get(room.id) ?? []) {
+        const target = io.sockets.sockets.get(socketId);
+        if (target) target.emit(event, projectRoom(room, (target as any).user.userId));
+    }
+};
+
+// Team messages are for the players on that side only; everything else is for the whole room
+const canReadMessage = (room: Room, message: ChatMessage, userId: string) =>
+    message.channel !== 'team' ||
+    room.players.some(p => p.user.id === userId && p.role !== 'spectator' && getSide(p.role) === message.team);
+
+// Sends a chat event to every socket in the room that can read the message
+const emitToReaders = (io: Server, room: Room, message: ChatMessage, event: 'chatMessage' | 'messageUpdated' | 'messageDeleted' | 'reactionUpdate', payload: unknown) => {
+    if (message.channel !== 'team') {
+        io.to(room.id).emit(event, payload);
+        return;
+    }
+    for (const socketId of io.sockets.adapter.rooms.get(room.id) ?? []) {
+        const target = io.sockets.sockets.get(socketId);
+        if (target && canReadMessage(room, message, (target as any).user.userId)) target.emit(event, payload);
+    }
+};
+
 const broadcastRoomUpdate = (io: Server, roomId: string) => {
     const room = rooms.get(roomId);
     if (room) {
-        io.to(roomId).emit('roomUpdate', room);
+        emitRoom(io, room);
+        activeMatchService.save(room);
+        syncRoomDeadlines(io, room);
+        emitClockSync(io, room);
     }
 };
 
+const closeRoom = (roomId: string) => {
+    rooms.delete(roomId);
+    activeMatchService.remove(roomId);
+    roomTimers.clearRoom(roomId);
+};
+
 const getDefaultSettings = (): GameSettings => ({
     boardSize: 3,
     winLength: 3,
@@ -54,6 +130,133 @@ const getDefaultSettings = (): GameSettings => ({
     startingPlayer: 'random'
 });
 
+const WAGER_ANTES: Record<WagerTier, number> = { bronze: 50, silver: 250, gold: 1000 };
+
+const GOMOKU_OPENINGS = ['none', 'swap', 'swap2'];
+
+// Checks settings sent by a client against what the settings editor can produce, before a room
+// or queue entry is built from them. Returns an error message, or null when they can be used.
+const validateSettings = (settings: any): string | null => {
+    if (settings === undefined) return null;
+    if (!settings || typeof settings !== 'object') return "Invalid settings";
+    const isInRange = (value: any, min: number, max: number) => value === undefined || (Number.isInteger(value) && value >= min && value <= max);
+    if (settings.variant !== undefined && !Object.values(GameVariant).includes(settings.variant)) return "Unknown variant";
+    if (!isInRange(settings.boardSize, 3, 10)) return "Invalid board size";
+    if (!isInRange(settings.winLength, 3, 10)) return "Invalid win length";
+    if (!isInRange(settings.turnDuration, 5, 60)) return "Invalid turn duration";
+    if (!isInRange(settings.blitzDuration, 30, 600)) return "Invalid blitz duration";
+    if (!isInRange(settings.players, 2, FFA_SEATS.length)) return "Invalid player count";
+    if (!isInRange(settings.decayLimit, 1, 50) || !isInRange(settings.collapseInterval, 1, 40)) return "Invalid variant settings";
+    if (settings.gomoku !== undefined && (typeof settings.gomoku !== 'object' || !GOMOKU_OPENINGS.includes(settings.gomoku?.opening ?? 'none'))) {
+        return "Invalid Gomoku settings";
+    }
+    return null;
+};
+
+// Fills in defaults and fits the settings to their variant, so two requests for the same rules
+// always come out the same. Expects settings that passed validateSettings.
+const normalizeSettings = (settings: Partial<GameSettings> = {}): GameSettings => {
+    const finalSettings = { ...getDefaultSettings(), ...settings };
+    Object.assign(finalSettings, {
+        obstacles: !!finalSettings.obstacles,
+        toroidal: !!finalSettings.toroidal,
+        blitzMode: !!finalSettings.blitzMode,
+        powerUps: finalSettings.powerUps !== false
+    });
+    if (finalSettings.blitzMode) finalSettings.blitzDuration = finalSettings.blitzDuration || 180;
+    // A free-for-all is played on a classic board with room for everyone, and without power-ups
+    if (isFreeForAll(finalSettings)) {
+        const boardSize = Math.max(FFA_MIN_BOARD_SIZE, finalSettings.boardSize);
+        Object.assign(finalSettings, {
+            variant: GameVariant.CLASSIC,
+            players: Math.min(FFA_SEATS.length, finalSettings.players!),
+            ffaRule: finalSettings.ffaRule === 'elimination' ? 'elimination' : 'first_line',
+            boardSize,
+            winLength: Math.min(finalSettings.winLength, boardSize),
+            powerUps: false
+        });
+    }
+    // 2v2 is also played on a classic board without power-ups. Each side's two seats share a
+    // symbol, so X and O are the only pieces ever placed.
+    if (isTeamGame(finalSettings)) {
+        Object.assign(finalSettings, { variant: GameVariant.CLASSIC, teams: true, players: undefined, ffaRule: undefined, powerUps: false });
+    }
+    // Ultimate is always nine 3x3 boards
+    if (finalSettings.variant === GameVariant.ULTIMATE) {
+        Object.assign(finalSettings, { boardSize: ULTIMATE_BOARD_SIZE, winLength: 3, obstacles: false, toroidal: false });
+    }
+    // Qubic is always a 4x4x4 cube whose lines span it
+    if (finalSettings.variant === GameVariant.QUBIC) {
+        Object.assign(finalSettings, { boardSize: QUBIC_BOARD_SIZE, winLength: QUBIC_BOARD_SIZE, obstacles: false, toroidal: false });
+    }
+    // Hex boards run from 3 to 6 cells a side, and have no obstacles or wrap-around
+    if (finalSettings.variant === GameVariant.HEX) {
+        const boardSize = Math.min(HEX_MAX_SIZE, Math.max(HEX_MIN_SIZE, finalSettings.boardSize));
+        Object.assign(finalSettings, { boardSize, winLength: Math.min(finalSettings.winLength, boardSize), obstacles: false, toroidal: false });
+    }
+    // Gomoku is five in a row on a large board, and X always moves first
+    if (finalSettings.variant === GameVariant.GOMOKU) {
+        Object.assign(finalSettings, {
+            boardSize: Math.max(GOMOKU_MIN_BOARD_SIZE, finalSettings.boardSize),
+            winLength: GOMOKU_WIN_LENGTH,
+            toroidal: false,
+            startingPlayer: 'X',
+            gomoku: { ...DEFAULT_GOMOKU_OPTIONS, ...finalSettings.gomoku }
+        });
+    }
+    // Sudden Death needs rings to collapse, and edges for them to collapse in from
+    if (finalSettings.variant === GameVariant.SUDDEN_DEATH) {
+        const boardSize = Math.max(SUDDEN_DEATH_MIN_BOARD_SIZE, finalSettings.boardSize);
+        Object.assign(finalSettings, { boardSize, toroidal: false, collapseInterval: getCollapseInterval({ ...finalSettings, boardSize }) });
+    }
+    // No line is longer than the board, even one that wraps around it
+    finalSettings.winLength = Math.min(finalSettings.winLength, finalSettings.boardSize);
+    // Obstacles are only ever laid out from a committed seed (see layOutBoard)
+    if (!finalSettings.obstacleLayout || !OBSTACLE_LAYOUTS.includes(finalSettings.obstacleLayout)) finalSettings.obstacleLayout = 'random';
+    delete finalSettings.obstacleSeed;
+    // Decay: store the limit in play, so clients and replays read the same one
+    if (finalSettings.variant === GameVariant.DECAY) {
+        finalSettings.decayLimit = getDecayLimit(finalSettings);
+    }
+    return finalSettings;
+};
+
+// Builds a fresh room with the host seated as X. Used for hosted rooms and matchmade pairs.
+const createRoomState = (host: any, settings: Partial<GameSettings>, ante: number): Room => {
+    const roomId = Math.random().toString(36).substring(2, 8).toUpperCase();
+    const finalSettings = normalizeSettings(settings);
+    const seats = getSeats(finalSettings);
+    let initialPlayer = Player.X;
+    if (finalSettings.startingPlayer === 'O') initialPlayer = Player.O;
+    else if (finalSettings.startingPlayer === 'random') initialPlayer = seats[Math.floor(Math.random() * seats.length)];
+
+    // The obstacles go down when play begins, once everyone has added to the seed
+    const initialBoard = getVariantRules(finalSettings.variant).createInitialBoard({ ...finalSettings, obstacles: false });
+
+    const room: Room = {
+        id: roomId,
+        status: 'waiting',
+        players: [{ user: host, role: Player.X, connected: true }],
+        initialBoard,
+        board: [...initialBoard],
+        moves: [],
+        chat: [],
+        currentPlayer: initialPlayer,
+        winner: null,
+        winningLine: null,
+        gameSettings: finalSettings,
+        hostId: host.id,
+        rematchRequested: {},
+        anteAmount: ante,
+        pot: 0, 
+        wagerConfirmed: {},
+        participants: { [Player.X]: host }
+    };
+    openObstacleCommit(room);
+
+    return room;
+};
+
 const updateLastRoomId = async (userId: string, roomId: string | null) => {
     try {
         if (userId.startsWith('guest_')) return; 
@@ -70,12 +273,575 @@ const updateLastRoomId = async (userId: string, roomId: string | null) => {
     }
 };
 
+// Grants each seat its power-ups for a new game. Undo/Hint are free, the rest come from inventory.
+const grantPowerUps = (room: Room) => {
+    room.powerUpsUsed = {};
+    const disabled = getVariantRules(room.gameSettings.variant).disabledPowerUps;
+    room.powerUps = Object.fromEntries(Object.values(Player).map(role => {
+        if (room.gameSettings.powerUps === false) return [role, {}];
+        const seat = room.players.find(p => p.role === role);
+        const available = getAvailablePowerUps(seat?.user.inventory || []);
+        for (const powerUp of disabled) available[powerUp] = false;
+        return [role, available];
+    })) as PowerUps;
+};
+
+// Fills every symbol's blitz bank, seated or not, so a seat's bank can always be looked up
+const resetBlitzClocks = (room: Room) => {
+    if (!room.gameSettings.blitzMode) return;
+    const duration = room.gameSettings.blitzDuration || 180;
+    room.timeRemaining = Object.fromEntries(Object.values(Player).map(role => [role, duration])) as { [key in Player]: number };
+};
+
+// Whether every seat has staked its ante
+const allWagersConfirmed = (room: Room) => getSeats(room.gameSettings).every(role => room.wagerConfirmed[role]);
+
+// A game in progress, including a Gomoku opening that hasn't settled sides yet
+const isLive = (room: Room) => room.status === 'playing' || room.status === 'opening' || room.status === 'choosing_side';
+
+// Gomoku Swap openings: the X seat places the opening stones in the 'opening' phase, then the
+// other seat picks a side in 'choosing_side' (see the chooseSide handler).
+const beginGomokuOpening = (room: Room) => {
+    room.opening = undefined;
+    room.openingStones = undefined;
+    if (room.gameSettings.variant !== GameVariant.GOMOKU) return;
+    room.currentPlayer = Player.X;
+    const protocol = room.gameSettings.gomoku?.opening;
+    if (!protocol || protocol === 'none') return;
+    room.status = 'opening';
+    room.opening = { protocol, actor: Player.X, pending: [Player.X, Player.O, Player.X], canExtend: protocol === 'swap2' };
+};
+
+// Who opens a rematch: whoever did worst in the last game, drawn at random when that is several
+// seats (a draw, the losing side of a 2v2, or seats sharing last place in a free-for-all).
+// Must be read before the last game's winner and places are cleared.
+const getRematchStarter = (room: Room): Player => {
+    const seats = getSeats(room.gameSettings);
+    let starters = seats;
+    if (isFreeForAll(room.gameSettings) && room.places) {
+        const placeOf = (seat: Player) => room.places![seat] ?? seats.length;
+        const worst = Math.max(...seats.map(placeOf));
+        starters = seats.filter(seat => placeOf(seat) === worst);
+    } else if (room.winner && room.winner !== 'draw') {
+        starters = seats.filter(seat => getSide(seat) !== room.winner);
+    }
+    return starters[Math.floor(Math.random() * starters.length)];
+};
+
+// Swaps which seat plays X and which plays O, along with everything kept per role
+const swapSides = (room: Room) => {
+    const flip = <T extends { [key in Player]?: unknown }>(byRole: T): T =>
+        ({ ...byRole, [Player.X]: byRole[Player.O], [Player.O]: byRole[Player.X] });
+    room.players.forEach(p => {
+        if (p.role === Player.X || p.role === Player.O) p.role = p.role === Player.X ? Player.O : Player.X;
+    });
+    room.wagerConfirmed = flip(room.wagerConfirmed);
+    if (room.participants) room.participants = flip(room.participants);
+    if (room.powerUps) room.powerUps = flip(room.powerUps);
+    if (room.powerUpsUsed) room.powerUpsUsed = flip(room.powerUpsUsed);
+    if (room.timeRemaining) room.timeRemaining = flip(room.timeRemaining);
+};
+
+// Obstacles: the server commits to a seed of its own before anyone stakes a coin, each seat may
+// add a seed of theirs, and the server's is revealed when the game starts (see ObstacleCommit).
+// The seed is kept on the room encrypted, so it survives a restart without reaching clients early.
+const openObstacleCommit = (room: Room) => {
+    if (!room.gameSettings.obstacles) return;
+    const serverSeed = crypto.randomBytes(16).toString('hex');
+    room.obstacleCommit = {
+        hash: crypto.createHash('sha256').update(serverSeed).digest('hex'),
+        sealedSeed: encrypt(serverSeed),
+        clientSeeds: {}
+    };
+};
+
+// Seeds are joined with ':' (see getObstacleSeed), so only letters and digits are kept
+const addClientSeed = (room: Room, role: Player, clientSeed: unknown) => {
+    if (!room.obstacleCommit?.sealedSeed || typeof clientSeed !== 'string') return;
+    const seed = clientSeed.replace(/[^a-zA-Z0-9]/g, '').slice(0, 64);
+    if (seed) room.obstacleCommit.clientSeeds[role] = seed;
+};
+
+// Sets up a new game's starting board, revealing the committed seed and laying the obstacles out from it
+const layOutBoard = (room: Room) => {
+    const commit = room.obstacleCommit;
+    let random: (() => number) | undefined;
+    if (commit?.sealedSeed) {
+        commit.serverSeed = decrypt(commit.sealedSeed);
+        delete commit.sealedSeed;
+        const obstacleSeed = getObstacleSeed(commit.serverSeed, commit.clientSeeds, getSeats(room.gameSettings));
+        room.gameSettings = { ...room.gameSettings, obstacleSeed };
+        random = createSeededRandom(obstacleSeed);
+    }
+    room.initialBoard = getVariantRules(room.gameSettings.variant).createInitialBoard(room.gameSettings, random);
+    room.board = [...room.initialBoard];
+};
+
+// Moves a fully-wagered room into play.
+const beginPlay = (room: Room) => {
+    layOutBoard(room);
+    room.status = 'playing';
+    room.lastMoveTime = Date.now();
+    grantPowerUps(room);
+    resetBlitzClocks(room);
+    beginGomokuOpening(room);
+};
+
+// Deducts the time spent on the current turn from the mover's blitz bank.
+const tickBlitzClock = (room: Room) => {
+    if (room.gameSettings.blitzMode && room.timeRemaining && room.lastMoveTime) {
+        const elapsed = (Date.now() - room.lastMoveTime) / 1000;
+        room.timeRemaining[room.currentPlayer] = Math.max(0, room.timeRemaining[room.currentPlayer] - elapsed);
+    }
+};
+
+// The board event stage: changes the rules make to the board by themselves between turns, each
+// recorded in room.moves so replays show it. Sudden Death collapses the next ring in once enough
+// moves have gone by without a winner. Returns whether the board changed.
+const runBoardEvents = (room: Room): boolean => {
+    if (room.gameSettings.variant !== GameVariant.SUDDEN_DEATH) return false;
+    const collapsed = getDueCollapse(room.board, room.moves, room.gameSettings);
+    if (!collapsed) return false;
+    const event: Move = { player: getSide(room.currentPlayer), index: -1, moveNumber: room.moves.length, collapsed };
+    room.moves.push(event);
+    room.board = applyMoveToBoard(room.board, event);
+    return true;
+};
+
+// Checks the board after any change and either ends the game or hands over the turn.
+const resolveTurn = (io: Server, room: Room, keepTurn = false) => {
+    if (isFreeForAll(room.gameSettings)) {
+        resolveFreeForAllTurn(io, room);
+        return;
+    }
+    const rules = getVariantRules(room.gameSettings.variant);
+    let result = rules.getResult(room.board, room.gameSettings, getSide(room.currentPlayer));
+    // Board events only follow a move that leaves the game open and hands the turn on
+    if (!result.winner && !keepTurn && runBoardEvents(room)) {
+        result = rules.getResult(room.board, room.gameSettings, getSide(room.currentPlayer));
+    }
+
+    if (result.winner) {
+        room.winner = result.winner;
+        room.winningLine = result.line;
+        room.status = 'finished';
+
+        broadcastRoomUpdate(io, room.id);
+        handleGameEnd(room, io).catch(err => console.error("Game End Error", err));
+    } else {
+        if (!keepTurn) {
+            room.currentPlayer = isTeamGame(room.gameSettings)
+                ? getNextSeat(room.currentPlayer, getSeats(room.gameSettings))
+                : room.currentPlayer === Player.X ? Player.O : Player.X;
+        }
+        room.lastMoveTime = Date.now();
+        broadcastRoomUpdate(io, room.id);
+    }
+};
+
+// Free-for-all: a line wins outright, or in elimination takes the best place still open while
+// the rest play on. A full board leaves everyone still in sharing the best place left.
+const resolveFreeForAllTurn = (io: Server, room: Room) => {
+    const seats = getSeats(room.gameSettings);
+    const places = room.places ?? (room.places = {});
+    const mover = room.currentPlayer;
+    const [best] = getOpenPlaces(seats.length, places);
+
+    if (findPlayerLine(room.board, mover, room.gameSettings)) {
+        places[mover] = best;
+        if (room.gameSettings.ffaRule !== 'elimination') {
+            getActiveSeats(seats, places).forEach(seat => { places[seat] = best + 1; });
+        }
+    } else if (room.board.every(cell => cell !== null)) {
+        getActiveSeats(seats, places).forEach(seat => { places[seat] = best; });
+    }
+    settleFreeForAll(io, room);
+};
+
+// A seat that runs out of time or doesn't come back takes the worst place still open
+const knockOut = (room: Room, role: Player) => {
+    const places = room.places ?? (room.places = {});
+    const open = getOpenPlaces(getSeats(room.gameSettings).length, places);
+    places[role] = open[open.length - 1];
+};
+
+// Ends a free-for-all once one seat at most is still in, or hands the turn on to the next seat that is
+const settleFreeForAll = (io: Server, room: Room, winReason?: Room['winReason']) => {
+    const seats = getSeats(room.gameSettings);
+    const places = room.places ?? (room.places = {});
+    const active = getActiveSeats(seats, places);
+
+    if (active.length > 1) {
+        if (places[room.currentPlayer] !== undefined || !winReason) {
+            room.currentPlayer = getNextSeat(room.currentPlayer, seats, places);
+        }
+        room.lastMoveTime = Date.now();
+        broadcastRoomUpdate(io, room.id);
+        return;
+    }
+
+    active.forEach(seat => { places[seat] = getOpenPlaces(seats.length, places)[0]; });
+    const first = seats.filter(seat => places[seat] === 1);
+    room.winner = first.length === 1 ? first[0] : 'draw';
+    room.winningLine = first.length === 1 ? findPlayerLine(room.board, first[0], room.gameSettings) : null;
+    if (winReason) room.winReason = winReason;
+    room.status = 'finished';
+
+    broadcastRoomUpdate(io, room.id);
+    handleGameEnd(room, io).catch(err => console.error("Game End Error", err));
+};
+
+const trackPowerUp = (room: Room, role: Player, powerUp: PowerUp) => {
+    if (!room.powerUpsUsed) room.powerUpsUsed = {};
+    const used = room.powerUpsUsed[role] || {};
+    used[powerUp] = (used[powerUp] || 0) + 1;
+    room.powerUpsUsed[role] = used;
+};
+
+// --- Server Deadlines ---
+// Every room broadcast re-syncs the room's timers, so turns, blitz banks and pending offers
+// run out on the server even when no client is left to claim them.
+const DEADLINE_GRACE_MS = 1000; // Lets a move that was already in flight land first
+const CLOCK_SYNC_INTERVAL_MS = 5000;
+// A Gomoku Swap opening turn is three stones to lay out or a side to weigh up, not one move
+const OPENING_TURN_SECONDS = 120;
+
+// When the side to move runs out of time, or null while their clock is stopped or the room has no turn timer
+const getTurnDeadline = (room: Room): number | null => {
+    if (!isLive(room) || room.winner || room.isPaused || room.doubleDown || !room.lastMoveTime) return null;
+    if (room.gameSettings.blitzMode && room.timeRemaining) {
+        return room.lastMoveTime + room.timeRemaining[room.currentPlayer] * 1000;
+    }
+    const { turnDuration } = room.gameSettings;
+    if (!turnDuration) return null;
+    const seconds = room.opening ? Math.max(OPENING_TURN_SECONDS, turnDuration) : turnDuration;
+    return room.lastMoveTime + seconds * 1000;
+};
+
+const emitClockSync = (io: Server, room: Room) => {
+    io.to(room.id).emit('clockSync', {
+        roomId: room.id,
+        serverTime: Date.now(),
+        currentPlayer: room.currentPlayer,
+        turnDeadline: getTurnDeadline(room),
+        timeRemaining: room.timeRemaining,
+        rematchExpiresAt: room.rematchOffer?.expiresAt ?? null,
+        doubleDownExpiresAt: room.doubleDown?.expiresAt ?? null,
+        reconnectDeadline: getReconnectDeadline(room)
+    });
+};
+
+const expireTurn = (io: Server, roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room) return;
+    const deadline = getTurnDeadline(room);
+    if (deadline === null || Date.now() < deadline + DEADLINE_GRACE_MS) return;
+
+    if (room.gameSettings.blitzMode && room.timeRemaining) {
+        room.timeRemaining[room.currentPlayer] = 0;
+    }
+    if (isFreeForAll(room.gameSettings)) {
+        knockOut(room, room.currentPlayer);
+        settleFreeForAll(io, room, 'timeout');
+        return;
+    }
+    room.winner = getSide(room.currentPlayer) === Player.X ? Player.O : Player.X;
+    room.winReason = 'timeout';
+    room.status = 'finished';
+
+    broadcastRoomUpdate(io, roomId);
+    handleGameEnd(room, io).catch(err => console.error("Game End Timeout Error", err));
+};
+
+const expireRematchOffer = (io: Server, roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || !room.rematchOffer || Date.now() < room.rematchOffer.expiresAt) return;
+    room.rematchOffer = undefined;
+    room.rematchRequested = {};
+    io.to(roomId).emit('rematchDeclined');
+    broadcastRoomUpdate(io, roomId);
+};
+
+const expireDoubleDown = (io: Server, roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || !room.doubleDown || Date.now() < room.doubleDown.expiresAt) return;
+    room.doubleDown = undefined;
+    room.doubleDownUsed = true;
+    room.doubleDownAction = 'declined';
+    resumeIfReady(room);
+    broadcastRoomUpdate(io, roomId);
+};
+
+// --- Disconnect Grace ---
+// A seated player who drops mid-game pauses the clocks and gets a window to come back.
+// If they don't, the other side is awarded the game by disconnect. In a free-for-all they are
+// knocked out instead, and a seat that is already out can come and go freely.
+const RECONNECT_GRACE_MS = parseInt(process.env.RECONNECT_GRACE_SECONDS || '60', 10) * 1000;
+
+// Earliest forfeit deadline among seats that are currently away
+const getReconnectDeadline = (room: Room): number | null => {
+    const deadlines = room.players
+        .filter(p => p.role !== 'spectator' && !p.connected && p.reconnectDeadline)
+        .map(p => p.reconnectDeadline!);
+    return deadlines.length > 0 ? Math.min(...deadlines) : null;
+};
+
+const markSeatDisconnected = (room: Room, seat: PlayerSeat) => {
+    seat.connected = false;
+    if (isLive(room) && !room.winner && room.places?.[seat.role as Player] === undefined) {
+        if (!room.isPaused) {
+            room.isPaused = true;
+            room.pausedAt = Date.now();
+        }
+        seat.reconnectDeadline = Date.now() + RECONNECT_GRACE_MS;
+    }
+};
+
+const expireReconnect = async (io: Server, roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || !isLive(room) || room.winner) return;
+
+    const now = Date.now();
+    const seated = room.players.filter(p => p.role !== 'spectator' && room.places?.[p.role] === undefined);
+    const away = seated.filter(p => !p.connected);
+    const expired = away.filter(p => p.reconnectDeadline && now >= p.reconnectDeadline);
+    if (expired.length === 0) return;
+
+    const present = seated.find(p => p.connected);
+    if (!present) {
+        // Nobody left to award the game to; wait out every window, then void the match
+        if (away.some(p => !p.reconnectDeadline || now < p.reconnectDeadline)) return;
+        await refundRoom(io, room, "Every player disconnected, so the match was cancelled.");
+        return;
+    }
+
+    if (isFreeForAll(room.gameSettings)) {
+        expired.forEach(p => {
+            p.reconnectDeadline = undefined;
+            knockOut(room, p.role as Player);
+        });
+        resumeIfReady(room);
+        settleFreeForAll(io, room, 'disconnect');
+        return;
+    }
+
+    seated.forEach(p => { p.reconnectDeadline = undefined; });
+    room.winner = getSide(expired[0].role as Player) === Player.X ? Player.O : Player.X;
+    room.winReason = 'disconnect';
+    room.status = 'finished';
+    room.isPaused = false;
+    room.pausedAt = undefined;
+    room.doubleDown = undefined;
+
+    broadcastRoomUpdate(io, roomId);
+    handleGameEnd(room, io).catch(err => console.error("Game End Disconnect Error", err));
+};
+
+const syncRoomDeadlines = (io: Server, room: Room) => {
+    const turnDeadline = getTurnDeadline(room);
+    if (turnDeadline !== null) roomTimers.schedule(room.id, 'turn', turnDeadline + DEADLINE_GRACE_MS, () => expireTurn(io, room.id));
+    else roomTimers.clear(room.id, 'turn');
+
+    if (room.rematchOffer) roomTimers.schedule(room.id, 'rematch', room.rematchOffer.expiresAt, () => expireRematchOffer(io, room.id));
+    else roomTimers.clear(room.id, 'rematch');
+
+    if (room.doubleDown) roomTimers.schedule(room.id, 'doubleDown', room.doubleDown.expiresAt, () => expireDoubleDown(io, room.id));
+    else roomTimers.clear(room.id, 'doubleDown');
+
+    const reconnectDeadline = getReconnectDeadline(room);
+    if (reconnectDeadline !== null && isLive(room)) {
+        roomTimers.schedule(room.id, 'reconnect', reconnectDeadline, () => {
+            expireReconnect(io, room.id).catch(err => console.error("Reconnect expiry failed", err));
+        });
+    } else {
+        roomTimers.clear(room.id, 'reconnect');
+    }
+};
+
+// Unpauses a game once every seated player is back. Time spent paused isn't charged to anyone.
+const resumeIfReady = (room: Room) => {
+    if (!isLive(room) || !room.isPaused || room.doubleDown || room.winner) return;
+    if (!room.players.filter(p => p.role !== 'spectator' && room.places?.[p.role] === undefined).every(p => p.connected)) return;
+    if (room.pausedAt && room.lastMoveTime) {
+        room.lastMoveTime += Date.now() - room.pausedAt;
+    }
+    room.isPaused = false;
+    room.pausedAt = undefined;
+};
+
+// --- Crash Recovery ---
+// Rooms are written through to ActiveMatch on every broadcast and reloaded here at startup.
+// Players come back through lastRoomId; if they don't within the window, the match is voided and antes refunded.
+const RECOVERY_WINDOW_MS = 5 * 60 * 1000;
+
+const refundRoom = async (io: Server, room: Room, reason: string) => {
+    const confirmed = room.players.filter(p => p.role !== 'spectator' && room.wagerConfirmed[p.role]);
+    const share = confirmed.length > 0 ? Math.floor(room.pot / confirmed.length) : 0;
+
+    for (const seat of room.players.filter(p => p.role !== 'spectator')) {
+        try {
+            if (share > 0 && confirmed.includes(seat)) {
+                const updated = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+                    recordLedger(tx, seat.user.id, share, 'WAGER_REFUND', `Refund for voided match ${room.id}`, potAccount(room.id), { roomId: room.id })
+                );
+                socketService.emitToUser(seat.user.id, 'walletUpdate', { newBalance: updated.coins });
+            }
+            await notificationService.send(
+                seat.user.id,
+                'system',
+                'Match Cancelled',
+                share > 0 && confirmed.includes(seat) ? `${reason} Your ${share} coin ante has been refunded.` : reason,
+                { roomId: room.id }
+            );
+            await updateLastRoomId(seat.user.id, null);
+        } catch (e) {
+            console.error(`Refund failed for user ${seat.user.id} in room ${room.id}:`, e);
+        }
+    }
+
+    room.pot = 0;
+    room.status = 'finished';
+    emitRoom(io, room);
+    closeRoom(room.id);
+};
+
+const expireRecoveredRoom = async (io: Server, roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || room.status === 'finished' || room.winner) return;
+    const seated = room.players.filter(p => p.role !== 'spectator');
+    if (isLive(room) && seated.every(p => p.connected)) return;
+    // Lobbies that never got going are simply dropped
+    if (room.status === 'waiting' && room.pot === 0) {
+        for (const seat of seated) await updateLastRoomId(seat.user.id, null);
+        closeRoom(roomId);
+        return;
+    }
+    await refundRoom(io, room, "Your match was interrupted by a server restart and nobody returned in time.");
+};
+
+const restoreRooms = async (io: Server) => {
+    const recovered = await activeMatchService.loadAll();
+    let restored = 0;
+
+    for (const room of recovered) {
+        if (room.status === 'finished' || room.winner) {
+            activeMatchService.remove(room.id);
+            continue;
+        }
+
+        // Nobody is connected after a restart; spectators simply rejoin
+        room.players = room.players.filter(p => p.role !== 'spectator');
+        room.players.forEach(p => { p.connected = false; });
+
+        // Timers for these were lost with the process, so settle them now
+        if (room.doubleDown) {
+            room.doubleDown = undefined;
+            room.doubleDownUsed = true;
+            room.doubleDownAction = 'declined';
+        }
+        if (room.status === 'confirming_wager' && allWagersConfirmed(room)) {
+            beginPlay(room);
+        }
+        if (isLive(room)) {
+            room.isPaused = true;
+            room.pausedAt = room.pausedAt || Date.now();
+        }
+
+        rooms.set(room.id, room);
+        activeMatchService.save(room);
+        syncRoomDeadlines(io, room);
+        setTimeout(() => {
+            expireRecoveredRoom(io, room.id).catch(err => console.error("Recovered room expiry failed", err));
+        }, RECOVERY_WINDOW_MS);
+        restored++;
+    }
+
+    if (restored > 0) {
+        console.log(`♻️ Recovered ${restored} active room(s) from the database.`);
+    }
+};
+
+// --- Matchmaking ---
+// Queued players are paired on a fixed tick; each pair gets a fresh room straight into wager confirmation.
+const MATCHMAKING_TICK_MS = 2000;
+let isMatchmaking = false;
+
+// A seat the user is actively playing (or confirming) in, other than excludeRoomId
+const findActiveRoom = (userId: string, excludeRoomId?: string) =>
+    Array.from(rooms.values()).find(r => 
+        r.id !== excludeRoomId && 
+        r.players.some(p => p.user.id === userId && p.role !== 'spectator' && p.connected) &&
+        (isLive(r) || r.status === 'confirming_wager')
+    );
+
+const startMatchmadeRoom = async (io: Server, first: QueueEntry, second: QueueEntry) => {
+    const ante = WAGER_ANTES[first.wagerTier];
+    const [userA, userB] = await Promise.all([
+        prisma.user.findUnique({ where: { id: first.userId } }),
+        prisma.user.findUnique({ where: { id: second.userId } })
+    ]);
+
+    // Anyone who can no longer play drops out; their opponent goes back in line keeping their place
+    const dropOut = (entry: QueueEntry, u: any) => {
+        if (!io.sockets.sockets.has(entry.socketId)) return "Disconnected";
+        if (!u || u.coins < ante) return "Insufficient funds";
+        if (findActiveRoom(entry.userId)) return "You are already in an active match!";
+        return null;
+    };
+    const reasonA = dropOut(first, userA);
+    const reasonB = dropOut(second, userB);
+    if (reasonA || reasonB || !userA || !userB) {
+        if (reasonA) io.to(first.socketId).emit('queueLeft', { reason: reasonA });
+        else matchmakingService.join(first);
+        if (reasonB) io.to(second.socketId).emit('queueLeft', { reason: reasonB });
+        else matchmakingService.join(second);
+        return;
+    }
+
+    const [seatA, seatB] = await Promise.all([ratingService.withRatings(userA), ratingService.withRatings(userB)]);
+    const room = createRoomState(seatA, first.settings, ante);
+    room.players.push({ user: seatB as any, role: Player.O, connected: true });
+    room.participants![Player.O] = seatB as any;
+    room.status = 'confirming_wager';
+    rooms.set(room.id, room);
+
+    await Promise.all([updateLastRoomId(first.userId, room.id), updateLastRoomId(second.userId, room.id)]);
+    io.in([first.socketId, second.socketId]).socketsJoin(room.id);
+    broadcastRoomUpdate(io, room.id);
+
+    io.to(first.socketId).emit('matchFound', { roomId: room.id, opponentName: userB.displayName });
+    io.to(second.socketId).emit('matchFound', { roomId: room.id, opponentName: userA.displayName });
+};
+
+const runMatchmaking = async (io: Server) => {
+    if (isMatchmaking) return;
+    isMatchmaking = true;
+    try {
+        for (const [first, second] of matchmakingService.findMatches()) {
+            try {
+                await startMatchmadeRoom(io, first, second);
+            } catch (e) {
+                console.error(`Failed to start matchmade room for ${first.userId} vs ${second.userId}:`, e);
+                io.to([first.socketId, second.socketId]).emit('queueLeft', { reason: "Failed to create match" });
+            }
+        }
+
+        const now = Date.now();
+        matchmakingService.list().forEach(entry => {
+            const status = matchmakingService.getStatus(entry.userId, now);
+            if (status) io.to(entry.socketId).emit('queueUpdate', status);
+        });
+    } finally {
+        isMatchmaking = false;
+    }
+};
+
 // Helper to get fresh user data
 const getFreshUser = async (userId: string, isGuest: boolean, initialUser: any) => {
     if (isGuest) return initialUser;
     try {
         const fresh = await prisma.user.findUnique({ where: { id: userId } });
-        return fresh || initialUser;
+        return fresh ? await ratingService.withRatings(fresh) : initialUser;
     } catch (e) {
         return initialUser;
     }
@@ -84,6 +850,17 @@ const getFreshUser = async (userId: string, isGuest: boolean, initialUser: any)
 export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerToClientEvents>) => {
     socketService.init(io);
 
+    restoreRooms(io).catch(err => console.error("Room recovery failed", err));
+    setInterval(() => {
+        runMatchmaking(io).catch(err => console.error("Matchmaking tick failed", err));
+    }, MATCHMAKING_TICK_MS);
+    // Periodic resync keeps every client's clock on the server's time between moves
+    setInterval(() => {
+        rooms.forEach(room => {
+            if (isLive(room) && (!room.isPaused || getReconnectDeadline(room) !== null)) emitClockSync(io, room);
+        });
+    }, CLOCK_SYNC_INTERVAL_MS);
+
     io.use(async (socket, next) => {
         const token = socket.handshake.auth.token;
         
@@ -157,54 +934,16 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             // Refresh user data to ensure latest stats/inventory/frames
             user = await getFreshUser(userId, isGuest, user);
 
-            const roomId = Math.random().toString(36).substring(2, 8).toUpperCase();
-            
-            let ante = 0;
-            if (wagerTier === 'bronze') ante = 50;
-            if (wagerTier === 'silver') ante = 250;
-            if (wagerTier === 'gold') ante = 1000;
-
+            const ante = WAGER_ANTES[wagerTier] || 0;
+            const invalid = validateSettings(settings);
+            if (invalid) return callback({ success: false, error: invalid });
             if (user.coins < ante) {
                 return callback({ success: false, error: "Insufficient funds" });
             }
 
-            const finalSettings = { ...getDefaultSettings(), ...settings };
-            let initialPlayer = Player.X;
-            if (finalSettings.startingPlayer === 'O') initialPlayer = Player.O;
-            else if (finalSettings.startingPlayer === 'random') initialPlayer = Math.random() < 0.5 ? Player.X : Player.O;
-
-            const room: Room = {
-                id: roomId,
-                status: 'waiting',
-                players: [{ user: user as any, role: Player.X, connected: true }],
-                initialBoard: Array((settings.boardSize || 3) ** 2).fill(null),
-                board: Array((settings.boardSize || 3) ** 2).fill(null),
-                moves: [],
-                chat: [],
-                currentPlayer: initialPlayer,
-                winner: null,
-                winningLine: null,
-                gameSettings: finalSettings,
-                hostId: userId,
-                rematchRequested: {},
-                anteAmount: ante,
-                pot: 0, 
-                wagerConfirmed: {},
-                participants: { [Player.X]: user as any }
-            };
-
-            if (room.gameSettings.obstacles) {
-                const size = room.gameSettings.boardSize;
-                let obstacleCount = Math.max(1, Math.floor(size * size / 10));
-                while (obstacleCount > 0) {
-                    const idx = Math.floor(Math.random() * room.board.length);
-                    if (room.board[idx] === null) {
-                        room.board[idx] = 'OBSTACLE';
-                        room.initialBoard[idx] = 'OBSTACLE';
-                        obstacleCount--;
-                    }
-                }
-            }
+            const room = createRoomState(user, settings, ante);
+            const roomId = room.id;
+            matchmakingService.leave(userId);
 
             rooms.set(roomId, room);
             await updateLastRoomId(userId, roomId);
@@ -225,11 +964,7 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
                 user = await getFreshUser(userId, isGuest, user);
             }
 
-            const existingRoom = Array.from(rooms.values()).find(r => 
-                r.id !== roomId && 
-                r.players.some(p => p.user.id === userId && p.role !== 'spectator' && p.connected) &&
-                (r.status === 'playing' || r.status === 'confirming_wager')
-            );
+            const existingRoom = findActiveRoom(userId, roomId);
 
             if (existingRoom && !isSpectator) {
                 return callback({ success: false, error: "You are already in an active match!" });
@@ -243,13 +978,17 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
                     // Update user info in seat on rejoin to refresh frame/avatar
                     existingSeat.user = user as any;
                     existingSeat.connected = true;
+                    existingSeat.reconnectDeadline = undefined;
+                    resumeIfReady(room);
                     await updateLastRoomId(userId, roomId);
                     await socket.join(roomId);
                     broadcastRoomUpdate(io, roomId);
                     return callback({ success: true });
                 }
 
-                if (room.players.filter(p => p.role !== 'spectator').length >= 2) {
+                const seats = getSeats(room.gameSettings);
+                const openSeat = seats.find(role => !room.players.some(p => p.role === role));
+                if (!openSeat) {
                     return callback({ success: false, error: "Room full" });
                 }
 
@@ -257,9 +996,13 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
                     if (user.coins < room.anteAmount) return callback({ success: false, error: "Insufficient funds for ante" });
                 }
 
-                room.players.push({ user: user as any, role: Player.O, connected: true });
-                room.participants![Player.O] = user as any;
-                room.status = 'confirming_wager'; 
+                room.players.push({ user: user as any, role: openSeat, connected: true });
+                room.participants![openSeat] = user as any;
+                // Wagers are only confirmed once every seat is taken
+                if (room.players.filter(p => p.role !== 'spectator').length === seats.length) {
+                    room.status = 'confirming_wager';
+                }
+                matchmakingService.leave(userId);
                 
                 await updateLastRoomId(userId, roomId);
             } else {
@@ -271,13 +1014,42 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             callback({ success: true });
         });
 
-        socket.on('confirmWager', async (roomId) => {
+        // 2v2 players pair up before the room fills, by moving to the other side's open seat
+        socket.on('switchTeam', (roomId) => {
+            if (isGuest) return;
+            const room = rooms.get(roomId);
+            if (!room || room.status !== 'waiting' || !isTeamGame(room.gameSettings)) return;
+            const seat = room.players.find(p => p.user.id === userId);
+            if (!seat || seat.role === 'spectator') return;
+
+            const otherSide = getSide(seat.role) === Player.X ? Player.O : Player.X;
+            const openSeat = getTeamSeats(otherSide).find(role => !room.players.some(p => p.role === role));
+            if (!openSeat) return;
+
+            delete room.participants![seat.role];
+            seat.role = openSeat;
+            room.participants![openSeat] = seat.user;
+            broadcastRoomUpdate(io, roomId);
+        });
+
+        // Free rooms have nothing to stake, so the host may start as soon as every seat is filled
+        socket.on('startGame', (roomId) => {
+            if (isGuest) return;
+            const room = rooms.get(roomId);
+            if (!room || room.hostId !== userId || room.status !== 'confirming_wager' || (room.anteAmount || 0) > 0) return;
+            if (room.players.filter(p => p.role !== 'spectator').length < getSeats(room.gameSettings).length) return;
+
+            beginPlay(room);
+            broadcastRoomUpdate(io, roomId);
+        });
+
+        socket.on('confirmWager', async (roomId, clientSeed) => {
             if (isGuest) return;
             const room = rooms.get(roomId);
             if (!room) return;
             
             const playerSeat = room.players.find(p => p.user.id === userId);
-            if (!playerSeat || (playerSeat.role !== Player.X && playerSeat.role !== Player.O)) return;
+            if (!playerSeat || playerSeat.role === 'spectator') return;
             
             const role = playerSeat.role;
 
@@ -289,34 +1061,26 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             }
 
             try {
-                const updatedUser = await prisma.user.update({
-                    where: { id: userId },
-                    data: { coins: { decrement: room.anteAmount || 0 } }
-                });
+                const updatedUser = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+                    recordLedger(tx, userId, -(room.anteAmount || 0), 'WAGER_ANTE', `Ante for match ${roomId}`, potAccount(roomId), { roomId })
+                );
 
                 room.wagerConfirmed[role] = true;
                 room.pot += (room.anteAmount || 0); 
+                addClientSeed(room, role, clientSeed);
 
                 socketService.emitToUser(userId, 'walletUpdate', { newBalance: updatedUser.coins });
 
-                if (room.wagerConfirmed[Player.X] && room.wagerConfirmed[Player.O]) {
+                if (allWagersConfirmed(room)) {
                     broadcastRoomUpdate(io, roomId);
 
                     setTimeout(() => {
                         const currentRoom = rooms.get(roomId);
                         if (currentRoom && 
                             currentRoom.status === 'confirming_wager' &&
-                            currentRoom.wagerConfirmed[Player.X] && 
-                            currentRoom.wagerConfirmed[Player.O]
+                            allWagersConfirmed(currentRoom)
                         ) {
-                            currentRoom.status = 'playing';
-                            currentRoom.lastMoveTime = Date.now();
-                            if (currentRoom.gameSettings.blitzMode) {
-                                currentRoom.timeRemaining = {
-                                    [Player.X]: currentRoom.gameSettings.blitzDuration || 180,
-                                    [Player.O]: currentRoom.gameSettings.blitzDuration || 180
-                                };
-                            }
+                            beginPlay(currentRoom);
                             broadcastRoomUpdate(io, roomId);
                         }
                     }, 3000);
@@ -329,112 +1093,222 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             }
         });
 
-        socket.on('makeMove', async ({ roomId, index }, callback) => {
+        socket.on('makeMove', async ({ roomId, index, symbol }, callback) => {
             if (isGuest) return callback({ success: false, error: "Guests cannot play." });
             const room = rooms.get(roomId);
-            if (!room || room.status !== 'playing' || room.isPaused) {
-                if (room) socket.emit('roomUpdate', room);
+            if (!room || !isLive(room) || room.isPaused) {
+                if (room) socket.emit('roomUpdate', projectRoom(room, userId));
                 return callback({ success: false, error: "Invalid game state" });
             }
 
             const player = room.players.find(p => p.user.id === userId);
             if (!player || player.role !== room.currentPlayer) return callback({ success: false, error: "Not your turn" });
-
-            if (index < 0 || index >= room.board.length || room.board[index] !== null) return callback({ success: false, error: "Invalid move" });
-
-            if (room.gameSettings.blitzMode && room.timeRemaining && room.lastMoveTime) {
-                const elapsed = (Date.now() - room.lastMoveTime) / 1000;
-                room.timeRemaining[room.currentPlayer] = Math.max(0, room.timeRemaining[room.currentPlayer] - elapsed);
-            }
-
-            room.board[index] = player.role;
-            room.moves.push({ player: player.role, index, moveNumber: room.moves.length });
-            
-            const result = checkWinner(room.board, room.gameSettings.boardSize, room.gameSettings.winLength);
-            
-            if (result.winner) {
-                room.winner = result.winner;
-                room.winningLine = result.line;
-                room.status = 'finished';
-                
-                broadcastRoomUpdate(io, roomId);
-                handleGameEnd(room, io).catch(err => console.error("Game End Error", err));
-            } else {
-                room.currentPlayer = room.currentPlayer === Player.X ? Player.O : Player.X;
+            if (room.status === 'choosing_side') return callback({ success: false, error: "Pick a side first" });
+
+            const rules = getVariantRules(room.gameSettings.variant);
+            if (room.status === 'opening' && room.opening) {
+                // Opening stones go down in a fixed order, on any empty cell (renju doesn't apply yet).
+                // Each is recorded under its own symbol, so the move list still alternates X, O, X...
+                const [stone, ...pending] = room.opening.pending;
+                if (!Number.isInteger(index) || index < 0 || index >= room.board.length || room.board[index] !== null) {
+                    return callback({ success: false, error: "Invalid move" });
+                }
+                if (symbol !== undefined && symbol !== stone) return callback({ success: false, error: "Invalid symbol" });
+
+                tickBlitzClock(room);
+                room.board = rules.applyMove(room.board, index, stone, room.gameSettings);
+                room.moves.push({ player: stone, index, moveNumber: room.moves.length });
+                room.opening.pending = pending;
+                if (pending.length === 0) {
+                    room.status = 'choosing_side';
+                    room.opening.actor = room.opening.actor === Player.X ? Player.O : Player.X;
+                    room.currentPlayer = room.opening.actor;
+                }
                 room.lastMoveTime = Date.now();
                 broadcastRoomUpdate(io, roomId);
+                return callback({ success: true });
+            }
+            // In 2v2 the seat to move places its side's piece
+            const side = getSide(player.role);
+            // Fog: a move onto a piece the mover can't see is spent revealing it
+            if (rules.variant === GameVariant.FOG && isFogBlocked(room.board, room.moves, index, side, room.gameSettings)) {
+                tickBlitzClock(room);
+                room.moves.push({ player: side, index, moveNumber: room.moves.length, blocked: true });
+                resolveTurn(io, room);
+                return callback({ success: true });
             }
+            if (!rules.isLegalMove(room.board, index, side, room.gameSettings, getLastPlacement(room.moves))) return callback({ success: false, error: "Invalid move" });
+            // Only Wild lets the mover pick the symbol; elsewhere it must be left out or match their side
+            if (symbol !== undefined && symbol !== side && !(rules.freeSymbol && (symbol === Player.X || symbol === Player.O))) {
+                return callback({ success: false, error: "Invalid symbol" });
+            }
+            const placed: Player = symbol ?? side;
+
+            tickBlitzClock(room);
+
+            // Decay: at the limit, the mover's oldest piece comes off as this one goes down
+            const removed = getDecayingPiece(room.moves, side, rules.pieceLimit(room.gameSettings));
+            room.board = rules.applyMove(room.board, index, placed, room.gameSettings);
+            if (removed !== null) room.board[removed] = null;
+            room.moves.push({
+                player: side,
+                index,
+                moveNumber: room.moves.length,
+                ...(rules.freeSymbol ? { symbol: placed } : {}),
+                ...(removed !== null ? { removed } : {})
+            });
+            
+            resolveTurn(io, room);
 
             callback({ success: true });
         });
 
-        socket.on('claimTimeout', async (roomId) => {
-            if (isGuest) return;
+        socket.on('usePowerUp', async ({ roomId, powerUp, index }, callback) => {
+            if (isGuest) return callback({ success: false, error: "Guests cannot play." });
+            if (isRateLimited(userId)) return callback({ success: false, error: "Rate limit exceeded" });
             const room = rooms.get(roomId);
-            
-            if (room && (room.status !== 'playing' || room.winner || room.isPaused)) {
-                socket.emit('roomUpdate', room);
-                return;
+            if (!room || room.status !== 'playing' || room.isPaused || room.doubleDown) {
+                if (room) socket.emit('roomUpdate', projectRoom(room, userId));
+                return callback({ success: false, error: "Invalid game state" });
             }
 
-            if (!room) return;
-
-            const now = Date.now();
-            
-            if (room.rematchOffer) {
-                if (now > room.rematchOffer.expiresAt) {
-                    room.rematchOffer = undefined;
-                    room.rematchRequested = {};
-                    io.to(roomId).emit('rematchDeclined');
+            const player = room.players.find(p => p.user.id === userId);
+            if (!player || player.role !== room.currentPlayer) return callback({ success: false, error: "Not your turn" });
+            const role = player.role;
+            const opponent = role === Player.X ? Player.O : Player.X;
+
+            if (room.gameSettings.powerUps === false) return callback({ success: false, error: "Power-ups are disabled in this room" });
+            const rules = getVariantRules(room.gameSettings.variant);
+            if (rules.disabledPowerUps.includes(powerUp)) return callback({ success: false, error: `That power-up can't be used in ${rules.variant}` });
+            if (!room.powerUps) grantPowerUps(room);
+            if (!room.powerUps![role][powerUp]) return callback({ success: false, error: "Power-up already used" });
+
+            // Re-check ownership against the stored inventory so a stale seat snapshot can't be exploited
+            const dbUser = await prisma.user.findUnique({ where: { id: userId }, select: { inventory: true } });
+            if (!dbUser || !ownsPowerUp(dbUser.inventory, powerUp)) return callback({ success: false, error: "You don't own this power-up" });
+
+            // The room may have moved on while we were waiting on the DB
+            if (room.status !== 'playing' || room.currentPlayer !== role) return callback({ success: false, error: "Not your turn" });
+
+            const isValidIndex = typeof index === 'number' && index >= 0 && index < room.board.length;
+            const lastMove = getLastPlacement(room.moves);
+            let keepTurn = false;
+
+            switch (powerUp) {
+                case 'hint': {
+                    const isMisere = isMisereVariant(room.gameSettings.variant);
+                    const legalMoves = rules.getLegalMoves(room.board, role, room.gameSettings, lastMove);
+                    const findWin = (p: Player, moves: number[]) => rules.findWinningMove(room.board, p, room.gameSettings, moves, room.moves);
+                    // In Wild either symbol can finish a line, so the mover gets the tip for both
+                    let hintIndex = isMisere ? null : findWin(rules.freeSymbol ? opponent : role, legalMoves);
+                    if (hintIndex === null && !isMisere) hintIndex = findWin(rules.freeSymbol ? role : opponent, legalMoves);
+                    if (hintIndex === null) {
+                        // In Misère the useful tip is a square that doesn't finish a line (your own, or either in Wild)
+                        const safe = isMisere ? getSafeMoves(room.board, role, room.gameSettings, legalMoves) : legalMoves;
+                        const empty = isMisere && rules.freeSymbol ? getSafeMoves(room.board, opponent, room.gameSettings, safe) : safe;
+                        const center = Math.floor(room.board.length / 2);
+                        hintIndex = empty.includes(center) ? center : (empty.length > 0 ? empty[Math.floor(Math.random() * empty.length)] : null);
+                    }
+                    room.powerUps![role].hint = false;
+                    trackPowerUp(room, role, powerUp);
                     broadcastRoomUpdate(io, roomId);
+                    return callback({ success: true, hintIndex });
                 }
-                return;
+                case 'undo': {
+                    // Only moves still on the board can be taken back, and never the opening stones
+                    const undoable = getPlacements(room.moves).length - (room.openingStones || 0);
+                    if (undoable < 2) return callback({ success: false, error: "Can't undo yet!" });
+                    room.moves.push({ player: role, index: -1, moveNumber: room.moves.length, powerUp });
+                    room.board = replayMoves(room.initialBoard, room.moves);
+                    keepTurn = true;
+                    break;
+                }
+                case 'destroy':
+                case 'convert':
+                    if (!isValidIndex || room.board[index!] !== opponent) return callback({ success: false, error: "Select an opponent's piece!" });
+                    break;
+                case 'wall':
+                case 'double':
+                    if (!isValidIndex || !rules.isLegalMove(room.board, index!, role, room.gameSettings, lastMove)) {
+                        return callback({ success: false, error: "Select an empty square!" });
+                    }
+                    keepTurn = powerUp === 'double';
+                    break;
+                default:
+                    return callback({ success: false, error: "Unknown power-up" });
             }
 
-            if (room.doubleDown) {
-                if (now > room.doubleDown.expiresAt) {
-                    room.doubleDown = undefined;
-                    room.isPaused = false;
-                    
-                    if (room.pausedAt && room.lastMoveTime) {
-                        const pauseDuration = Date.now() - room.pausedAt;
-                        room.lastMoveTime += pauseDuration;
-                        room.pausedAt = undefined;
-                    }
-                    room.doubleDownUsed = true;
-                    room.doubleDownAction = 'declined';
-                    broadcastRoomUpdate(io, roomId);
-                }
-                return;
+            tickBlitzClock(room);
+
+            if (powerUp !== 'undo') {
+                // A Double placement at the Decay limit takes the mover's oldest piece off like any other
+                const removed = powerUp === 'double' ? getDecayingPiece(room.moves, role, rules.pieceLimit(room.gameSettings)) : null;
+                const move = { player: role, index: index!, moveNumber: room.moves.length, powerUp, ...(removed !== null ? { removed } : {}) };
+                room.moves.push(move);
+                room.board = replayMoves(room.initialBoard, room.moves);
             }
 
-            const lastMove = room.lastMoveTime || now;
-            let isTimeout = false;
+            room.powerUps![role][powerUp] = false;
+            trackPowerUp(room, role, powerUp);
 
-            if (room.gameSettings.blitzMode) {
-                const timeBank = room.timeRemaining?.[room.currentPlayer] || 0;
-                const elapsedSeconds = (now - lastMove) / 1000;
-                if (timeBank - elapsedSeconds <= 1.5) {
-                    isTimeout = true;
-                }
+            resolveTurn(io, room, keepTurn);
+            callback({ success: true });
+        });
+
+        // Gomoku Swap/Swap2: once the opening stones are down, the seat to pick takes a side.
+        // Swap2's first pick may instead place one more O and X and hand the pick back.
+        // O moves next either way, so whoever ends up with O plays on.
+        socket.on('chooseSide', ({ roomId, choice }, callback) => {
+            if (isGuest) return callback({ success: false, error: "Guests cannot play." });
+            const room = rooms.get(roomId);
+            if (!room || room.status !== 'choosing_side' || !room.opening || room.isPaused) {
+                if (room) socket.emit('roomUpdate', projectRoom(room, userId));
+                return callback({ success: false, error: "Invalid game state" });
+            }
+
+            const player = room.players.find(p => p.user.id === userId);
+            if (!player || player.role !== room.opening.actor) return callback({ success: false, error: "Not your turn" });
+
+            if (choice === 'extend') {
+                if (!room.opening.canExtend) return callback({ success: false, error: "You can't place more stones now" });
+                tickBlitzClock(room);
+                room.status = 'opening';
+                room.opening = { ...room.opening, pending: [Player.O, Player.X], canExtend: false };
+            } else if (choice === Player.X || choice === Player.O) {
+                tickBlitzClock(room);
+                if (choice !== player.role) swapSides(room);
+                room.status = 'playing';
+                room.opening = undefined;
+                room.openingStones = room.moves.length;
+                room.currentPlayer = Player.O;
             } else {
-                const turnDurationMs = (room.gameSettings.turnDuration || 30) * 1000;
-                if (now - lastMove >= turnDurationMs + 1500) {
-                    isTimeout = true;
-                }
+                return callback({ success: false, error: "Invalid choice" });
             }
 
-            if (isTimeout) {
-                room.winner = room.currentPlayer === Player.X ? Player.O : Player.X;
-                room.winReason = 'timeout';
-                room.status = 'finished';
-                
-                broadcastRoomUpdate(io, roomId);
-                handleGameEnd(room, io).catch(err => console.error("Game End Timeout Error", err));
+            room.lastMoveTime = Date.now();
+            broadcastRoomUpdate(io, roomId);
+            callback({ success: true });
+        });
+
+        // Deadlines are enforced by the server's own timers. A claim only re-checks them early
+        // and answers with the authoritative clock.
+        socket.on('claimTimeout', (roomId) => {
+            if (isGuest) return;
+            const room = rooms.get(roomId);
+            if (!room) return;
+
+            expireRematchOffer(io, roomId);
+            expireDoubleDown(io, roomId);
+            expireTurn(io, roomId);
+
+            const current = rooms.get(roomId);
+            if (current) {
+                socket.emit('roomUpdate', projectRoom(current, userId));
+                emitClockSync(io, current);
             }
         });
 
-        socket.on('sendChat', async ({ roomId, text, replyTo }) => {
+        socket.on('sendChat', async ({ roomId, text, replyTo, channel }) => {
             if (isGuest) return; 
             if (isRateLimited(userId)) return;
             const sanitized = sanitizeChatText(text);
@@ -442,6 +1316,10 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             
             const room = rooms.get(roomId);
             if (room) {
+                // Team chat is only open to the players of a 2v2 game
+                const seat = room.players.find(p => p.user.id === userId);
+                const team = channel === 'team' && isTeamGame(room.gameSettings) && seat && seat.role !== 'spectator' ? getSide(seat.role) : undefined;
+                if (channel === 'team' && !team) return;
                 const qData = getQuestData(user);
                 const message: ChatMessage = {
                     id: Math.random().toString(36).substr(2, 9),
@@ -453,11 +1331,12 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
                     text: sanitized,
                     timestamp: Date.now(),
                     type: 'user',
-                    channel: 'game',
+                    channel: team ? 'team' : 'game',
+                    ...(team ? { team } : {}),
                     replyTo
                 };
                 room.chat.push(message);
-                io.to(roomId).emit('chatMessage', message);
+                emitToReaders(io, room, message, 'chatMessage', message);
             }
         });
 
@@ -473,7 +1352,7 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             
             const friendRoom = Array.from(rooms.values()).find(r => 
                 r.players.some(p => p.user.id === friendId && p.role !== 'spectator' && p.connected) &&
-                (r.status === 'playing' || r.status === 'confirming_wager')
+                (isLive(r) || r.status === 'confirming_wager')
             );
 
             if (friendRoom) {
@@ -509,11 +1388,10 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
                     if (room.status === 'confirming_wager' && player.role !== 'spectator' && !isGuest) {
                         if (room.wagerConfirmed[player.role]) {
                              try {
-                                await prisma.user.update({
-                                    where: { id: userId },
-                                    data: { coins: { increment: room.anteAmount || 0 } }
-                                });
-                                socketService.emitToUser(userId, 'walletUpdate', { newBalance: (await prisma.user.findUnique({where:{id:userId}}))?.coins });
+                                const refunded = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+                                    recordLedger(tx, userId, room.anteAmount || 0, 'WAGER_REFUND', `Left match ${roomId} before it started`, potAccount(roomId), { roomId })
+                                );
+                                socketService.emitToUser(userId, 'walletUpdate', { newBalance: refunded.coins });
                                 room.pot = Math.max(0, room.pot - (room.anteAmount || 0));
                                 room.wagerConfirmed[player.role] = false;
                              } catch(e) { console.error("Refund failed during leaveRoom", e); }
@@ -523,11 +1401,7 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
                     if (player.role === 'spectator') {
                         room.players.splice(playerIndex, 1);
                     } else {
-                        player.connected = false;
-                        if (room.status === 'playing' && !room.winner) {
-                            room.isPaused = true; 
-                            room.pausedAt = Date.now();
-                        }
+                        markSeatDisconnected(room, player);
                     }
                 }
                 
@@ -538,7 +1412,7 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
                 
                 if (room.players.every(p => !p.connected && p.role !== 'spectator')) {
                     if(room.players.filter(p=>p.role === 'spectator').length === 0) {
-                        rooms.delete(roomId);
+                        closeRoom(roomId);
                     }
                 }
             }
@@ -584,6 +1458,105 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
           }
         });
 
+        socket.on('joinLobby', () => {
+            socket.join(LOBBY_ROOM);
+        });
+
+        socket.on('leaveLobby', () => {
+            socket.leave(LOBBY_ROOM);
+        });
+
+        socket.on('sendLobbyChat', async ({ text, replyTo, stickerId }) => {
+            if (isGuest) return;
+            if (isRateLimited(userId)) return;
+            const sanitized = sanitizeChatText(text);
+            if (!sanitized && !stickerId) return;
+
+            const message = await socketService.persistLobbyMessage({ senderId: userId, text: sanitized, replyTo, stickerId });
+            if (message) io.to(LOBBY_ROOM).emit('lobbyChatMessage', message);
+        });
+
+        socket.on('editMessage', async ({ channel, targetId, messageId, newText }) => {
+            if (isGuest) return;
+            if (isRateLimited(userId)) return;
+            const sanitized = sanitizeChatText(newText);
+            if (!sanitized) return;
+
+            try {
+                if (channel === 'game') {
+                    const room = rooms.get(targetId);
+                    const message = room?.chat.find(m => m.id === messageId);
+                    if (!room || !message || message.senderId !== userId || message.deleted) return;
+                    message.text = sanitized;
+                    message.editedAt = Date.now();
+                    emitToReaders(io, room, message, 'messageUpdated', { channel, targetId, message });
+                    activeMatchService.save(room);
+                } else if (channel === 'dm') {
+                    const existing = await socketService.findDirectMessage(messageId, userId, targetId);
+                    if (!existing || existing.senderId !== userId || existing.deleted) return;
+                    const message = await socketService.updateDirectMessage(messageId, { text: sanitized, editedAt: new Date() }, targetId);
+                    socketService.emitToUser(userId, 'messageUpdated', { channel, targetId, message });
+                    socketService.emitToUser(targetId, 'messageUpdated', { channel, targetId: userId, message });
+                }
+            } catch (e) {
+                console.error("Edit message failed", e);
+            }
+        });
+
+        socket.on('deleteMessage', async ({ channel, targetId, messageId }) => {
+            if (isGuest) return;
+            if (isRateLimited(userId)) return;
+
+            try {
+                if (channel === 'game') {
+                    const room = rooms.get(targetId);
+                    const message = room?.chat.find(m => m.id === messageId);
+                    if (!room || !message || message.senderId !== userId || message.deleted) return;
+                    message.deleted = true;
+                    message.text = '';
+                    message.reactions = {};
+                    emitToReaders(io, room, message, 'messageDeleted', { channel, targetId, messageId });
+                    activeMatchService.save(room);
+                } else if (channel === 'dm') {
+                    const existing = await socketService.findDirectMessage(messageId, userId, targetId);
+                    if (!existing || existing.senderId !== userId || existing.deleted) return;
+                    // Content is wiped, the row stays so the conversation keeps its shape
+                    await socketService.updateDirectMessage(messageId, { deleted: true, text: '', reactions: {} }, targetId);
+                    socketService.emitToUser(userId, 'messageDeleted', { channel, targetId, messageId });
+                    socketService.emitToUser(targetId, 'messageDeleted', { channel, targetId: userId, messageId });
+                }
+            } catch (e) {
+                console.error("Delete message failed", e);
+            }
+        });
+
+        socket.on('sendReaction', async ({ channel, targetId, messageId, emoji }) => {
+            if (isGuest) return;
+            if (isRateLimited(userId)) return;
+            if (!emoji || emoji.length > 16) return;
+
+            try {
+                if (channel === 'game') {
+                    const room = rooms.get(targetId);
+                    const message = room?.chat.find(m => m.id === messageId);
+                    // Anyone in the room may react, including spectators
+                    if (!room || !message || message.deleted || !room.players.some(p => p.user.id === userId) || !canReadMessage(room, message, userId)) return;
+                    message.reactions = toggleReaction(message.reactions, emoji, userId);
+                    emitToReaders(io, room, message, 'reactionUpdate', { channel, targetId, messageId, reactions: message.reactions });
+                    activeMatchService.save(room);
+                } else if (channel === 'dm') {
+                    const existing = await socketService.findDirectMessage(messageId, userId, targetId);
+                    if (!existing || existing.deleted) return;
+                    const reactions = toggleReaction(existing.reactions as any, emoji, userId);
+                    await socketService.updateDirectMessage(messageId, { reactions }, targetId);
+                    socketService.emitToUser(userId, 'reactionUpdate', { channel, targetId, messageId, reactions });
+                    socketService.emitToUser(targetId, 'reactionUpdate', { channel, targetId: userId, messageId, reactions });
+                }
+            } catch (e) {
+                console.error("Reaction failed", e);
+            }
+        });
+
         socket.on('markConversationAsRead', async (partnerId) => {
             if (isGuest) return;
             const readAt = Date.now();
@@ -594,15 +1567,29 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             await socketService.markMessagesAsRead(userId, partnerId);
         });
 
+        // Team chat typing goes to the teammate's own sockets only
+        const getTeammateId = (roomId: string): string | undefined => {
+            const room = rooms.get(roomId);
+            const role = room?.players.find(p => p.user.id === userId)?.role;
+            if (!room || !role || role === 'spectator' || !isTeamGame(room.gameSettings)) return undefined;
+            return room.players.find(p => p.role === getTeammate(role))?.user.id;
+        };
+
         socket.on('typing', ({ channel, roomId, toUserId }) => {
             if (isGuest) return;
             if (channel === 'game' && roomId) socket.to(roomId).emit('userTyping', { userId, displayName: user.displayName, channel, roomId });
+            const teammateId = channel === 'team' && roomId ? getTeammateId(roomId) : undefined;
+            if (teammateId) socket.to(teammateId).emit('userTyping', { userId, displayName: user.displayName, channel, roomId });
+            if (channel === 'lobby') socket.to(LOBBY_ROOM).emit('userTyping', { userId, displayName: user.displayName, channel });
             if (channel === 'dm' && toUserId) socketService.emitToUser(toUserId, 'userTyping', { userId, displayName: user.displayName, channel });
         });
 
         socket.on('stopTyping', ({ channel, roomId, toUserId }) => {
             if (isGuest) return;
             if (channel === 'game' && roomId) socket.to(roomId).emit('userStoppedTyping', { userId, channel, roomId });
+            const teammateId = channel === 'team' && roomId ? getTeammateId(roomId) : undefined;
+            if (teammateId) socket.to(teammateId).emit('userStoppedTyping', { userId, channel, roomId });
+            if (channel === 'lobby') socket.to(LOBBY_ROOM).emit('userStoppedTyping', { userId, channel });
             if (channel === 'dm' && toUserId) socketService.emitToUser(toUserId, 'userStoppedTyping', { userId, channel });
         });
 
@@ -621,55 +1608,107 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             });
         });
 
+        socket.on('joinQueue', async ({ settings, wagerTier }, callback) => {
+            if (isGuest) return callback({ success: false, error: "Guests must sign in to play." });
+            if (isRateLimited(userId)) return callback({ success: false, error: "Rate limit exceeded" });
+
+            const ante = WAGER_ANTES[wagerTier];
+            if (ante === undefined) return callback({ success: false, error: "Invalid wager tier" });
+            const invalid = validateSettings(settings);
+            if (invalid) return callback({ success: false, error: invalid });
+            if (settings && isFreeForAll(settings)) return callback({ success: false, error: "Free-for-all rooms are hosted, not matchmade" });
+            if (settings && isTeamGame(settings)) return callback({ success: false, error: "2v2 rooms are hosted, not matchmade" });
+            if (findActiveRoom(userId)) return callback({ success: false, error: "You are already in an active match!" });
+
+            user = await getFreshUser(userId, isGuest, user);
+            if (user.coins < ante) return callback({ success: false, error: "Insufficient funds" });
+
+            // Matchmade games never favour whoever happened to queue first. The queue holds the
+            // settings the room will be built with, so equal rules always share a pool.
+            const queueSettings = normalizeSettings({ ...settings, startingPlayer: 'random' });
+            const elo = ratingService.getPoolElo(user, getRatingPool(queueSettings));
+            matchmakingService.join({ userId, socketId: socket.id, elo, wagerTier, settings: queueSettings, joinedAt: Date.now() });
+
+            callback({ success: true, status: matchmakingService.getStatus(userId) || undefined });
+            runMatchmaking(io).catch(err => console.error("Matchmaking failed", err));
+        });
+
+        socket.on('leaveQueue', () => {
+            matchmakingService.leave(userId);
+        });
+
         socket.on('disconnect', () => {
-            if (!isGuest) {
-                socketService.removeSocket(userId, socket.id);
-            }
+            matchmakingService.leave(userId, socket.id);
+            if (isGuest) return;
+            socketService.removeSocket(userId, socket.id);
+
+            rooms.forEach(room => {
+                const seat = room.players.find(p => p.user.id === userId && p.role !== 'spectator' && p.connected);
+                if (!seat || room.status === 'finished') return;
+                // Another tab of the same user is still in the room
+                const members = io.sockets.adapter.rooms.get(room.id);
+                if (members && Array.from(members).some(id => (io.sockets.sockets.get(id) as any)?.user?.userId === userId)) return;
+
+                markSeatDisconnected(room, seat);
+                broadcastRoomUpdate(io, room.id);
+            });
         });
         
         socket.on('getRooms', () => {
-            const list = Array.from(rooms.values()).filter(r => r.status === 'playing' || r.status === 'waiting');
-            socket.emit('roomsList', list);
+            const list = Array.from(rooms.values()).filter(r => isLive(r) || r.status === 'waiting');
+            socket.emit('roomsList', list.map(r => projectRoom(r, userId)));
         });
         
-        socket.on('requestRematch', async (roomId) => {
+        socket.on('requestRematch', async (roomId, clientSeed) => {
             if (isGuest) return;
             const room = rooms.get(roomId);
             if (room && room.winner) {
                 const playerSeat = room.players.find(p => p.user.id === userId);
                 if (!playerSeat) return;
                 const role = playerSeat.role;
-                if (!role || (role !== Player.X && role !== Player.O)) return;
+                if (!role || role === 'spectator') return;
 
-                if (room.rematchOffer && room.rematchOffer.from !== role) {
-                    const pX = room.players.find(p => p.role === Player.X);
-                    const pO = room.players.find(p => p.role === Player.O);
+                // The rematch starts once every seat has asked for it; the first ask opens the offer
+                const seats = getSeats(room.gameSettings);
+                if (room.rematchOffer && seats.every(seat => seat === role || room.rematchRequested[seat])) {
+                    const seated = seats.map(seat => room.players.find(p => p.role === seat));
                     const ante = room.anteAmount || 0;
 
-                    if (ante > 0 && pX && pO) {
+                    if (ante > 0 && seated.every(p => p)) {
                         try {
-                            const [uX, uO] = await prisma.$transaction([
-                                prisma.user.update({ where: { id: pX.user.id }, data: { coins: { decrement: ante } } }),
-                                prisma.user.update({ where: { id: pO.user.id }, data: { coins: { decrement: ante } } })
-                            ]);
+                            const wallets = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+                                const out: { coins: number }[] = [];
+                                for (const p of seated) {
+                                    out.push(await recordLedger(tx, p!.user.id, -ante, 'WAGER_ANTE', `Rematch ante for match ${roomId}`, potAccount(roomId), { roomId }));
+                                }
+                                return out;
+                            });
                             
-                            socketService.emitToUser(pX.user.id, 'walletUpdate', { newBalance: uX.coins });
-                            socketService.emitToUser(pO.user.id, 'walletUpdate', { newBalance: uO.coins });
+                            seated.forEach((p, i) => socketService.emitToUser(p!.user.id, 'walletUpdate', { newBalance: wallets[i].coins }));
                         } catch (e) {
+                            // No ante is taken if any player can't cover it
                             console.error("Rematch deduction failed", e);
+                            room.rematchOffer = undefined;
+                            room.rematchRequested = {};
+                            io.to(roomId).emit('rematchDeclined');
+                            broadcastRoomUpdate(io, roomId);
+                            return;
                         }
                     }
 
-                    room.board = Array(room.gameSettings.boardSize ** 2).fill(null);
+                    addClientSeed(room, role, clientSeed);
+                    layOutBoard(room);
+                    room.currentPlayer = getRematchStarter(room);
                     room.moves = [];
                     room.winner = null;
                     room.winningLine = null;
-                    room.currentPlayer = room.winner === 'draw' ? (Math.random() < 0.5 ? Player.X : Player.O) : (room.winner === Player.X ? Player.O : Player.X);
                     room.status = 'playing';
+                    room.places = undefined;
+                    beginGomokuOpening(room);
                     room.rematchRequested = {};
                     room.rematchOffer = undefined; 
                     
-                    room.pot = ante * 2; 
+                    room.pot = ante * seats.length; 
                     
                     room.doubleDownUsed = false;
                     room.doubleDown = undefined;
@@ -678,33 +1717,25 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
                     room.lastMoveTime = Date.now();
                     room.isPaused = false;
                     room.pausedAt = undefined;
-                    
-                    if (room.gameSettings.blitzMode) {
-                        room.timeRemaining = {
-                            [Player.X]: room.gameSettings.blitzDuration || 180,
-                            [Player.O]: room.gameSettings.blitzDuration || 180
-                        };
-                    }
+                    grantPowerUps(room);
+                    resetBlitzClocks(room);
 
                     broadcastRoomUpdate(io, roomId);
-                    io.to(roomId).emit('gameReset', room);
+                    emitRoom(io, room, 'gameReset');
                 } else if (!room.rematchOffer) {
                     room.rematchOffer = {
                         from: role,
                         expiresAt: Date.now() + 30000 // 30 seconds
                     };
                     room.rematchRequested[role] = true;
+                    // The rematch's obstacles are committed to before anyone agrees to it
+                    openObstacleCommit(room);
+                    addClientSeed(room, role, clientSeed);
+                    broadcastRoomUpdate(io, roomId);
+                } else {
+                    room.rematchRequested[role] = true;
+                    addClientSeed(room, role, clientSeed);
                     broadcastRoomUpdate(io, roomId);
-
-                    setTimeout(() => {
-                        const currentRoom = rooms.get(roomId);
-                        if (currentRoom && currentRoom.rematchOffer && Date.now() > currentRoom.rematchOffer.expiresAt) {
-                            currentRoom.rematchOffer = undefined;
-                            currentRoom.rematchRequested = {};
-                            io.to(roomId).emit('rematchDeclined');
-                            broadcastRoomUpdate(io, roomId);
-                        }
-                    }, 31000);
                 }
             }
         });
@@ -723,7 +1754,9 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
         socket.on('doubleDownRequest', (roomId) => {
             if (isGuest) return;
             const room = rooms.get(roomId);
-            if (!room || room.doubleDownUsed) return;
+            // Stakes can't be raised while a Gomoku opening is still deciding who plays which side,
+            // and a double down is an offer between two players only
+            if (!room || room.doubleDownUsed || room.opening || getSeats(room.gameSettings).length > 2) return;
             const playerRole = room.players.find(p => p.user.id === userId)?.role;
             if (!playerRole || playerRole === 'spectator') return;
 
@@ -732,22 +1765,6 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             room.doubleDown = { offering: playerRole, expiresAt: Date.now() + 30000 };
             
             broadcastRoomUpdate(io, roomId);
-            
-            setTimeout(() => {
-                const currentRoom = rooms.get(roomId);
-                if (currentRoom && currentRoom.doubleDown) {
-                    currentRoom.doubleDown = undefined;
-                    currentRoom.isPaused = false;
-                    if (currentRoom.pausedAt && currentRoom.lastMoveTime) {
-                        const pauseDuration = Date.now() - currentRoom.pausedAt;
-                        currentRoom.lastMoveTime += pauseDuration;
-                        currentRoom.pausedAt = undefined;
-                    }
-                    currentRoom.doubleDownUsed = true; 
-                    currentRoom.doubleDownAction = 'declined';
-                    broadcastRoomUpdate(io, roomId);
-                }
-            }, 30000);
         });
 
         socket.on('doubleDownResponse', async (roomId, accepted) => {
@@ -757,21 +1774,25 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
             const playerRole = room.players.find(p => p.user.id === userId)?.role;
             if (!playerRole || playerRole === room.doubleDown.offering) return;
 
-            if (room.pausedAt && room.lastMoveTime) {
-                const pauseDuration = Date.now() - room.pausedAt;
-                room.lastMoveTime += pauseDuration; 
+            // Stay paused if the offering player has dropped in the meantime
+            if (room.players.filter(p => p.role !== 'spectator').every(p => p.connected)) {
+                if (room.pausedAt && room.lastMoveTime) {
+                    const pauseDuration = Date.now() - room.pausedAt;
+                    room.lastMoveTime += pauseDuration; 
+                }
+                room.isPaused = false;
+                room.pausedAt = undefined;
             }
-            room.isPaused = false;
-            room.pausedAt = undefined;
 
             if (accepted) {
                 const pX = room.players.find(p => p.role === Player.X);
                 const pO = room.players.find(p => p.role === Player.O);
                 if (pX && pO && room.anteAmount) {
                     try {
-                        const [uX, uO] = await prisma.$transaction([
-                            prisma.user.update({ where: { id: pX.user.id }, data: { coins: { decrement: room.anteAmount } } }),
-                            prisma.user.update({ where: { id: pO.user.id }, data: { coins: { decrement: room.anteAmount } } })
+                        const ante = room.anteAmount;
+                        const [uX, uO] = await prisma.$transaction(async (tx: Prisma.TransactionClient) => [
+                            await recordLedger(tx, pX.user.id, -ante, 'WAGER_DOUBLE', `Double down in match ${roomId}`, potAccount(roomId), { roomId }),
+                            await recordLedger(tx, pO.user.id, -ante, 'WAGER_DOUBLE', `Double down in match ${roomId}`, potAccount(roomId), { roomId })
                         ]);
                         socketService.emitToUser(pX.user.id, 'walletUpdate', { newBalance: uX.coins });
                         socketService.emitToUser(pO.user.id, 'walletUpdate', { newBalance: uO.coins });
@@ -794,8 +1815,16 @@ export const initializeSocketServer = (io: Server<ClientToServerEvents, ServerTo
     });
 };
 
+// A finished game's moves as Move rows. Every entry is numbered by its place in the list.
+const toMoveRecords = (moves: Move[]) => moves.map((m, i) => ({
+    player: m.player, index: m.index, moveNumber: m.moveNumber ?? i, powerUp: m.powerUp, symbol: m.symbol,
+    removed: m.removed, blocked: m.blocked, collapsed: m.collapsed
+}));
+
 async function handleGameEnd(room: Room, io: Server) {
     if (!room.winner) return;
+    if (isFreeForAll(room.gameSettings)) return handleFreeForAllEnd(room, io);
+    if (isTeamGame(room.gameSettings)) return handleTeamGameEnd(room, io);
 
     const pX = room.players.find(p => p.role === Player.X);
     const pO = room.players.find(p => p.role === Player.O);
@@ -807,27 +1836,10 @@ async function handleGameEnd(room: Room, io: Server) {
     let pXCoinChange = 0;
     let pOCoinChange = 0;
 
-    const { winnerNew, loserNew } = calculateElo(
-        winnerSeat ? winnerSeat.user.elo : pX.user.elo, 
-        loserSeat ? loserSeat.user.elo : pO.user.elo
-    );
-    
-    let pXNewElo = pX.user.elo;
-    let pONewElo = pO.user.elo;
-
-    if (room.winner === 'draw') {
-        const drawResult = calculateDrawElo(pX.user.elo, pO.user.elo);
-        pXNewElo = drawResult.p1New;
-        pONewElo = drawResult.p2New;
-    } else if (winnerSeat && loserSeat) {
-        if (room.winner === Player.X) {
-            pXNewElo = winnerNew;
-            pONewElo = loserNew;
-        } else {
-            pONewElo = winnerNew;
-            pXNewElo = loserNew;
-        }
-    }
+    const ratingPool = getRatingPool(room.gameSettings);
+    const scoreX = room.winner === 'draw' ? 0.5 : (room.winner === Player.X ? 1 : 0);
+    const oldEloX = ratingService.getPoolElo(pX.user, ratingPool);
+    const oldEloO = ratingService.getPoolElo(pO.user, ratingPool);
 
     if (room.pot > 0) {
         if (room.winner === 'draw') {
@@ -854,10 +1866,8 @@ async function handleGameEnd(room: Room, io: Server) {
     const pXProgress = calculateLevelProgress(dbUserX.level, dbUserX.xp, pXXP);
     const pOProgress = calculateLevelProgress(dbUserO.level, dbUserO.xp, pOXP);
 
-    const oldEloX = pX.user.elo;
-    const oldEloO = pO.user.elo;
-
-    const txOps: any[] = [];
+    // Run in order inside one interactive transaction so the pot payout can go through the ledger
+    const txOps: ((tx: Prisma.TransactionClient) => Promise<any>)[] = [];
 
     const qDataX = getQuestData(dbUserX);
     if(qDataX.quests) {
@@ -866,7 +1876,8 @@ async function handleGameEnd(room: Room, io: Server) {
             playerRole: Player.X,
             gameMode: 'ONLINE' as any,
             difficulty: room.gameSettings.difficulty,
-            moveCount: room.moves.length
+            moveCount: room.moves.length,
+            powerupsUsed: room.powerUpsUsed?.[Player.X]
         });
     }
 
@@ -877,73 +1888,79 @@ async function handleGameEnd(room: Room, io: Server) {
             playerRole: Player.O,
             gameMode: 'ONLINE' as any,
             difficulty: room.gameSettings.difficulty,
-            moveCount: room.moves.length
+            moveCount: room.moves.length,
+            powerupsUsed: room.powerUpsUsed?.[Player.O]
         });
     }
 
-    txOps.push(prisma.user.update({
+    txOps.push((tx) => tx.user.update({
         where: { id: pX.user.id },
         data: { 
-            elo: pXNewElo, 
             wins: { increment: room.winner === Player.X ? 1 : 0 }, 
             losses: { increment: room.winner === Player.O ? 1 : 0 }, 
             draws: { increment: room.winner === 'draw' ? 1 : 0 },
-            coins: { increment: pXCoinChange },
             xp: pXProgress.newXp,
             level: pXProgress.newLevel,
             questData: qDataX 
         }
     }));
 
-    txOps.push(prisma.user.update({
+    txOps.push((tx) => tx.user.update({
         where: { id: pO.user.id },
         data: { 
-            elo: pONewElo, 
             wins: { increment: room.winner === Player.O ? 1 : 0 }, 
             losses: { increment: room.winner === Player.X ? 1 : 0 }, 
             draws: { increment: room.winner === 'draw' ? 1 : 0 },
-            coins: { increment: pOCoinChange },
             xp: pOProgress.newXp,
             level: pOProgress.newLevel,
             questData: qDataO
         }
     }));
 
-    txOps.push(prisma.match.create({
+    txOps.push((tx) => tx.match.create({
         data: {
             userId: pX.user.id,
             gameMode: 'ONLINE',
             winner: room.winner,
             opponentName: pO.user.displayName,
-            gameSettings: { ...room.gameSettings, winReason: room.winReason },
-            initialBoard: room.initialBoard,
+            gameSettings: toJson({ ...room.gameSettings, winReason: room.winReason }),
+            initialBoard: toJson(room.initialBoard),
             playerRole: Player.X,
             winReason: room.winReason || 'standard',
-            moves: { create: room.moves.map(m => ({ player: m.player, index: m.index, moveNumber: m.moveNumber })) }
+            moves: { create: toMoveRecords(room.moves) }
         }
     }));
 
-    txOps.push(prisma.match.create({
+    txOps.push((tx) => tx.match.create({
         data: {
             userId: pO.user.id,
             gameMode: 'ONLINE',
             winner: room.winner,
             opponentName: pX.user.displayName,
-            gameSettings: { ...room.gameSettings, winReason: room.winReason },
-            initialBoard: room.initialBoard,
+            gameSettings: toJson({ ...room.gameSettings, winReason: room.winReason }),
+            initialBoard: toJson(room.initialBoard),
             playerRole: Player.O,
             winReason: room.winReason || 'standard',
-            moves: { create: room.moves.map(m => ({ player: m.player, index: m.index, moveNumber: m.moveNumber })) }
+            moves: { create: toMoveRecords(room.moves) }
         }
     }));
 
     try {
-        const results = await prisma.$transaction(txOps);
+        const payoutText = room.winner === 'draw' ? `Draw split in match ${room.id}` : `Won match ${room.id}`;
+        const results = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            const out: any[] = [];
+            for (const op of txOps) out.push(await op(tx));
+            const walletX = await recordLedger(tx, pX.user.id, pXCoinChange, 'WAGER_WIN', payoutText, potAccount(room.id), { roomId: room.id });
+            const walletO = await recordLedger(tx, pO.user.id, pOCoinChange, 'WAGER_WIN', payoutText, potAccount(room.id), { roomId: room.id });
+            const ratings = await ratingService.recordGame(tx, ratingPool, { id: pX.user.id, elo: oldEloX }, { id: pO.user.id, elo: oldEloO }, scoreX);
+            return [walletX, walletO, out[2], out[3], ratings];
+        });
         
         const userX = results[0] as User;
         const userO = results[1] as User;
         const matchX = results[2] as MatchRecord;
         const matchO = results[3] as MatchRecord;
+        const ratings = results[4] as { x: PoolRating, o: PoolRating };
 
         socketService.emitToUser(pX.user.id, 'walletUpdate', { newBalance: userX.coins });
         socketService.emitToUser(pO.user.id, 'walletUpdate', { newBalance: userO.coins });
@@ -951,11 +1968,15 @@ async function handleGameEnd(room: Room, io: Server) {
         socketService.emitToUser(pX.user.id, 'questUpdate', { quests: qDataX.quests });
         socketService.emitToUser(pO.user.id, 'questUpdate', { quests: qDataO.quests });
 
-        pX.user.elo = pXNewElo;
-        pO.user.elo = pONewElo;
+        pX.user.ratings = { ...pX.user.ratings, [ratingPool]: ratings.x };
+        pO.user.ratings = { ...pO.user.ratings, [ratingPool]: ratings.o };
+        if (ratingPool === 'classic') {
+            pX.user.elo = ratings.x.rating;
+            pO.user.elo = ratings.o.rating;
+        }
         
-        const reportX = { total: pXXP, elo: pXNewElo - oldEloX, coinChange: pXCoinChange };
-        const reportO = { total: pOXP, elo: pONewElo - oldEloO, coinChange: pOCoinChange };
+        const reportX = { total: pXXP, elo: ratings.x.rating - oldEloX, ratingPool, provisional: ratings.x.provisional, coinChange: pXCoinChange };
+        const reportO = { total: pOXP, elo: ratings.o.rating - oldEloO, ratingPool, provisional: ratings.o.provisional, coinChange: pOCoinChange };
         
         room.xpReport = {
             [Player.X]: reportX as any,
@@ -1009,7 +2030,7 @@ async function handleGameEnd(room: Room, io: Server) {
                 matchId: matchX.id,
                 result: room.winner === 'draw' ? 'draw' : (room.winner === Player.X ? 'win' : 'loss'),
                 opponentName: pO.user.displayName,
-                eloChange: pXNewElo - oldEloX,
+                eloChange: ratings.x.rating - oldEloX,
                 coinChange: pXNet,
                 sender: { id: pO.user.id, displayName: pO.user.displayName, avatar: pO.user.avatar, questData: getQuestData(pO.user) }
             }
@@ -1028,7 +2049,7 @@ async function handleGameEnd(room: Room, io: Server) {
                 matchId: matchO.id,
                 result: room.winner === 'draw' ? 'draw' : (room.winner === Player.O ? 'win' : 'loss'),
                 opponentName: pX.user.displayName,
-                eloChange: pONewElo - oldEloO,
+                eloChange: ratings.o.rating - oldEloO,
                 coinChange: pONet,
                 sender: { id: pX.user.id, displayName: pX.user.displayName, avatar: pX.user.avatar, questData: getQuestData(pX.user) }
             }
@@ -1040,4 +2061,251 @@ async function handleGameEnd(room: Room, io: Server) {
     } catch (e) {
         console.error("Game End DB Transaction Failed:", e);
     }
-}
\ No newline at end of file
+}
+// Free-for-all results: the pot is shared out by finishing place, and each seat is rated
+// against every other seat at once (see ratingService.recordFreeForAll).
+async function handleFreeForAllEnd(room: Room, io: Server) {
+    const places = room.places;
+    const seats = getSeats(room.gameSettings)
+        .map(role => room.players.find(p => p.role === role))
+        .filter((p): p is PlayerSeat => !!p);
+    if (!places || seats.length < FFA_MIN_PLAYERS) return;
+
+    const ratingPool = getRatingPool(room.gameSettings);
+    const payouts = getFfaPayouts(room.pot, places, seats.length, room.gameSettings.ffaRule);
+    const dbUsers = await Promise.all(seats.map(seat =>
+        prisma.user.findUnique({ where: { id: seat.user.id }, select: { level: true, xp: true, questData: true } })
+    ));
+    if (dbUsers.some(u => !u)) return;
+
+    const results = seats.map((seat, i) => {
+        const role = seat.role as Player;
+        const place = places[role] ?? seats.length;
+        const xp = 10 + (room.winner === role ? 25 : 0);
+        const questData = getQuestData(dbUsers[i]);
+        if (questData.quests) {
+            questData.quests = processMatchQuests(questData.quests, {
+                winner: room.winner!,
+                playerRole: role,
+                gameMode: 'ONLINE' as any,
+                difficulty: room.gameSettings.difficulty,
+                moveCount: room.moves.length,
+                powerupsUsed: room.powerUpsUsed?.[role]
+            });
+        }
+        return {
+            seat,
+            role,
+            place,
+            xp,
+            progress: calculateLevelProgress(dbUsers[i]!.level, dbUsers[i]!.xp, xp),
+            questData,
+            oldElo: ratingService.getPoolElo(seat.user, ratingPool),
+            payout: payouts[role] ?? 0,
+            opponents: seats.filter(other => other !== seat).map(other => other.user.displayName).join(', ')
+        };
+    });
+
+    try {
+        const { wallets, matches, ratings } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            const wallets: { coins: number }[] = [];
+            const matches: { id: string }[] = [];
+            for (const r of results) {
+                await tx.user.update({
+                    where: { id: r.seat.user.id },
+                    data: {
+                        wins: { increment: room.winner === r.role ? 1 : 0 },
+                        losses: { increment: r.place > 1 ? 1 : 0 },
+                        draws: { increment: room.winner === 'draw' && r.place === 1 ? 1 : 0 },
+                        xp: r.progress.newXp,
+                        level: r.progress.newLevel,
+                        questData: r.questData
+                    }
+                });
+                matches.push(await tx.match.create({
+                    data: {
+                        userId: r.seat.user.id,
+                        gameMode: 'ONLINE',
+                        winner: room.winner,
+                        opponentName: r.opponents,
+                        gameSettings: toJson({ ...room.gameSettings, winReason: room.winReason }),
+                        initialBoard: toJson(room.initialBoard),
+                        playerRole: r.role,
+                        winReason: room.winReason || 'standard',
+                        moves: { create: toMoveRecords(room.moves) }
+                    }
+                }));
+                wallets.push(await recordLedger(tx, r.seat.user.id, r.payout, 'WAGER_WIN', `Finished ${formatPlace(r.place)} in match ${room.id}`, potAccount(room.id), { roomId: room.id }));
+            }
+            const ratings = await ratingService.recordFreeForAll(tx, ratingPool, results.map(r => ({ id: r.seat.user.id, elo: r.oldElo, place: r.place })));
+            return { wallets, matches, ratings };
+        });
+
+        room.xpReport = {};
+        results.forEach((r, i) => {
+            socketService.emitToUser(r.seat.user.id, 'walletUpdate', { newBalance: wallets[i].coins });
+            socketService.emitToUser(r.seat.user.id, 'questUpdate', { quests: r.questData.quests });
+            r.seat.user.ratings = { ...r.seat.user.ratings, [ratingPool]: ratings[i] };
+            room.xpReport![r.role] = {
+                total: r.xp,
+                elo: ratings[i].rating - r.oldElo,
+                ratingPool,
+                provisional: ratings[i].provisional,
+                coinChange: r.payout,
+                place: r.place
+            };
+        });
+
+        broadcastRoomUpdate(io, room.id);
+
+        const ante = room.anteAmount || 0;
+        for (const [i, r] of results.entries()) {
+            const net = r.payout - ante;
+            await notificationService.send(
+                r.seat.user.id,
+                'match_result',
+                room.winner === r.role ? 'Victory!' : `Finished ${formatPlace(r.place)}`,
+                `You finished ${formatPlace(r.place)} of ${seats.length} against ${r.opponents}` +
+                    (ante > 0 ? (net >= 0 ? ` and won ${net} coins.` : `. Lost ${-net} coins.`) : '.'),
+                {
+                    matchId: matches[i].id,
+                    result: room.winner === r.role ? 'win' : (r.place === 1 ? 'draw' : 'loss'),
+                    opponentName: r.opponents,
+                    eloChange: ratings[i].rating - r.oldElo,
+                    coinChange: net
+                }
+            );
+            await updateLastRoomId(r.seat.user.id, null);
+        }
+    } catch (e) {
+        console.error("Free-for-all Game End DB Transaction Failed:", e);
+    }
+}
+
+// 2v2 results: the winning pair splits the pot, and each player is rated against both opponents.
+// Match records keep the side the team played as playerRole, with the partner as teammateName.
+async function handleTeamGameEnd(room: Room, io: Server) {
+    const winner = room.winner!;
+    const seats = getSeats(room.gameSettings)
+        .map(role => room.players.find(p => p.role === role))
+        .filter((p): p is PlayerSeat => !!p);
+    if (seats.length < getSeats(room.gameSettings).length) return;
+
+    const ratingPool = getRatingPool(room.gameSettings);
+    const dbUsers = await Promise.all(seats.map(seat =>
+        prisma.user.findUnique({ where: { id: seat.user.id }, select: { level: true, xp: true, questData: true } })
+    ));
+    if (dbUsers.some(u => !u)) return;
+
+    const results = seats.map((seat, i) => {
+        const role = seat.role as Player;
+        const side = getSide(role);
+        const won = winner === side;
+        const xp = 10 + (won ? 25 : 0);
+        const questData = getQuestData(dbUsers[i]);
+        if (questData.quests) {
+            questData.quests = processMatchQuests(questData.quests, {
+                winner,
+                playerRole: side,
+                gameMode: 'ONLINE' as any,
+                difficulty: room.gameSettings.difficulty,
+                moveCount: room.moves.length,
+                powerupsUsed: room.powerUpsUsed?.[role]
+            });
+        }
+        return {
+            seat,
+            role,
+            side,
+            won,
+            xp,
+            progress: calculateLevelProgress(dbUsers[i]!.level, dbUsers[i]!.xp, xp),
+            questData,
+            oldElo: ratingService.getPoolElo(seat.user, ratingPool),
+            // A drawn pot goes back a share each, rounded down as a drawn pot is
+            payout: winner === 'draw' ? Math.floor(room.pot / seats.length) : won ? Math.floor(room.pot / TEAM_SIZE) : 0,
+            teammate: room.players.find(p => p.role === getTeammate(role))?.user.displayName,
+            opponents: seats.filter(other => getSide(other.role as Player) !== side).map(other => other.user.displayName).join(' & ')
+        };
+    });
+
+    try {
+        const payoutText = winner === 'draw' ? `Draw split in match ${room.id}` : `Won match ${room.id}`;
+        const { wallets, matches, ratings } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            const wallets: { coins: number }[] = [];
+            const matches: { id: string }[] = [];
+            for (const r of results) {
+                await tx.user.update({
+                    where: { id: r.seat.user.id },
+                    data: {
+                        wins: { increment: r.won ? 1 : 0 },
+                        losses: { increment: winner !== 'draw' && !r.won ? 1 : 0 },
+                        draws: { increment: winner === 'draw' ? 1 : 0 },
+                        xp: r.progress.newXp,
+                        level: r.progress.newLevel,
+                        questData: r.questData
+                    }
+                });
+                matches.push(await tx.match.create({
+                    data: {
+                        userId: r.seat.user.id,
+                        gameMode: 'ONLINE',
+                        winner,
+                        opponentName: r.opponents,
+                        teammateName: r.teammate,
+                        gameSettings: toJson({ ...room.gameSettings, winReason: room.winReason }),
+                        initialBoard: toJson(room.initialBoard),
+                        playerRole: r.side,
+                        winReason: room.winReason || 'standard',
+                        moves: { create: toMoveRecords(room.moves) }
+                    }
+                }));
+                wallets.push(await recordLedger(tx, r.seat.user.id, r.payout, 'WAGER_WIN', payoutText, potAccount(room.id), { roomId: room.id }));
+            }
+            const ratings = await ratingService.recordTeamGame(tx, ratingPool, results.map(r => ({ id: r.seat.user.id, elo: r.oldElo, side: r.side })), winner);
+            return { wallets, matches, ratings };
+        });
+
+        room.xpReport = {};
+        results.forEach((r, i) => {
+            socketService.emitToUser(r.seat.user.id, 'walletUpdate', { newBalance: wallets[i].coins });
+            socketService.emitToUser(r.seat.user.id, 'questUpdate', { quests: r.questData.quests });
+            r.seat.user.ratings = { ...r.seat.user.ratings, [ratingPool]: ratings[i] };
+            room.xpReport![r.role] = {
+                total: r.xp,
+                elo: ratings[i].rating - r.oldElo,
+                ratingPool,
+                provisional: ratings[i].provisional,
+                coinChange: r.payout
+            };
+        });
+
+        broadcastRoomUpdate(io, room.id);
+
+        const ante = room.anteAmount || 0;
+        for (const [i, r] of results.entries()) {
+            const net = r.payout - ante;
+            const withTeammate = r.teammate ? ` with ${r.teammate}` : '';
+            await notificationService.send(
+                r.seat.user.id,
+                'match_result',
+                winner === 'draw' ? 'Match Draw' : (r.won ? 'Victory!' : 'Defeat'),
+                winner === 'draw'
+                    ? `Draw${withTeammate} against ${r.opponents}.`
+                    : (r.won
+                        ? `You${withTeammate} defeated ${r.opponents}` + (ante > 0 ? ` and won ${net} coins!` : '!')
+                        : `You${withTeammate} lost to ${r.opponents}.` + (ante > 0 ? ` Lost ${ante} coins.` : '')),
+                {
+                    matchId: matches[i].id,
+                    result: winner === 'draw' ? 'draw' : (r.won ? 'win' : 'loss'),
+                    opponentName: r.opponents,
+                    eloChange: ratings[i].rating - r.oldElo,
+                    coinChange: net
+                }
+            );
+            await updateLastRoomId(r.seat.user.id, null);
+        }
+    } catch (e) {
+        console.error("2v2 Game End DB Transaction Failed:", e);
+    }
+}
@@ -0,0 +1,149 @@
+import { BoardState, Player } from './types';
+import { SUB_BOARD_CELLS, THREE_BY_THREE_LINES } from '../../shared/rules';
+
+// Cell codes in the typed board
+const EMPTY = 0;
+const X = 1;
+const O = 2;
+
+// Sub-board states: open, or won by X (1) / O (2), or full without a line
+const OPEN = 0;
+const DRAWN = 3;
+
+const toCell = (player: Player) => player === Player.X ? X : O;
+
+// Lines through each position of a 3x3 grid, so a move only walks its own lines
+const LINES_THROUGH = Array.from({ length: 9 }, (_, pos) => THREE_BY_THREE_LINES.filter(line => line.includes(pos)));
+
+// Centre, then corners, then edges: used for cells inside a sub-board and for sub-boards on the meta-board
+const POSITION_WEIGHT = [3, 2, 3, 2, 4, 2, 3, 2, 3];
+
+export interface UltimateWeights {
+    subBoard: number;
+    metaTwo: number;
+    localTwo: number;
+}
+
+/**
+ * Mutable Ultimate board for the AI search. Sub-board results are kept up to date as moves are
+ * made and unmade, so a meta-board win is found from the last move alone.
+ */
+export class UltimateSearchBoard {
+    readonly cells = new Int8Array(SUB_BOARD_CELLS * 9);
+    readonly subs = new Int8Array(9);
+    private readonly filled = new Uint8Array(9);
+    // The sub-board state before each move still on the board
+    private readonly history: number[] = [];
+    private decided = 0;
+
+    constructor(board: BoardState) {
+        board.forEach((value, i) => {
+            if (value !== Player.X && value !== Player.O) return;
+            this.cells[i] = toCell(value);
+            this.filled[Math.floor(i / SUB_BOARD_CELLS)]++;
+        });
+        for (let sub = 0; sub < 9; sub++) {
+            const offset = sub * SUB_BOARD_CELLS;
+            const winningLine = THREE_BY_THREE_LINES.find(([a, b, c]) =>
+                this.cells[offset + a] !== EMPTY && this.cells[offset + a] === this.cells[offset + b] && this.cells[offset + a] === this.cells[offset + c]);
+            if (winningLine) this.subs[sub] = this.cells[offset + winningLine[0]];
+            else if (this.filled[sub] === SUB_BOARD_CELLS) this.subs[sub] = DRAWN;
+            if (this.subs[sub] !== OPEN) this.decided++;
+        }
+    }
+
+    play(index: number, player: Player) {
+        const sub = Math.floor(index / SUB_BOARD_CELLS);
+        const cell = toCell(player);
+        this.history.push(this.subs[sub]);
+        this.cells[index] = cell;
+        this.filled[sub]++;
+        if (this.subs[sub] !== OPEN) return;
+
+        const offset = sub * SUB_BOARD_CELLS;
+        const wins = LINES_THROUGH[index - offset].some(line => line.every(pos => this.cells[offset + pos] === cell));
+        if (wins) this.subs[sub] = cell;
+        else if (this.filled[sub] === SUB_BOARD_CELLS) this.subs[sub] = DRAWN;
+        if (this.subs[sub] !== OPEN) this.decided++;
+    }
+
+    undo(index: number) {
+        const sub = Math.floor(index / SUB_BOARD_CELLS);
+        const previous = this.history.pop()!;
+        if (this.subs[sub] !== OPEN && previous === OPEN) this.decided--;
+        this.subs[sub] = previous;
+        this.cells[index] = EMPTY;
+        this.filled[sub]--;
+    }
+
+    // Whether the move on index took its sub-board and with it a line of the meta-board
+    winsGame(index: number): boolean {
+        const sub = Math.floor(index / SUB_BOARD_CELLS);
+        const owner = this.subs[sub];
+        if (owner !== X && owner !== O) return false;
+        return LINES_THROUGH[sub].some(line => line.every(s => this.subs[s] === owner));
+    }
+
+    isOver() {
+        return this.decided === 9;
+    }
+
+    /**
+     * Legal moves after lastMove (-1 for a free choice). Moves that hand the opponent a free choice
+     * (by sending them to a decided sub-board) come last, the rest go centre, corners, edges.
+     */
+    orderedMoves(lastMove: number): number[] {
+        const target = lastMove >= 0 ? lastMove % SUB_BOARD_CELLS : -1;
+        const moves: number[] = [];
+        for (let sub = 0; sub < 9; sub++) {
+            if (this.subs[sub] !== OPEN || (target >= 0 && this.subs[target] === OPEN && sub !== target)) continue;
+            for (let i = sub * SUB_BOARD_CELLS; i < (sub + 1) * SUB_BOARD_CELLS; i++) {
+                if (this.cells[i] === EMPTY) moves.push(i);
+            }
+        }
+        const priority = (i: number) => {
+            const cell = i % SUB_BOARD_CELLS;
+            return (this.subs[cell] === OPEN ? 10 : 0) + POSITION_WEIGHT[cell];
+        };
+        return moves.sort((a, b) => priority(b) - priority(a));
+    }
+
+    // Won sub-boards, meta-board lines two sub-boards from done, and two-in-a-rows inside open sub-boards, from player's point of view
+    evaluate(player: Player, weights: UltimateWeights): number {
+        const own = toCell(player);
+        const { cells, subs } = this;
+        let score = 0;
+
+        for (let sub = 0; sub < 9; sub++) {
+            const weight = POSITION_WEIGHT[sub];
+            if (subs[sub] === DRAWN) continue;
+            if (subs[sub] !== OPEN) {
+                score += (subs[sub] === own ? 1 : -1) * weights.subBoard * weight;
+                continue;
+            }
+            const offset = sub * SUB_BOARD_CELLS;
+            for (const line of THREE_BY_THREE_LINES) {
+                let mine = 0, theirs = 0;
+                for (const pos of line) {
+                    const cell = cells[offset + pos];
+                    if (cell === own) mine++;
+                    else if (cell !== EMPTY) theirs++;
+                }
+                if (mine === 2 && theirs === 0) score += weights.localTwo * weight;
+                else if (theirs === 2 && mine === 0) score -= weights.localTwo * weight;
+            }
+        }
+
+        for (const line of THREE_BY_THREE_LINES) {
+            let mine = 0, theirs = 0, open = 0;
+            for (const sub of line) {
+                if (subs[sub] === OPEN) open++;
+                else if (subs[sub] === own) mine++;
+                else if (subs[sub] !== DRAWN) theirs++;
+            }
+            if (mine === 2 && open === 1) score += weights.metaTwo;
+            else if (theirs === 2 && open === 1) score -= weights.metaTwo;
+        }
+        return score;
+    }
+}
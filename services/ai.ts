@@ -1,6 +1,7 @@
 
-import { BoardState, GameSettings, MoveAnalysis, Player } from '../types';
+import { BoardState, GameSettings, Move, MoveAnalysis, Player } from '../types';
 import { API_URL } from '../utils/config';
+import { getVariantRules } from '../shared/rules';
 
 /**
  * Calculates the best move for the AI using the server-side logic.
@@ -10,19 +11,23 @@ import { API_URL } from '../utils/config';
  * @param settings The game settings (difficulty, size, etc.).
  * @param usedTaunts A list of taunts already used in this session to avoid repetition.
  * @param player The AI player (usually 'O').
+ * @param lastMove The previous placement, which decides where an Ultimate move may go.
+ * @param moves The game's moves so far, which decide which pieces vanish next in Decay and when the next ring collapses in Sudden Death.
  * @returns A promise that resolves to the best move index and a reason/taunt.
  */
 export const findBestMove = async (
     board: BoardState, 
     settings: GameSettings, 
     usedTaunts: string[] = [], 
-    player: Player = Player.O
+    player: Player = Player.O,
+    lastMove?: number,
+    moves: Move[] = []
 ): Promise<MoveAnalysis> => {
     try {
         const response = await fetch(`${API_URL}/ai/move`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ board, settings, usedTaunts, player })
+            body: JSON.stringify({ board, settings, usedTaunts, player, lastMove, moves })
         });
 
         if (!response.ok) {
@@ -32,11 +37,11 @@ export const findBestMove = async (
         return await response.json();
     } catch (error) {
         console.error("AI Calculation Error:", error);
-        // Fail-safe: If server is unreachable, find the first available empty spot
+        // Fail-safe: If server is unreachable, play the first legal move
         // to prevent the game from freezing.
-        const emptyIndex = board.findIndex(c => c === null);
+        const [firstMove = -1] = getVariantRules(settings.variant).getLegalMoves(board, player, settings, lastMove);
         return {
-            move: emptyIndex,
+            move: firstMove,
             reason: "My brain is offline... playing random."
         };
     }
@@ -1,9 +1,13 @@
 
 import { io, Socket } from 'socket.io-client';
-import { Room, GameSettings, ClientToServerEvents, ServerToClientEvents, User, ChatMessage, Clan, Notification, WagerTier, Quest } from '../types';
+import { Room, GameSettings, ClientToServerEvents, ServerToClientEvents, User, ChatMessage, Clan, Notification, WagerTier, Quest, PowerUp, QueueStatus, ClockSync, RatingPool, Player, SideChoice } from '../types';
 import { SERVER_URL, API_URL } from '../utils/config';
 import { getToken } from './auth';
 
+// This player's share of a game's obstacle seed (see ObstacleCommit)
+const createClientSeed = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
 class OnlineService {
   private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
 
@@ -60,8 +64,8 @@ class OnlineService {
       throw new Error(data.message || "Something went wrong 😵");
   }
 
-  async getLeaderboard(): Promise<User[]> {
-      const res = await fetch(`${API_URL}/leaderboard`);
+  async getLeaderboard(pool: RatingPool = 'classic'): Promise<User[]> {
+      const res = await fetch(`${API_URL}/leaderboard?pool=${pool}`);
       return this.handleResponse(res);
   }
 
@@ -88,6 +92,19 @@ class OnlineService {
       }
   }
 
+  async getLobbyHistory(cursor?: string | null): Promise<{ messages: ChatMessage[], nextCursor: string | null }> {
+      try {
+          const url = new URL(`${API_URL}/lobby/messages`);
+          if (cursor) url.searchParams.append('cursor', cursor);
+
+          const res = await fetch(url.toString(), { headers: this.getHeaders() });
+          return this.handleResponse(res);
+      } catch (e) {
+          console.error(e);
+          return { messages: [], nextCursor: null };
+      }
+  }
+
   // --- Clan Methods ---
   async createClan(name: string, tag: string): Promise<Clan> {
       try {
@@ -155,6 +172,25 @@ class OnlineService {
     });
   }
 
+  joinQueue(settings: Partial<GameSettings>, wagerTier: WagerTier): Promise<QueueStatus | undefined> {
+    return new Promise((resolve, reject) => {
+        if (!this.socket || !this.socket.connected) {
+            return reject(new Error("📡 Not connected to server."));
+        }
+        this.socket.emit('joinQueue', { settings, wagerTier }, (response) => {
+            if (response.success) {
+                resolve(response.status);
+            } else {
+                reject(new Error(response.error || "Failed to join queue."));
+            }
+        });
+    });
+  }
+
+  leaveQueue() {
+      this.socket?.emit('leaveQueue');
+  }
+
   startGame(roomId: string) {
       this.socket?.emit('startGame', roomId);
   }
@@ -163,13 +199,18 @@ class OnlineService {
       this.socket?.emit('getRooms');
   }
 
+  // 2v2 rooms: move to the other side's open seat before the game starts
+  switchTeam(roomId: string) {
+      this.socket?.emit('switchTeam', roomId);
+  }
+
   leaveRoom(roomId: string) {
       // Remove persistent state on server via socket event logic if needed,
       // but primarily we just tell the server we are leaving.
       this.socket?.emit('leaveRoom', roomId);
   }
 
-  makeMove(data: { roomId: string, index: number }): Promise<void> {
+  makeMove(data: { roomId: string, index: number, symbol?: Player }): Promise<void> {
     return new Promise((resolve, reject) => {
         if (!this.socket) {
             return reject('Not connected.');
@@ -185,8 +226,41 @@ class OnlineService {
     });
   }
 
+  // Gomoku Swap/Swap2: take a side once the opening stones are down, or place two more (Swap2)
+  chooseSide(data: { roomId: string, choice: SideChoice }): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (!this.socket) {
+            return reject('Not connected.');
+        }
+
+        this.socket.emit('chooseSide', data, (response) => {
+            if (response.success) {
+                resolve();
+            } else {
+                reject(new Error(response.error || 'Error choosing a side.'));
+            }
+        });
+    });
+  }
+
+  usePowerUp(data: { roomId: string, powerUp: PowerUp, index?: number }): Promise<{ hintIndex?: number | null }> {
+    return new Promise((resolve, reject) => {
+        if (!this.socket) {
+            return reject('Not connected.');
+        }
+
+        this.socket.emit('usePowerUp', data, (response) => {
+            if (response.success) {
+                resolve({ hintIndex: response.hintIndex });
+            } else {
+                reject(new Error(response.error || 'Error using power-up.'));
+            }
+        });
+    });
+  }
+
   requestRematch(roomId: string) {
-    this.socket?.emit('requestRematch', roomId);
+    this.socket?.emit('requestRematch', roomId, createClientSeed());
   }
 
   declineRematch(roomId: string) {
@@ -197,8 +271,9 @@ class OnlineService {
       this.socket?.emit('sendInvite', friendId, roomId);
   }
 
-  sendChat(roomId: string, text: string, replyTo?: any) {
-      this.socket?.emit('sendChat', { roomId, text, replyTo });
+  // channel 'team' reaches only the sender's side in a 2v2 game
+  sendChat(roomId: string, text: string, replyTo?: any, channel?: 'game' | 'team') {
+      this.socket?.emit('sendChat', { roomId, text, replyTo, channel });
   }
 
   sendEmote(roomId: string, emoji: string) {
@@ -206,7 +281,7 @@ class OnlineService {
   }
 
   confirmWager(roomId: string) {
-    this.socket?.emit('confirmWager', roomId);
+    this.socket?.emit('confirmWager', roomId, createClientSeed());
   }
 
   doubleDownRequest(roomId: string) {
@@ -255,11 +330,11 @@ class OnlineService {
   }
 
   // --- Typing Methods ---
-  sendTyping(data: { channel: 'game' | 'lobby' | 'dm', roomId?: string, toUserId?: string }) {
+  sendTyping(data: { channel: 'game' | 'team' | 'lobby' | 'dm', roomId?: string, toUserId?: string }) {
       this.socket?.emit('typing', data);
   }
 
-  sendStopTyping(data: { channel: 'game' | 'lobby' | 'dm', roomId?: string, toUserId?: string }) {
+  sendStopTyping(data: { channel: 'game' | 'team' | 'lobby' | 'dm', roomId?: string, toUserId?: string }) {
       this.socket?.emit('stopTyping', data);
   }
 
@@ -286,6 +361,42 @@ class OnlineService {
       else this.socket?.off('roomsList');
   }
 
+  onQueueUpdate(callback: (status: QueueStatus) => void) {
+      this.socket?.on('queueUpdate', callback);
+  }
+
+  offQueueUpdate(callback?: (status: QueueStatus) => void) {
+      if (callback) this.socket?.off('queueUpdate', callback);
+      else this.socket?.off('queueUpdate');
+  }
+
+  onQueueLeft(callback: (data: { reason: string }) => void) {
+      this.socket?.on('queueLeft', callback);
+  }
+
+  offQueueLeft(callback?: (data: { reason: string }) => void) {
+      if (callback) this.socket?.off('queueLeft', callback);
+      else this.socket?.off('queueLeft');
+  }
+
+  onMatchFound(callback: (data: { roomId: string, opponentName: string }) => void) {
+      this.socket?.on('matchFound', callback);
+  }
+
+  offMatchFound(callback?: (data: { roomId: string, opponentName: string }) => void) {
+      if (callback) this.socket?.off('matchFound', callback);
+      else this.socket?.off('matchFound');
+  }
+
+  onClockSync(callback: (data: ClockSync) => void) {
+      this.socket?.on('clockSync', callback);
+  }
+
+  offClockSync(callback?: (data: ClockSync) => void) {
+      if (callback) this.socket?.off('clockSync', callback);
+      else this.socket?.off('clockSync');
+  }
+
   onGameReset(callback: (room: Room) => void) {
       this.socket?.on('gameReset', callback);
   }
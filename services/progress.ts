@@ -6,7 +6,7 @@
 
 
 
-import { UserProgress, GameVariant, Difficulty, ShopItem, CampaignLevel, User, Quest } from '../types';
+import { UserProgress, GameVariant, Difficulty, ShopItem, CampaignLevel, User, Quest, Move, BoardState, WalletTransaction } from '../types';
 import { getToken } from './auth';
 import { API_URL } from '../utils/config';
 
@@ -273,7 +273,8 @@ class ProgressService {
         } catch (e) { return false; }
     }
 
-    async completeLevel(level: CampaignLevel, moveCount: number = 0) {
+    // The server replays the game before paying out, so the full move list goes with the result
+    async completeLevel(level: CampaignLevel, match: { moves: Move[], initialBoard: BoardState, obstacleSeed?: string }) {
         // Handle Tower Floor Completion
         if (level.id > 1000) {
             const floor = level.id - 1000;
@@ -287,7 +288,7 @@ class ProgressService {
             if (!getToken()) return;
             try {
                 await fetch(`${API_URL}/tower/complete`, {
-                    method: 'POST', headers: this.getHeaders(), body: JSON.stringify({ floor: floor, reward: level.rewardCoins })
+                    method: 'POST', headers: this.getHeaders(), body: JSON.stringify({ floor: floor, moves: match.moves, initialBoard: match.initialBoard, obstacleSeed: match.obstacleSeed })
                 });
             } catch (e) { console.error(e); }
             return;
@@ -307,7 +308,7 @@ class ProgressService {
 
         try {
             const res = await fetch(`${API_URL}/campaign/complete`, {
-                method: 'POST', headers: this.getHeaders(), body: JSON.stringify({ levelId: level.id, reward: level.rewardCoins, moves: moveCount, isHardMode: level.isHardMode })
+                method: 'POST', headers: this.getHeaders(), body: JSON.stringify({ levelId: level.id, moves: match.moves, initialBoard: match.initialBoard, obstacleSeed: match.obstacleSeed, isHardMode: level.isHardMode })
             });
             if (res.ok) {
                 const data = await res.json();
@@ -497,6 +498,14 @@ class ProgressService {
         } catch (e) { return false; }
     }
 
+    async getWalletTransactions(cursor?: string | null): Promise<{ transactions: WalletTransaction[], nextCursor: string | null }> {
+        if (!getToken()) return { transactions: [], nextCursor: null };
+        const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+        const res = await fetch(`${API_URL}/me/wallet/transactions${query}`, { headers: this.getHeaders() });
+        if (!res.ok) throw new Error("Failed to load wallet history.");
+        return res.json();
+    }
+
     async claimSecurityReward(type: 'email' | 'mfa' | 'password'): Promise<{ success: boolean, reward: number }> {
         try {
             const res = await fetch(`${API_URL}/me/security-reward`, { 
@@ -0,0 +1,207 @@
+import { BoardState, Move, Player, WinningLine } from '../types';
+
+const LINE_DIRECTIONS = [
+  { r: 0, c: 1 }, // Horizontal
+  { r: 1, c: 0 }, // Vertical
+  { r: 1, c: 1 }, // Diagonal down-right
+  { r: 1, c: -1 }, // Diagonal down-left
+];
+
+// On a toroidal board a line that runs off one edge carries on from the opposite edge
+const wrapper = (boardSize: number, toroidal?: boolean) =>
+  toroidal ? (v: number) => (v + boardSize) % boardSize : (v: number) => v;
+
+// Lines are returned in order from one end to the other, which on a toroidal board may cross an edge.
+// As in completesLine, a line never holds more than boardSize cells, so a wrapped line can't reuse one.
+export const checkWinner = (
+  board: BoardState,
+  boardSize: number,
+  winLength: number,
+  toroidal = false
+): { winner: Player | 'draw' | null; line: WinningLine | null } => {
+  const wrap = wrapper(boardSize, toroidal);
+  for (let r = 0; r < boardSize; r++) {
+    for (let c = 0; c < boardSize; c++) {
+      const player = board[r * boardSize + c];
+      if (!player || player === 'OBSTACLE') continue;
+
+      for (const dir of LINE_DIRECTIONS) {
+        const line: number[] = [];
+        let win = true;
+        for (let i = 0; i < winLength; i++) {
+          const newR = wrap(r + i * dir.r);
+          const newC = wrap(c + i * dir.c);
+          const index = newR * boardSize + newC;
+
+          if (
+            i >= boardSize ||
+            newR < 0 || newR >= boardSize ||
+            newC < 0 || newC >= boardSize ||
+            board[index] !== player
+          ) {
+            win = false;
+            break;
+          }
+          line.push(index);
+        }
+        if (win) {
+          return { winner: player as Player, line };
+        }
+      }
+    }
+  }
+
+  if (board.every(square => square !== null)) {
+    return { winner: 'draw', line: null };
+  }
+
+  return { winner: null, line: null };
+};
+
+// Whether a piece of the player's at index (placed or about to be) sits on a full line.
+// Only the four lines through that cell are walked, so this is the cheap check after a single move.
+// A line never holds more than boardSize cells, which also stops a walk round a full toroidal ring.
+export const completesLine = (
+  board: BoardState,
+  index: number,
+  player: Player,
+  settings: { boardSize: number; winLength: number; toroidal?: boolean }
+): boolean => {
+  const { boardSize, winLength } = settings;
+  const wrap = wrapper(boardSize, settings.toroidal);
+  const row = Math.floor(index / boardSize);
+  const col = index % boardSize;
+
+  for (const dir of LINE_DIRECTIONS) {
+    let count = 1;
+    for (const sign of [1, -1]) {
+      let r = wrap(row + sign * dir.r);
+      let c = wrap(col + sign * dir.c);
+      while (count < boardSize && r >= 0 && r < boardSize && c >= 0 && c < boardSize && board[r * boardSize + c] === player) {
+        count++;
+        r = wrap(r + sign * dir.r);
+        c = wrap(c + sign * dir.c);
+      }
+    }
+    if (count >= winLength) return true;
+  }
+  return false;
+};
+
+// Where a piece dropped into column would come to rest: it falls until the cell below is
+// taken (a piece or an obstacle) or it reaches the bottom row. Null when the column is full.
+export const getDropIndex = (board: BoardState, column: number, boardSize: number): number | null => {
+  if (board[column] !== null) return null;
+  let index = column;
+  while (index + boardSize < board.length && board[index + boardSize] === null) {
+    index += boardSize;
+  }
+  return index;
+};
+
+// The first of the candidates that would complete a line for the player, by the variant's own line
+// check (completesLine, completesCubeLine...). Pass the variant's legal moves as candidates;
+// by default every empty cell is tried.
+export const findWinningMove = (
+  board: BoardState,
+  player: Player,
+  candidates: number[] | undefined,
+  completes: (board: BoardState, index: number, player: Player) => boolean
+): number | null => {
+  const moves = candidates ?? board.flatMap((cell, i) => cell === null ? [i] : []);
+  return moves.find(i => completes(board, i, player)) ?? null;
+};
+
+// Counts how many immediate winning moves (threats) a player has on the board.
+// A "fork" or "trap" is created when this count is 2 or more.
+export const countThreats = (board: BoardState, player: Player, settings: { boardSize: number; winLength: number; toroidal?: boolean }): number => {
+  const work = [...board];
+  let threats = 0;
+  for (let i = 0; i < work.length; i++) {
+    if (work[i] !== null) continue;
+    work[i] = player;
+    if (findWinningMove(work, player, undefined, (b, index, p) => completesLine(b, index, p, settings)) !== null) threats++;
+    work[i] = null;
+  }
+  return threats;
+};
+
+// Empty cells (or the given candidates) the player can take without completing a line of their own (Misère's only safe moves).
+export const getSafeMoves = (
+  board: BoardState,
+  player: Player,
+  settings: { boardSize: number; winLength: number; toroidal?: boolean },
+  candidates?: number[]
+): number[] => {
+  if (candidates) return candidates.filter(i => !completesLine(board, i, player, settings));
+  const safe: number[] = [];
+  for (let i = 0; i < board.length; i++) {
+    if (board[i] === null && !completesLine(board, i, player, settings)) safe.push(i);
+  }
+  return safe;
+};
+
+// Applies a single recorded move (plain placement, power-up or board event) to a board copy.
+export const applyMoveToBoard = (board: BoardState, move: Move): BoardState => {
+  const next = [...board];
+  // Sudden Death: a collapsing ring turns its empty cells into obstacles
+  if (move.collapsed != null) {
+    for (const index of move.collapsed) next[index] = 'OBSTACLE';
+    return next;
+  }
+  // Fog: running into a hidden piece leaves the board as it was
+  if (move.blocked) return next;
+  switch (move.powerUp) {
+    case 'destroy':
+      next[move.index] = null;
+      break;
+    case 'wall':
+      next[move.index] = 'OBSTACLE';
+      break;
+    default:
+      // Plain moves, 'double' and 'convert' all leave the mover's symbol on the cell (or the chosen one, in Wild)
+      next[move.index] = move.symbol ?? move.player;
+  }
+  // Decay: the mover's oldest piece goes as the new one lands
+  if (move.removed != null) next[move.removed] = null;
+  return next;
+};
+
+// Rebuilds a board from its initial state and a move list.
+// An 'undo' entry rewinds the two board changes before it.
+export const replayMoves = (initialBoard: BoardState, moves: Move[]): BoardState => {
+  const history: BoardState[] = [];
+  let board = [...initialBoard];
+  for (const move of moves) {
+    if (move.powerUp === 'undo') {
+      history.pop();
+      board = history.pop() || [...initialBoard];
+      continue;
+    }
+    if (move.powerUp === 'hint') continue;
+    history.push(board);
+    board = applyMoveToBoard(board, move);
+  }
+  return board;
+};
+
+// The cells of the moves still on the board, oldest first, following the same undo rules as replayMoves.
+export const getPlacements = (moves: Move[]): number[] => {
+  const placed: number[] = [];
+  for (const move of moves) {
+    if (move.powerUp === 'undo') {
+      placed.splice(-2, 2);
+      continue;
+    }
+    if (move.powerUp === 'hint' || move.collapsed != null) continue;
+    placed.push(move.index);
+  }
+  return placed;
+};
+
+// The cell of the last move still on the board.
+// Ultimate uses it to work out which sub-board the next move is sent to.
+export const getLastPlacement = (moves: Move[]): number | undefined => {
+  const placed = getPlacements(moves);
+  return placed[placed.length - 1];
+};
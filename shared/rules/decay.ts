@@ -0,0 +1,75 @@
+import { BoardState, Move, ObstacleLayout, Player } from '../types';
+import { completesLine, findWinningMove } from './board';
+import { getObstacleCount } from './obstacles';
+
+// Decay: each player keeps at most `limit` pieces on the board. Placing one more takes that
+// player's oldest piece off, so the board never fills and a game can't be drawn.
+
+// The largest limit that still leaves an empty cell with both players at their limit
+export const getMaxDecayLimit = (boardSize: number, obstacles?: boolean, layout?: ObstacleLayout): number =>
+  Math.floor((boardSize * boardSize - (obstacles ? getObstacleCount(boardSize, layout) : 0) - 1) / 2);
+
+// The limit in play: at least winLength, or nobody could ever complete a line, and at most getMaxDecayLimit
+export const getDecayLimit = (settings: { boardSize: number; winLength: number; obstacles?: boolean; obstacleLayout?: ObstacleLayout; decayLimit?: number }): number =>
+  Math.min(getMaxDecayLimit(settings.boardSize, settings.obstacles, settings.obstacleLayout), Math.max(settings.winLength, settings.decayLimit ?? settings.winLength));
+
+// Each player's pieces still on the board, oldest first. Follows the same undo rules as
+// replayMoves; Decay disables the power-ups that could take a piece off any other way.
+export const getPieceOrder = (moves: Move[]): { [key in Player]: number[] } => {
+  const live: Move[] = [];
+  for (const move of moves) {
+    if (move.powerUp === 'undo') {
+      live.splice(-2, 2);
+      continue;
+    }
+    if (move.powerUp === 'hint') continue;
+    live.push(move);
+  }
+
+  const order: { [key in Player]: number[] } = { [Player.X]: [], [Player.O]: [], [Player.TRIANGLE]: [], [Player.SQUARE]: [] };
+  for (const move of live) {
+    if (move.removed != null) order[move.player] = order[move.player].filter(i => i !== move.removed);
+    if (!move.powerUp || move.powerUp === 'double') order[move.player].push(move.index);
+  }
+  return order;
+};
+
+// The piece the player loses with their next placement ("about to vanish"), or null while they are
+// under the limit. A null limit (any variant but Decay) never removes anything.
+export const getDecayingPiece = (moves: Move[], player: Player, limit: number | null): number | null => {
+  if (limit === null) return null;
+  const pieces = getPieceOrder(moves)[player];
+  return pieces.length >= limit ? pieces[0] : null;
+};
+
+// Like completesLine, but with the player's vanishing piece already off the board. moves is the
+// game so far; without them nothing vanishes.
+export const completesDecayLine = (
+  board: BoardState,
+  index: number,
+  player: Player,
+  settings: { boardSize: number; winLength: number; toroidal?: boolean; decayLimit?: number },
+  moves: Move[] = []
+): boolean => {
+  const removed = getDecayingPiece(moves, player, getDecayLimit(settings));
+  if (removed === null) return completesLine(board, index, player, settings);
+  const work = [...board];
+  work[removed] = null;
+  return completesLine(work, index, player, settings);
+};
+
+// Like findWinningMove, but with the player's vanishing piece already off the board: a line that
+// needs it doesn't count. The candidates default to the cells that are empty now.
+export const findDecayWinningMove = (
+  board: BoardState,
+  moves: Move[],
+  player: Player,
+  settings: { boardSize: number; winLength: number; toroidal?: boolean; decayLimit?: number },
+  candidates?: number[]
+): number | null => {
+  const removed = getDecayingPiece(moves, player, getDecayLimit(settings));
+  const open = candidates ?? board.flatMap((cell, i) => cell === null ? [i] : []);
+  const work = [...board];
+  if (removed !== null) work[removed] = null;
+  return findWinningMove(work, player, open, (b, index, p) => completesLine(b, index, p, settings));
+};
@@ -0,0 +1,67 @@
+import { BoardState, FfaRule, GameSettings, Player, WinningLine } from '../types';
+import { checkWinner } from './board';
+
+// Free-for-all: three or four players share one classic board and take turns in seat order
+// (X, O, Triangle, Square). Finishing places are kept per seat, 1 being best. Seats that tie
+// share the best place they span and use up the ones below it, so two seats level in second
+// of four both take 2nd and the last seat is still 4th.
+export const FFA_SEATS: Player[] = [Player.X, Player.O, Player.TRIANGLE, Player.SQUARE];
+export const FFA_MIN_PLAYERS = 3;
+export const FFA_MIN_BOARD_SIZE = 5;
+
+type SeatPlaces = { [key in Player]?: number };
+
+export const isFreeForAll = (settings: Pick<GameSettings, 'players' | 'teams'>): boolean => !settings.teams && (settings.players ?? 2) > 2;
+
+// The symbols seated in a game, in turn order. A 2v2 game uses all four.
+export const getSeats = (settings: Pick<GameSettings, 'players' | 'teams'>): Player[] =>
+  settings.teams ? [...FFA_SEATS] : FFA_SEATS.slice(0, Math.min(FFA_SEATS.length, Math.max(2, settings.players ?? 2)));
+
+// Seats still taking turns
+export const getActiveSeats = (seats: Player[], places: SeatPlaces = {}): Player[] =>
+  seats.filter(seat => places[seat] === undefined);
+
+// The next seat after current that is still in play, or current if nobody else is
+export const getNextSeat = (current: Player, seats: Player[], places: SeatPlaces = {}): Player => {
+  const start = seats.indexOf(current);
+  for (let i = 1; i <= seats.length; i++) {
+    const seat = seats[(start + i) % seats.length];
+    if (places[seat] === undefined) return seat;
+  }
+  return current;
+};
+
+// Places nobody has taken yet, best first
+export const getOpenPlaces = (seatCount: number, places: SeatPlaces = {}): number[] => {
+  const taken = Object.values(places) as number[];
+  const covered = new Set<number>();
+  for (const place of new Set(taken)) {
+    const sharing = taken.filter(p => p === place).length;
+    for (let i = 0; i < sharing; i++) covered.add(place + i);
+  }
+  return Array.from({ length: seatCount }, (_, i) => i + 1).filter(place => !covered.has(place));
+};
+
+// A line of the player's own pieces, wherever it is on the board
+export const findPlayerLine = (board: BoardState, player: Player, settings: Pick<GameSettings, 'boardSize' | 'winLength' | 'toroidal'>): WinningLine | null =>
+  checkWinner(board.map(cell => cell === player ? cell : null), settings.boardSize, settings.winLength, settings.toroidal).line;
+
+// Splits the pot by place, rounded down as a drawn pot is. first_line is winner takes all; in
+// elimination each place is worth one share more than the one below, so last place gets nothing.
+export const getFfaPayouts = (pot: number, places: SeatPlaces, seatCount: number, rule: FfaRule = 'first_line'): SeatPlaces => {
+  const weight = (place: number) => rule === 'elimination' ? seatCount - place : place === 1 ? 1 : 0;
+  const taken = Object.values(places) as number[];
+  // Tied seats average the weights of the places they span
+  const share = (place: number) => {
+    const sharing = taken.filter(p => p === place).length;
+    let sum = 0;
+    for (let i = 0; i < sharing; i++) sum += weight(place + i);
+    return sum / sharing;
+  };
+  const total = taken.reduce((sum, place) => sum + share(place), 0);
+  return Object.fromEntries(Object.entries(places).map(([seat, place]) =>
+    [seat, total > 0 ? Math.floor(pot * share(place!) / total) : 0]));
+};
+
+export const formatPlace = (place: number): string =>
+  `${place}${place === 1 ? 'st' : place === 2 ? 'nd' : place === 3 ? 'rd' : 'th'}`;
@@ -0,0 +1,51 @@
+import { BoardState, Move, Player } from '../types';
+
+// Fog: each player only sees their own pieces, the cells next to them and any cell they have
+// bumped into. Obstacles are part of the board, so they are always in sight. A move onto a
+// hidden piece loses the turn and reveals the cell; it is recorded with Move.blocked set.
+
+const NEIGHBOURS = [-1, 0, 1].flatMap(r => [-1, 0, 1].map(c => ({ r, c }))).filter(d => d.r !== 0 || d.c !== 0);
+
+type FogSettings = { boardSize: number; toroidal?: boolean };
+
+// Which cells the player can see. On a toroidal board sight wraps across the edges, as lines do.
+export const getFogVisibility = (board: BoardState, moves: Move[], player: Player, settings: FogSettings): boolean[] => {
+  const { boardSize, toroidal } = settings;
+  const visible = board.map(cell => cell === 'OBSTACLE' || cell === player);
+  board.forEach((cell, index) => {
+    if (cell !== player) return;
+    const row = Math.floor(index / boardSize);
+    const col = index % boardSize;
+    for (const dir of NEIGHBOURS) {
+      const r = toroidal ? (row + dir.r + boardSize) % boardSize : row + dir.r;
+      const c = toroidal ? (col + dir.c + boardSize) % boardSize : col + dir.c;
+      if (r >= 0 && r < boardSize && c >= 0 && c < boardSize) visible[r * boardSize + c] = true;
+    }
+  });
+  // A bumped-into cell stays revealed, even if an undo later takes the bump back
+  for (const move of moves) {
+    if (move.blocked && move.player === player) visible[move.index] = true;
+  }
+  return visible;
+};
+
+export const getFogHiddenCells = (board: BoardState, moves: Move[], player: Player, settings: FogSettings): number[] =>
+  getFogVisibility(board, moves, player, settings).flatMap((visible, i) => visible ? [] : [i]);
+
+// Whether the player's move onto index runs into a piece they can't see
+export const isFogBlocked = (board: BoardState, moves: Move[], index: number, player: Player, settings: FogSettings): boolean => {
+  const cell = board[index];
+  return (cell === Player.X || cell === Player.O) && cell !== player && !getFogVisibility(board, moves, player, settings)[index];
+};
+
+// The board and move list as the player sees them: hidden cells read as empty, and the opponent's
+// moves onto them keep their turn but lose their cell (index -1, as undo entries have).
+export const getFogView = (board: BoardState, moves: Move[], player: Player, settings: FogSettings): { board: BoardState; moves: Move[] } => {
+  const visible = getFogVisibility(board, moves, player, settings);
+  return {
+    board: board.map((cell, i) => visible[i] ? cell : null),
+    moves: moves.map(move => move.player === player || move.index < 0 || visible[move.index]
+      ? move
+      : { player: move.player, index: -1, moveNumber: move.moveNumber, ...(move.powerUp ? { powerUp: move.powerUp } : {}) })
+  };
+};
@@ -0,0 +1,152 @@
+import { BoardState, GomokuOptions, Player, WinningLine } from '../types';
+
+// Gomoku: five in a row on a large board. With exactFive a run of six or more doesn't count,
+// and with renju X (who moves first) may not make two threes or two fours with one stone.
+export const GOMOKU_WIN_LENGTH = 5;
+export const GOMOKU_MIN_BOARD_SIZE = 7;
+
+export const DEFAULT_GOMOKU_OPTIONS: GomokuOptions = { exactFive: true, renju: false, opening: 'none' };
+
+const LINE_DIRECTIONS = [
+  { r: 0, c: 1 },
+  { r: 1, c: 0 },
+  { r: 1, c: 1 },
+  { r: 1, c: -1 },
+];
+
+const isFive = (length: number, exactFive: boolean) =>
+  exactFive ? length === GOMOKU_WIN_LENGTH : length >= GOMOKU_WIN_LENGTH;
+
+// Whether a stone of the player's at index (placed or about to be) makes a winning run
+export const completesGomokuLine = (board: BoardState, index: number, player: Player, boardSize: number, exactFive: boolean): boolean => {
+  const row = Math.floor(index / boardSize);
+  const col = index % boardSize;
+  return LINE_DIRECTIONS.some(dir => {
+    let count = 1;
+    for (const sign of [1, -1]) {
+      let r = row + sign * dir.r;
+      let c = col + sign * dir.c;
+      while (r >= 0 && r < boardSize && c >= 0 && c < boardSize && board[r * boardSize + c] === player) {
+        count++;
+        r += sign * dir.r;
+        c += sign * dir.c;
+      }
+    }
+    return isFive(count, exactFive);
+  });
+};
+
+// Scans whole runs rather than fixed windows, so an overline is seen as one run of six (or more)
+export const checkGomokuWinner = (board: BoardState, boardSize: number, exactFive: boolean): { winner: Player | 'draw' | null; line: WinningLine | null } => {
+  const inside = (r: number, c: number) => r >= 0 && r < boardSize && c >= 0 && c < boardSize;
+  for (let r = 0; r < boardSize; r++) {
+    for (let c = 0; c < boardSize; c++) {
+      const player = board[r * boardSize + c];
+      if (player !== Player.X && player !== Player.O) continue;
+
+      for (const dir of LINE_DIRECTIONS) {
+        // Only start at the first stone of a run
+        if (inside(r - dir.r, c - dir.c) && board[(r - dir.r) * boardSize + c - dir.c] === player) continue;
+        const line: number[] = [];
+        for (let i = 0; inside(r + i * dir.r, c + i * dir.c); i++) {
+          const index = (r + i * dir.r) * boardSize + c + i * dir.c;
+          if (board[index] !== player) break;
+          line.push(index);
+        }
+        if (isFive(line.length, exactFive)) return { winner: player, line };
+      }
+    }
+  }
+
+  if (board.every(cell => cell !== null)) return { winner: 'draw', line: null };
+  return { winner: null, line: null };
+};
+
+// Renju checks look at the eleven cells centred on the new stone in one direction.
+// Off-board cells, obstacles and the opponent's stones all block alike.
+const OWN = 1;
+const EMPTY = 0;
+const BLOCKED = -1;
+const REACH = 5;
+const CENTRE = REACH;
+
+const readLine = (board: BoardState, index: number, player: Player, boardSize: number, dir: { r: number; c: number }): number[] => {
+  const row = Math.floor(index / boardSize);
+  const col = index % boardSize;
+  const line: number[] = [];
+  for (let k = -REACH; k <= REACH; k++) {
+    const r = row + k * dir.r;
+    const c = col + k * dir.c;
+    if (k === 0) {
+      line.push(OWN);
+    } else if (r < 0 || r >= boardSize || c < 0 || c >= boardSize) {
+      line.push(BLOCKED);
+    } else {
+      const cell = board[r * boardSize + c];
+      line.push(cell === player ? OWN : cell === null ? EMPTY : BLOCKED);
+    }
+  }
+  return line;
+};
+
+// First and last cell of the run of own stones through at
+const runAround = (line: number[], at: number): [number, number] => {
+  let start = at;
+  let end = at;
+  while (start > 0 && line[start - 1] === OWN) start--;
+  while (end < line.length - 1 && line[end + 1] === OWN) end++;
+  return [start, end];
+};
+
+// Whether filling the empty cell at makes exactly five through the new stone
+const fillMakesFive = (line: number[], at: number): boolean => {
+  line[at] = OWN;
+  const [start, end] = runAround(line, at);
+  line[at] = EMPTY;
+  return start <= CENTRE && CENTRE <= end && end - start + 1 === GOMOKU_WIN_LENGTH;
+};
+
+// Fours through the new stone: cells that would then make five. An open four (_XXXX_) has two
+// such cells but is one four; two cells further apart in the same line are two fours.
+const countFours = (line: number[]): number => {
+  const points = line.flatMap((cell, i) => cell === EMPTY && fillMakesFive(line, i) ? [i] : []);
+  if (points.length === 2 && points[1] - points[0] === GOMOKU_WIN_LENGTH) return 1;
+  return points.length;
+};
+
+// An open four through the new stone: four in a row with both ends free to make five
+const isOpenFour = (line: number[]): boolean => {
+  const [start, end] = runAround(line, CENTRE);
+  return end - start + 1 === 4 && start > 0 && end < line.length - 1 &&
+    line[start - 1] === EMPTY && line[end + 1] === EMPTY &&
+    fillMakesFive(line, start - 1) && fillMakesFive(line, end + 1);
+};
+
+// A three is a line one stone away from an open four
+const hasOpenThree = (line: number[]): boolean => line.some((cell, i) => {
+  if (cell !== EMPTY) return false;
+  line[i] = OWN;
+  const open = isOpenFour(line);
+  line[i] = EMPTY;
+  return open;
+});
+
+// Whether the renju restriction forbids the player's stone at index: it would make two or more
+// threes or fours at once. Making exactly five is always allowed. (Unlike tournament renju, a
+// three counts even when the cell that would open it is itself forbidden.)
+export const isRenjuForbidden = (board: BoardState, index: number, player: Player, boardSize: number): boolean => {
+  const lines = LINE_DIRECTIONS.map(dir => readLine(board, index, player, boardSize, dir));
+  if (lines.some(line => {
+    const [start, end] = runAround(line, CENTRE);
+    return end - start + 1 === GOMOKU_WIN_LENGTH;
+  })) return false;
+
+  let fours = 0;
+  let threes = 0;
+  for (const line of lines) {
+    const lineFours = countFours(line);
+    fours += lineFours;
+    if (lineFours === 0 && hasOpenThree(line)) threes++;
+  }
+  return fours >= 2 || threes >= 2;
+};
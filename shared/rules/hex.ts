@@ -0,0 +1,128 @@
+import { BoardState, Player, WinningLine } from '../types';
+
+// Hex: a hexagon of hexagonal cells with boardSize cells along each side, in axial coordinates.
+// The centre is (0, 0) and a cell (q, r) is on the board while |q|, |r| and |q + r| are all under
+// boardSize. Cells are stored row by row from the top (r, then q), so row r holds
+// 2 * boardSize - 1 - |r| cells. Each cell has six neighbours and lines run along three axes.
+export const HEX_MIN_SIZE = 3;
+export const HEX_MAX_SIZE = 6;
+
+export interface HexPosition {
+  q: number;
+  r: number;
+}
+
+// One step along each axis; the opposite step is the same line walked the other way
+const HEX_DIRECTIONS: HexPosition[] = [
+  { q: 1, r: 0 },
+  { q: 0, r: 1 },
+  { q: 1, r: -1 },
+];
+
+export const getHexCellCount = (boardSize: number): number => 3 * boardSize * (boardSize - 1) + 1;
+
+interface HexLayout {
+  cells: HexPosition[];
+  // Index of (q, r) at [(r + boardSize - 1) * width + q + boardSize - 1], or -1 off the board
+  lookup: Int16Array;
+  rows: number[][];
+}
+
+const layouts = new Map<number, HexLayout>();
+
+const getLayout = (boardSize: number): HexLayout => {
+  const cached = layouts.get(boardSize);
+  if (cached) return cached;
+
+  const last = boardSize - 1;
+  const width = 2 * boardSize - 1;
+  const cells: HexPosition[] = [];
+  const lookup = new Int16Array(width * width).fill(-1);
+  const rows: number[][] = [];
+  for (let r = -last; r <= last; r++) {
+    const row: number[] = [];
+    for (let q = Math.max(-last, -last - r); q <= Math.min(last, last - r); q++) {
+      lookup[(r + last) * width + q + last] = cells.length;
+      row.push(cells.length);
+      cells.push({ q, r });
+    }
+    rows.push(row);
+  }
+  const layout = { cells, lookup, rows };
+  layouts.set(boardSize, layout);
+  return layout;
+};
+
+export const toHexPosition = (index: number, boardSize: number): HexPosition => getLayout(boardSize).cells[index];
+
+// The index of (q, r), or -1 when it is off the board
+export const fromHexPosition = ({ q, r }: HexPosition, boardSize: number): number => {
+  const last = boardSize - 1;
+  if (Math.abs(q) > last || Math.abs(r) > last || Math.abs(q + r) > last) return -1;
+  return getLayout(boardSize).lookup[(r + last) * (2 * boardSize - 1) + q + last];
+};
+
+// The board's rows from top to bottom, for drawing
+export const getHexRows = (boardSize: number): number[][] => getLayout(boardSize).rows;
+
+// Steps from the centre cell
+export const getHexDistance = (index: number, boardSize: number): number => {
+  const { q, r } = toHexPosition(index, boardSize);
+  return (Math.abs(q) + Math.abs(r) + Math.abs(q + r)) / 2;
+};
+
+// Where a cell is drawn: rows are stacked, and each is centred, so a cell sits half a cell
+// right of the one above-left of it. Both coordinates count cells from the top-left corner of a
+// (2 * boardSize - 1)-wide square, and col may be a half.
+export const toHexGridPosition = (index: number, boardSize: number): { row: number; col: number } => {
+  const { q, r } = toHexPosition(index, boardSize);
+  return { row: r + boardSize - 1, col: q + r / 2 + boardSize - 1 };
+};
+
+const hexLines = new Map<string, number[][]>();
+
+// Every winLength-long window along the three axes, each in order from one end, built once per size
+export const getHexLines = (boardSize: number, winLength: number): number[][] => {
+  const cacheKey = `${boardSize}:${winLength}`;
+  const cached = hexLines.get(cacheKey);
+  if (cached) return cached;
+
+  const lines: number[][] = [];
+  for (const start of getLayout(boardSize).cells) {
+    for (const dir of HEX_DIRECTIONS) {
+      const line = Array.from({ length: winLength }, (_, i) =>
+        fromHexPosition({ q: start.q + dir.q * i, r: start.r + dir.r * i }, boardSize));
+      if (line.every(i => i >= 0)) lines.push(line);
+    }
+  }
+  hexLines.set(cacheKey, lines);
+  return lines;
+};
+
+// Whether a piece of the player's at index (placed or about to be) makes a line of winLength
+export const completesHexLine = (board: BoardState, index: number, player: Player, boardSize: number, winLength: number): boolean => {
+  const { q, r } = toHexPosition(index, boardSize);
+  return HEX_DIRECTIONS.some(dir => {
+    let count = 1;
+    for (const sign of [1, -1]) {
+      let next = fromHexPosition({ q: q + sign * dir.q, r: r + sign * dir.r }, boardSize);
+      for (let i = 2; next >= 0 && board[next] === player; i++) {
+        count++;
+        next = fromHexPosition({ q: q + sign * i * dir.q, r: r + sign * i * dir.r }, boardSize);
+      }
+    }
+    return count >= winLength;
+  });
+};
+
+export const checkHexWinner = (board: BoardState, boardSize: number, winLength: number): { winner: Player | 'draw' | null; line: WinningLine | null } => {
+  for (const line of getHexLines(boardSize, winLength)) {
+    const first = board[line[0]];
+    if ((first === Player.X || first === Player.O) && line.every(i => board[i] === first)) {
+      return { winner: first, line };
+    }
+  }
+
+  if (board.every(cell => cell !== null)) return { winner: 'draw', line: null };
+  return { winner: null, line: null };
+};
@@ -0,0 +1,14 @@
+// Game rules shared by the client, the server and the AI.
+export * from './board';
+export * from './obstacles';
+export * from './variants';
+export * from './ultimate';
+export * from './qubic';
+export * from './gomoku';
+export * from './decay';
+export * from './fog';
+export * from './hex';
+export * from './suddenDeath';
+export * from './ffa';
+export * from './teams';
+export * from './rating';
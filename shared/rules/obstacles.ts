@@ -0,0 +1,113 @@
+import { BoardState, ObstacleLayout, Player } from '../types';
+
+// Obstacles are laid out from a seeded generator, so the same seed, board size and layout always
+// give the same board. Symmetric layouts block cells in groups that map onto each other, so
+// neither half of the board is better off than the other.
+export const OBSTACLE_LAYOUTS: ObstacleLayout[] = ['random', 'mirror', 'rotational', 'cross'];
+
+// Hashes the seed (cyrb128) into the state of an sfc32 generator
+export const createSeededRandom = (seed: string): () => number => {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  let a = (h1 ^ h2 ^ h3 ^ h4) >>> 0, b = (h2 ^ h1) >>> 0, c = (h3 ^ h1) >>> 0, d = (h4 ^ h1) >>> 0;
+  return () => {
+    const t = (((a + b) >>> 0) + d) >>> 0;
+    d = (d + 1) >>> 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) >>> 0;
+    c = ((c << 21) | (c >>> 11)) + t >>> 0;
+    return t / 4294967296;
+  };
+};
+
+// A fresh seed for a game nobody else has a stake in (local and AI games)
+export const createObstacleSeed = (): string => Math.random().toString(36).slice(2, 12);
+
+// The seed an online layout is drawn from: the server's revealed seed and each seat's own, in seat order
+export const getObstacleSeed = (serverSeed: string, clientSeeds: { [key in Player]?: string }, seats: Player[]): string =>
+  [serverSeed, ...seats.map(seat => clientSeeds[seat] ?? '')].join(':');
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const next = [...items];
+  for (let i = next.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [next[i], next[j]] = [next[j], next[i]];
+  }
+  return next;
+};
+
+// Cells grouped by the layout's symmetry: a cell alone in random, with its mirror image across the
+// middle column in mirror, with the cell half a turn round in rotational, and with all four quarter
+// turns in cross, which only uses the middle row(s) and column(s).
+const getOrbits = (boardSize: number, layout: ObstacleLayout): number[][] => {
+  const last = boardSize - 1;
+  const partners = (index: number): number[] => {
+    const r = Math.floor(index / boardSize);
+    const c = index % boardSize;
+    if (layout === 'mirror') return [index, r * boardSize + last - c];
+    if (layout === 'rotational') return [index, boardSize * boardSize - 1 - index];
+    if (layout === 'cross') return [index, c * boardSize + last - r, (last - r) * boardSize + last - c, (last - c) * boardSize + r];
+    return [index];
+  };
+  const low = Math.floor(last / 2);
+  const high = Math.ceil(last / 2);
+  const onCross = (index: number) => {
+    const r = Math.floor(index / boardSize);
+    const c = index % boardSize;
+    return r === low || r === high || c === low || c === high;
+  };
+
+  const seen = new Set<number>();
+  const orbits: number[][] = [];
+  for (let i = 0; i < boardSize * boardSize; i++) {
+    if (seen.has(i) || (layout === 'cross' && !onCross(i))) continue;
+    const orbit = Array.from(new Set(partners(i)));
+    orbit.forEach(cell => seen.add(cell));
+    orbits.push(orbit);
+  }
+  return orbits;
+};
+
+// Steps from the centre of the board, for ordering the cross outward
+const distanceFromCentre = (index: number, boardSize: number): number => {
+  const centre = (boardSize - 1) / 2;
+  return Math.max(Math.abs(Math.floor(index / boardSize) - centre), Math.abs(index % boardSize - centre));
+};
+
+// Roughly one obstacle per ten cells. Symmetric layouts block whole groups, so they round up to the
+// next count their groups can make; a cell that maps onto itself is only used to make an odd count.
+const pickObstacleCells = (boardSize: number, layout: ObstacleLayout, random: () => number): number[] => {
+  const target = Math.max(1, Math.floor(boardSize * boardSize / 10));
+  let orbits = shuffle(getOrbits(boardSize, layout), random);
+  if (layout === 'random') return orbits.slice(0, target).flat();
+  if (layout === 'cross') orbits = orbits.sort((a, b) => distanceFromCentre(a[0], boardSize) - distanceFromCentre(b[0], boardSize));
+
+  const singles = orbits.filter(orbit => orbit.length === 1);
+  const cells = target % 2 === 1 && singles.length > 0 ? [...singles[0]] : [];
+  for (const orbit of orbits) {
+    if (cells.length >= target) break;
+    if (orbit.length > 1) cells.push(...orbit);
+  }
+  return cells;
+};
+
+// How many obstacles the layout places on a board of this size. It never depends on the seed.
+export const getObstacleCount = (boardSize: number, layout: ObstacleLayout = 'random'): number =>
+  pickObstacleCells(boardSize, layout, () => 0).length;
+
+// Lays the layout's obstacles over an empty board.
+export const placeObstacles = (board: BoardState, boardSize: number, random: () => number = Math.random, layout: ObstacleLayout = 'random'): BoardState => {
+  const next = [...board];
+  for (const index of pickObstacleCells(boardSize, layout, random)) next[index] = 'OBSTACLE';
+  return next;
+};
@@ -0,0 +1,88 @@
+import { BoardState, Player, WinningLine } from '../types';
+
+// Qubic: a boardSize x boardSize x boardSize cube stored layer by layer, so
+// index = layer * boardSize² + row * boardSize + col. A line runs the full width of the cube
+// along a row, column or pillar, a diagonal of any layer or slice, or one of the four space diagonals.
+export const QUBIC_BOARD_SIZE = 4;
+
+export interface CubePosition {
+  layer: number;
+  row: number;
+  col: number;
+}
+
+export const toCubePosition = (index: number, boardSize: number): CubePosition => ({
+  layer: Math.floor(index / (boardSize * boardSize)),
+  row: Math.floor(index / boardSize) % boardSize,
+  col: index % boardSize
+});
+
+export const fromCubePosition = ({ layer, row, col }: CubePosition, boardSize: number): number =>
+  (layer * boardSize + row) * boardSize + col;
+
+// Every direction through the cube, counted once (the first non-zero step is positive)
+const CUBE_DIRECTIONS: [number, number, number][] = [];
+for (let dl = -1; dl <= 1; dl++) {
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const first = dl || dr || dc;
+      if (first > 0) CUBE_DIRECTIONS.push([dl, dr, dc]);
+    }
+  }
+}
+
+const cubeLines = new Map<number, number[][]>();
+
+// All lines of the cube (76 for 4x4x4), built once per size
+export const getCubeLines = (boardSize: number): number[][] => {
+  const cached = cubeLines.get(boardSize);
+  if (cached) return cached;
+
+  const lines: number[][] = [];
+  const last = boardSize - 1;
+  const inside = (v: number) => v >= 0 && v <= last;
+  for (let layer = 0; layer < boardSize; layer++) {
+    for (let row = 0; row < boardSize; row++) {
+      for (let col = 0; col < boardSize; col++) {
+        for (const [dl, dr, dc] of CUBE_DIRECTIONS) {
+          // Only start from the cell a line can't be extended back from, so each line appears once
+          if (inside(layer - dl) && inside(row - dr) && inside(col - dc)) continue;
+          if (!inside(layer + dl * last) || !inside(row + dr * last) || !inside(col + dc * last)) continue;
+          lines.push(Array.from({ length: boardSize }, (_, i) =>
+            fromCubePosition({ layer: layer + dl * i, row: row + dr * i, col: col + dc * i }, boardSize)));
+        }
+      }
+    }
+  }
+  cubeLines.set(boardSize, lines);
+  return lines;
+};
+
+// The lines through each cell, so a single move only walks its own
+const linesThrough = new Map<number, number[][][]>();
+
+export const getCubeLinesThrough = (boardSize: number): number[][][] => {
+  const cached = linesThrough.get(boardSize);
+  if (cached) return cached;
+  const byCell: number[][][] = Array.from({ length: boardSize ** 3 }, () => []);
+  for (const line of getCubeLines(boardSize)) {
+    for (const index of line) byCell[index].push(line);
+  }
+  linesThrough.set(boardSize, byCell);
+  return byCell;
+};
+
+// Whether a piece of the player's at index (placed or about to be) sits on a full line of the cube
+export const completesCubeLine = (board: BoardState, index: number, player: Player, boardSize: number): boolean =>
+  getCubeLinesThrough(boardSize)[index].some(line => line.every(i => i === index || board[i] === player));
+
+export const checkCubeWinner = (board: BoardState, boardSize: number): { winner: Player | 'draw' | null; line: WinningLine | null } => {
+  for (const line of getCubeLines(boardSize)) {
+    const owner = board[line[0]];
+    if ((owner === Player.X || owner === Player.O) && line.every(i => board[i] === owner)) {
+      return { winner: owner, line };
+    }
+  }
+  if (board.every(cell => cell !== null)) return { winner: 'draw', line: null };
+  return { winner: null, line: null };
+};
@@ -0,0 +1,20 @@
+import { GameSettings, GameVariant, RatingPool } from '../types';
+import { isFreeForAll } from './ffa';
+
+// Which rating pool a game counts towards
+export const getRatingPool = (settings: Pick<GameSettings, 'boardSize' | 'variant' | 'blitzMode' | 'players' | 'teams'>): RatingPool => {
+  if (settings.teams) return 'teams';
+  if (isFreeForAll(settings)) return 'ffa';
+  if (settings.variant === GameVariant.MISERE) return 'misere';
+  if (settings.variant === GameVariant.GRAVITY) return 'gravity';
+  if (settings.variant === GameVariant.ULTIMATE) return 'ultimate';
+  if (settings.variant === GameVariant.WILD || settings.variant === GameVariant.WILD_MISERE) return 'wild';
+  if (settings.variant === GameVariant.QUBIC) return 'qubic';
+  if (settings.variant === GameVariant.GOMOKU) return 'gomoku';
+  if (settings.variant === GameVariant.DECAY) return 'decay';
+  if (settings.variant === GameVariant.FOG) return 'fog';
+  if (settings.variant === GameVariant.HEX) return 'hex';
+  if (settings.variant === GameVariant.SUDDEN_DEATH) return 'suddenDeath';
+  if (settings.blitzMode) return 'blitz';
+  return settings.boardSize > 3 ? 'large' : 'classic';
+};
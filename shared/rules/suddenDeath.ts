@@ -0,0 +1,53 @@
+import { BoardState, Move } from '../types';
+
+// Sudden Death: once collapseInterval moves go by without a winner, the outermost ring still
+// standing collapses: its empty cells turn into obstacles, while pieces already on it stay and
+// still count towards lines. Rings keep collapsing on the same beat until someone wins or the
+// board fills. The innermost ring (the centre cell, or the middle 2x2) never collapses.
+// Each collapse is recorded in the move list as a board event (Move.collapsed), so replays show it.
+export const SUDDEN_DEATH_MIN_BOARD_SIZE = 5;
+export const SUDDEN_DEATH_MIN_INTERVAL = 4;
+// How many moves ahead the board warns of a collapse
+export const COLLAPSE_WARNING_MOVES = 2;
+
+type SuddenDeathSettings = { boardSize: number; collapseInterval?: number };
+
+// The interval in play: twice the board size unless set, and never so short the board is gone in a few turns
+export const getCollapseInterval = (settings: SuddenDeathSettings): number =>
+  Math.max(SUDDEN_DEATH_MIN_INTERVAL, Math.round(settings.collapseInterval ?? settings.boardSize * 2));
+
+// How many rings can collapse before only the innermost is left
+export const getMaxCollapses = (boardSize: number): number => Math.floor((boardSize - 1) / 2);
+
+// Steps in from the nearest edge: 0 on the edge, 1 just inside it, and so on
+export const getRing = (index: number, boardSize: number): number => {
+  const r = Math.floor(index / boardSize);
+  const c = index % boardSize;
+  return Math.min(r, c, boardSize - 1 - r, boardSize - 1 - c);
+};
+
+export const isBoardEvent = (move: Move): boolean => move.collapsed != null;
+
+// Rings that have collapsed so far, which is also the ring the next collapse takes
+export const getCollapseCount = (moves: Move[]): number => moves.filter(isBoardEvent).length;
+
+// Moves left before the next ring goes, or null once no ring is left to collapse. Hints don't count.
+export const getMovesUntilCollapse = (moves: Move[], settings: SuddenDeathSettings): number | null => {
+  if (getCollapseCount(moves) >= getMaxCollapses(settings.boardSize)) return null;
+  let since = 0;
+  for (let i = moves.length - 1; i >= 0 && !isBoardEvent(moves[i]); i--) {
+    if (moves[i].powerUp !== 'hint') since++;
+  }
+  return Math.max(0, getCollapseInterval(settings) - since);
+};
+
+// The empty cells of the ring the next collapse takes, or [] once none is left
+export const getCollapsingCells = (board: BoardState, moves: Move[], boardSize: number): number[] => {
+  const ring = getCollapseCount(moves);
+  if (ring >= getMaxCollapses(boardSize)) return [];
+  return board.flatMap((cell, i) => cell === null && getRing(i, boardSize) === ring ? [i] : []);
+};
+
+// The board event due after these moves, or null while the ring still has moves left to stand
+export const getDueCollapse = (board: BoardState, moves: Move[], settings: SuddenDeathSettings): number[] | null =>
+  getMovesUntilCollapse(moves, settings) === 0 ? getCollapsingCells(board, moves, settings.boardSize) : null;
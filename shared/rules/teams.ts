@@ -0,0 +1,18 @@
+import { GameSettings, Player } from '../types';
+
+// 2v2: two pairs share X and O. The four seats take turns X, O, Triangle, Square, and the
+// Triangle seat places X's pieces while the Square seat places O's, so teammates alternate
+// within their side. The board, the winner and the variant rules only ever see X and O.
+export const TEAM_SIZE = 2;
+
+export const isTeamGame = (settings: Pick<GameSettings, 'teams'>): boolean => !!settings.teams;
+
+// The side whose pieces a seat places
+export const getSide = (role: Player): Player =>
+  role === Player.TRIANGLE ? Player.X : role === Player.SQUARE ? Player.O : role;
+
+export const getTeamSeats = (side: Player): Player[] =>
+  getSide(side) === Player.X ? [Player.X, Player.TRIANGLE] : [Player.O, Player.SQUARE];
+
+export const getTeammate = (role: Player): Player =>
+  getTeamSeats(role).find(seat => seat !== role)!;
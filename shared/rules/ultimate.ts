@@ -0,0 +1,94 @@
+import { BoardState, Player, WinningLine } from '../types';
+
+// Ultimate: a 3x3 meta-board of 3x3 sub-boards. The 81 cells are stored sub-board by sub-board,
+// so index = subBoard * 9 + cell, with both numbered row-major like a classic 3x3 board.
+// The cell you play picks the sub-board your opponent must play in next.
+export const ULTIMATE_BOARD_SIZE = 9;
+export const SUB_BOARD_CELLS = 9;
+
+export const THREE_BY_THREE_LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8], // Rows
+  [0, 3, 6], [1, 4, 7], [2, 5, 8], // Columns
+  [0, 4, 8], [2, 4, 6], // Diagonals
+];
+
+export type SubBoardResult = Player | 'draw' | null;
+
+export const subBoardOf = (index: number): number => Math.floor(index / SUB_BOARD_CELLS);
+export const cellOf = (index: number): number => index % SUB_BOARD_CELLS;
+
+// Where a stored index is drawn on the 9x9 grid
+export const toGridPosition = (index: number): { row: number; col: number } => {
+  const sub = subBoardOf(index);
+  const cell = cellOf(index);
+  return {
+    row: Math.floor(sub / 3) * 3 + Math.floor(cell / 3),
+    col: (sub % 3) * 3 + (cell % 3)
+  };
+};
+
+export const fromGridPosition = (row: number, col: number): number =>
+  (Math.floor(row / 3) * 3 + Math.floor(col / 3)) * SUB_BOARD_CELLS + (row % 3) * 3 + (col % 3);
+
+// The winner of one sub-board, 'draw' once it is full without a line, null while it is still open
+export const getSubBoardResult = (board: BoardState, sub: number): SubBoardResult => {
+  const offset = sub * SUB_BOARD_CELLS;
+  for (const [a, b, c] of THREE_BY_THREE_LINES) {
+    const owner = board[offset + a];
+    if ((owner === Player.X || owner === Player.O) && board[offset + b] === owner && board[offset + c] === owner) {
+      return owner;
+    }
+  }
+  for (let i = offset; i < offset + SUB_BOARD_CELLS; i++) {
+    if (board[i] === null) return null;
+  }
+  return 'draw';
+};
+
+export const getMetaBoard = (board: BoardState): SubBoardResult[] =>
+  Array.from({ length: SUB_BOARD_CELLS }, (_, sub) => getSubBoardResult(board, sub));
+
+/**
+ * Sub-boards the next move may go in. The previous move's cell names the target; if there is
+ * no previous move or that sub-board is already decided, any open sub-board is fair game.
+ */
+export const getActiveSubBoards = (board: BoardState, lastMove?: number): number[] => {
+  const meta = getMetaBoard(board);
+  if (lastMove !== undefined && lastMove >= 0) {
+    const target = cellOf(lastMove);
+    if (meta[target] === null) return [target];
+  }
+  return meta.flatMap((result, sub) => result === null ? [sub] : []);
+};
+
+export const getUltimateMoves = (board: BoardState, lastMove?: number): number[] =>
+  getActiveSubBoards(board, lastMove).flatMap(sub => {
+    const moves: number[] = [];
+    for (let i = sub * SUB_BOARD_CELLS; i < (sub + 1) * SUB_BOARD_CELLS; i++) {
+      if (board[i] === null) moves.push(i);
+    }
+    return moves;
+  });
+
+// Three sub-boards in a row on the meta-board win. The line is the centre cell of each of them.
+// Once every sub-board is decided without one, the game is drawn.
+export const getMetaResult = (board: BoardState): { winner: Player | 'draw' | null; line: WinningLine | null } => {
+  const meta = getMetaBoard(board);
+  for (const [a, b, c] of THREE_BY_THREE_LINES) {
+    const owner = meta[a];
+    if ((owner === Player.X || owner === Player.O) && meta[b] === owner && meta[c] === owner) {
+      return { winner: owner, line: [a, b, c].map(sub => sub * SUB_BOARD_CELLS + 4) };
+    }
+  }
+  if (meta.every(result => result !== null)) return { winner: 'draw', line: null };
+  return { winner: null, line: null };
+};
+
+// Whether a piece of the player's at index (placed or about to be) would win its sub-board
+export const completesSubBoardLine = (board: BoardState, index: number, player: Player): boolean => {
+  const offset = subBoardOf(index) * SUB_BOARD_CELLS;
+  const cell = cellOf(index);
+  return THREE_BY_THREE_LINES.some(line =>
+    line.includes(cell) && line.every(c => c === cell || board[offset + c] === player)
+  );
+};
@@ -0,0 +1,291 @@
+import { BoardState, GameSettings, GameVariant, Move, Player, PowerUp, WinningLine } from '../types';
+import { checkWinner, completesLine, findWinningMove, getDropIndex } from './board';
+import { placeObstacles } from './obstacles';
+import { ULTIMATE_BOARD_SIZE, completesSubBoardLine, getActiveSubBoards, getMetaResult, getUltimateMoves, subBoardOf } from './ultimate';
+import { QUBIC_BOARD_SIZE, checkCubeWinner, completesCubeLine } from './qubic';
+import { DEFAULT_GOMOKU_OPTIONS, checkGomokuWinner, completesGomokuLine, isRenjuForbidden } from './gomoku';
+import { completesDecayLine, findDecayWinningMove, getDecayLimit } from './decay';
+import { checkHexWinner, completesHexLine, getHexCellCount } from './hex';
+
+export type RulesSettings = Pick<GameSettings, 'boardSize' | 'winLength'> & Partial<Pick<GameSettings, 'obstacles' | 'obstacleLayout' | 'variant' | 'gomoku' | 'decayLimit' | 'toroidal'>>;
+
+export interface GameResult {
+  winner: Player | 'draw' | null;
+  line: WinningLine | null;
+}
+
+/**
+ * Everything that makes one GameVariant play the way it does. The client, the server and the AI
+ * all go through these, so a variant written here behaves identically everywhere.
+ * Boards are never mutated: applyMove returns a new board.
+ * lastMove is the cell of the previous placement (see getLastPlacement); only Ultimate depends on it.
+ */
+export interface VariantRules {
+  variant: GameVariant;
+  createInitialBoard(settings: RulesSettings, random?: () => number): BoardState;
+  getLegalMoves(board: BoardState, player: Player, settings: RulesSettings, lastMove?: number): number[];
+  isLegalMove(board: BoardState, index: number, player: Player, settings: RulesSettings, lastMove?: number): boolean;
+  // symbol is the mover's own, except in Wild where it is whichever they picked
+  applyMove(board: BoardState, index: number, symbol: Player, settings: RulesSettings): BoardState;
+  // Who wins when mover completes a line. Lets the AI score a finished line without a full board scan.
+  resolveLine(mover: Player): Player;
+  // The finished game's winner (after any variant twist) and the line that decided it.
+  // lastMover is who made the final move; Wild needs it because a line's symbol doesn't say who made it.
+  getResult(board: BoardState, settings: RulesSettings, lastMover?: Player): GameResult;
+  // Whether the player's piece at index (placed or about to be) finishes a line under these rules.
+  // history is the game's moves so far; Decay needs it to leave out the piece about to vanish.
+  completesLine(board: BoardState, index: number, player: Player, settings: RulesSettings, history?: Move[]): boolean;
+  // The first of the candidates (every empty cell by default) that finishes a line for the player, or null
+  findWinningMove(board: BoardState, player: Player, settings: RulesSettings, candidates?: number[], history?: Move[]): number | null;
+  // Whether the mover may place either symbol (Wild)
+  freeSymbol: boolean;
+  // Whether clicks pick a column (the piece lands by itself) rather than a cell
+  columnInput: boolean;
+  // Power-ups that make no sense under these rules; they are never granted and rejected if played
+  disabledPowerUps: PowerUp[];
+  // Decay: how many pieces each player may keep, or null for no limit. applyMove only places;
+  // callers take off the piece getDecayingPiece picks and record it as Move.removed.
+  pieceLimit(settings: RulesSettings): number | null;
+}
+
+const createInitialBoard = (settings: RulesSettings, random: () => number = Math.random): BoardState => {
+  const board: BoardState = Array(settings.boardSize * settings.boardSize).fill(null);
+  return settings.obstacles ? placeObstacles(board, settings.boardSize, random, settings.obstacleLayout) : board;
+};
+
+const getEmptyCells = (board: BoardState): number[] => {
+  const moves: number[] = [];
+  for (let i = 0; i < board.length; i++) {
+    if (board[i] === null) moves.push(i);
+  }
+  return moves;
+};
+
+const placePiece = (board: BoardState, index: number, player: Player): BoardState => {
+  const next = [...board];
+  next[index] = player;
+  return next;
+};
+
+// findWinningMove for a variant whose line check is completes
+const winningMoveBy = (completes: VariantRules['completesLine']): VariantRules['findWinningMove'] =>
+  (board, player, settings, candidates, history) =>
+    findWinningMove(board, player, candidates, (b, index, p) => completes(b, index, p, settings, history));
+
+const classicLine: VariantRules['completesLine'] = (board, index, player, settings) => completesLine(board, index, player, settings);
+
+const classicRules: VariantRules = {
+  variant: GameVariant.CLASSIC,
+  createInitialBoard,
+  getLegalMoves: (board) => getEmptyCells(board),
+  isLegalMove: (board, index) => index >= 0 && index < board.length && board[index] === null,
+  applyMove: (board, index, symbol) => placePiece(board, index, symbol),
+  resolveLine: (mover) => mover,
+  getResult: (board, settings) => checkWinner(board, settings.boardSize, settings.winLength, settings.toroidal),
+  completesLine: classicLine,
+  findWinningMove: winningMoveBy(classicLine),
+  columnInput: false,
+  disabledPowerUps: [],
+  freeSymbol: false,
+  pieceLimit: () => null
+};
+
+// Misère: same board and moves, but whoever completes a line loses.
+const misereRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.MISERE,
+  resolveLine: (mover) => mover === Player.X ? Player.O : Player.X,
+  getResult: (board, settings) => {
+    const result = checkWinner(board, settings.boardSize, settings.winLength, settings.toroidal);
+    return { ...result, winner: result.winner ? resolveWinner(result.winner, GameVariant.MISERE) : null };
+  }
+};
+
+const getDropMoves = (board: BoardState, boardSize: number): number[] => {
+  const moves: number[] = [];
+  for (let column = 0; column < boardSize; column++) {
+    const index = getDropIndex(board, column, boardSize);
+    if (index !== null) moves.push(index);
+  }
+  return moves;
+};
+
+// Gravity: a move picks a column and the piece falls onto whatever is below it, obstacles included.
+// Cells sealed under an obstacle can never be reached, so the game is drawn once every column is full.
+// Destroy is off because it would leave pieces hanging in mid-air.
+const gravityRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.GRAVITY,
+  getLegalMoves: (board, _player, settings) => getDropMoves(board, settings.boardSize),
+  isLegalMove: (board, index, _player, settings) =>
+    index >= 0 && index < board.length && getDropIndex(board, index % settings.boardSize, settings.boardSize) === index,
+  getResult: (board, settings) => {
+    const result = checkWinner(board, settings.boardSize, settings.winLength, settings.toroidal);
+    if (result.winner === null && getDropMoves(board, settings.boardSize).length === 0) {
+      return { winner: 'draw', line: null };
+    }
+    return result;
+  },
+  columnInput: true,
+  disabledPowerUps: ['destroy']
+};
+
+// Ultimate: nine 3x3 boards on a 9x9 grid (see ./ultimate). Lines are only counted inside a
+// sub-board and on the meta-board, so boardSize/winLength are fixed and obstacles are never placed.
+// Destroy, Wall and Convert would rewrite decided sub-boards, so they are off.
+// The line a move can finish is the one inside its own sub-board
+const subBoardLine: VariantRules['completesLine'] = (board, index, player) => completesSubBoardLine(board, index, player);
+
+const ultimateRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.ULTIMATE,
+  createInitialBoard: () => Array(ULTIMATE_BOARD_SIZE * ULTIMATE_BOARD_SIZE).fill(null),
+  getLegalMoves: (board, _player, _settings, lastMove) => getUltimateMoves(board, lastMove),
+  isLegalMove: (board, index, _player, _settings, lastMove) =>
+    index >= 0 && index < board.length && board[index] === null && getActiveSubBoards(board, lastMove).includes(subBoardOf(index)),
+  getResult: (board) => getMetaResult(board),
+  completesLine: subBoardLine,
+  findWinningMove: winningMoveBy(subBoardLine),
+  disabledPowerUps: ['destroy', 'wall', 'convert']
+};
+
+// Wild: either player may place X or O, and whoever completes a line (of either symbol) wins.
+// Destroy and Convert target "the opponent's" pieces, which don't exist here, so they are off.
+const wildRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.WILD,
+  getResult: (board, settings, lastMover) => {
+    const result = checkWinner(board, settings.boardSize, settings.winLength, settings.toroidal);
+    if (result.winner === Player.X || result.winner === Player.O) {
+      return { ...result, winner: lastMover ? wildRules.resolveLine(lastMover) : result.winner };
+    }
+    return result;
+  },
+  disabledPowerUps: ['destroy', 'convert'],
+  freeSymbol: true
+};
+
+// Wild Misère: as Wild, but whoever completes a line loses.
+const wildMisereRules: VariantRules = {
+  ...wildRules,
+  variant: GameVariant.WILD_MISERE,
+  resolveLine: (mover) => mover === Player.X ? Player.O : Player.X,
+  getResult: (board, settings, lastMover) => {
+    const result = checkWinner(board, settings.boardSize, settings.winLength, settings.toroidal);
+    if (result.winner === Player.X || result.winner === Player.O) {
+      return { ...result, winner: lastMover ? wildMisereRules.resolveLine(lastMover) : resolveWinner(result.winner, GameVariant.MISERE) };
+    }
+    return result;
+  }
+};
+
+// Qubic: a 4x4x4 cube shown as four stacked layers (see ./qubic). Any empty cell is a legal move,
+// lines run through all three dimensions, and obstacles are never placed.
+const cubeLine: VariantRules['completesLine'] = (board, index, player, settings) => completesCubeLine(board, index, player, settings.boardSize);
+
+const qubicRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.QUBIC,
+  createInitialBoard: () => Array(QUBIC_BOARD_SIZE ** 3).fill(null),
+  getResult: (board, settings) => checkCubeWinner(board, settings.boardSize),
+  completesLine: cubeLine,
+  findWinningMove: winningMoveBy(cubeLine)
+};
+
+// Gomoku: five in a row on a 7x7 to 10x10 board (see ./gomoku). With renju on, X's forbidden
+// cells aren't legal moves. Destroy, Double and Convert would upset the stone count, so they are off.
+const isGomokuLegal = (board: BoardState, index: number, player: Player, settings: RulesSettings): boolean =>
+  board[index] === null &&
+  !(player === Player.X && (settings.gomoku ?? DEFAULT_GOMOKU_OPTIONS).renju && isRenjuForbidden(board, index, player, settings.boardSize));
+
+const gomokuLine: VariantRules['completesLine'] = (board, index, player, settings) =>
+  completesGomokuLine(board, index, player, settings.boardSize, (settings.gomoku ?? DEFAULT_GOMOKU_OPTIONS).exactFive);
+
+const gomokuRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.GOMOKU,
+  getLegalMoves: (board, player, settings) => getEmptyCells(board).filter(i => isGomokuLegal(board, i, player, settings)),
+  isLegalMove: (board, index, player, settings) => index >= 0 && index < board.length && isGomokuLegal(board, index, player, settings),
+  getResult: (board, settings) =>
+    checkGomokuWinner(board, settings.boardSize, (settings.gomoku ?? DEFAULT_GOMOKU_OPTIONS).exactFive),
+  completesLine: gomokuLine,
+  findWinningMove: winningMoveBy(gomokuLine),
+  disabledPowerUps: ['destroy', 'double', 'convert']
+};
+
+// Decay: each player keeps at most pieceLimit pieces (see ./decay), so the board never fills and
+// nobody can draw. Destroy, Wall and Convert would change the piece count, so they are off.
+const decayRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.DECAY,
+  getResult: (board, settings) => {
+    const result = checkWinner(board, settings.boardSize, settings.winLength, settings.toroidal);
+    return result.winner === 'draw' ? { winner: null, line: null } : result;
+  },
+  completesLine: (board, index, player, settings, history) => completesDecayLine(board, index, player, settings, history),
+  findWinningMove: (board, player, settings, candidates, history) => findDecayWinningMove(board, history ?? [], player, settings, candidates),
+  disabledPowerUps: ['destroy', 'wall', 'convert'],
+  pieceLimit: (settings) => getDecayLimit(settings)
+};
+
+// Fog: classic lines, but each player only sees around their own pieces (see ./fog). It is only
+// played online, where the server hides the rest. Every power-up but Undo would either read the
+// hidden board or act on cells the mover can't see, so they are off.
+const fogRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.FOG,
+  disabledPowerUps: ['hint', 'destroy', 'wall', 'double', 'convert']
+};
+
+// Hex: a hexagon of hexagonal cells with boardSize cells to a side (see ./hex). Any empty cell is a
+// legal move, lines of winLength run along the three axes, and obstacles are never placed.
+const hexLine: VariantRules['completesLine'] = (board, index, player, settings) =>
+  completesHexLine(board, index, player, settings.boardSize, settings.winLength);
+
+const hexRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.HEX,
+  createInitialBoard: (settings) => Array(getHexCellCount(settings.boardSize)).fill(null),
+  getResult: (board, settings) => checkHexWinner(board, settings.boardSize, settings.winLength),
+  completesLine: hexLine,
+  findWinningMove: winningMoveBy(hexLine)
+};
+
+// Sudden Death: classic lines on a board whose outer rings collapse into obstacles as moves go by
+// without a winner (see ./suddenDeath). Collapses are board events the caller records between
+// turns. Undo would rewind past a collapse and Destroy would reopen a collapsed cell, so they are off.
+const suddenDeathRules: VariantRules = {
+  ...classicRules,
+  variant: GameVariant.SUDDEN_DEATH,
+  disabledPowerUps: ['undo', 'destroy']
+};
+
+const VARIANT_RULES: Record<GameVariant, VariantRules> = {
+  [GameVariant.CLASSIC]: classicRules,
+  [GameVariant.MISERE]: misereRules,
+  [GameVariant.GRAVITY]: gravityRules,
+  [GameVariant.ULTIMATE]: ultimateRules,
+  [GameVariant.WILD]: wildRules,
+  [GameVariant.WILD_MISERE]: wildMisereRules,
+  [GameVariant.QUBIC]: qubicRules,
+  [GameVariant.GOMOKU]: gomokuRules,
+  [GameVariant.DECAY]: decayRules,
+  [GameVariant.FOG]: fogRules,
+  [GameVariant.HEX]: hexRules,
+  [GameVariant.SUDDEN_DEATH]: suddenDeathRules
+};
+
+export const getVariantRules = (variant?: GameVariant): VariantRules =>
+  (variant && VARIANT_RULES[variant]) || classicRules;
+
+// Whether completing a line loses under this variant
+export const isMisereVariant = (variant?: GameVariant): boolean =>
+  variant === GameVariant.MISERE || variant === GameVariant.WILD_MISERE;
+
+// Maps the owner of a completed line to the game's winner. In Misère, completing a line loses.
+export const resolveWinner = (lineOwner: Player | 'draw', variant?: GameVariant): Player | 'draw' => {
+  if (variant === GameVariant.MISERE && lineOwner !== 'draw') {
+    return lineOwner === Player.X ? Player.O : Player.X;
+  }
+  return lineOwner;
+};
@@ -0,0 +1,566 @@
+export enum GameMode {
+  AI = 'AI',
+  LOCAL = 'LOCAL',
+  ONLINE = 'ONLINE',
+  CAMPAIGN = 'CAMPAIGN',
+  TOWER = 'TOWER'
+}
+
+export enum Theme {
+  LIGHT = 'light',
+  DARK = 'dark'
+}
+
+export enum GameVariant {
+  CLASSIC = 'Classic',
+  MISERE = 'Misere',
+  GRAVITY = 'Gravity',
+  ULTIMATE = 'Ultimate',
+  WILD = 'Wild',
+  WILD_MISERE = 'WildMisere',
+  QUBIC = 'Qubic',
+  GOMOKU = 'Gomoku',
+  DECAY = 'Decay',
+  FOG = 'Fog',
+  HEX = 'Hex',
+  SUDDEN_DEATH = 'SuddenDeath'
+}
+
+export enum Difficulty {
+  EASY = 'Easy',
+  MEDIUM = 'Medium',
+  HARD = 'Hard',
+  BOSS = 'Boss'
+}
+
+export enum Player {
+  X = 'X',
+  O = 'O',
+  // The third and fourth seats of a free-for-all room. In a 2v2 game they are X's and O's
+  // second players, and place X and O pieces.
+  TRIANGLE = 'T',
+  SQUARE = 'S'
+}
+
+export type PlayerRole = Player | 'spectator';
+
+export type SquareValue = Player | 'OBSTACLE' | null;
+export type BoardState = SquareValue[];
+
+export type WinningLine = number[];
+
+export interface GameSettings {
+  boardSize: number;
+  winLength: number;
+  obstacles: boolean;
+  obstacleLayout?: ObstacleLayout; // Defaults to random
+  obstacleSeed?: string; // The seed the obstacles were laid out from, so the board can be rebuilt from it
+  toroidal?: boolean; // Lines wrap across the board's edges (not in Ultimate, Qubic or Gomoku)
+  variant: GameVariant;
+  difficulty: Difficulty;
+  startingPlayer?: 'X' | 'O' | 'random';
+  turnDuration?: number;
+  powerUps?: boolean;
+  blitzMode?: boolean;
+  blitzDuration?: number;
+  winReason?: 'standard' | 'forfeit' | 'timeout' | 'disconnect';
+  gomoku?: GomokuOptions; // Only read when variant is GOMOKU
+  decayLimit?: number; // Decay: pieces each player may keep on the board (defaults to winLength)
+  collapseInterval?: number; // Sudden Death: moves between one ring collapsing and the next (defaults to twice boardSize)
+  players?: number; // Seats at the board: 2, or 3-4 for an online free-for-all
+  ffaRule?: FfaRule; // Only read in a free-for-all
+  teams?: boolean; // 2v2: four seats, two to a side (see shared/rules/teams.ts)
+}
+
+// How a board's obstacles are arranged (see shared/rules/obstacles.ts). All but random are
+// symmetric: mirror reflects across the middle column, rotational matches each obstacle with one
+// half a turn round the centre, and cross fills the middle row and column outward from the centre.
+export type ObstacleLayout = 'random' | 'mirror' | 'rotational' | 'cross';
+
+// How a free-for-all ends. first_line: the first line wins outright. elimination: each line
+// takes the best place still open and the rest play on until one player is left.
+export type FfaRule = 'first_line' | 'elimination';
+
+// How a Gomoku game opens. Swap: the first player places two X and one O, then the other
+// player picks a side. Swap2 also lets that player place one more of each and hand the pick back.
+export type GomokuOpening = 'none' | 'swap' | 'swap2';
+
+export interface GomokuOptions {
+  exactFive: boolean; // Lines of six or more don't win
+  renju: boolean;     // X (who moves first) may not make a double-three or double-four
+  opening: GomokuOpening;
+}
+
+export interface AppPreferences {
+    lowPerformance: boolean;
+    showCoordinates: boolean;
+    haptics: boolean;
+    notifyInGame: boolean;
+    mutedConversations: Record<string, boolean>;
+    snoozeUntil: number | null;
+    notifyOnFriendRequest: boolean;
+    notifyOnChat: boolean;
+    notifyOnSystem: boolean;
+    lastRoomId: string | null;
+    streamerMode: boolean;
+    reduceMotion: boolean;
+    compactMode: boolean;
+    mfaEnabled?: boolean;
+    mfaBackupCodes?: string[];
+}
+
+export interface Quest {
+    id: string;
+    type: string;
+    description: string;
+    current: number;
+    target: number;
+    reward: number;
+    completed: boolean;
+    claimed: boolean;
+    multiplier?: number;
+}
+
+export interface PendingGift {
+    id: string;
+    senderId: string;
+    amount: number;
+}
+
+export interface Clan {
+    id: string;
+    name: string;
+    tag: string;
+    ownerId: string;
+    members: User[];
+}
+
+// Separate Glicko-2 pools so a 3x3 game never moves a blitz or big-board rating
+export type RatingPool = 'classic' | 'large' | 'blitz' | 'misere' | 'gravity' | 'ultimate' | 'wild' | 'qubic' | 'gomoku' | 'decay' | 'fog' | 'hex' | 'suddenDeath' | 'ffa' | 'teams';
+
+export interface PoolRating {
+    rating: number;
+    rd: number;          // Rating deviation: how uncertain the rating still is
+    volatility: number;
+    games: number;
+    provisional: boolean;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  displayName: string;
+  avatar: string; 
+  theme: Theme;
+  elo: number;
+  ratings?: { [key in RatingPool]?: PoolRating };
+  wins: number;
+  losses: number;
+  draws: number;
+  badges: string[]; // Array of Badge IDs
+  
+  // Customization
+  equippedTheme: string;
+  equippedSkin: string;
+  bio?: string;
+  customStatus?: string;
+  showcasedBadges?: string[];
+  preferences?: AppPreferences;
+
+  // Progress
+  xp: number;
+  level: number;
+  winStreak: number;
+  coins: number;
+  inventory: string[];
+  campaignLevel: number;
+  campaignProgress?: any;
+  questData?: {
+      lastGenerated: string;
+      quests: Quest[];
+      rerollsRemaining: number;
+      welcomeBonus?: 'available' | 'claimed';
+      pendingGifts?: PendingGift[];
+      mfaEnabled?: boolean;
+      mfaSecret?: string;
+      mfaBackupCodes?: string[];
+      preferences?: AppPreferences;
+      // New Retention Fields
+      lastDailyReward?: string; // ISO Date String
+      dailyStreak?: number;
+      prestigeLevel?: number;
+      equippedFrame?: string; // Added Frame
+      lastVisit?: string;
+      lastPasswordChange?: string;
+      lastWinAt?: string;
+      towerFloor?: number; // Infinite Tower Progress
+      // Security Rewards Tracking
+      securityRewards?: {
+          email?: boolean;
+          mfa?: boolean;
+          password?: boolean;
+      };
+  };
+  friendCode?: string;
+  status?: 'ONLINE' | 'IN_GAME' | 'OFFLINE' | 'WAITING'; // WAITING means in lobby
+  clanId?: string;
+  clan?: Clan;
+  isGuest?: boolean;
+  // Security
+  mfaEnabled?: boolean;
+  emailVerified?: boolean;
+  passwordHash?: string;
+  verificationToken?: string | null;
+  mfaSecret?: string | null;
+}
+
+export interface Move {
+    player: Player;
+    index: number; // Flat cell index; Qubic counts layer by layer and Hex row by row (see shared/rules/qubic, hex)
+    moveNumber?: number;
+    powerUp?: PowerUp; // Set when the move was made with a power-up instead of a plain placement
+    symbol?: Player; // Wild: the symbol placed, which may be the opponent's. Defaults to the mover's own.
+    removed?: number; // Decay: the mover's oldest piece, taken off the board by this placement
+    blocked?: boolean; // Fog: the cell already held a hidden piece, so the move only revealed it and lost the turn
+    collapsed?: number[]; // Sudden Death: a board event, not a move (index is -1). These empty cells of the next ring in became obstacles.
+}
+
+export interface MatchRecord {
+    id: string;
+    userId: string;
+    gameMode: GameMode;
+    winner: Player | 'draw';
+    moves: Move[];
+    date: number; // or Date string depending on usage, likely string from JSON or number from timestamp
+    gameSettings: GameSettings;
+    initialBoard?: BoardState; // boardSize² cells, or boardSize³ in Qubic
+    opponentName?: string;
+    teammateName?: string; // 2v2 games; playerRole is then the side the team played
+    playerRole?: Player;
+    winReason?: 'standard' | 'forfeit' | 'timeout' | 'disconnect';
+    xpReport?: XpReport;
+}
+
+export interface CampaignLevel {
+    id: number;
+    name: string;
+    description: string;
+    bossName: string;
+    bossAvatar: string;
+    rewardCoins: number;
+    settings: GameSettings;
+    isUnlocked: boolean;
+    isCompleted: boolean;
+    stars: number;
+    isHardMode?: boolean; // For UI rendering
+    biome?: string; // Biome theme identifier
+    unlocksItem?: string; // ID of item unlocked upon completion
+}
+
+export interface ChatMessage {
+    id: string;
+    senderId: string;
+    senderName: string;
+    senderAvatar: string;
+    senderFrame?: string; // ADDED
+    senderVerified?: boolean;
+    text: string;
+    timestamp: number;
+    type: 'user' | 'system';
+    channel?: 'game' | 'team' | 'lobby' | 'dm';
+    team?: Player; // Team messages: the side whose players can read it
+    replyTo?: {
+        id: string;
+        senderName: string;
+        text: string;
+    };
+    recipientId?: string;
+    readBy?: Record<string, number>;
+    deleted?: boolean;
+    editedAt?: number;
+    reactions?: Record<string, string[]>; // emoji -> userIds
+    giftData?: { amount: number };
+    inviteData?: { roomId: string, settings?: any };
+    replayData?: any;
+    stickerId?: string;
+}
+
+export interface Notification {
+    id: string;
+    userId?: string;
+    type: 'chat' | 'friend_request' | 'match_result' | 'system' | 'gift' | 'quest_complete';
+    title: string;
+    message: string;
+    timestamp: number;
+    read: boolean;
+    data?: any;
+}
+
+export interface WalletTransaction {
+    id: string;
+    type: string; // Ledger transaction type, e.g. 'WAGER_ANTE', 'SHOP_PURCHASE'
+    amount: number; // Signed change to the wallet
+    balanceAfter: number | null;
+    description: string;
+    metadata?: any;
+    timestamp: number;
+}
+
+export interface PlayerSeat {
+    user: User;
+    role: PlayerRole;
+    connected: boolean;
+    reconnectDeadline?: number; // Set while a seated player is away mid-game; they forfeit when it passes
+}
+
+export type WagerTier = 'bronze' | 'silver' | 'gold';
+
+export interface QueueStatus {
+    position: number;        // 1-based place in the pool, longest waiting first
+    playersInQueue: number;  // Players searching with the same tier and settings
+    waitTime: number;        // Seconds spent in queue so far
+    estimatedWait: number;   // Seconds remaining, based on recent matches
+    eloRange: number;        // Current +/- rating window
+}
+
+export interface XpReport {
+    total: number;
+    base?: number;
+    win?: number;
+    flawless?: number;
+    comeback?: number;
+    efficiency?: number;
+    elo?: number;
+    ratingPool?: RatingPool;
+    provisional?: boolean;
+    coinChange?: number;
+    firstWinBonus?: boolean;
+    place?: number; // Free-for-all finishing place, 1 being best
+}
+
+export interface Room {
+    id: string;
+    status: 'waiting' | 'playing' | 'finished' | 'confirming_wager' | 'opening' | 'choosing_side';
+    players: PlayerSeat[];
+    board: BoardState;
+    currentPlayer: Player;
+    winner: Player | 'draw' | null;
+    winningLine: WinningLine | null;
+    gameSettings: GameSettings;
+    moves: Move[];
+    chat: ChatMessage[];
+    hostId: string;
+    initialBoard: BoardState;
+    lastMoveTime?: number;
+    timeRemaining?: { [key in Player]: number };
+    winReason?: 'standard' | 'forfeit' | 'timeout' | 'disconnect';
+    isPaused?: boolean;
+    pausedAt?: number;
+    rematchRequested: { [key in Player]?: boolean };
+    rematchOffer?: { from: PlayerRole, expiresAt: number }; // Added for rematch modal
+    anteAmount: number;
+    pot: number;
+    wagerConfirmed: { [key in PlayerRole]?: boolean };
+    participants?: { [key in Player]?: User };
+    xpReport?: { [key in Player]?: XpReport };
+    doubleDown?: { offering: PlayerRole, expiresAt: number };
+    doubleDownUsed?: boolean;
+    doubleDownAction?: 'accepted' | 'declined';
+    powerUps?: PowerUps; // Remaining power-ups per seat, granted from inventory at game start
+    powerUpsUsed?: { [key in Player]?: { [key in PowerUp]?: number } };
+    opening?: OpeningState; // Set while a Gomoku Swap opening is being played out
+    openingStones?: number; // How many moves that opening placed; undo never takes them back
+    places?: { [key in Player]?: number }; // Free-for-all: finishing place of each seat that is out of play
+    obstacleCommit?: ObstacleCommit; // Set when the game has obstacles
+}
+
+// Commit-reveal for an online game's obstacles. hash is published before anyone stakes a coin and
+// serverSeed is revealed once play begins. The layout is seeded from it together with each seat's
+// clientSeed (see getObstacleSeed), so nobody can pick the board alone, and anyone can check
+// SHA-256(serverSeed) against hash and rebuild the board from gameSettings.obstacleSeed.
+export interface ObstacleCommit {
+    hash: string; // Hex SHA-256 of serverSeed
+    sealedSeed?: string; // serverSeed encrypted with the server's key until it is revealed
+    serverSeed?: string;
+    clientSeeds: { [key in Player]?: string };
+}
+
+// A Gomoku Swap/Swap2 opening. Seats keep their roles until a side is picked, so actor
+// is whoever acts next by their current role.
+export interface OpeningState {
+    protocol: Exclude<GomokuOpening, 'none'>;
+    actor: Player;
+    pending: Player[]; // Symbols the actor still has to place ('opening'), in order
+    canExtend: boolean; // Swap2's first pick may place two more stones instead and hand the pick back
+}
+
+export type SideChoice = Player | 'extend';
+
+// Authoritative clock pushed with every room update and periodically during play.
+// Clients offset their countdowns by (serverTime - local now) so everyone sees the same time.
+export interface ClockSync {
+    roomId: string;
+    serverTime: number;
+    currentPlayer: Player;
+    turnDeadline: number | null;    // When the side to move runs out (turn timer or blitz bank), null while stopped
+    timeRemaining?: { [key in Player]: number }; // Blitz banks in seconds as of the last move
+    rematchExpiresAt: number | null;
+    doubleDownExpiresAt: number | null;
+    reconnectDeadline: number | null; // Earliest forfeit deadline among disconnected seats
+}
+
+export type PowerUp = 'undo' | 'hint' | 'destroy' | 'wall' | 'double' | 'convert';
+
+export type PowerUps = {
+    [key in Player]: {
+        [key in PowerUp]?: boolean;
+    };
+};
+
+export interface MoveAnalysis {
+    move: number;
+    symbol?: Player; // Wild: which symbol to place on move
+    reason: string;
+    score?: number;
+}
+
+export interface Friendship {
+    id: string;
+    senderId: string;
+    receiverId: string;
+    status: 'PENDING' | 'ACCEPTED' | 'BLOCKED';
+    sender: User;
+    receiver: User;
+    createdAt: string;
+}
+
+export interface UserProgress {
+    coins: number;
+    inventory: string[];
+    campaignLevel: number;
+    campaignProgress: Record<number, { stars: number }>;
+    quests: Quest[];
+    lastQuestGeneration: string;
+    rerollsRemaining: number;
+    dailyStreak?: number;
+    lastDailyReward?: string;
+    prestigeLevel?: number;
+    dailyShop?: string[];
+    towerFloor?: number; // Added
+}
+
+export interface ShopItem {
+    id: string;
+    name?: string;
+    type: 'avatar' | 'theme' | 'skin' | 'powerup' | 'frame';
+    cost: number;
+    assetId: string;
+    owned: boolean;
+    description?: string;
+    colors?: string[];
+    bgGradient?: string;
+    isDailyDeal?: boolean;
+    discountedCost?: number;
+    unlockLevel?: number;
+}
+
+export interface Badge {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    color?: string;
+    border?: string;
+}
+
+export interface AuthContextType {
+    currentUser: User | null;
+    isLoading: boolean;
+    login: (email: string, password: string) => Promise<any>; 
+    register: (email: string, password: string) => Promise<void>;
+    logout: () => void;
+    updateUser: (updates: Partial<User>) => Promise<void>;
+    deleteAccount: () => Promise<void>;
+}
+
+export interface AppContextType {
+    theme: Theme;
+    toggleTheme: () => void;
+    goHome: () => void;
+    soundEnabled: boolean;
+    toggleSound: () => void;
+    preferences: AppPreferences;
+    updatePreferences: (updates: Partial<AppPreferences>) => void;
+    coins: number;
+    refreshCoins: () => void;
+    equippedSkin: string;
+    equippedTheme: string;
+    refreshUser: () => void;
+    watchReplayById: (matchId: string) => void;
+}
+
+// Socket Events
+export interface ClientToServerEvents {
+    createRoom: (data: { settings: Partial<GameSettings>, wagerTier: WagerTier }, callback: (res: { success: boolean; roomId?: string; error?: string }) => void) => void;
+    joinRoom: (roomId: string, options: { asSpectator?: boolean }, callback: (res: { success: boolean; error?: string }) => void) => void;
+    leaveRoom: (roomId: string) => void;
+    makeMove: (data: { roomId: string, index: number, symbol?: Player }, callback: (res: { success: boolean; error?: string }) => void) => void;
+    usePowerUp: (data: { roomId: string, powerUp: PowerUp, index?: number }, callback: (res: { success: boolean; error?: string; hintIndex?: number | null }) => void) => void;
+    sendChat: (data: { roomId: string, text: string, replyTo?: any, channel?: 'game' | 'team' }) => void;
+    sendEmote: (data: { roomId: string, emoji: string }) => void;
+    startGame: (roomId: string) => void;
+    switchTeam: (roomId: string) => void;
+    requestRematch: (roomId: string, clientSeed?: string) => void; // clientSeed: the sender's share of the next obstacle seed
+    declineRematch: (roomId: string) => void;
+    sendInvite: (friendId: string, roomId: string) => void;
+    confirmWager: (roomId: string, clientSeed?: string) => void; // clientSeed: the sender's share of the obstacle seed
+    chooseSide: (data: { roomId: string, choice: SideChoice }, callback: (res: { success: boolean; error?: string }) => void) => void;
+    doubleDownRequest: (roomId: string) => void;
+    doubleDownResponse: (roomId: string, accepted: boolean) => void;
+    claimTimeout: (roomId: string) => void;
+    joinLobby: () => void;
+    leaveLobby: () => void;
+    sendLobbyChat: (data: { text: string, replyTo?: any, stickerId?: string }) => void;
+    sendDirectMessage: (data: { toUserId: string, text: string, replyTo?: any, replayData?: any, stickerId?: string }) => void;
+    editMessage: (data: { channel: 'dm' | 'game', targetId: string, messageId: string, newText: string }) => void;
+    deleteMessage: (data: { channel: 'dm' | 'game', targetId: string, messageId: string }) => void;
+    sendReaction: (data: { channel: 'dm' | 'game', targetId: string, messageId: string, emoji: string }) => void;
+    markConversationAsRead: (partnerId: string) => void;
+    typing: (data: { channel: 'game' | 'team' | 'lobby' | 'dm', roomId?: string, toUserId?: string }) => void;
+    stopTyping: (data: { channel: 'game' | 'team' | 'lobby' | 'dm', roomId?: string, toUserId?: string }) => void;
+    requestFriendStatuses: () => void;
+    getRooms: () => void;
+    joinQueue: (data: { settings: Partial<GameSettings>, wagerTier: WagerTier }, callback: (res: { success: boolean; status?: QueueStatus; error?: string }) => void) => void;
+    leaveQueue: () => void;
+}
+
+export interface ServerToClientEvents {
+    roomUpdate: (room: Room) => void;
+    chatMessage: (msg: ChatMessage) => void;
+    emote: (data: { senderId: string, emoji: string }) => void;
+    gameReset: (room: Room) => void;
+    rematchDeclined: () => void;
+    inviteReceived: (data: { hostName: string, roomId: string }) => void;
+    newNotification: (notification: Notification) => void;
+    walletUpdate: (data: { newBalance: number }) => void;
+    questUpdate: (data: { quests: Quest[] }) => void;
+    masteryUnlocked: (data: { name: string, description: string, icon: string }) => void;
+    roomsList: (rooms: Room[]) => void;
+    friendStatus: (data: { userId: string, status: 'ONLINE' | 'IN_GAME' | 'OFFLINE' | 'WAITING' }) => void;
+    lobbyChatMessage: (msg: ChatMessage) => void;
+    directMessage: (msg: ChatMessage) => void;
+    messageUpdated: (data: { channel: string, targetId: string, message: ChatMessage }) => void;
+    messageDeleted: (data: { channel: string, targetId: string, messageId: string }) => void;
+    reactionUpdate: (data: { channel: string, targetId: string, messageId: string, reactions: ChatMessage['reactions'] }) => void;
+    messagesRead: (data: { conversationPartnerId: string, readByUserId: string, readAt: number, partnerId?: string }) => void;
+    userTyping: (data: { userId: string, displayName: string, channel: string, roomId?: string }) => void;
+    userStoppedTyping: (data: { userId: string, channel: string, roomId?: string }) => void;
+    friendRequestReceived: (data: { requestId: string, sender: { id: string, displayName: string, avatar: string } }) => void;
+    friendRequestResponse: (data: { message: string, type: 'accept' | 'reject' }) => void;
+    rematchOffer: () => void; 
+    globalBroadcast: (data: { message: string, type: 'jackpot' | 'rank_up' | 'drop' }) => void;
+    queueUpdate: (status: QueueStatus) => void;
+    queueLeft: (data: { reason: string }) => void;
+    matchFound: (data: { roomId: string, opponentName: string }) => void;
+    clockSync: (data: ClockSync) => void;
+}
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { RatingPool, User } from '../types';
 
 export interface BadgeDef {
     id: string;
@@ -49,3 +50,25 @@ export const getRank = (elo: number): RankDef => {
     // Returns the highest rank for the given ELO
     return [...RANKS].reverse().find(r => elo >= r.minElo) || RANKS[0];
 };
+
+export const RATING_POOL_LABELS: Record<RatingPool, string> = {
+    classic: 'Classic 3x3',
+    large: 'Large Board',
+    blitz: 'Blitz',
+    misere: 'Misère',
+    gravity: 'Gravity',
+    ultimate: 'Ultimate',
+    wild: 'Wild',
+    qubic: 'Qubic',
+    gomoku: 'Gomoku',
+    decay: 'Decay',
+    fog: 'Fog',
+    hex: 'Hex',
+    suddenDeath: 'Sudden Death',
+    ffa: 'Free-for-All',
+    teams: '2v2 Teams'
+};
+
+// A player's rating in one pool. Pools they have never played fall back to their headline rating.
+export const getPoolElo = (user: Pick<User, 'elo' | 'ratings'>, pool: RatingPool): number =>
+    user.ratings?.[pool]?.rating ?? user.elo;
@@ -0,0 +1,17 @@
+import { BoardState, GameSettings, ObstacleCommit } from '../types';
+import { createSeededRandom, getObstacleSeed, getSeats, getVariantRules } from '../shared/rules';
+
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Checks a revealed commitment: the server's seed hashes to what it published before the game,
+// the game's seed is that and every seat's share, and the seed gives the board the game started on.
+export const verifyObstacleCommit = async (commit: ObstacleCommit, settings: GameSettings, initialBoard: BoardState): Promise<boolean> => {
+    if (!commit.serverSeed || await sha256(commit.serverSeed) !== commit.hash) return false;
+    const seed = getObstacleSeed(commit.serverSeed, commit.clientSeeds, getSeats(settings));
+    if (settings.obstacleSeed !== seed) return false;
+    const board = getVariantRules(settings.variant).createInitialBoard(settings, createSeededRandom(seed));
+    return board.every((cell, i) => cell === initialBoard[i]);
+};